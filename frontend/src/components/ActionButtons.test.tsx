@@ -12,6 +12,7 @@ import { ActionButtons } from './ActionButtons';
  *   test_refs:
  *     - TEST-web-dashboard-4
  *     - TEST-web-dashboard-6
+ *     - TEST-admin-api-7
  */
 
 describe('ActionButtons', () => {
@@ -41,6 +42,94 @@ describe('ActionButtons', () => {
     expect(screen.getByText(/Sync triggered/i)).toBeTruthy();
   });
 
+  const job = (overrides: Record<string, unknown> = {}) => ({
+    id: 'job-1',
+    type: 'resync',
+    status: 'queued',
+    phase: 'queued',
+    filesDone: 0,
+    filesTotal: null,
+    errors: [],
+    createdAt: '2025-11-15T00:00:00Z',
+    updatedAt: '2025-11-15T00:00:00Z',
+    finishedAt: null,
+    ...overrides,
+  });
+
+  const jsonResponse = (body: unknown, status = 200) => ({
+    ok: status < 400,
+    status,
+    json: async () => body,
+  });
+
+  it('polls the resync job until it completes', async () => {
+    const user = userEvent.setup();
+    const refreshSpy = vi.fn();
+
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({ success: true, jobId: 'job-1', job: job() }, 202))
+      .mockResolvedValueOnce(
+        jsonResponse(job({ status: 'running', phase: 'processing', filesDone: 5, filesTotal: 10 }))
+      )
+      .mockResolvedValueOnce(
+        jsonResponse(
+          job({ status: 'completed', phase: 'done', filesDone: 10, filesTotal: 10, finishedAt: 'x' })
+        )
+      );
+
+    vi.stubGlobal('fetch', fetchMock);
+
+    render(<ActionButtons onRefresh={refreshSpy} isSyncing={false} pollIntervalMs={1} />);
+
+    await user.click(screen.getByRole('button', { name: /Trigger Manual Sync/i }));
+
+    await waitFor(() => expect(screen.getByText(/Resync completed: 10 files/i)).toBeTruthy());
+    expect(fetchMock).toHaveBeenCalledWith('/admin/jobs/job-1', expect.anything());
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(refreshSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('shows the error of a failed resync job', async () => {
+    const user = userEvent.setup();
+
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({ success: true, jobId: 'job-1', job: job() }, 202))
+      .mockResolvedValueOnce(
+        jsonResponse(job({ status: 'failed', error: 'Drive unavailable', finishedAt: 'x' }))
+      );
+
+    vi.stubGlobal('fetch', fetchMock);
+
+    render(<ActionButtons onRefresh={vi.fn()} isSyncing={false} pollIntervalMs={1} />);
+
+    await user.click(screen.getByRole('button', { name: /Trigger Manual Sync/i }));
+
+    await waitFor(() => expect(screen.getByText(/Resync failed: Drive unavailable/i)).toBeTruthy());
+  });
+
+  it('stops polling when the rest of the resync continues on scheduled runs', async () => {
+    const user = userEvent.setup();
+
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({ success: true, jobId: 'job-1', job: job() }, 202))
+      .mockResolvedValueOnce(
+        jsonResponse(job({ status: 'running', phase: 'waiting', filesDone: 200, filesTotal: 500 }))
+      );
+
+    vi.stubGlobal('fetch', fetchMock);
+
+    render(<ActionButtons onRefresh={vi.fn()} isSyncing={false} pollIntervalMs={1} />);
+
+    await user.click(screen.getByRole('button', { name: /Trigger Manual Sync/i }));
+
+    await waitFor(() => expect(screen.getByText(/continues on scheduled runs/i)).toBeTruthy());
+    expect(screen.getByText(/Synced 200 \/ 500 files/i)).toBeTruthy();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
   it('calls refresh handler when pressing Refresh Now', async () => {
     const user = userEvent.setup();
     const refreshSpy = vi.fn();
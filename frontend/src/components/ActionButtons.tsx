@@ -1,22 +1,89 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { JOB_POLLING_INTERVAL_MS } from '../config/constants';
+import type { SyncJob } from '../types/api';
+import { SyncJobSchema } from '../types/api';
+import { fetchJson } from '../utils/api-client';
+import { formatNumber } from '../utils/format';
 
 /**
  * Trace:
- *   spec_id: SPEC-web-dashboard-1
+ *   spec_id: SPEC-web-dashboard-1, SPEC-admin-api-1
  *   task_id: TASK-030
  */
 
 interface ActionButtonsProps {
   onRefresh: () => Promise<void> | void;
   isSyncing: boolean;
+  pollIntervalMs?: number;
 }
 
-export function ActionButtons({ onRefresh, isSyncing }: ActionButtonsProps) {
+/**
+ * Jobs in the "waiting" phase continue on scheduled runs, so polling stops there
+ */
+function isJobActive(job: SyncJob): boolean {
+  return (job.status === 'queued' || job.status === 'running') && job.phase !== 'waiting';
+}
+
+function describeJob(job: SyncJob): string {
+  const files = `${formatNumber(job.filesDone)} / ${formatNumber(job.filesTotal)} files`;
+  const errors = job.errors.length > 0 ? ` (${job.errors.length} errors)` : '';
+
+  if (job.status === 'failed') {
+    return `Resync failed: ${job.error || 'unknown error'}`;
+  }
+  if (job.status === 'completed') {
+    return `Resync completed: ${formatNumber(job.filesDone)} files${errors}`;
+  }
+
+  switch (job.phase) {
+    case 'queued':
+      return 'Resync queued...';
+    case 'listing':
+      return 'Listing Drive files...';
+    case 'waiting':
+      return `Synced ${files}${errors}; the rest continues on scheduled runs`;
+    default:
+      return `Processing ${files}${errors}...`;
+  }
+}
+
+export function ActionButtons({
+  onRefresh,
+  isSyncing,
+  pollIntervalMs = JOB_POLLING_INTERVAL_MS,
+}: ActionButtonsProps) {
   const [message, setMessage] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [job, setJob] = useState<SyncJob | null>(null);
+  const isJobRunning = job !== null && isJobActive(job);
+
+  useEffect(() => {
+    if (!job || !isJobActive(job)) {
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const next = await fetchJson(`/admin/jobs/${job.id}`, undefined, SyncJobSchema);
+        setJob(next);
+
+        if (!isJobActive(next)) {
+          setMessage(describeJob(next));
+          await onRefresh();
+        }
+      } catch (error) {
+        setJob(null);
+        setMessage((error as Error).message);
+      }
+    }, pollIntervalMs);
+
+    return () => clearTimeout(timer);
+  }, [job, onRefresh, pollIntervalMs]);
+
   const executeManualSync = async () => {
     setIsSubmitting(true);
     setMessage(null);
+    setJob(null);
 
     try {
       const response = await fetch('/admin/resync', {
@@ -32,6 +99,14 @@ export function ActionButtons({ onRefresh, isSyncing }: ActionButtonsProps) {
         throw new Error(payload.message || payload.error || `Manual sync failed (${response.status})`);
       }
 
+      // 202: the resync runs in the background; poll its job until it settles
+      if (response.status === 202) {
+        const payload = await response.json();
+        setJob(SyncJobSchema.parse(payload.job));
+        setMessage('Sync started. Tracking progress...');
+        return;
+      }
+
       setMessage('Sync triggered successfully. Refreshing status...');
       await onRefresh();
     } catch (error) {
@@ -42,7 +117,7 @@ export function ActionButtons({ onRefresh, isSyncing }: ActionButtonsProps) {
   };
 
   const triggerManualSync = async () => {
-    if (isSyncing || isSubmitting) {
+    if (isSyncing || isSubmitting || isJobRunning) {
       return;
     }
 
@@ -60,9 +135,9 @@ export function ActionButtons({ onRefresh, isSyncing }: ActionButtonsProps) {
       <p className="text-sm text-base-content/70">Trigger a manual sync or refresh dashboard data.</p>
       <div className="flex flex-wrap gap-3">
         <button
-          className={`btn btn-primary ${isSubmitting ? 'loading' : ''}`}
+          className={`btn btn-primary ${isSubmitting || isJobRunning ? 'loading' : ''}`}
           onClick={triggerManualSync}
-          disabled={isSyncing || isSubmitting}
+          disabled={isSyncing || isSubmitting || isJobRunning}
         >
           Trigger Manual Sync
         </button>
@@ -70,7 +145,20 @@ export function ActionButtons({ onRefresh, isSyncing }: ActionButtonsProps) {
           Refresh Now
         </button>
       </div>
-      {isSyncing && <div className="text-warning text-sm">Sync currently in progress...</div>}
+      {isSyncing && !isJobRunning && (
+        <div className="text-warning text-sm">Sync currently in progress...</div>
+      )}
+      {job && isJobRunning && (
+        <div className="space-y-1">
+          <progress
+            className="progress progress-primary w-full"
+            aria-label="Resync progress"
+            value={job.filesTotal ? job.filesDone : undefined}
+            max={job.filesTotal || undefined}
+          />
+          <div className="text-sm">{describeJob(job)}</div>
+        </div>
+      )}
       {message && (
         <div role="status" className="alert alert-info text-sm">
           {message}
@@ -10,6 +10,11 @@
  */
 export const POLLING_INTERVAL_MS = 30_000;
 
+/**
+ * Polling interval for a running manual resync job (in milliseconds)
+ */
+export const JOB_POLLING_INTERVAL_MS = 2_000;
+
 /**
  * Default number of days of sync history to display in charts
  */
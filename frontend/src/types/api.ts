@@ -2,6 +2,26 @@
 import { z } from 'zod';
 
 // Zod schemas for runtime validation
+export const SyncSourceStatusSchema = z.object({
+  label: z.string(),
+  rootFolderId: z.string(),
+  driveId: z.string().nullable(),
+  hasStartPageToken: z.boolean(),
+  lastSyncTime: z.string().nullable(),
+  filesProcessed: z.number(),
+  errorCount: z.number(),
+  lastError: z.string().nullable(),
+  totalFilesInDrive: z.number().nullable(),
+});
+
+export const FullSyncProgressSchema = z.object({
+  startedAt: z.string(),
+  updatedAt: z.string(),
+  processedFiles: z.number(),
+  totalFiles: z.number(),
+  errors: z.number(),
+});
+
 export const SyncStatusSchema = z.object({
   status: z.literal('ok'),
   lastSyncTime: z.string().nullable(),
@@ -12,6 +32,22 @@ export const SyncStatusSchema = z.object({
   nextScheduledSync: z.string().nullable(),
   lastSyncDuration: z.number().nullable(),
   totalFilesInDrive: z.number().nullable(),
+  sources: z.array(SyncSourceStatusSchema).optional(),
+  fullSync: FullSyncProgressSchema.nullable().optional(),
+});
+
+export const SyncJobSchema = z.object({
+  id: z.string(),
+  type: z.literal('resync'),
+  status: z.enum(['queued', 'running', 'completed', 'failed']),
+  phase: z.enum(['queued', 'listing', 'processing', 'waiting', 'done']),
+  filesDone: z.number(),
+  filesTotal: z.number().nullable(),
+  errors: z.array(z.string()),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  finishedAt: z.string().nullable(),
+  error: z.string().optional(),
 });
 
 export const SyncStatsSchema = z.object({
@@ -44,6 +80,9 @@ export const SyncHistoryResponseSchema = z.object({
 
 // TypeScript types inferred from schemas
 export type SyncStatus = z.infer<typeof SyncStatusSchema>;
+export type SyncSourceStatus = z.infer<typeof SyncSourceStatusSchema>;
+export type FullSyncProgress = z.infer<typeof FullSyncProgressSchema>;
+export type SyncJob = z.infer<typeof SyncJobSchema>;
 export type SyncStats = z.infer<typeof SyncStatsSchema>;
 export type SyncHistoryEntry = z.infer<typeof SyncHistoryEntrySchema>;
 export type HealthCheck = z.infer<typeof HealthCheckSchema>;
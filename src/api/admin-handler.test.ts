@@ -8,10 +8,29 @@
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { AdminHandler } from './admin-handler';
-import { SyncOrchestrator, SyncResult } from '../sync/sync-orchestrator';
-import { KVStateManager, SyncState } from '../state/kv-state-manager';
+import {
+  ReconcileOptions,
+  ReconcileReport,
+  SyncOrchestrator,
+  SyncResult,
+} from '../sync/sync-orchestrator';
+import {
+  FullSyncCursor,
+  KVStateManager,
+  SourceSyncState,
+  SyncState,
+} from '../state/kv-state-manager';
 import { VectorStoreClient } from '../types/vector-store';
 import { DriveClient } from '../drive/drive-client';
+import { SyncSource } from '../drive/sync-source';
+import { SearchService, SearchHit } from '../search/search-service';
+import { AnswerService, Citation } from '../search/answer-service';
+import { FailedFile, FailureStore } from '../state/failure-store';
+import { SyncLockInfo, SyncLockProvider, acquireLockRecord } from '../state/sync-lock';
+import { SyncJob, SyncJobStore } from '../state/job-store';
+import { EmbeddingIndexStore, EmbeddingMigration } from '../state/embedding-index-store';
+import { EmbeddingClient } from '../embedding/embedding-client';
+import { MockKVNamespace } from '../test-utils/mock-kv-namespace';
 
 // Define response types for better type safety
 interface AdminStatusResponse {
@@ -34,6 +53,12 @@ interface AdminResyncResponse {
   result: SyncResult;
 }
 
+interface AdminSearchResponse {
+  query: string;
+  results: SearchHit[];
+  count: number;
+}
+
 interface AdminErrorResponse {
   error: string;
   message?: string;
@@ -54,11 +79,11 @@ class MockSyncOrchestrator {
     this.fullSyncResult = result;
   }
 
-  async runFullSync(_rootFolderId: string): Promise<SyncResult> {
+  async runFullSync(_sources: SyncSource[]): Promise<SyncResult> {
     return this.fullSyncResult;
   }
 
-  async runIncrementalSync(_rootFolderId: string): Promise<SyncResult> {
+  async runIncrementalSync(_sources: SyncSource[]): Promise<SyncResult> {
     return {
       filesProcessed: 2,
       vectorsUpserted: 10,
@@ -67,6 +92,26 @@ class MockSyncOrchestrator {
       duration: 1000,
     };
   }
+
+  retryFailedFile = vi.fn(async (_fileId: string): Promise<number | null> => 12);
+
+  reindexFile = vi.fn(async (_fileId: string, _sources: SyncSource[]): Promise<number | null> => 8);
+
+  purgeFile = vi.fn(async (_fileId: string): Promise<void> => {});
+
+  reconcile = vi.fn(
+    async (_sources: SyncSource[], options: ReconcileOptions = {}): Promise<ReconcileReport> => ({
+      dryRun: options.dryRun === true,
+      filesInDrive: 3,
+      filesInIndex: 3,
+      orphanedFiles: ['gone'],
+      missingFiles: ['new'],
+      danglingVectors: 0,
+      vectorCount: { tracked: 12, actual: 10 },
+      nextCursor: null,
+      duration: 50,
+    })
+  );
 }
 
 class MockKVStateManager {
@@ -76,16 +121,31 @@ class MockKVStateManager {
     filesProcessed: 100,
     errorCount: 5,
   };
-  private locked = false;
+  fullSyncCursor: FullSyncCursor | null = null;
 
   setState(state: SyncState) {
     this.state = { ...state };
   }
 
+  async getFullSyncCursor(): Promise<FullSyncCursor | null> {
+    return this.fullSyncCursor;
+  }
+
   async getState(): Promise<SyncState> {
     return { ...this.state };
   }
 
+  async getSourceState(sourceLabel: string): Promise<SourceSyncState> {
+    return (
+      this.state.sources?.[sourceLabel] ?? {
+        startPageToken: sourceLabel === 'default' ? this.state.startPageToken : null,
+        lastSyncTime: this.state.lastSyncTime,
+        filesProcessed: 0,
+        errorCount: 0,
+      }
+    );
+  }
+
   async clearState(): Promise<void> {
     this.state = {
       startPageToken: null,
@@ -95,20 +155,6 @@ class MockKVStateManager {
     };
   }
 
-  async acquireLock(): Promise<boolean> {
-    if (this.locked) return false;
-    this.locked = true;
-    return true;
-  }
-
-  async releaseLock(): Promise<void> {
-    this.locked = false;
-  }
-
-  async isLocked(): Promise<boolean> {
-    return this.locked;
-  }
-
   async updateSyncDuration(duration: number): Promise<void> {
     this.state.lastSyncDuration = duration;
   }
@@ -154,24 +200,133 @@ class MockDriveClient {
     this.totalFileCount = count;
   }
 
-  async getTotalFileCount(_rootFolderId: string): Promise<number> {
+  async getTotalFileCount(_rootFolderId: string, _driveId?: string): Promise<number> {
     return this.totalFileCount;
   }
 }
 
+class MockSearchService {
+  private hits: SearchHit[] = [
+    {
+      id: 'file1_0',
+      score: 0.87,
+      file_id: 'file1',
+      file_name: 'weekly.md',
+      file_path: 'reports/weekly.md',
+      chunk_index: 0,
+      last_modified: '2025-11-13T00:00:00Z',
+      snippet: 'Weekly report',
+    },
+  ];
+
+  search = vi.fn(async (_query: string, _options?: { topK?: number }) => this.hits);
+  supportsKeywordSearch = vi.fn(() => true);
+}
+
+class MockAnswerService {
+  private citations: Citation[] = [
+    {
+      index: 1,
+      file_id: 'file1',
+      file_name: 'weekly.md',
+      file_path: 'reports/weekly.md',
+      chunk_index: 0,
+      score: 0.87,
+      drive_url: 'https://drive.google.com/file/d/file1/view',
+    },
+  ];
+
+  answer = vi.fn(async (_question: string, _options?: unknown) => ({
+    answer: 'Shipped on Friday [1].',
+    citations: this.citations,
+    model: 'gpt-4o-mini',
+  }));
+
+  streamAnswer = vi.fn(async (_question: string, _options?: unknown) => ({
+    citations: this.citations,
+    model: 'gpt-4o-mini',
+    tokens: (async function* (): AsyncGenerator<string> {
+      yield 'Shipped ';
+      yield 'on Friday [1].';
+    })(),
+  }));
+}
+
+class MockSyncLock implements SyncLockProvider {
+  lock: SyncLockInfo | null = null;
+
+  async acquire(ownerId: string): Promise<boolean> {
+    const next = acquireLockRecord(this.lock, ownerId);
+    this.lock = next || this.lock;
+    return next !== null;
+  }
+
+  async heartbeat(_ownerId: string): Promise<boolean> {
+    return this.lock !== null;
+  }
+
+  async release(ownerId: string): Promise<boolean> {
+    if (this.lock?.ownerId !== ownerId) return false;
+    this.lock = null;
+    return true;
+  }
+
+  async forceRelease(): Promise<SyncLockInfo | null> {
+    const lock = this.lock;
+    this.lock = null;
+    return lock;
+  }
+
+  async getLock(): Promise<SyncLockInfo | null> {
+    return this.lock;
+  }
+}
+
+class MockFailureStore {
+  failure: FailedFile = {
+    fileId: 'file-1',
+    file: {
+      id: 'file-1',
+      name: 'broken.md',
+      path: 'notes/broken.md',
+      mimeType: 'text/markdown',
+      modifiedTime: '2025-11-14T00:00:00Z',
+      source: 'default',
+    },
+    errorCode: 'DRIVE_ERROR',
+    errorMessage: 'Download failed',
+    attempts: 2,
+    firstFailedAt: '2025-11-14T00:00:00Z',
+    lastAttemptAt: '2025-11-14T01:00:00Z',
+    nextRetryAt: '2025-11-14T02:00:00Z',
+  };
+
+  listFailures = vi.fn(async (): Promise<FailedFile[]> => [this.failure]);
+  getFailure = vi.fn(async (_fileId: string): Promise<FailedFile | null> => this.failure);
+}
+
 describe('AdminHandler', () => {
   let handler: AdminHandler;
   let orchestrator: MockSyncOrchestrator;
   let stateManager: MockKVStateManager;
+  let lock: MockSyncLock;
   let vectorClient: MockVectorClient;
   let driveClient: MockDriveClient;
+  let searchService: MockSearchService;
+  let answerService: MockAnswerService;
+  let failureStore: MockFailureStore;
   const rootFolderId = 'root-folder-123';
+  const sources: SyncSource[] = [{ label: 'default', rootFolderId }];
 
   beforeEach(() => {
     orchestrator = new MockSyncOrchestrator();
     stateManager = new MockKVStateManager();
+    lock = new MockSyncLock();
     vectorClient = new MockVectorClient();
     driveClient = new MockDriveClient();
+    searchService = new MockSearchService();
+    answerService = new MockAnswerService();
+    failureStore = new MockFailureStore();
 
     // Create a dummy request for AdminHandler constructor
     const dummyRequest = new Request('http://localhost');
@@ -179,10 +334,16 @@ describe('AdminHandler', () => {
     handler = new AdminHandler(
       orchestrator as unknown as SyncOrchestrator,
       stateManager as unknown as KVStateManager,
+      lock,
       vectorClient as unknown as VectorStoreClient,
       driveClient as unknown as DriveClient,
-      rootFolderId,
-      dummyRequest
+      sources,
+      dummyRequest,
+      {
+        search: searchService as unknown as SearchService,
+        ask: answerService as unknown as AnswerService,
+        failures: failureStore as unknown as FailureStore,
+      }
     );
   });
 
@@ -258,12 +419,12 @@ describe('AdminHandler', () => {
       const response = await handler.handleRequest(request);
 
       expect(response.status).toBe(200);
-      expect(await stateManager.isLocked()).toBe(false); // Should be released after
+      expect(await lock.getLock()).toBeNull(); // Should be released after
     });
 
     it('should return 409 if sync already running', async () => {
       // Acquire lock first
-      await stateManager.acquireLock();
+      await lock.acquire('cron:running');
 
       const request = new Request('http://localhost/admin/resync', {
         method: 'POST',
@@ -320,6 +481,28 @@ describe('AdminHandler', () => {
       expect(data.result.vectorsUpserted).toBe(100);
     });
 
+    it('should report files left for scheduled runs when the resync is checkpointed', async () => {
+      orchestrator.setFullSyncResult({
+        filesProcessed: 200,
+        vectorsUpserted: 800,
+        vectorsDeleted: 0,
+        errors: 0,
+        duration: 60000,
+        pendingFiles: 300,
+      });
+
+      const request = new Request('http://localhost/admin/resync', {
+        method: 'POST',
+      });
+
+      const response = await handler.handleRequest(request);
+      const data = (await response.json()) as AdminResyncResponse;
+
+      expect(response.status).toBe(200);
+      expect(data.message).toContain('300 files continue');
+      expect(data.result.pendingFiles).toBe(300);
+    });
+
     it('should release lock even if sync fails', async () => {
       // Mock orchestrator to throw error
       orchestrator.runFullSync = vi.fn().mockRejectedValue(new Error('Sync failed'));
@@ -331,11 +514,78 @@ describe('AdminHandler', () => {
       await handler.handleRequest(request);
 
       // Lock should be released
-      expect(await stateManager.isLocked()).toBe(false);
+      expect(await lock.getLock()).toBeNull();
     });
   });
 
   describe('GET /admin/status', () => {
+    it('should report the next scheduled sync from the configured schedules', async () => {
+      const scheduledHandler = new AdminHandler(
+        orchestrator as unknown as SyncOrchestrator,
+        stateManager as unknown as KVStateManager,
+        lock,
+        vectorClient as unknown as VectorStoreClient,
+        driveClient as unknown as DriveClient,
+        sources,
+        new Request('http://localhost'),
+        {
+          schedules: [
+            { cron: '0 * * * *', mode: 'incremental' },
+            { cron: '*/10 * * * *', mode: 'continuation' },
+          ],
+        }
+      );
+
+      const response = await scheduledHandler.handleRequest(
+        new Request('http://localhost/admin/status')
+      );
+      const data = (await response.json()) as {
+        nextScheduledSync: string;
+        schedules: { cron: string; mode: string; nextRun: string }[];
+      };
+
+      // Hourly incremental runs come before the next full hour; continuation ticks are skipped
+      const nextHour = new Date(Math.floor(Date.now() / 3_600_000) * 3_600_000 + 3_600_000);
+      expect(data.nextScheduledSync).toBe(nextHour.toISOString());
+      expect(data.schedules.map(schedule => schedule.mode)).toEqual([
+        'incremental',
+        'continuation',
+      ]);
+    });
+
+    it('TEST-state-management-6: should report progress of an unfinished full sync', async () => {
+      stateManager.fullSyncCursor = {
+        startedAt: '2025-11-14T00:00:00Z',
+        updatedAt: '2025-11-14T00:05:00Z',
+        sourceLabels: ['default'],
+        startPageTokens: { default: 'token-1' },
+        totalFiles: 500,
+        offset: 200,
+        filesProcessed: 198,
+        vectorsUpserted: 800,
+        errors: ['Download failed', 'Export failed'],
+        elapsedMs: 300000,
+      };
+
+      const response = await handler.handleRequest(new Request('http://localhost/admin/status'));
+      const data = (await response.json()) as { fullSync: Record<string, unknown> | null };
+
+      expect(data.fullSync).toEqual({
+        startedAt: '2025-11-14T00:00:00Z',
+        updatedAt: '2025-11-14T00:05:00Z',
+        processedFiles: 200,
+        totalFiles: 500,
+        errors: 2,
+      });
+    });
+
+    it('should report no full sync in progress', async () => {
+      const response = await handler.handleRequest(new Request('http://localhost/admin/status'));
+      const data = (await response.json()) as { fullSync: unknown };
+
+      expect(data.fullSync).toBeNull();
+    });
+
     it('should return current sync state', async () => {
       stateManager.setState({
         startPageToken: 'current-token',
@@ -445,9 +695,68 @@ describe('AdminHandler', () => {
       };
 
       expect(response.status).toBe(200);
-      expect(spy).toHaveBeenCalledWith(rootFolderId);
+      expect(spy).toHaveBeenCalledWith(rootFolderId, undefined);
       expect(data.totalFilesInDrive).toBe(1234);
     });
+
+    it('TEST-drive-integration-9: should report status per sync source', async () => {
+      stateManager.setState({
+        startPageToken: null,
+        lastSyncTime: '2025-11-14T00:00:00Z',
+        filesProcessed: 12,
+        errorCount: 1,
+        sources: {
+          notes: {
+            startPageToken: 'notes-token',
+            lastSyncTime: '2025-11-14T00:00:00Z',
+            filesProcessed: 12,
+            errorCount: 0,
+          },
+          team: {
+            startPageToken: null,
+            lastSyncTime: null,
+            filesProcessed: 0,
+            errorCount: 1,
+            lastError: 'File not found: 0ATeam',
+          },
+        },
+      });
+      const multiSourceHandler = new AdminHandler(
+        orchestrator as unknown as SyncOrchestrator,
+        stateManager as unknown as KVStateManager,
+        lock,
+        vectorClient as unknown as VectorStoreClient,
+        driveClient as unknown as DriveClient,
+        [
+          { label: 'notes', rootFolderId: 'folder-1' },
+          { label: 'team', rootFolderId: '0ATeam', driveId: '0ATeam' },
+        ],
+        new Request('http://localhost')
+      );
+      const spy = vi.spyOn(driveClient, 'getTotalFileCount');
+
+      const response = await multiSourceHandler.handleRequest(
+        new Request('http://localhost/admin/status?includeTotals=true')
+      );
+      const data = (await response.json()) as AdminStatusResponse & {
+        totalFilesInDrive: number | null;
+        sources: Array<Record<string, unknown>>;
+      };
+
+      expect(spy).toHaveBeenCalledWith('0ATeam', '0ATeam');
+      expect(data.hasStartPageToken).toBe(false);
+      expect(data.totalFilesInDrive).toBe(500);
+      expect(data.sources).toEqual([
+        expect.objectContaining({ label: 'notes', hasStartPageToken: true, driveId: null }),
+        expect.objectContaining({
+          label: 'team',
+          hasStartPageToken: false,
+          driveId: '0ATeam',
+          lastError: 'File not found: 0ATeam',
+          totalFilesInDrive: 250,
+        }),
+      ]);
+    });
   });
 
   describe('GET /admin/stats', () => {
@@ -500,6 +809,750 @@ describe('AdminHandler', () => {
     });
   });
 
+  describe('POST /admin/search', () => {
+    const searchRequest = (body: unknown) =>
+      new Request('http://localhost/admin/search', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: typeof body === 'string' ? body : JSON.stringify(body),
+      });
+
+    it('TEST-search-1: should return ranked hits for a query', async () => {
+      const response = await handler.handleRequest(searchRequest({ query: 'weekly', topK: 3 }));
+      const data = (await response.json()) as AdminSearchResponse;
+
+      expect(response.status).toBe(200);
+      expect(searchService.search).toHaveBeenCalledWith('weekly', { topK: 3, mode: 'vector' });
+      expect(data.query).toBe('weekly');
+      expect(data.count).toBe(1);
+      expect(data.results[0].file_path).toBe('reports/weekly.md');
+    });
+
+    it('TEST-search-3: should reject missing query', async () => {
+      const response = await handler.handleRequest(searchRequest({ query: '   ' }));
+
+      expect(response.status).toBe(400);
+      expect(searchService.search).not.toHaveBeenCalled();
+    });
+
+    it('TEST-search-3: should reject out-of-range topK', async () => {
+      const response = await handler.handleRequest(searchRequest({ query: 'weekly', topK: 50 }));
+      const data = (await response.json()) as AdminErrorResponse;
+
+      expect(response.status).toBe(400);
+      expect(data.error).toContain('topK');
+    });
+
+    it('should forward a validated metadata filter', async () => {
+      const filter = {
+        pathPrefix: 'Projects/',
+        mimeTypes: ['application/pdf'],
+        modifiedAfter: '2025-06-01',
+      };
+
+      const response = await handler.handleRequest(searchRequest({ query: 'weekly', filter }));
+
+      expect(response.status).toBe(200);
+      expect(searchService.search).toHaveBeenCalledWith('weekly', {
+        topK: undefined,
+        filter,
+        mode: 'vector',
+      });
+    });
+
+    it('should reject an invalid modifiedAfter date', async () => {
+      const response = await handler.handleRequest(
+        searchRequest({ query: 'weekly', filter: { modifiedAfter: 'yesterday' } })
+      );
+      const data = (await response.json()) as AdminErrorResponse;
+
+      expect(response.status).toBe(400);
+      expect(data.error).toContain('modifiedAfter');
+    });
+
+    it('should reject non-array mimeTypes', async () => {
+      const response = await handler.handleRequest(
+        searchRequest({ query: 'weekly', filter: { mimeTypes: 'application/pdf' } })
+      );
+
+      expect(response.status).toBe(400);
+    });
+
+    it('TEST-search-5: should pass hybrid mode through', async () => {
+      const response = await handler.handleRequest(
+        searchRequest({ query: 'PROJ-1234', mode: 'hybrid' })
+      );
+      const data = (await response.json()) as AdminSearchResponse & { mode: string };
+
+      expect(response.status).toBe(200);
+      expect(data.mode).toBe('hybrid');
+      expect(searchService.search).toHaveBeenCalledWith('PROJ-1234', {
+        topK: undefined,
+        mode: 'hybrid',
+      });
+    });
+
+    it('should reject unknown search modes', async () => {
+      const response = await handler.handleRequest(
+        searchRequest({ query: 'weekly', mode: 'fuzzy' })
+      );
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject keyword modes when no keyword index is configured', async () => {
+      searchService.supportsKeywordSearch.mockReturnValue(false);
+
+      const response = await handler.handleRequest(
+        searchRequest({ query: 'weekly', mode: 'keyword' })
+      );
+
+      expect(response.status).toBe(400);
+      expect(searchService.search).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed JSON', async () => {
+      const response = await handler.handleRequest(searchRequest('{not json'));
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject JSON bodies that are not objects', async () => {
+      for (const body of ['null', '"weekly"', '42', '["weekly"]']) {
+        const response = await handler.handleRequest(searchRequest(body));
+        const data = (await response.json()) as AdminErrorResponse;
+
+        expect(response.status).toBe(400);
+        expect(data.error).toBe('Invalid JSON body: must be an object');
+      }
+      expect(searchService.search).not.toHaveBeenCalled();
+    });
+
+    it('should return 501 when search is not configured', async () => {
+      const bareHandler = new AdminHandler(
+        orchestrator as unknown as SyncOrchestrator,
+        stateManager as unknown as KVStateManager,
+        lock,
+        vectorClient as unknown as VectorStoreClient,
+        driveClient as unknown as DriveClient,
+        sources,
+        new Request('http://localhost')
+      );
+
+      const response = await bareHandler.handleRequest(searchRequest({ query: 'weekly' }));
+
+      expect(response.status).toBe(501);
+    });
+  });
+
+  describe('POST /admin/ask', () => {
+    const askRequest = (body: unknown, headers: Record<string, string> = {}) =>
+      new Request('http://localhost/admin/ask', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+      });
+
+    it('TEST-search-6: should return the answer with citations', async () => {
+      const response = await handler.handleRequest(
+        askRequest({ question: 'When did we ship?', topK: 3 })
+      );
+      const data = (await response.json()) as {
+        question: string;
+        answer: string;
+        citations: Citation[];
+        model: string;
+      };
+
+      expect(response.status).toBe(200);
+      expect(answerService.answer).toHaveBeenCalledWith('When did we ship?', {
+        topK: 3,
+        mode: 'vector',
+      });
+      expect(data.question).toBe('When did we ship?');
+      expect(data.answer).toBe('Shipped on Friday [1].');
+      expect(data.citations[0]).toMatchObject({ file_id: 'file1', file_path: 'reports/weekly.md' });
+      expect(data.model).toBe('gpt-4o-mini');
+    });
+
+    it('TEST-search-6: should stream citations, tokens and done as SSE', async () => {
+      const response = await handler.handleRequest(
+        askRequest({ question: 'When did we ship?', stream: true })
+      );
+      const text = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+      expect(answerService.answer).not.toHaveBeenCalled();
+
+      const events = text
+        .trim()
+        .split('\n\n')
+        .map(block => {
+          const [eventLine, dataLine] = block.split('\n');
+          return {
+            event: eventLine.replace('event: ', ''),
+            data: JSON.parse(dataLine.replace('data: ', '')),
+          };
+        });
+
+      expect(events.map(e => e.event)).toEqual(['citations', 'token', 'token', 'done']);
+      expect(events[0].data.citations[0].file_id).toBe('file1');
+      expect(events[1].data.delta + events[2].data.delta).toBe('Shipped on Friday [1].');
+    });
+
+    it('should stream when the client accepts text/event-stream', async () => {
+      const response = await handler.handleRequest(
+        askRequest({ question: 'When did we ship?' }, { Accept: 'text/event-stream' })
+      );
+      await response.text();
+
+      expect(answerService.streamAnswer).toHaveBeenCalled();
+    });
+
+    it('should emit an error event when the stream fails midway', async () => {
+      answerService.streamAnswer.mockResolvedValueOnce({
+        citations: [],
+        model: 'gpt-4o-mini',
+        tokens: (async function* () {
+          yield 'Partial';
+          throw new Error('connection reset');
+        })(),
+      });
+
+      const response = await handler.handleRequest(
+        askRequest({ question: 'When did we ship?', stream: true })
+      );
+      const text = await response.text();
+
+      expect(text).toContain('event: error');
+      expect(text).toContain('connection reset');
+      expect(text).not.toContain('event: done');
+    });
+
+    it('should reject a missing question', async () => {
+      const response = await handler.handleRequest(askRequest({ query: 'weekly' }));
+      const data = (await response.json()) as AdminErrorResponse;
+
+      expect(response.status).toBe(400);
+      expect(data.error).toContain('question');
+    });
+
+    it('should reject a null body', async () => {
+      const response = await handler.handleRequest(askRequest(null));
+
+      expect(response.status).toBe(400);
+      expect(answerService.answer).not.toHaveBeenCalled();
+    });
+
+    it('should validate search options like /admin/search', async () => {
+      const response = await handler.handleRequest(
+        askRequest({ question: 'When did we ship?', topK: 0 })
+      );
+
+      expect(response.status).toBe(400);
+      expect(answerService.answer).not.toHaveBeenCalled();
+    });
+
+    it('should return 501 when question answering is not configured', async () => {
+      const searchOnlyHandler = new AdminHandler(
+        orchestrator as unknown as SyncOrchestrator,
+        stateManager as unknown as KVStateManager,
+        lock,
+        vectorClient as unknown as VectorStoreClient,
+        driveClient as unknown as DriveClient,
+        sources,
+        new Request('http://localhost'),
+        { search: searchService as unknown as SearchService }
+      );
+
+      const response = await searchOnlyHandler.handleRequest(
+        askRequest({ question: 'When did we ship?' })
+      );
+
+      expect(response.status).toBe(501);
+    });
+  });
+
+  describe('Background resync jobs', () => {
+    let jobs: SyncJobStore;
+    let jobHandler: AdminHandler;
+
+    const resync = () =>
+      jobHandler.handleRequest(new Request('http://localhost/admin/resync', { method: 'POST' }));
+    const getJob = async (jobId: string) => {
+      const response = await jobHandler.handleRequest(
+        new Request(`http://localhost/admin/jobs/${jobId}`)
+      );
+      return { status: response.status, job: (await response.json()) as SyncJob };
+    };
+
+    beforeEach(() => {
+      jobs = new SyncJobStore(new MockKVNamespace() as unknown as KVNamespace);
+      jobHandler = new AdminHandler(
+        orchestrator as unknown as SyncOrchestrator,
+        stateManager as unknown as KVStateManager,
+        lock,
+        vectorClient as unknown as VectorStoreClient,
+        driveClient as unknown as DriveClient,
+        sources,
+        new Request('http://localhost'),
+        { jobs }
+      );
+    });
+
+    it('TEST-admin-api-7: should return 202 with a job ID and queue the resync for the cron', async () => {
+      const runSpy = vi.spyOn(orchestrator, 'runFullSync');
+
+      const response = await resync();
+      const data = (await response.json()) as { jobId: string; statusUrl: string; job: SyncJob };
+
+      expect(response.status).toBe(202);
+      expect(data.statusUrl).toBe(`/admin/jobs/${data.jobId}`);
+      expect(data.job.status).toBe('queued');
+      expect(await jobs.getQueuedResync()).toBe(data.jobId);
+      // Nothing runs inside the request: the lock is free and the state untouched
+      expect(runSpy).not.toHaveBeenCalled();
+      expect(await lock.getLock()).toBeNull();
+      expect((await stateManager.getState()).startPageToken).toBe('token-123');
+      expect((await getJob(data.jobId)).job.status).toBe('queued');
+    });
+
+    it('should return the queued job instead of queueing another', async () => {
+      const first = (await (await resync()).json()) as { jobId: string };
+      const second = (await (await resync()).json()) as { jobId: string };
+
+      expect(second.jobId).toBe(first.jobId);
+    });
+
+    it('should return 409 without creating a job while a sync runs', async () => {
+      await lock.acquire('cron:running');
+
+      const response = await resync();
+
+      expect(response.status).toBe(409);
+      expect(await jobs.getQueuedResync()).toBeNull();
+    });
+
+    it('should return 404 for unknown jobs', async () => {
+      expect((await getJob('missing')).status).toBe(404);
+    });
+
+    it('should return 501 for job polling when jobs are not configured', async () => {
+      const response = await handler.handleRequest(new Request('http://localhost/admin/jobs/abc'));
+
+      expect(response.status).toBe(501);
+    });
+  });
+
+  describe('Sync lock', () => {
+    it('TEST-state-management-7: should report the lock holder', async () => {
+      await lock.acquire('cron:running');
+
+      const response = await handler.handleRequest(new Request('http://localhost/admin/lock'));
+      const data = (await response.json()) as { locked: boolean; lock: SyncLockInfo | null };
+
+      expect(response.status).toBe(200);
+      expect(data.locked).toBe(true);
+      expect(data.lock?.ownerId).toBe('cron:running');
+    });
+
+    it('should report a free lock', async () => {
+      const response = await handler.handleRequest(new Request('http://localhost/admin/lock'));
+
+      expect(await response.json()).toEqual({ locked: false, lock: null });
+    });
+
+    it('should break the lock so a resync can run', async () => {
+      await lock.acquire('cron:crashed');
+
+      const response = await handler.handleRequest(
+        new Request('http://localhost/admin/lock/release', { method: 'POST' })
+      );
+      const data = (await response.json()) as { released: boolean; lock: SyncLockInfo | null };
+
+      expect(data.released).toBe(true);
+      expect(data.lock?.ownerId).toBe('cron:crashed');
+
+      const resync = await handler.handleRequest(
+        new Request('http://localhost/admin/resync', { method: 'POST' })
+      );
+      expect(resync.status).toBe(200);
+    });
+
+    it('should report the lock in status while a sync runs', async () => {
+      await lock.acquire('cron:running');
+
+      const response = await handler.handleRequest(new Request('http://localhost/admin/status'));
+      const data = (await response.json()) as { isLocked: boolean };
+
+      expect(data.isLocked).toBe(true);
+    });
+  });
+
+  describe('Sync and file operations', () => {
+    const post = (path: string) => new Request(`http://localhost${path}`, { method: 'POST' });
+
+    it('TEST-admin-api-8: should run an incremental sync now', async () => {
+      const response = await handler.handleRequest(post('/admin/sync'));
+      const data = (await response.json()) as AdminResyncResponse;
+
+      expect(response.status).toBe(200);
+      expect(data.success).toBe(true);
+      expect(data.result.filesProcessed).toBe(2);
+      expect(await lock.getLock()).toBeNull();
+    });
+
+    it('should force-reindex a single file', async () => {
+      const response = await handler.handleRequest(
+        post(`/admin/files/${encodeURIComponent('id with space')}/reindex`)
+      );
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        success: true,
+        fileId: 'id with space',
+        vectorsUpserted: 8,
+      });
+      expect(orchestrator.reindexFile).toHaveBeenCalledWith('id with space', sources);
+    });
+
+    it('should return 404 when no source tracks the file', async () => {
+      orchestrator.reindexFile.mockResolvedValueOnce(null);
+
+      const response = await handler.handleRequest(post('/admin/files/unknown/reindex'));
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 502 when the reindex fails', async () => {
+      orchestrator.reindexFile.mockRejectedValueOnce(new Error('Download failed'));
+
+      const response = await handler.handleRequest(post('/admin/files/file-1/reindex'));
+      const data = (await response.json()) as AdminErrorResponse;
+
+      expect(response.status).toBe(502);
+      expect(data.message).toBe('Download failed');
+      expect(await lock.getLock()).toBeNull();
+    });
+
+    it("should purge a file's vectors", async () => {
+      const response = await handler.handleRequest(
+        new Request('http://localhost/admin/files/file-1', { method: 'DELETE' })
+      );
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ success: true, fileId: 'file-1' });
+      expect(orchestrator.purgeFile).toHaveBeenCalledWith('file-1');
+    });
+
+    it('TEST-admin-api-9: should reconcile the index, or only report drift in a dry run', async () => {
+      const dryRun = await handler.handleRequest(post('/admin/reconcile?dryRun=true'));
+      const dryRunData = (await dryRun.json()) as { report: ReconcileReport };
+
+      expect(dryRun.status).toBe(200);
+      expect(dryRunData.report.orphanedFiles).toEqual(['gone']);
+      expect(orchestrator.reconcile).toHaveBeenLastCalledWith(sources, { dryRun: true });
+
+      const repair = await handler.handleRequest(post('/admin/reconcile'));
+
+      expect(repair.status).toBe(200);
+      expect(orchestrator.reconcile).toHaveBeenLastCalledWith(sources, { dryRun: false });
+      expect(await lock.getLock()).toBeNull();
+    });
+
+    it('should pass the cursor of the next page through, and reject one it did not issue', async () => {
+      const cursor = btoa(
+        JSON.stringify({ list: '100', after: 'f', tracked: 12, actual: 10, removed: 0, errors: 0 })
+      );
+      orchestrator.reconcile.mockResolvedValueOnce({
+        ...(await orchestrator.reconcile(sources)),
+        nextCursor: 'next-page',
+      });
+
+      const response = await handler.handleRequest(
+        post(`/admin/reconcile?cursor=${encodeURIComponent(cursor)}`)
+      );
+      const data = (await response.json()) as { message: string; nextCursor: string | null };
+
+      expect(response.status).toBe(200);
+      expect(data.nextCursor).toBe('next-page');
+      expect(data.message).toBe('Reconcile completed; continue with the next cursor');
+      expect(orchestrator.reconcile).toHaveBeenLastCalledWith(sources, { dryRun: false, cursor });
+
+      const invalid = await handler.handleRequest(post('/admin/reconcile?cursor=bogus'));
+      expect(invalid.status).toBe(400);
+    });
+
+    it('should say when the vector count was not reset', async () => {
+      orchestrator.reconcile.mockResolvedValueOnce({
+        ...(await orchestrator.reconcile(sources)),
+        repairs: {
+          filesDeleted: 0,
+          filesProcessed: 0,
+          filesQueued: 0,
+          errors: 1,
+          vectorCountReset: false,
+        },
+      });
+
+      const response = await handler.handleRequest(post('/admin/reconcile'));
+      const data = (await response.json()) as { message: string };
+
+      expect(data.message).toBe(
+        'Reconcile completed; vector count not reset because repairs failed'
+      );
+    });
+
+    it('should return 502 when the reconcile fails', async () => {
+      orchestrator.reconcile.mockRejectedValueOnce(new Error('Failed to list supported files'));
+
+      const response = await handler.handleRequest(post('/admin/reconcile'));
+      const data = (await response.json()) as AdminErrorResponse;
+
+      expect(response.status).toBe(502);
+      expect(data.message).toBe('Failed to list supported files');
+    });
+
+    it('should return 409 for every operation while a sync holds the lock', async () => {
+      await lock.acquire('cron:running');
+
+      const responses = await Promise.all([
+        handler.handleRequest(post('/admin/sync')),
+        handler.handleRequest(post('/admin/files/file-1/reindex')),
+        handler.handleRequest(
+          new Request('http://localhost/admin/files/file-1', { method: 'DELETE' })
+        ),
+        handler.handleRequest(post('/admin/reconcile?dryRun=true')),
+        handler.handleRequest(post('/admin/failures/file-1/retry')),
+      ]);
+
+      expect(responses.map(response => response.status)).toEqual([409, 409, 409, 409, 409]);
+      expect(orchestrator.retryFailedFile).not.toHaveBeenCalled();
+      expect(orchestrator.reindexFile).not.toHaveBeenCalled();
+      expect(orchestrator.purgeFile).not.toHaveBeenCalled();
+      expect(orchestrator.reconcile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Failed files', () => {
+    const retryRequest = (fileId: string) =>
+      new Request(`http://localhost/admin/failures/${encodeURIComponent(fileId)}/retry`, {
+        method: 'POST',
+      });
+
+    it('TEST-error-handling-8: should list recorded failures', async () => {
+      const response = await handler.handleRequest(
+        new Request('http://localhost/admin/failures', { method: 'GET' })
+      );
+      const data = (await response.json()) as { failures: FailedFile[]; count: number };
+
+      expect(response.status).toBe(200);
+      expect(data.count).toBe(1);
+      expect(data.failures[0]).toMatchObject({ fileId: 'file-1', attempts: 2 });
+    });
+
+    it('should retry a failed file on demand', async () => {
+      const response = await handler.handleRequest(retryRequest('file-1'));
+      const data = (await response.json()) as Record<string, unknown>;
+
+      expect(response.status).toBe(200);
+      expect(data).toEqual({ success: true, fileId: 'file-1', vectorsUpserted: 12 });
+      expect(orchestrator.retryFailedFile).toHaveBeenCalledWith('file-1');
+    });
+
+    it('should decode file IDs in the retry path', async () => {
+      await handler.handleRequest(retryRequest('id with space'));
+
+      expect(orchestrator.retryFailedFile).toHaveBeenCalledWith('id with space');
+    });
+
+    it('should return 404 when no failure is recorded', async () => {
+      orchestrator.retryFailedFile.mockResolvedValueOnce(null);
+
+      const response = await handler.handleRequest(retryRequest('unknown'));
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 502 with the updated failure when the retry fails', async () => {
+      orchestrator.retryFailedFile.mockRejectedValueOnce(new Error('Still failing'));
+
+      const response = await handler.handleRequest(retryRequest('file-1'));
+      const data = (await response.json()) as {
+        error: string;
+        message: string;
+        failure: FailedFile;
+      };
+
+      expect(response.status).toBe(502);
+      expect(data.message).toBe('Still failing');
+      expect(data.failure.fileId).toBe('file-1');
+    });
+
+    it('should return 501 when failure tracking is not configured', async () => {
+      const bareHandler = new AdminHandler(
+        orchestrator as unknown as SyncOrchestrator,
+        stateManager as unknown as KVStateManager,
+        lock,
+        vectorClient as unknown as VectorStoreClient,
+        driveClient as unknown as DriveClient,
+        sources,
+        new Request('http://localhost')
+      );
+
+      const list = await bareHandler.handleRequest(
+        new Request('http://localhost/admin/failures', { method: 'GET' })
+      );
+      const retry = await bareHandler.handleRequest(retryRequest('file-1'));
+
+      expect(list.status).toBe(501);
+      expect(retry.status).toBe(501);
+      expect(orchestrator.retryFailedFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Embedding migration', () => {
+    let store: EmbeddingIndexStore;
+    let targetVectors: {
+      listIndexedFileIds: ReturnType<typeof vi.fn>;
+      deleteVectorsByFileId: ReturnType<typeof vi.fn>;
+      setVectorCount: ReturnType<typeof vi.fn>;
+      getDimensions: ReturnType<typeof vi.fn>;
+    };
+    let migrationHandler: AdminHandler;
+
+    const migrationRequest = (method: string) =>
+      migrationHandler.handleRequest(new Request('http://localhost/admin/migration', { method }));
+
+    beforeEach(() => {
+      store = new EmbeddingIndexStore(new MockKVNamespace() as unknown as KVNamespace);
+      targetVectors = {
+        listIndexedFileIds: vi.fn().mockResolvedValue(['stale-1', 'stale-2']),
+        deleteVectorsByFileId: vi.fn().mockResolvedValue(undefined),
+        setVectorCount: vi.fn().mockResolvedValue(undefined),
+        getDimensions: vi.fn().mockResolvedValue(1024),
+      };
+      migrationHandler = new AdminHandler(
+        orchestrator as unknown as SyncOrchestrator,
+        stateManager as unknown as KVStateManager,
+        lock,
+        vectorClient as unknown as VectorStoreClient,
+        driveClient as unknown as DriveClient,
+        sources,
+        new Request('http://localhost'),
+        {
+          embeddingIndex: store,
+          migrationTarget: {
+            slot: 'secondary',
+            embeddingClient: {
+              getProviderName: () => 'openai',
+              getModel: () => 'text-embedding-3-large',
+              getDimensions: () => 1024,
+            } as unknown as EmbeddingClient,
+            vectorClient: targetVectors as unknown as VectorStoreClient,
+          },
+        }
+      );
+    });
+
+    it('TEST-embedding-pipeline-9: should start a migration and leave emptying the target to the cron', async () => {
+      await store.markMigrated('left-over');
+
+      const response = await migrationRequest('POST');
+      const data = (await response.json()) as { migration: EmbeddingMigration };
+
+      expect(response.status).toBe(202);
+      expect(data.migration).toMatchObject({
+        target: 'secondary',
+        model: 'text-embedding-3-large',
+        dimensions: 1024,
+        filesTotal: null,
+        filesMigrated: 0,
+        clearing: true,
+      });
+      expect(targetVectors.listIndexedFileIds).not.toHaveBeenCalled();
+      expect(targetVectors.deleteVectorsByFileId).not.toHaveBeenCalled();
+      expect(await store.listMigratedFileIds()).toEqual(['left-over']);
+      expect((await store.getState()).migration).toEqual(data.migration);
+      expect(await lock.getLock()).toBeNull();
+    });
+
+    it('should report the active index and migration coverage', async () => {
+      await migrationRequest('POST');
+      const state = await store.getState();
+      await store.saveState({
+        ...state,
+        migration: { ...state.migration!, filesTotal: 8, filesMigrated: 2 },
+      });
+
+      const response = await migrationRequest('GET');
+      const data = (await response.json()) as Record<string, any>;
+
+      expect(response.status).toBe(200);
+      expect(data.active).toBe('primary');
+      expect(data.migration).toMatchObject({ filesTotal: 8, filesMigrated: 2, coverage: 25 });
+      expect(data.target).toEqual({
+        slot: 'secondary',
+        provider: 'openai',
+        model: 'text-embedding-3-large',
+        dimensions: 1024,
+      });
+    });
+
+    it('TEST-embedding-pipeline-10: should refuse a target index created for other dimensions', async () => {
+      targetVectors.getDimensions.mockResolvedValue(1536);
+
+      const response = await migrationRequest('POST');
+      const data = (await response.json()) as Record<string, unknown>;
+
+      expect(response.status).toBe(400);
+      expect(data).toMatchObject({ dimensions: 1024, indexDimensions: 1536 });
+      expect(targetVectors.deleteVectorsByFileId).not.toHaveBeenCalled();
+      expect((await store.getState()).migration).toBeNull();
+    });
+
+    it('should refuse to start a second migration', async () => {
+      await migrationRequest('POST');
+      targetVectors.deleteVectorsByFileId.mockClear();
+
+      const response = await migrationRequest('POST');
+
+      expect(response.status).toBe(409);
+      expect(targetVectors.deleteVectorsByFileId).not.toHaveBeenCalled();
+    });
+
+    it('should cancel a running migration', async () => {
+      await migrationRequest('POST');
+
+      const cancelled = await migrationRequest('DELETE');
+      const again = await migrationRequest('DELETE');
+
+      expect(cancelled.status).toBe(200);
+      expect((await store.getState()).migration).toBeNull();
+      expect(again.status).toBe(404);
+    });
+
+    it('should return 409 while a sync holds the lock', async () => {
+      await lock.acquire('cron:running');
+
+      const responses = [await migrationRequest('POST'), await migrationRequest('DELETE')];
+
+      expect(responses.map(response => response.status)).toEqual([409, 409]);
+      expect(targetVectors.listIndexedFileIds).not.toHaveBeenCalled();
+    });
+
+    it('should return 501 when no inactive index is bound', async () => {
+      const status = await handler.handleRequest(new Request('http://localhost/admin/migration'));
+      const start = await handler.handleRequest(
+        new Request('http://localhost/admin/migration', { method: 'POST' })
+      );
+
+      expect(status.status).toBe(501);
+      expect(start.status).toBe(501);
+    });
+  });
+
   describe('Error Handling', () => {
     it('should return 500 with error message on exceptions', async () => {
       // Mock stateManager to throw error
@@ -518,7 +1571,7 @@ describe('AdminHandler', () => {
     });
 
     it('should handle state manager failures', async () => {
-      stateManager.acquireLock = vi.fn().mockRejectedValue(new Error('Lock acquisition failed'));
+      lock.acquire = vi.fn().mockRejectedValue(new Error('Lock acquisition failed'));
 
       const request = new Request('http://localhost/admin/resync', {
         method: 'POST',
@@ -2,17 +2,81 @@
  * Admin API endpoints handler
  *
  * Trace:
- *   spec_id: SPEC-admin-api-1
+ *   spec_id: SPEC-admin-api-1, SPEC-search-1
  *   task_id: TASK-011, TASK-028
  */
 
-import { SyncOrchestrator } from '../sync/sync-orchestrator.js';
+import { SyncOrchestrator, isReconcileCursor } from '../sync/sync-orchestrator.js';
 import { KVStateManager } from '../state/kv-state-manager.js';
-import { VectorStoreClient } from '../types/vector-store.js';
+import { VectorQueryFilter, VectorStoreClient } from '../types/vector-store.js';
 import { DriveClient } from '../drive/drive-client.js';
-import { getNextCronExecution, getCronSchedule } from '../utils/cron.js';
+import { SyncSource } from '../drive/sync-source.js';
+import {
+  SearchService,
+  SearchMode,
+  SearchOptions,
+  MAX_SEARCH_TOP_K,
+  SEARCH_MODES,
+} from '../search/search-service.js';
+import { AnswerService } from '../search/answer-service.js';
+import { FailureStore } from '../state/failure-store.js';
+import {
+  SyncLockInfo,
+  SyncLockProvider,
+  createLockOwnerId,
+  withSyncLock,
+} from '../state/sync-lock.js';
+import { SyncJobStore } from '../state/job-store.js';
+import {
+  EmbeddingIndexStore,
+  EmbeddingMigration,
+  IndexSlot,
+  migrationCoverage,
+} from '../state/embedding-index-store.js';
+import { EmbeddingClient, assertIndexDimensions } from '../embedding/embedding-client.js';
+import {
+  DEFAULT_SYNC_SCHEDULES,
+  SyncSchedule,
+  getNextScheduledSync,
+  getScheduleRuns,
+} from '../sync/sync-schedule.js';
+import { SyncError } from '../errors/index.js';
 import { buildCorsHeaders } from '../utils/cors.js';
 
+/**
+ * Optional services backing the read-side admin endpoints
+ */
+export interface AdminHandlerServices {
+  search?: SearchService;
+  ask?: AnswerService;
+  failures?: FailureStore;
+  /**
+   * With a job store, POST /admin/resync queues a job for the next continuation cron
+   * tick and returns its ID; otherwise it runs inside the request
+   */
+  jobs?: SyncJobStore;
+  /**
+   * Cron schedules reported by GET /admin/status (default: DEFAULT_SYNC_SCHEDULES)
+   */
+  schedules?: SyncSchedule[];
+  /**
+   * Active index and embedding migration state
+   */
+  embeddingIndex?: EmbeddingIndexStore;
+  /**
+   * Inactive index slot a migration fills (absent when its Vectorize binding is missing)
+   */
+  migrationTarget?: {
+    slot: IndexSlot;
+    embeddingClient: EmbeddingClient;
+    vectorClient: VectorStoreClient;
+  };
+  /**
+   * Why the inactive slot is disabled although its binding exists (misconfigured provider)
+   */
+  migrationTargetError?: string;
+}
+
 /**
  * Admin API request handler
  */
@@ -20,10 +84,12 @@ export class AdminHandler {
   constructor(
     private orchestrator: SyncOrchestrator,
     private stateManager: KVStateManager,
+    private lock: SyncLockProvider,
     private vectorClient: VectorStoreClient,
     private driveClient: DriveClient,
-    private rootFolderId: string,
-    private request: Request
+    private sources: SyncSource[],
+    private request: Request,
+    private services: AdminHandlerServices = {}
   ) {}
 
   /**
@@ -40,6 +106,31 @@ export class AdminHandler {
         return await this.handleResync();
       }
 
+      // POST /admin/sync - Run an incremental sync now
+      if (path === '/admin/sync' && request.method === 'POST') {
+        return await this.handleSync();
+      }
+
+      // POST /admin/reconcile - Detect (and repair) index drift
+      if (path === '/admin/reconcile' && request.method === 'POST') {
+        return await this.handleReconcile(
+          url.searchParams.get('dryRun') === 'true',
+          url.searchParams.get('cursor')
+        );
+      }
+
+      // POST /admin/files/{fileId}/reindex - Re-download and re-embed one file
+      const reindexMatch = path.match(/^\/admin\/files\/([^/]+)\/reindex$/);
+      if (reindexMatch && request.method === 'POST') {
+        return await this.handleReindexFile(decodeURIComponent(reindexMatch[1]));
+      }
+
+      // DELETE /admin/files/{fileId} - Purge a file's vectors
+      const fileMatch = path.match(/^\/admin\/files\/([^/]+)$/);
+      if (fileMatch && request.method === 'DELETE') {
+        return await this.handlePurgeFile(decodeURIComponent(fileMatch[1]));
+      }
+
       // GET /admin/status - Get sync status
       if (path === '/admin/status' && request.method === 'GET') {
         return await this.handleStatus(includeTotals);
@@ -55,6 +146,58 @@ export class AdminHandler {
         return await this.handleHistory(request);
       }
 
+      // POST /admin/search - Semantic search over indexed chunks
+      if (path === '/admin/search' && request.method === 'POST') {
+        return await this.handleSearch(request);
+      }
+
+      // POST /admin/ask - Answer a question from indexed worknotes
+      if (path === '/admin/ask' && request.method === 'POST') {
+        return await this.handleAsk(request);
+      }
+
+      // GET /admin/jobs/{id} - Poll a background sync job
+      const jobMatch = path.match(/^\/admin\/jobs\/([^/]+)$/);
+      if (jobMatch && request.method === 'GET') {
+        return await this.handleJob(decodeURIComponent(jobMatch[1]));
+      }
+
+      // GET /admin/migration - Active index and embedding migration progress
+      if (path === '/admin/migration' && request.method === 'GET') {
+        return await this.handleMigrationStatus();
+      }
+
+      // POST /admin/migration - Start filling the inactive index with its embedding model
+      if (path === '/admin/migration' && request.method === 'POST') {
+        return await this.handleMigrationStart();
+      }
+
+      // DELETE /admin/migration - Abandon a running migration
+      if (path === '/admin/migration' && request.method === 'DELETE') {
+        return await this.handleMigrationCancel();
+      }
+
+      // GET /admin/lock - Inspect the sync lock
+      if (path === '/admin/lock' && request.method === 'GET') {
+        return await this.handleLock();
+      }
+
+      // POST /admin/lock/release - Break the sync lock (e.g. after a crashed run)
+      if (path === '/admin/lock/release' && request.method === 'POST') {
+        return await this.handleLockRelease();
+      }
+
+      // GET /admin/failures - List files that failed to sync
+      if (path === '/admin/failures' && request.method === 'GET') {
+        return await this.handleFailures();
+      }
+
+      // POST /admin/failures/{fileId}/retry - Reprocess a failed file now
+      const retryMatch = path.match(/^\/admin\/failures\/([^/]+)\/retry$/);
+      if (retryMatch && request.method === 'POST') {
+        return await this.handleRetryFailure(decodeURIComponent(retryMatch[1]));
+      }
+
       return this.jsonResponse({ error: 'Not found', path }, 404);
     } catch (error) {
       console.error('Admin API error:', error);
@@ -72,34 +215,359 @@ export class AdminHandler {
    * Handle POST /admin/resync
    */
   private async handleResync(): Promise<Response> {
+    if (this.services.jobs) {
+      return this.queueResyncJob(this.services.jobs);
+    }
+
+    const run = await withSyncLock(this.lock, createLockOwnerId('admin'), async () => {
+      // Clear state to force full resync
+      await this.stateManager.clearState();
+
+      // Run full sync
+      return this.orchestrator.runFullSync(this.sources);
+    });
+
     // Check if sync is already running
-    const lockAcquired = await this.stateManager.acquireLock();
+    if (!run.acquired) {
+      return this.syncRunningResponse(run.holder);
+    }
+
+    const result = run.result;
+    return this.jsonResponse({
+      success: true,
+      message: result.pendingFiles
+        ? `Full resync started; ${result.pendingFiles} files continue on scheduled runs`
+        : 'Full resync completed',
+      result,
+    });
+  }
+
+  /**
+   * Queue a resync job and respond with 202 and its ID
+   * The next continuation cron tick starts it under the sync lock and checkpointed
+   * slices finish it, so no work outlives this request. A resync that is already
+   * queued is returned instead of queueing another one.
+   */
+  private async queueResyncJob(jobs: SyncJobStore): Promise<Response> {
+    const run = await withSyncLock(this.lock, createLockOwnerId('admin'), async () => {
+      const queuedId = await jobs.getQueuedResync();
+      const queued = queuedId ? await jobs.get(queuedId) : null;
+      if (queued?.status === 'queued') {
+        return queued;
+      }
+
+      const job = await jobs.create('resync');
+      await jobs.queueResync(job.id);
+      return job;
+    });
+
+    if (!run.acquired) {
+      return this.syncRunningResponse(run.holder);
+    }
+
+    const job = run.result;
+    return this.jsonResponse(
+      {
+        success: true,
+        message: 'Full resync queued for the next scheduled run',
+        jobId: job.id,
+        statusUrl: `/admin/jobs/${job.id}`,
+        job,
+      },
+      202
+    );
+  }
+
+  /**
+   * Handle POST /admin/sync
+   */
+  private async handleSync(): Promise<Response> {
+    const run = await withSyncLock(this.lock, createLockOwnerId('admin'), () =>
+      this.orchestrator.runIncrementalSync(this.sources)
+    );
+
+    if (!run.acquired) {
+      return this.syncRunningResponse(run.holder);
+    }
+
+    return this.jsonResponse({
+      success: true,
+      message: 'Incremental sync completed',
+      result: run.result,
+    });
+  }
+
+  /**
+   * Handle POST /admin/reconcile
+   * Runs under the sync lock even in a dry run, so the report is not skewed by a running sync.
+   * Each call reconciles one page of the file index; `cursor` continues with the next one.
+   */
+  private async handleReconcile(dryRun: boolean, cursor: string | null): Promise<Response> {
+    if (cursor !== null && !isReconcileCursor(cursor)) {
+      return this.jsonResponse({ error: 'Invalid cursor parameter' }, 400);
+    }
 
-    if (!lockAcquired) {
+    let run;
+    try {
+      run = await withSyncLock(this.lock, createLockOwnerId('admin'), () =>
+        this.orchestrator.reconcile(this.sources, { dryRun, cursor: cursor ?? undefined })
+      );
+    } catch (error) {
       return this.jsonResponse(
         {
-          error: 'Conflict',
-          message: 'Sync is already running',
+          error: 'Reconcile failed',
+          message: (error as Error).message,
         },
-        409
+        502
       );
     }
 
+    if (!run.acquired) {
+      return this.syncRunningResponse(run.holder);
+    }
+
+    const report = run.result;
+    let message = dryRun ? 'Reconcile dry run completed' : 'Reconcile completed';
+    if (report.nextCursor) {
+      message += '; continue with the next cursor';
+    } else if (report.repairs && !report.repairs.vectorCountReset) {
+      message += '; vector count not reset because repairs failed';
+    }
+
+    return this.jsonResponse({
+      success: true,
+      message,
+      report,
+      nextCursor: report.nextCursor,
+    });
+  }
+
+  /**
+   * Handle POST /admin/files/{fileId}/reindex
+   * Every chunk is re-embedded, even when its hash matches the stored vector
+   */
+  private async handleReindexFile(fileId: string): Promise<Response> {
+    let run;
     try {
-      // Clear state to force full resync
-      await this.stateManager.clearState();
+      run = await withSyncLock(this.lock, createLockOwnerId('admin'), () =>
+        this.orchestrator.reindexFile(fileId, this.sources)
+      );
+    } catch (error) {
+      return this.jsonResponse(
+        {
+          error: 'Reindex failed',
+          message: (error as Error).message,
+          fileId,
+        },
+        502
+      );
+    }
 
-      // Run full sync
-      const result = await this.orchestrator.runFullSync(this.rootFolderId);
+    if (!run.acquired) {
+      return this.syncRunningResponse(run.holder);
+    }
 
-      return this.jsonResponse({
-        success: true,
-        message: 'Full resync completed',
-        result,
-      });
-    } finally {
-      await this.stateManager.releaseLock();
+    if (run.result === null) {
+      return this.jsonResponse({ error: 'File not found in any sync source', fileId }, 404);
+    }
+
+    return this.jsonResponse({ success: true, fileId, vectorsUpserted: run.result });
+  }
+
+  /**
+   * Handle DELETE /admin/files/{fileId}
+   */
+  private async handlePurgeFile(fileId: string): Promise<Response> {
+    const run = await withSyncLock(this.lock, createLockOwnerId('admin'), () =>
+      this.orchestrator.purgeFile(fileId)
+    );
+
+    if (!run.acquired) {
+      return this.syncRunningResponse(run.holder);
+    }
+
+    return this.jsonResponse({ success: true, fileId });
+  }
+
+  private syncRunningResponse(holder: SyncLockInfo | null): Response {
+    return this.jsonResponse(
+      {
+        error: 'Conflict',
+        message: 'Sync is already running',
+        lock: holder,
+      },
+      409
+    );
+  }
+
+  /**
+   * Handle GET /admin/jobs/{id}
+   */
+  private async handleJob(jobId: string): Promise<Response> {
+    if (!this.services.jobs) {
+      return this.jsonResponse({ error: 'Background jobs are not configured' }, 501);
+    }
+
+    const job = await this.services.jobs.get(jobId);
+    if (!job) {
+      return this.jsonResponse({ error: 'Job not found', jobId }, 404);
+    }
+
+    return this.jsonResponse(job);
+  }
+
+  /**
+   * Handle GET /admin/migration
+   */
+  private async handleMigrationStatus(): Promise<Response> {
+    const store = this.services.embeddingIndex;
+    if (!store) {
+      return this.jsonResponse({ error: 'Embedding migration is not configured' }, 501);
+    }
+
+    const state = await store.getState();
+    const target = this.services.migrationTarget;
+
+    return this.jsonResponse({
+      active: state.active,
+      switchedAt: state.switchedAt,
+      migration: state.migration
+        ? { ...state.migration, coverage: migrationCoverage(state.migration) }
+        : null,
+      target: target
+        ? {
+            slot: target.slot,
+            provider: target.embeddingClient.getProviderName(),
+            model: target.embeddingClient.getModel(),
+            dimensions: target.embeddingClient.getDimensions(),
+          }
+        : null,
+      ...(this.services.migrationTargetError && {
+        targetError: this.services.migrationTargetError,
+      }),
+    });
+  }
+
+  /**
+   * Handle POST /admin/migration
+   * Only records the migration: continuation cron ticks empty the inactive index of what a
+   * previous migration left there, then files are shadow-written as they sync, the ticks
+   * backfill the rest, and the indexes switch once every file is covered
+   */
+  private async handleMigrationStart(): Promise<Response> {
+    const store = this.services.embeddingIndex;
+    const target = this.services.migrationTarget;
+    if (!store || !target) {
+      return this.jsonResponse(
+        {
+          error: 'No inactive index is bound for a migration',
+          message: this.services.migrationTargetError,
+        },
+        501
+      );
+    }
+
+    try {
+      await assertIndexDimensions(target.embeddingClient, target.vectorClient);
+    } catch (error) {
+      const err = error as SyncError;
+      return this.jsonResponse({ error: err.message, ...err.context }, 400);
+    }
+
+    const run = await withSyncLock(this.lock, createLockOwnerId('admin'), async () => {
+      const state = await store.getState();
+      if (state.migration) {
+        return null;
+      }
+
+      const now = new Date().toISOString();
+      const migration: EmbeddingMigration = {
+        target: target.slot,
+        model: target.embeddingClient.getModel(),
+        dimensions: target.embeddingClient.getDimensions(),
+        startedAt: now,
+        filesTotal: null,
+        filesMigrated: 0,
+        clearing: true,
+        updatedAt: now,
+      };
+      await store.saveState({ ...state, migration });
+      return migration;
+    });
+
+    if (!run.acquired) {
+      return this.syncRunningResponse(run.holder);
+    }
+
+    if (!run.result) {
+      return this.jsonResponse(
+        { error: 'Conflict', message: 'An embedding migration is already running' },
+        409
+      );
+    }
+
+    return this.jsonResponse(
+      { success: true, message: 'Embedding migration started', migration: run.result },
+      202
+    );
+  }
+
+  /**
+   * Handle DELETE /admin/migration
+   * The active index is untouched; the target keeps what was written until the next start
+   */
+  private async handleMigrationCancel(): Promise<Response> {
+    const store = this.services.embeddingIndex;
+    if (!store) {
+      return this.jsonResponse({ error: 'Embedding migration is not configured' }, 501);
+    }
+
+    const run = await withSyncLock(this.lock, createLockOwnerId('admin'), async () => {
+      const state = await store.getState();
+      if (!state.migration) {
+        return false;
+      }
+      await store.saveState({ ...state, migration: null });
+      return true;
+    });
+
+    if (!run.acquired) {
+      return this.syncRunningResponse(run.holder);
     }
+
+    if (!run.result) {
+      return this.jsonResponse({ error: 'No embedding migration is running' }, 404);
+    }
+
+    return this.jsonResponse({ success: true, message: 'Embedding migration cancelled' });
+  }
+
+  /**
+   * Handle GET /admin/lock
+   */
+  private async handleLock(): Promise<Response> {
+    const lock = await this.lock.getLock();
+
+    return this.jsonResponse({
+      locked: lock !== null,
+      lock,
+    });
+  }
+
+  /**
+   * Handle POST /admin/lock/release
+   * The interrupted run's checkpoint (if any) is resumed by the next scheduled run
+   */
+  private async handleLockRelease(): Promise<Response> {
+    const lock = await this.lock.forceRelease();
+    if (lock) {
+      console.warn(`Sync lock held by ${lock.ownerId} was force-released`);
+    }
+
+    return this.jsonResponse({
+      released: lock !== null,
+      lock,
+    });
   }
 
   /**
@@ -107,30 +575,70 @@ export class AdminHandler {
    */
   private async handleStatus(includeTotals: boolean): Promise<Response> {
     const state = await this.stateManager.getState();
-    const isLocked = await this.stateManager.isLocked();
-    const nextScheduledSync = getNextCronExecution(getCronSchedule());
+    const isLocked = (await this.lock.getLock()) !== null;
+    const fullSyncCursor = await this.stateManager.getFullSyncCursor();
+    const schedules = this.services.schedules || DEFAULT_SYNC_SCHEDULES;
+    const now = new Date();
 
-    // Get total file count from Google Drive
-    let totalFilesInDrive: number | null = null;
-    if (includeTotals) {
-      try {
-        totalFilesInDrive = await this.driveClient.getTotalFileCount(this.rootFolderId);
-      } catch (error) {
-        console.error('Failed to get total file count from Drive:', error);
-        // Continue with null value to avoid blocking the entire status response
-      }
-    }
+    const sources = await Promise.all(
+      this.sources.map(async source => {
+        const sourceState = await this.stateManager.getSourceState(source.label);
+
+        // Get total file count from Google Drive
+        let totalFilesInDrive: number | null = null;
+        if (includeTotals) {
+          try {
+            totalFilesInDrive = await this.driveClient.getTotalFileCount(
+              source.rootFolderId,
+              source.driveId
+            );
+          } catch (error) {
+            console.error(`Failed to get total file count for source ${source.label}:`, error);
+            // Continue with null value to avoid blocking the entire status response
+          }
+        }
+
+        return {
+          label: source.label,
+          rootFolderId: source.rootFolderId,
+          driveId: source.driveId || null,
+          hasStartPageToken: !!sourceState.startPageToken,
+          lastSyncTime: sourceState.lastSyncTime,
+          filesProcessed: sourceState.filesProcessed,
+          errorCount: sourceState.errorCount,
+          lastError: sourceState.lastError || null,
+          totalFilesInDrive,
+        };
+      })
+    );
+
+    const counted = sources.filter(source => source.totalFilesInDrive !== null);
+    const totalFilesInDrive =
+      counted.length > 0
+        ? counted.reduce((sum, source) => sum + (source.totalFilesInDrive || 0), 0)
+        : null;
 
     return this.jsonResponse({
       status: 'ok',
       lastSyncTime: state.lastSyncTime,
       filesProcessed: state.filesProcessed,
       errorCount: state.errorCount,
-      hasStartPageToken: !!state.startPageToken,
+      hasStartPageToken: sources.every(source => source.hasStartPageToken),
       isLocked,
-      nextScheduledSync,
+      nextScheduledSync: getNextScheduledSync(schedules, now),
+      schedules: getScheduleRuns(schedules, now),
       lastSyncDuration: state.lastSyncDuration || null,
       totalFilesInDrive,
+      sources,
+      fullSync: fullSyncCursor
+        ? {
+            startedAt: fullSyncCursor.startedAt,
+            updatedAt: fullSyncCursor.updatedAt,
+            processedFiles: fullSyncCursor.offset,
+            totalFiles: fullSyncCursor.totalFiles,
+            errors: fullSyncCursor.errors.length,
+          }
+        : null,
     });
   }
 
@@ -172,6 +680,248 @@ export class AdminHandler {
     });
   }
 
+  /**
+   * Handle GET /admin/failures
+   */
+  private async handleFailures(): Promise<Response> {
+    if (!this.services.failures) {
+      return this.jsonResponse({ error: 'Failure tracking is not configured' }, 501);
+    }
+
+    const failures = await this.services.failures.listFailures();
+
+    return this.jsonResponse({
+      failures,
+      count: failures.length,
+    });
+  }
+
+  /**
+   * Handle POST /admin/failures/{fileId}/retry
+   */
+  private async handleRetryFailure(fileId: string): Promise<Response> {
+    if (!this.services.failures) {
+      return this.jsonResponse({ error: 'Failure tracking is not configured' }, 501);
+    }
+
+    let run;
+    try {
+      run = await withSyncLock(this.lock, createLockOwnerId('admin'), () =>
+        this.orchestrator.retryFailedFile(fileId)
+      );
+    } catch (error) {
+      return this.jsonResponse(
+        {
+          error: 'Retry failed',
+          message: (error as Error).message,
+          failure: await this.services.failures.getFailure(fileId),
+        },
+        502
+      );
+    }
+
+    if (!run.acquired) {
+      return this.syncRunningResponse(run.holder);
+    }
+
+    if (run.result === null) {
+      return this.jsonResponse({ error: 'No failure recorded for file', fileId }, 404);
+    }
+
+    return this.jsonResponse({ success: true, fileId, vectorsUpserted: run.result });
+  }
+
+  /**
+   * Handle POST /admin/search
+   */
+  private async handleSearch(request: Request): Promise<Response> {
+    if (!this.services.search) {
+      return this.jsonResponse({ error: 'Search is not configured' }, 501);
+    }
+
+    const { body, error: bodyError } = await this.readJsonObject(request);
+    if (!body) {
+      return this.jsonResponse({ error: bodyError }, 400);
+    }
+
+    const query = typeof body.query === 'string' ? body.query.trim() : '';
+    if (!query) {
+      return this.jsonResponse({ error: 'Missing query parameter' }, 400);
+    }
+
+    const { options, error } = this.parseSearchOptions(body, this.services.search);
+    if (error) {
+      return this.jsonResponse({ error }, 400);
+    }
+
+    const results = await this.services.search.search(query, options);
+
+    return this.jsonResponse({
+      query,
+      mode: options.mode,
+      results,
+      count: results.length,
+    });
+  }
+
+  /**
+   * Handle POST /admin/ask
+   * Responds with JSON, or with Server-Sent Events when streaming is requested
+   */
+  private async handleAsk(request: Request): Promise<Response> {
+    if (!this.services.ask || !this.services.search) {
+      return this.jsonResponse({ error: 'Question answering is not configured' }, 501);
+    }
+
+    const { body, error: bodyError } = await this.readJsonObject(request);
+    if (!body) {
+      return this.jsonResponse({ error: bodyError }, 400);
+    }
+
+    const question = typeof body.question === 'string' ? body.question.trim() : '';
+    if (!question) {
+      return this.jsonResponse({ error: 'Missing question parameter' }, 400);
+    }
+
+    const { options, error } = this.parseSearchOptions(body, this.services.search);
+    if (error) {
+      return this.jsonResponse({ error }, 400);
+    }
+
+    const stream =
+      body.stream === true || (request.headers.get('Accept') || '').includes('text/event-stream');
+
+    if (!stream) {
+      const result = await this.services.ask.answer(question, options);
+      return this.jsonResponse({ question, ...result });
+    }
+
+    const answerStream = await this.services.ask.streamAnswer(question, options);
+    const encoder = new TextEncoder();
+    const sse = (event: string, data: unknown) =>
+      encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+    const events = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        controller.enqueue(
+          sse('citations', { citations: answerStream.citations, model: answerStream.model })
+        );
+        try {
+          for await (const delta of answerStream.tokens) {
+            controller.enqueue(sse('token', { delta }));
+          }
+          controller.enqueue(sse('done', {}));
+        } catch (error) {
+          console.error('Answer stream failed:', error);
+          controller.enqueue(sse('error', { error: (error as Error).message }));
+        }
+        controller.close();
+      },
+    });
+
+    return new Response(events, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        ...buildCorsHeaders(this.request),
+      },
+    });
+  }
+
+  /**
+   * Validate topK, filter and mode shared by /admin/search and /admin/ask
+   */
+  private parseSearchOptions(
+    body: Record<string, unknown>,
+    searchService: SearchService
+  ): { options: SearchOptions & { mode: SearchMode }; error?: string } {
+    const mode = (body.mode ?? 'vector') as SearchMode;
+    const invalid = (error: string) => ({ options: { mode }, error });
+
+    const topK = body.topK ?? undefined;
+    if (
+      topK !== undefined &&
+      (typeof topK !== 'number' || !Number.isInteger(topK) || topK < 1 || topK > MAX_SEARCH_TOP_K)
+    ) {
+      return invalid(`Invalid topK parameter (1-${MAX_SEARCH_TOP_K})`);
+    }
+
+    const { filter, error: filterError } = this.parseSearchFilter(body.filter);
+    if (filterError) {
+      return invalid(filterError);
+    }
+
+    if (!SEARCH_MODES.includes(mode)) {
+      return invalid(`Invalid mode parameter (${SEARCH_MODES.join(', ')})`);
+    }
+
+    if (mode !== 'vector' && !searchService.supportsKeywordSearch()) {
+      return invalid(`Search mode '${mode}' is not available`);
+    }
+
+    return { options: { topK: topK as number | undefined, filter, mode } };
+  }
+
+  /**
+   * Parse a JSON request body that must be an object (not null, an array or a scalar)
+   */
+  private async readJsonObject(
+    request: Request
+  ): Promise<{ body?: Record<string, unknown>; error?: string }> {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return { error: 'Invalid JSON body' };
+    }
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return { error: 'Invalid JSON body: must be an object' };
+    }
+    return { body: body as Record<string, unknown> };
+  }
+
+  /**
+   * Validate the optional search filter object
+   * Accepts { pathPrefix?: string, mimeTypes?: string[], modifiedAfter?: ISO date }
+   */
+  private parseSearchFilter(raw: unknown): { filter?: VectorQueryFilter; error?: string } {
+    if (raw === undefined || raw === null) {
+      return {};
+    }
+
+    if (typeof raw !== 'object' || Array.isArray(raw)) {
+      return { error: 'Invalid filter: must be an object' };
+    }
+
+    const { pathPrefix, mimeTypes, modifiedAfter } = raw as Record<string, unknown>;
+    const filter: VectorQueryFilter = {};
+
+    if (pathPrefix !== undefined) {
+      if (typeof pathPrefix !== 'string') {
+        return { error: 'Invalid filter.pathPrefix: must be a string' };
+      }
+      filter.pathPrefix = pathPrefix;
+    }
+
+    if (mimeTypes !== undefined) {
+      if (!Array.isArray(mimeTypes) || !mimeTypes.every(type => typeof type === 'string')) {
+        return { error: 'Invalid filter.mimeTypes: must be an array of strings' };
+      }
+      filter.mimeTypes = mimeTypes;
+    }
+
+    if (modifiedAfter !== undefined) {
+      if (typeof modifiedAfter !== 'string' || isNaN(Date.parse(modifiedAfter))) {
+        return { error: 'Invalid filter.modifiedAfter: must be an ISO date string' };
+      }
+      filter.modifiedAfter = modifiedAfter;
+    }
+
+    return { filter };
+  }
+
   /**
    * Create JSON response with CORS headers
    */
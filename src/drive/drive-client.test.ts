@@ -3,8 +3,10 @@
  * Updated for Service Account authentication
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { DriveClient } from './drive-client.js';
+import { PathFilter } from './path-filter.js';
+import { DriveError } from '../errors/index.js';
 import { drive } from '@googleapis/drive';
 
 // Mock @googleapis/drive with proper class mocking for Vitest 4.x
@@ -34,10 +36,15 @@ describe('DriveClient - Path Building and Filtering', () => {
       files: {
         get: vi.fn(),
         list: vi.fn(),
+        export: vi.fn(),
       },
       changes: {
         getStartPageToken: vi.fn(),
         list: vi.fn(),
+        watch: vi.fn(),
+      },
+      channels: {
+        stop: vi.fn(),
       },
     };
 
@@ -287,6 +294,10 @@ describe('DriveClient - Path Building and Filtering', () => {
   });
 
   describe('isFileInFolder', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
     it('should detect file in root folder (direct parent)', async () => {
       // isFileInFolder: direct parent is root-folder (matches immediately, no API call)
       // buildFilePath: parent is root-folder (stops immediately, no API call)
@@ -398,6 +409,136 @@ describe('DriveClient - Path Building and Filtering', () => {
       expect(result.changes).toHaveLength(0);
     });
 
+    it('TEST-drive-integration-10: should delete indexed files moved out of the tree', async () => {
+      const movedTo = (parent: string) => ({
+        data: {
+          changes: [
+            {
+              fileId: 'file-1',
+              file: {
+                id: 'file-1',
+                name: 'test.md',
+                mimeType: 'text/markdown',
+                modifiedTime: '2023-01-01T00:00:00Z',
+                parents: [parent],
+              },
+            },
+          ],
+          newStartPageToken: 'token-123',
+        },
+      });
+      mockDrive.files.get.mockResolvedValueOnce({
+        data: { id: 'other-folder', name: 'other', parents: [] },
+      });
+      mockDrive.changes.list
+        .mockResolvedValueOnce(movedTo('other-folder'))
+        .mockResolvedValueOnce(movedTo('other-folder'))
+        .mockResolvedValueOnce(movedTo('root-folder'));
+
+      const movedOut = await driveClient.fetchChanges(
+        'token-start',
+        'root-folder',
+        undefined,
+        new Set(['file-1'])
+      );
+      expect(movedOut.changes).toEqual([{ fileId: 'file-1', type: 'deleted', movedOut: true }]);
+
+      // Not indexed (already removed, or never in the tree): nothing to delete
+      const unrelated = await driveClient.fetchChanges('token-start', 'root-folder');
+      expect(unrelated.changes).toEqual([]);
+
+      const movedBack = await driveClient.fetchChanges('token-start', 'root-folder');
+      expect(movedBack.changes).toMatchObject([
+        { fileId: 'file-1', type: 'modified', file: { path: 'test.md' } },
+      ]);
+    });
+
+    it('should report an indexed file renamed to an unsupported type as deleted', async () => {
+      mockDrive.changes.list.mockResolvedValueOnce({
+        data: {
+          changes: [
+            {
+              fileId: 'file-1',
+              file: {
+                id: 'file-1',
+                name: 'test.bin',
+                mimeType: 'application/octet-stream',
+                parents: ['root-folder'],
+              },
+            },
+          ],
+          newStartPageToken: 'token-123',
+        },
+      });
+
+      const result = await driveClient.fetchChanges(
+        'token-start',
+        'root-folder',
+        undefined,
+        new Set(['file-1'])
+      );
+
+      expect(result.changes).toEqual([{ fileId: 'file-1', type: 'deleted', movedOut: true }]);
+    });
+
+    it('should fail the fetch rather than delete when a parent lookup fails', async () => {
+      vi.useFakeTimers();
+      mockDrive.files.get.mockRejectedValue(
+        Object.assign(new Error('Backend Error'), { code: 503 })
+      );
+      mockDrive.changes.list.mockResolvedValue({
+        data: {
+          changes: [
+            {
+              fileId: 'file-1',
+              file: {
+                id: 'file-1',
+                name: 'test.md',
+                mimeType: 'text/markdown',
+                parents: ['unknown-folder'],
+              },
+            },
+          ],
+          newStartPageToken: 'token-123',
+        },
+      });
+
+      const result = expect(
+        driveClient.fetchChanges('token-start', 'root-folder', undefined, new Set(['file-1']))
+      ).rejects.toThrow(DriveError);
+      await vi.runAllTimersAsync();
+      await result;
+    });
+
+    it('should treat a missing parent folder as outside the tree', async () => {
+      mockDrive.files.get.mockRejectedValue(Object.assign(new Error('Not Found'), { code: 404 }));
+      mockDrive.changes.list.mockResolvedValueOnce({
+        data: {
+          changes: [
+            {
+              fileId: 'file-1',
+              file: {
+                id: 'file-1',
+                name: 'test.md',
+                mimeType: 'text/markdown',
+                parents: ['deleted-folder'],
+              },
+            },
+          ],
+          newStartPageToken: 'token-123',
+        },
+      });
+
+      const result = await driveClient.fetchChanges(
+        'token-start',
+        'root-folder',
+        undefined,
+        new Set(['file-1'])
+      );
+
+      expect(result.changes).toEqual([{ fileId: 'file-1', type: 'deleted', movedOut: true }]);
+    });
+
     it('should use cached folder hierarchy', async () => {
       // First request
       mockDrive.files.get
@@ -537,6 +678,412 @@ describe('DriveClient - Path Building and Filtering', () => {
     });
   });
 
+  describe('Google Workspace files', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should list Google Docs, Sheets and Slides alongside markdown', async () => {
+      mockDrive.files.list.mockResolvedValueOnce({
+        data: {
+          files: [
+            { id: 'doc-1', name: 'Design', mimeType: 'application/vnd.google-apps.document' },
+            { id: 'sheet-1', name: 'Budget', mimeType: 'application/vnd.google-apps.spreadsheet' },
+            { id: 'deck-1', name: 'Kickoff', mimeType: 'application/vnd.google-apps.presentation' },
+            { id: 'form-1', name: 'Survey', mimeType: 'application/vnd.google-apps.form' },
+            { id: 'md-1', name: 'notes.md', mimeType: 'text/markdown' },
+          ],
+        },
+      });
+
+      const files = await driveClient.listMarkdownFiles('root-folder');
+
+      expect(files.map(file => file.id)).toEqual(['doc-1', 'sheet-1', 'deck-1', 'md-1']);
+      expect(files[0].mimeType).toBe('application/vnd.google-apps.document');
+    });
+
+    it('should include Google Docs in changes', async () => {
+      mockDrive.files.get.mockResolvedValueOnce({
+        data: { id: 'doc-1', name: 'Design', parents: [] },
+      });
+      mockDrive.changes.list.mockResolvedValueOnce({
+        data: {
+          changes: [
+            {
+              fileId: 'doc-1',
+              file: {
+                id: 'doc-1',
+                name: 'Design',
+                mimeType: 'application/vnd.google-apps.document',
+                modifiedTime: '2025-01-01T00:00:00Z',
+                parents: ['root-folder'],
+              },
+            },
+          ],
+          newStartPageToken: 'token-123',
+        },
+      });
+
+      const result = await driveClient.fetchChanges('token-start', 'root-folder');
+
+      expect(result.changes).toHaveLength(1);
+      expect(result.changes[0].file?.mimeType).toBe('application/vnd.google-apps.document');
+    });
+
+    it('TEST-drive-integration-7: should export Google Docs as markdown', async () => {
+      mockDrive.files.export.mockResolvedValueOnce({ data: '# Design\n\nBody' });
+
+      const content = await driveClient.downloadFileContent(
+        'doc-1',
+        'application/vnd.google-apps.document'
+      );
+
+      expect(content).toBe('# Design\n\nBody');
+      expect(mockDrive.files.export).toHaveBeenCalledWith(
+        { fileId: 'doc-1', mimeType: 'text/markdown' },
+        { responseType: 'text' }
+      );
+      expect(mockDrive.files.get).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to plain text when markdown export fails', async () => {
+      vi.useFakeTimers();
+      mockDrive.files.export.mockImplementation(async ({ mimeType }: { mimeType: string }) => {
+        if (mimeType === 'text/markdown') {
+          throw new Error('Export format not supported');
+        }
+        return { data: 'Plain body' };
+      });
+
+      const promise = driveClient.downloadFileContent(
+        'doc-1',
+        'application/vnd.google-apps.document'
+      );
+      await vi.runAllTimersAsync();
+
+      expect(await promise).toBe('Plain body');
+    });
+
+    it('should export Google Sheets as CSV and render a table', async () => {
+      mockDrive.files.export.mockResolvedValueOnce({ data: 'Item,Cost\nLaptop,1200\n' });
+
+      const content = await driveClient.downloadFileContent(
+        'sheet-1',
+        'application/vnd.google-apps.spreadsheet'
+      );
+
+      expect(mockDrive.files.export.mock.calls[0][0].mimeType).toBe('text/csv');
+      expect(content).toBe('| Item | Cost |\n| --- | --- |\n| Laptop | 1200 |');
+    });
+  });
+
+  describe('Extractor registry', () => {
+    it('TEST-file-processing-11: should list files that have a registered extractor', async () => {
+      mockDrive.files.list.mockResolvedValueOnce({
+        data: {
+          files: [
+            { id: 'docx-1', name: 'Spec.DOCX' },
+            { id: 'html-1', name: 'page.html', mimeType: 'text/html' },
+            { id: 'txt-1', name: 'readme.txt', mimeType: 'text/plain' },
+            { id: 'csv-1', name: 'data.csv', mimeType: 'text/csv' },
+            { id: 'png-1', name: 'diagram.png', mimeType: 'image/png' },
+          ],
+        },
+      });
+
+      const files = await driveClient.listMarkdownFiles('root-folder');
+
+      expect(files.map(file => file.id)).toEqual(['docx-1', 'html-1', 'txt-1', 'csv-1']);
+      expect(files[0].mimeType).toBe(
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+      );
+    });
+
+    it('should resolve the extractor from the file name when the MIME type is generic', async () => {
+      mockDrive.files.get.mockResolvedValueOnce({
+        data: '<html><body><h1>Title</h1><p>Body&amp;more</p></body></html>',
+      });
+
+      const content = await driveClient.downloadFileContent(
+        'html-1',
+        'application/octet-stream',
+        'page.html'
+      );
+
+      expect(content).toBe('# Title\n\nBody&more');
+      expect(mockDrive.files.get).toHaveBeenCalledWith(
+        { fileId: 'html-1', alt: 'media', supportsAllDrives: true },
+        { responseType: 'text' }
+      );
+    });
+
+    it('should download binary formats as an ArrayBuffer', async () => {
+      mockDrive.files.get.mockResolvedValue({ data: new ArrayBuffer(8) });
+
+      await expect(
+        driveClient.downloadFileContent(
+          'docx-1',
+          'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+        )
+      ).rejects.toThrow('Failed to download file content');
+      expect(mockDrive.files.get).toHaveBeenCalledWith(
+        { fileId: 'docx-1', alt: 'media', supportsAllDrives: true },
+        { responseType: 'arraybuffer' }
+      );
+    });
+  });
+
+  describe('Shared Drives', () => {
+    it('TEST-drive-integration-9: should scope listing to the Shared Drive', async () => {
+      mockDrive.files.list.mockResolvedValueOnce({
+        data: { files: [{ id: 'doc', name: 'doc.md', mimeType: 'text/markdown' }] },
+      });
+
+      await driveClient.listMarkdownFiles('0ATeam', '0ATeam');
+
+      expect(mockDrive.files.list).toHaveBeenCalledWith(
+        expect.objectContaining({
+          q: "'0ATeam' in parents and trashed=false",
+          corpora: 'drive',
+          driveId: '0ATeam',
+          supportsAllDrives: true,
+          includeItemsFromAllDrives: true,
+        })
+      );
+    });
+
+    it('should request the Shared Drive change feed', async () => {
+      mockDrive.changes.getStartPageToken.mockResolvedValueOnce({
+        data: { startPageToken: 'drive-token' },
+      });
+      mockDrive.changes.list.mockResolvedValueOnce({
+        data: { changes: [], newStartPageToken: 'drive-token-2' },
+      });
+
+      expect(await driveClient.getStartPageToken('0ATeam')).toBe('drive-token');
+      await driveClient.fetchChanges('drive-token', '0ATeam', '0ATeam');
+
+      expect(mockDrive.changes.getStartPageToken).toHaveBeenCalledWith({
+        driveId: '0ATeam',
+        supportsAllDrives: true,
+      });
+      expect(mockDrive.changes.list).toHaveBeenCalledWith(
+        expect.objectContaining({
+          driveId: '0ATeam',
+          supportsAllDrives: true,
+          includeItemsFromAllDrives: true,
+        })
+      );
+    });
+  });
+
+  describe('Path rules', () => {
+    beforeEach(() => {
+      driveClient = new DriveClient(mockServiceAccountCredentials, {
+        pathFilter: PathFilter.fromLists('', 'Archive/**, *.draft.md'),
+      });
+    });
+
+    const folderListing = () => {
+      mockDrive.files.list.mockImplementation(async ({ q }: { q: string }) => {
+        const listings: Record<string, unknown[]> = {
+          root: [
+            { id: 'archive', name: 'Archive', mimeType: 'application/vnd.google-apps.folder' },
+            { id: 'plan', name: 'plan.md', mimeType: 'text/markdown' },
+            { id: 'draft', name: 'plan.draft.md', mimeType: 'text/markdown' },
+          ],
+          archive: [{ id: 'old', name: 'old.md', mimeType: 'text/markdown' }],
+        };
+        const folderId = /'([^']+)' in parents/.exec(q)![1];
+        return { data: { files: listings[folderId] || [] } };
+      });
+    };
+
+    it('TEST-drive-integration-8: should skip excluded files and folders when listing', async () => {
+      folderListing();
+
+      const files = await driveClient.listMarkdownFiles('root');
+
+      expect(files.map(file => file.path)).toEqual(['plan.md']);
+      expect(mockDrive.files.list).toHaveBeenCalledTimes(1);
+      expect(await driveClient.getTotalFileCount('root')).toBe(1);
+    });
+
+    it('should scan excluded folders when splitting files by path rules', async () => {
+      folderListing();
+
+      const { included, excluded } = await driveClient.listFilesByPathRules('root');
+
+      expect(included.map(file => file.path)).toEqual(['plan.md']);
+      expect(excluded.map(file => file.path)).toEqual(['Archive/old.md', 'plan.draft.md']);
+    });
+
+    it('should report changed files that are now excluded as deleted', async () => {
+      mockDrive.files.get.mockResolvedValue({
+        data: { id: 'archive', name: 'Archive', parents: ['root'] },
+      });
+      mockDrive.changes.list.mockResolvedValueOnce({
+        data: {
+          changes: [
+            {
+              fileId: 'moved',
+              file: {
+                id: 'moved',
+                name: 'moved.md',
+                mimeType: 'text/markdown',
+                parents: ['archive'],
+              },
+            },
+          ],
+          newStartPageToken: 'token-2',
+        },
+      });
+
+      const { changes } = await driveClient.fetchChanges('token-1', 'root');
+
+      expect(changes).toEqual([{ fileId: 'moved', type: 'deleted' }]);
+    });
+  });
+
+  describe('Push channels', () => {
+    it('should register a web_hook channel on the change feed', async () => {
+      mockDrive.changes.watch.mockResolvedValueOnce({
+        data: { id: 'channel-1', resourceId: 'resource-1', expiration: '1763769600000' },
+      });
+
+      const channel = await driveClient.watchChanges(
+        'page-token',
+        {
+          id: 'channel-1',
+          address: 'https://work.example.com/webhooks/drive',
+          token: 'secret',
+          expiration: new Date('2025-11-22T00:00:00Z'),
+        },
+        'drive-1'
+      );
+
+      expect(channel).toEqual({
+        id: 'channel-1',
+        resourceId: 'resource-1',
+        expiration: '2025-11-22T00:00:00.000Z',
+      });
+      expect(mockDrive.changes.watch).toHaveBeenCalledWith(
+        expect.objectContaining({
+          pageToken: 'page-token',
+          driveId: 'drive-1',
+          requestBody: {
+            id: 'channel-1',
+            type: 'web_hook',
+            address: 'https://work.example.com/webhooks/drive',
+            token: 'secret',
+            expiration: '1763769600000',
+          },
+        })
+      );
+    });
+
+    it('should stop a channel by ID and resource ID', async () => {
+      mockDrive.channels.stop.mockResolvedValueOnce({});
+
+      await driveClient.stopChannel('channel-1', 'resource-1');
+
+      expect(mockDrive.channels.stop).toHaveBeenCalledWith({
+        requestBody: { id: 'channel-1', resourceId: 'resource-1' },
+      });
+    });
+  });
+
+  describe('getFileMetadata', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should return the metadata and path of a file in the folder tree', async () => {
+      mockDrive.files.get.mockImplementation(async ({ fileId }: { fileId: string }) => {
+        const files: Record<string, unknown> = {
+          'file-1': {
+            id: 'file-1',
+            name: 'plan.md',
+            mimeType: 'text/markdown',
+            modifiedTime: '2025-01-01T00:00:00Z',
+            parents: ['notes'],
+          },
+          notes: { id: 'notes', name: 'Notes', parents: ['root'] },
+        };
+        return { data: files[fileId] };
+      });
+
+      const found = await driveClient.getFileMetadata('file-1', ['root']);
+
+      expect(found).toEqual({
+        file: {
+          id: 'file-1',
+          name: 'plan.md',
+          mimeType: 'text/markdown',
+          modifiedTime: '2025-01-01T00:00:00Z',
+          path: 'Notes/plan.md',
+          parents: ['notes'],
+        },
+        rootFolderId: 'root',
+      });
+    });
+
+    it('should fetch the file once and match it against each folder tree', async () => {
+      mockDrive.files.get.mockImplementation(async ({ fileId }: { fileId: string }) => {
+        const files: Record<string, unknown> = {
+          'file-1': { id: 'file-1', name: 'plan.md', mimeType: 'text/markdown', parents: ['team'] },
+          team: { id: 'team', name: 'Team', parents: [] },
+        };
+        return { data: files[fileId] };
+      });
+
+      const found = await driveClient.getFileMetadata('file-1', ['notes', 'team']);
+
+      expect(found?.rootFolderId).toBe('team');
+      expect(found?.file.path).toBe('plan.md');
+      const fetched = mockDrive.files.get.mock.calls.map(
+        ([params]: [{ fileId: string }]) => params.fileId
+      );
+      expect(fetched).toEqual(['file-1', 'team']);
+    });
+
+    it('should return null for files Drive does not find', async () => {
+      mockDrive.files.get.mockRejectedValue(
+        Object.assign(new Error('File not found'), { code: 404 })
+      );
+
+      expect(await driveClient.getFileMetadata('gone', ['root'])).toBeNull();
+      expect(mockDrive.files.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return null for trashed files and files outside the tree', async () => {
+      mockDrive.files.get.mockResolvedValueOnce({
+        data: { id: 'file-1', name: 'plan.md', mimeType: 'text/markdown', trashed: true },
+      });
+      expect(await driveClient.getFileMetadata('file-1', ['root'])).toBeNull();
+
+      mockDrive.files.get
+        .mockResolvedValueOnce({
+          data: { id: 'file-2', name: 'other.md', mimeType: 'text/markdown', parents: ['other'] },
+        })
+        .mockResolvedValueOnce({ data: { id: 'other', name: 'Other', parents: [] } });
+      expect(await driveClient.getFileMetadata('file-2', ['root'])).toBeNull();
+    });
+
+    it('should wrap API failures in a DriveError', async () => {
+      vi.useFakeTimers();
+      mockDrive.files.get.mockRejectedValue(
+        Object.assign(new Error('Backend Error'), { code: 500 })
+      );
+
+      const result = expect(driveClient.getFileMetadata('file-1', ['root'])).rejects.toThrow(
+        'Failed to get file metadata'
+      );
+      await vi.runAllTimersAsync();
+      await result;
+    });
+  });
+
   describe('fromJSON - Service Account Factory Method', () => {
     it('should create DriveClient from valid service account JSON', () => {
       const serviceAccountJSON = JSON.stringify({
@@ -8,8 +8,20 @@
 
 import { drive_v3, drive } from '@googleapis/drive';
 import { JWT } from 'google-auth-library';
-import { DriveError } from '../errors/index.js';
-import { withRetry } from '../errors/index.js';
+import {
+  CircuitBreaker,
+  DEFAULT_RETRY_CONFIG,
+  DriveError,
+  errorStatus,
+  withRetry,
+} from '../errors/index.js';
+import {
+  DocumentExtractor,
+  ExtractorRegistry,
+  createDefaultExtractorRegistry,
+  plainTextExtractor,
+} from '../extractors/registry.js';
+import { PathFilter } from './path-filter.js';
 
 /**
  * Service Account credentials for Google Drive API
@@ -34,6 +46,17 @@ export interface DriveCredentials {
   subject?: string;
 }
 
+export interface DriveClientOptions {
+  /**
+   * Supported file types (default: all built-in extractors)
+   */
+  extractors?: ExtractorRegistry;
+  /**
+   * Include/exclude rules evaluated against file paths (default: sync everything)
+   */
+  pathFilter?: PathFilter;
+}
+
 export interface DriveFileMetadata {
   id: string;
   name: string;
@@ -41,12 +64,30 @@ export interface DriveFileMetadata {
   modifiedTime: string;
   path: string;
   parents?: string[];
+  /**
+   * Label of the sync source the file belongs to (set by the orchestrator)
+   */
+  source?: string;
+}
+
+/**
+ * Push notification channel registered with changes.watch
+ */
+export interface DriveWatchChannel {
+  id: string;
+  resourceId: string;
+  expiration: string; // ISO timestamp chosen by Drive (at most the requested expiration)
 }
 
 export interface DriveChange {
   fileId: string;
   type: 'added' | 'modified' | 'deleted';
   file?: DriveFileMetadata;
+  /**
+   * Deleted because the file left the source's tree, not Drive: another source of the
+   * same change feed may still hold it
+   */
+  movedOut?: boolean;
 }
 
 /**
@@ -60,8 +101,11 @@ export class DriveClient {
   private auth: JWT;
   private folderCache: Map<string, { name: string; parents?: string[] }>;
   private pathCache: Map<string, string>;
+  private extractors: ExtractorRegistry;
+  private pathFilter: PathFilter;
+  private circuit = new CircuitBreaker('Google Drive');
 
-  constructor(credentials: DriveCredentials) {
+  constructor(credentials: DriveCredentials, options: DriveClientOptions = {}) {
     // Create JWT client for Service Account authentication
     this.auth = new JWT({
       email: credentials.clientEmail,
@@ -73,13 +117,22 @@ export class DriveClient {
     this.drive = drive({ version: 'v3', auth: this.auth });
     this.folderCache = new Map();
     this.pathCache = new Map();
+    this.extractors = options.extractors || createDefaultExtractorRegistry();
+    this.pathFilter = options.pathFilter || new PathFilter();
+  }
+
+  /**
+   * Retry a Drive API call; failures count toward the Drive circuit breaker
+   */
+  private withRetry<T>(fn: () => Promise<T>): Promise<T> {
+    return withRetry(fn, { ...DEFAULT_RETRY_CONFIG, circuit: this.circuit });
   }
 
   /**
    * Helper method to create DriveClient from JSON string
    * Useful for reading service account JSON from Cloudflare Secrets
    */
-  static fromJSON(json: string, subject?: string): DriveClient {
+  static fromJSON(json: string, subject?: string, options?: DriveClientOptions): DriveClient {
     try {
       const parsed = JSON.parse(json);
 
@@ -98,18 +151,32 @@ export class DriveClient {
         throw new Error('Invalid service account JSON: private_key must be a non-empty string');
       }
 
-      return new DriveClient({
-        clientEmail: parsed.client_email,
-        privateKey: parsed.private_key,
-        subject,
-      });
+      return new DriveClient(
+        {
+          clientEmail: parsed.client_email,
+          privateKey: parsed.private_key,
+          subject,
+        },
+        options
+      );
     } catch (error) {
-      throw new DriveError('Failed to parse service account JSON', {
-        error: (error as Error).message,
-      });
+      throw new DriveError(
+        'Failed to parse service account JSON',
+        {
+          error: (error as Error).message,
+        },
+        { cause: error }
+      );
     }
   }
 
+  /**
+   * Include/exclude rules applied to listed and changed files
+   */
+  getPathFilter(): PathFilter {
+    return this.pathFilter;
+  }
+
   /**
    * Clear internal caches (folder metadata and file paths)
    */
@@ -118,13 +185,23 @@ export class DriveClient {
     this.pathCache.clear();
   }
 
+  /**
+   * files.list scope: all drives the account can see, or a single Shared Drive
+   */
+  private static listScope(driveId?: string) {
+    return driveId
+      ? { corpora: 'drive', driveId, supportsAllDrives: true, includeItemsFromAllDrives: true }
+      : { supportsAllDrives: true, includeItemsFromAllDrives: true };
+  }
+
   /**
    * Get current start page token for changes API
+   * With a driveId the token tracks that Shared Drive's change feed
    */
-  async getStartPageToken(): Promise<string> {
+  async getStartPageToken(driveId?: string): Promise<string> {
     try {
-      const response = await withRetry(async () => {
-        return await this.drive.changes.getStartPageToken({});
+      const response = await this.withRetry(async () => {
+        return await this.drive.changes.getStartPageToken({ driveId, supportsAllDrives: true });
       });
 
       if (!response.data.startPageToken) {
@@ -133,48 +210,94 @@ export class DriveClient {
 
       return response.data.startPageToken;
     } catch (error) {
-      throw new DriveError('Failed to get start page token', {
-        error: (error as Error).message,
-      });
+      throw new DriveError(
+        'Failed to get start page token',
+        {
+          driveId,
+          error: (error as Error).message,
+        },
+        { cause: error }
+      );
     }
   }
 
   /**
-   * Recursively list all supported files in a folder (.md and .pdf)
+   * Recursively list all files with a registered extractor
    */
-  async listMarkdownFiles(rootFolderId: string): Promise<DriveFileMetadata[]> {
+  async listMarkdownFiles(rootFolderId: string, driveId?: string): Promise<DriveFileMetadata[]> {
     const files: DriveFileMetadata[] = [];
     const folderPathMap = new Map<string, string>();
     folderPathMap.set(rootFolderId, '');
 
     try {
-      await this.scanFolder(rootFolderId, files, folderPathMap);
+      await this.scanFolder(rootFolderId, files, folderPathMap, { driveId });
       return files;
     } catch (error) {
-      throw new DriveError('Failed to list supported files', {
-        rootFolderId,
-        error: (error as Error).message,
-      });
+      throw new DriveError(
+        'Failed to list supported files',
+        {
+          rootFolderId,
+          error: (error as Error).message,
+        },
+        { cause: error }
+      );
     }
   }
 
   /**
-   * Count total supported files in a folder (.md and .pdf)
+   * List all supported files, split by the path filter
+   * Scans excluded folders too, so vectors of files excluded by new rules can be removed
+   */
+  async listFilesByPathRules(
+    rootFolderId: string,
+    driveId?: string
+  ): Promise<{ included: DriveFileMetadata[]; excluded: DriveFileMetadata[] }> {
+    const included: DriveFileMetadata[] = [];
+    const excluded: DriveFileMetadata[] = [];
+    const folderPathMap = new Map<string, string>();
+    folderPathMap.set(rootFolderId, '');
+
+    try {
+      await this.scanFolder(rootFolderId, included, folderPathMap, { driveId, excluded });
+      return { included, excluded };
+    } catch (error) {
+      throw new DriveError(
+        'Failed to list supported files',
+        {
+          rootFolderId,
+          error: (error as Error).message,
+        },
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Count total files with a registered extractor
    * This is more efficient than listMarkdownFiles() when only the count is needed
    */
-  async getTotalFileCount(rootFolderId: string): Promise<number> {
+  async getTotalFileCount(rootFolderId: string, driveId?: string): Promise<number> {
     let count = 0;
 
     try {
-      await this.countFilesInFolder(rootFolderId, fileCount => {
-        count += fileCount;
-      });
+      await this.countFilesInFolder(
+        rootFolderId,
+        '',
+        fileCount => {
+          count += fileCount;
+        },
+        driveId
+      );
       return count;
     } catch (error) {
-      throw new DriveError('Failed to count supported files', {
-        rootFolderId,
-        error: (error as Error).message,
-      });
+      throw new DriveError(
+        'Failed to count supported files',
+        {
+          rootFolderId,
+          error: (error as Error).message,
+        },
+        { cause: error }
+      );
     }
   }
 
@@ -183,18 +306,21 @@ export class DriveClient {
    */
   private async countFilesInFolder(
     folderId: string,
-    onCount: (count: number) => void
+    folderPath: string,
+    onCount: (count: number) => void,
+    driveId?: string
   ): Promise<void> {
     let pageToken: string | undefined;
-    const subfolders: string[] = [];
+    const subfolders: { id: string; path: string }[] = [];
 
     do {
-      const response = await withRetry(async () => {
+      const response = await this.withRetry(async () => {
         return await this.drive.files.list({
           q: `'${folderId}' in parents and trashed=false`,
           pageToken,
           fields: 'nextPageToken, files(id, name, mimeType)',
           pageSize: 1000, // Use max page size for efficiency
+          ...DriveClient.listScope(driveId),
         });
       });
 
@@ -204,9 +330,16 @@ export class DriveClient {
       for (const item of items) {
         if (!item.id || !item.name) continue;
 
+        const itemPath = folderPath ? `${folderPath}/${item.name}` : item.name;
+
         if (item.mimeType === 'application/vnd.google-apps.folder') {
-          subfolders.push(item.id);
-        } else if (this.isSupportedFile(item.name, item.mimeType)) {
+          if (!this.pathFilter.isFolderExcluded(itemPath)) {
+            subfolders.push({ id: item.id, path: itemPath });
+          }
+        } else if (
+          this.isSupportedFile(item.name, item.mimeType) &&
+          this.pathFilter.isIncluded(itemPath)
+        ) {
           fileCountOnPage++;
         }
       }
@@ -221,40 +354,48 @@ export class DriveClient {
     // After collecting all subfolders, recurse in parallel
     if (subfolders.length > 0) {
       await Promise.all(
-        subfolders.map(subfolderId => this.countFilesInFolder(subfolderId, onCount))
+        subfolders.map(subfolder =>
+          this.countFilesInFolder(subfolder.id, subfolder.path, onCount, driveId)
+        )
       );
     }
   }
 
   /**
-   * Check if a file is a supported type (.md or .pdf)
+   * Check if a file has a registered extractor (by MIME type or extension)
    */
   private isSupportedFile(fileName: string, mimeType?: string | null): boolean {
-    return (
-      fileName.endsWith('.md') ||
-      mimeType === 'text/markdown' ||
-      fileName.endsWith('.pdf') ||
-      mimeType === 'application/pdf'
-    );
+    return this.extractors.isSupported(fileName, mimeType);
   }
 
   /**
-   * Recursively scan folder for markdown files
+   * Fall back to the extractor's primary MIME type when Drive omits it
+   */
+  private resolveMimeType(fileName: string, mimeType?: string | null): string {
+    return mimeType || this.extractors.resolve(fileName)?.mimeTypes[0] || 'text/plain';
+  }
+
+  /**
+   * Recursively scan folder for supported files
+   * Excluded folders are skipped unless excluded files are being collected
    */
   private async scanFolder(
     folderId: string,
     files: DriveFileMetadata[],
-    folderPathMap: Map<string, string>
+    folderPathMap: Map<string, string>,
+    options: { driveId?: string; excluded?: DriveFileMetadata[] } = {}
   ): Promise<void> {
+    const { excluded } = options;
     let pageToken: string | undefined;
 
     do {
-      const response = await withRetry(async () => {
+      const response = await this.withRetry(async () => {
         return await this.drive.files.list({
           q: `'${folderId}' in parents and trashed=false`,
           pageToken,
           fields: 'nextPageToken, files(id, name, mimeType, modifiedTime, parents)',
           pageSize: 100,
+          ...DriveClient.listScope(options.driveId),
         });
       });
 
@@ -267,17 +408,20 @@ export class DriveClient {
         const currentPath = parentPath ? `${parentPath}/${item.name}` : item.name;
 
         if (item.mimeType === 'application/vnd.google-apps.folder') {
+          if (!excluded && this.pathFilter.isFolderExcluded(currentPath)) {
+            continue;
+          }
           // Store folder path
           folderPathMap.set(item.id, currentPath);
           // Recursively scan subfolder
-          await this.scanFolder(item.id, files, folderPathMap);
+          await this.scanFolder(item.id, files, folderPathMap, options);
         } else if (this.isSupportedFile(item.name, item.mimeType)) {
-          // Add supported file (markdown or PDF)
-          files.push({
+          // Add supported file (any type with a registered extractor)
+          const target = this.pathFilter.isIncluded(currentPath) ? files : excluded;
+          target?.push({
             id: item.id,
             name: item.name,
-            mimeType:
-              item.mimeType || (item.name.endsWith('.pdf') ? 'application/pdf' : 'text/markdown'),
+            mimeType: this.resolveMimeType(item.name, item.mimeType),
             modifiedTime: item.modifiedTime || new Date().toISOString(),
             path: currentPath,
             parents: item.parents || undefined,
@@ -291,22 +435,32 @@ export class DriveClient {
 
   /**
    * Fetch changes since startPageToken
+   * With a driveId only that Shared Drive's changes are listed
+   *
+   * A file that leaves the indexable set (moved out of the folder tree, or renamed to an
+   * unsupported type) is reported as deleted with movedOut when it is in indexedFileIds,
+   * so its vectors do not outlive it; other changes outside the tree are skipped.
    */
   async fetchChanges(
     startPageToken: string,
-    rootFolderId: string
+    rootFolderId: string,
+    driveId?: string,
+    indexedFileIds: ReadonlySet<string> = new Set()
   ): Promise<{ changes: DriveChange[]; newStartPageToken: string }> {
     const changes: DriveChange[] = [];
     let pageToken = startPageToken;
 
     try {
       do {
-        const response = await withRetry(async () => {
+        const response = await this.withRetry(async () => {
           return await this.drive.changes.list({
             pageToken,
             fields:
               'nextPageToken, newStartPageToken, changes(fileId, removed, file(id, name, mimeType, modifiedTime, parents, trashed))',
             pageSize: 100,
+            driveId,
+            supportsAllDrives: true,
+            includeItemsFromAllDrives: true,
           });
         });
 
@@ -327,15 +481,23 @@ export class DriveClient {
           const file = change.file;
           if (!file || !file.name) continue;
 
-          // Only process supported files (markdown and PDF)
+          // Only process files with a registered extractor
           if (!this.isSupportedFile(file.name, file.mimeType)) {
+            if (indexedFileIds.has(file.id!)) {
+              changes.push({ fileId: file.id!, type: 'deleted', movedOut: true });
+            }
             continue;
           }
 
-          // Check if file is in the monitored folder tree
+          // Check if file is in the monitored folder tree (a failed lookup fails the fetch,
+          // so the change is retried rather than treated as a move out)
           const isInFolder = await this.isFileInFolder(file.id!, rootFolderId, file.parents || []);
 
+          // Moved out of the tree: drop the vectors it was indexed with
           if (!isInFolder) {
+            if (indexedFileIds.has(file.id!)) {
+              changes.push({ fileId: file.id!, type: 'deleted', movedOut: true });
+            }
             continue;
           }
 
@@ -347,13 +509,22 @@ export class DriveClient {
             file.parents || []
           );
 
+          // Excluded by path rules (e.g. moved into Archive/): drop any existing vectors
+          if (!this.pathFilter.isIncluded(path)) {
+            changes.push({
+              fileId: file.id!,
+              type: 'deleted',
+            });
+            continue;
+          }
+
           changes.push({
             fileId: file.id!,
             type: 'modified',
             file: {
               id: file.id!,
               name: file.name,
-              mimeType: file.mimeType || 'text/markdown',
+              mimeType: this.resolveMimeType(file.name, file.mimeType),
               modifiedTime: file.modifiedTime || new Date().toISOString(),
               path,
               parents: file.parents || undefined,
@@ -375,58 +546,233 @@ export class DriveClient {
       // Should not reach here, but handle gracefully
       throw new DriveError('No newStartPageToken received');
     } catch (error) {
-      throw new DriveError('Failed to fetch changes', {
-        startPageToken,
-        error: (error as Error).message,
+      throw new DriveError(
+        'Failed to fetch changes',
+        {
+          startPageToken,
+          error: (error as Error).message,
+        },
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Register a web_hook channel that receives a notification whenever the change feed
+   * after pageToken moves
+   */
+  async watchChanges(
+    pageToken: string,
+    channel: { id: string; address: string; token: string; expiration: Date },
+    driveId?: string
+  ): Promise<DriveWatchChannel> {
+    try {
+      const response = await this.withRetry(async () => {
+        return await this.drive.changes.watch({
+          pageToken,
+          driveId,
+          supportsAllDrives: true,
+          includeItemsFromAllDrives: true,
+          requestBody: {
+            id: channel.id,
+            type: 'web_hook',
+            address: channel.address,
+            token: channel.token,
+            expiration: String(channel.expiration.getTime()),
+          },
+        });
+      });
+
+      if (!response.data.resourceId) {
+        throw new DriveError('No resourceId received');
+      }
+
+      return {
+        id: channel.id,
+        resourceId: response.data.resourceId,
+        expiration: new Date(
+          Number(response.data.expiration) || channel.expiration.getTime()
+        ).toISOString(),
+      };
+    } catch (error) {
+      throw new DriveError(
+        'Failed to watch changes',
+        {
+          channelId: channel.id,
+          driveId,
+          error: (error as Error).message,
+        },
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Stop a push notification channel
+   */
+  async stopChannel(channelId: string, resourceId: string): Promise<void> {
+    try {
+      await this.withRetry(async () => {
+        return await this.drive.channels.stop({
+          requestBody: { id: channelId, resourceId },
+        });
       });
+    } catch (error) {
+      throw new DriveError(
+        'Failed to stop channel',
+        {
+          channelId,
+          error: (error as Error).message,
+        },
+        { cause: error }
+      );
     }
   }
 
   /**
-   * Download file content
+   * Fetch the current metadata of one file and find the first folder tree holding it
+   * The file is fetched once however many trees are checked. Returns null when the
+   * file does not exist, is trashed or unsupported, is outside every tree, or is
+   * excluded by path rules.
    */
-  async downloadFileContent(fileId: string, mimeType?: string): Promise<string> {
+  async getFileMetadata(
+    fileId: string,
+    rootFolderIds: string[]
+  ): Promise<{ file: DriveFileMetadata; rootFolderId: string } | null> {
     try {
-      // Check if file is PDF
-      const isPDF = mimeType === 'application/pdf';
+      const response = await this.withRetry(async () => {
+        return await this.drive.files.get({
+          fileId,
+          fields: 'id, name, mimeType, modifiedTime, parents, trashed',
+          supportsAllDrives: true,
+        });
+      });
+
+      const file = response.data;
+      if (file.trashed || !file.name || !this.isSupportedFile(file.name, file.mimeType)) {
+        return null;
+      }
+
+      const parents = file.parents || [];
+      for (const rootFolderId of rootFolderIds) {
+        if (!(await this.isFileInFolder(fileId, rootFolderId, parents))) {
+          continue;
+        }
+
+        const path = await this.buildFilePath(fileId, file.name, rootFolderId, parents);
+        if (!this.pathFilter.isIncluded(path)) {
+          continue;
+        }
 
-      if (isPDF) {
-        // Download PDF as binary
-        const response = await withRetry(async () => {
-          return await this.drive.files.get(
+        return {
+          file: {
+            id: fileId,
+            name: file.name,
+            mimeType: this.resolveMimeType(file.name, file.mimeType),
+            modifiedTime: file.modifiedTime || new Date().toISOString(),
+            path,
+            parents: file.parents || undefined,
+          },
+          rootFolderId,
+        };
+      }
+      return null;
+    } catch (error) {
+      if (errorStatus(error) === 404) {
+        return null;
+      }
+      throw new DriveError(
+        'Failed to get file metadata',
+        {
+          fileId,
+          error: (error as Error).message,
+        },
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Download file content and extract its text
+   * The extractor is resolved from the MIME type, then the file name extension;
+   * unknown files are read as plain text
+   */
+  async downloadFileContent(fileId: string, mimeType?: string, fileName = ''): Promise<string> {
+    const extractor = this.extractors.resolve(fileName, mimeType) ?? plainTextExtractor;
+
+    try {
+      const content = await this.download(fileId, extractor);
+      return await extractor.extract(content);
+    } catch (error) {
+      throw new DriveError(
+        'Failed to download file content',
+        {
+          fileId,
+          mimeType,
+          extractor: extractor.name,
+          error: (error as Error).message,
+        },
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Fetch raw file content using the extractor's download mode
+   */
+  private async download(
+    fileId: string,
+    extractor: DocumentExtractor
+  ): Promise<string | ArrayBuffer> {
+    const { download } = extractor;
+
+    if (download.mode === 'export') {
+      return this.exportFile(fileId, download.exportMimeTypes);
+    }
+
+    const response = await this.withRetry(async () => {
+      return await this.drive.files.get(
+        {
+          fileId,
+          alt: 'media',
+          supportsAllDrives: true,
+        },
+        { responseType: download.mode === 'binary' ? 'arraybuffer' : 'text' }
+      );
+    });
+
+    return response.data as unknown as string | ArrayBuffer;
+  }
+
+  /**
+   * Export a native Google file (Docs/Sheets/Slides)
+   * Tries each export format in order (e.g. markdown, then plain text for Docs)
+   */
+  private async exportFile(fileId: string, exportMimeTypes: string[]): Promise<string> {
+    let lastError: Error | undefined;
+
+    for (const exportMimeType of exportMimeTypes) {
+      try {
+        const response = await this.withRetry(async () => {
+          return await this.drive.files.export(
             {
               fileId,
-              alt: 'media',
+              mimeType: exportMimeType,
             },
-            { responseType: 'arraybuffer' }
+            { responseType: 'text' }
           );
         });
 
-        // Import PDF extractor dynamically to avoid issues in non-PDF contexts
-        const { extractTextFromPDF } = await import('../utils/pdf-extractor.js');
-        const text = await extractTextFromPDF(response.data as ArrayBuffer);
-        return text;
+        return response.data as unknown as string;
+      } catch (error) {
+        lastError = error as Error;
+        console.warn(`Export of ${fileId} as ${exportMimeType} failed`, {
+          error: lastError.message,
+        });
       }
-
-      // Download text file (markdown, etc.)
-      const response = await withRetry(async () => {
-        return await this.drive.files.get(
-          {
-            fileId,
-            alt: 'media',
-          },
-          { responseType: 'text' }
-        );
-      });
-
-      return response.data as unknown as string;
-    } catch (error) {
-      throw new DriveError('Failed to download file content', {
-        fileId,
-        mimeType,
-        error: (error as Error).message,
-      });
     }
+
+    throw lastError;
   }
 
   /**
@@ -451,6 +797,8 @@ export class DriveClient {
 
   /**
    * Recursively check if currentFolderId is the targetFolderId or has it as an ancestor
+   * A folder Drive reports as not found is outside the tree; any other lookup failure
+   * is thrown, since the answer is unknown
    */
   private async isAncestorFolder(
     currentFolderId: string,
@@ -471,10 +819,11 @@ export class DriveClient {
       let folderInfo = this.folderCache.get(currentFolderId);
 
       if (!folderInfo) {
-        const response = await withRetry(async () => {
+        const response = await this.withRetry(async () => {
           return await this.drive.files.get({
             fileId: currentFolderId,
             fields: 'id, name, parents',
+            supportsAllDrives: true,
           });
         });
 
@@ -500,12 +849,14 @@ export class DriveClient {
 
       return false;
     } catch (error) {
-      // Log error for debugging while maintaining graceful fallback
-      console.error('Failed to check folder ancestry, assuming file not in tree', {
+      if (errorStatus(error) !== 404) {
+        throw error;
+      }
+
+      console.warn('Folder not found while checking ancestry, assuming file not in tree', {
         currentFolderId,
         targetFolderId,
         depth,
-        error: error instanceof Error ? error.message : String(error),
       });
       return false;
     }
@@ -575,10 +926,11 @@ export class DriveClient {
 
         if (!parentInfo) {
           // Fetch parent folder info
-          const parentResponse = await withRetry(async () => {
+          const parentResponse = await this.withRetry(async () => {
             return await this.drive.files.get({
               fileId: currentParentId,
               fields: 'id, name, parents',
+              supportsAllDrives: true,
             });
           });
 
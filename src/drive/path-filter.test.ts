@@ -0,0 +1,92 @@
+/**
+ * Tests for include/exclude glob rules
+ *
+ * Trace:
+ *   spec_id: SPEC-drive-integration-1
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PathFilter, globToRegExp, parseGlobList } from './path-filter';
+
+describe('globToRegExp', () => {
+  it('should keep single stars within one path segment', () => {
+    const pattern = globToRegExp('Projects/*.md');
+
+    expect(pattern.test('Projects/plan.md')).toBe(true);
+    expect(pattern.test('Projects/Alpha/plan.md')).toBe(false);
+  });
+
+  it('should let double stars cross segments, including zero segments', () => {
+    const pattern = globToRegExp('Projects/**/notes.md');
+
+    expect(pattern.test('Projects/notes.md')).toBe(true);
+    expect(pattern.test('Projects/Alpha/2025/notes.md')).toBe(true);
+  });
+
+  it('should match names without a slash at any depth', () => {
+    const pattern = globToRegExp('*.draft.md');
+
+    expect(pattern.test('plan.draft.md')).toBe(true);
+    expect(pattern.test('Team/Alice/plan.draft.md')).toBe(true);
+    expect(pattern.test('plan.md')).toBe(false);
+  });
+
+  it('should match everything below a matching folder', () => {
+    expect(globToRegExp('Personal').test('Team/Personal/diary.md')).toBe(true);
+    expect(globToRegExp('Archive/').test('Archive/2020/old.md')).toBe(true);
+  });
+
+  it('should support braces and escape regex characters', () => {
+    const pattern = globToRegExp('Reports (old)/*.{pdf,docx}');
+
+    expect(pattern.test('Reports (old)/q1.pdf')).toBe(true);
+    expect(pattern.test('Reports (old)/q1.docx')).toBe(true);
+    expect(pattern.test('Reports (old)/q1.md')).toBe(false);
+  });
+});
+
+describe('parseGlobList', () => {
+  it('should split on commas and newlines but not inside braces', () => {
+    expect(parseGlobList('Archive/**, *.draft.md\n*.{pdf,docx}\n')).toEqual([
+      'Archive/**',
+      '*.draft.md',
+      '*.{pdf,docx}',
+    ]);
+    expect(parseGlobList(undefined)).toEqual([]);
+  });
+});
+
+describe('PathFilter', () => {
+  it('TEST-drive-integration-8: should apply excludes over includes', () => {
+    const filter = PathFilter.fromLists('Projects/**, Notes/**', 'Archive/**, *.draft.md');
+
+    expect(filter.isIncluded('Projects/plan.md')).toBe(true);
+    expect(filter.isIncluded('Projects/plan.draft.md')).toBe(false);
+    expect(filter.isIncluded('Archive/Projects/plan.md')).toBe(false);
+    expect(filter.isIncluded('Personal/diary.md')).toBe(false);
+  });
+
+  it('should include everything without rules', () => {
+    const filter = new PathFilter();
+
+    expect(filter.isIncluded('any/path.md')).toBe(true);
+    expect(filter.fingerprint).toBe('');
+  });
+
+  it('should only prune folders whose whole subtree is excluded', () => {
+    const filter = PathFilter.fromLists('', 'Archive/**, Archive2/*.md, Personal');
+
+    expect(filter.isFolderExcluded('Archive')).toBe(true);
+    expect(filter.isFolderExcluded('Team/Personal')).toBe(true);
+    expect(filter.isFolderExcluded('Archive2')).toBe(false);
+  });
+
+  it('should produce an order-independent fingerprint that round-trips', () => {
+    const a = PathFilter.fromLists('', 'b/**, a/**');
+    const b = PathFilter.fromLists('', 'a/**, b/**');
+
+    expect(a.fingerprint).toBe(b.fingerprint);
+    expect(PathFilter.fromFingerprint(a.fingerprint).isIncluded('a/x.md')).toBe(false);
+    expect(PathFilter.fromFingerprint('').isIncluded('a/x.md')).toBe(true);
+  });
+});
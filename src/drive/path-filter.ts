@@ -0,0 +1,158 @@
+/**
+ * Include/exclude glob rules for the synced folder tree
+ *
+ * Rules are evaluated against the file path relative to the root folder
+ * (e.g. "Projects/Alpha/notes.md"). Glob syntax:
+ * - `*` matches within a path segment, `**` across segments, `?` one character
+ * - `{a,b}` matches either alternative
+ * - A pattern without `/` matches the file or folder name at any depth
+ * - A pattern that matches a folder also matches everything below it
+ *
+ * Trace:
+ *   spec_id: SPEC-drive-integration-1
+ */
+
+export interface PathFilterRules {
+  /**
+   * If non-empty, only paths matching at least one pattern are synced
+   */
+  include?: string[];
+  /**
+   * Paths matching any pattern are never synced (takes precedence over include)
+   */
+  exclude?: string[];
+}
+
+/**
+ * Compile a glob pattern into an anchored regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let glob = pattern.trim().replace(/^\/+/, '');
+  if (glob.endsWith('/')) {
+    glob += '**';
+  }
+
+  let source = glob.includes('/') ? '' : '(?:.*/)?';
+  let inBraces = false;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*' && glob[i + 1] === '*') {
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{' && !inBraces) {
+      source += '(?:';
+      inBraces = true;
+    } else if (char === '}' && inBraces) {
+      source += ')';
+      inBraces = false;
+    } else if (char === ',' && inBraces) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  if (inBraces) {
+    throw new Error(`Invalid glob pattern (unclosed brace): ${pattern}`);
+  }
+
+  return new RegExp(`^${source}(?:/.*)?$`);
+}
+
+/**
+ * Split a comma- or newline-separated list of glob patterns
+ * Commas inside braces belong to the pattern
+ */
+export function parseGlobList(value?: string | null): string[] {
+  if (!value) {
+    return [];
+  }
+
+  const patterns: string[] = [];
+  let current = '';
+  let depth = 0;
+
+  for (const char of value) {
+    if (char === '{') depth++;
+    if (char === '}') depth = Math.max(0, depth - 1);
+
+    if ((char === ',' && depth === 0) || char === '\n') {
+      patterns.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  patterns.push(current);
+
+  return patterns.map(pattern => pattern.trim()).filter(pattern => pattern !== '');
+}
+
+/**
+ * Decides which paths in the folder tree are synced
+ */
+export class PathFilter {
+  private include: RegExp[];
+  private exclude: RegExp[];
+
+  /**
+   * Stable identifier of the rules; changes whenever the rules change
+   */
+  readonly fingerprint: string;
+
+  constructor(rules: PathFilterRules = {}) {
+    const include = rules.include || [];
+    const exclude = rules.exclude || [];
+
+    this.include = include.map(globToRegExp);
+    this.exclude = exclude.map(globToRegExp);
+    this.fingerprint =
+      include.length === 0 && exclude.length === 0
+        ? ''
+        : JSON.stringify({ include: [...include].sort(), exclude: [...exclude].sort() });
+  }
+
+  /**
+   * Build from comma/newline-separated env values
+   */
+  static fromLists(include?: string | null, exclude?: string | null): PathFilter {
+    return new PathFilter({ include: parseGlobList(include), exclude: parseGlobList(exclude) });
+  }
+
+  /**
+   * Rebuild a filter from a previously recorded fingerprint
+   */
+  static fromFingerprint(fingerprint?: string | null): PathFilter {
+    return fingerprint
+      ? new PathFilter(JSON.parse(fingerprint) as PathFilterRules)
+      : new PathFilter();
+  }
+
+  /**
+   * Check whether a file at this path should be synced
+   */
+  isIncluded(path: string): boolean {
+    if (this.exclude.some(pattern => pattern.test(path))) {
+      return false;
+    }
+    return this.include.length === 0 || this.include.some(pattern => pattern.test(path));
+  }
+
+  /**
+   * Check whether everything below a folder is excluded, so it need not be scanned
+   */
+  isFolderExcluded(folderPath: string): boolean {
+    return this.exclude.some(pattern => pattern.test(`${folderPath}/`));
+  }
+}
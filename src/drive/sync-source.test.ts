@@ -0,0 +1,43 @@
+/**
+ * Tests for sync source configuration
+ *
+ * Trace:
+ *   spec_id: SPEC-drive-integration-1
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSyncSources } from './sync-source';
+
+describe('parseSyncSources', () => {
+  it('should fall back to GOOGLE_ROOT_FOLDER_ID as the default source', () => {
+    expect(parseSyncSources(undefined, 'folder-1')).toEqual([
+      { label: 'default', rootFolderId: 'folder-1' },
+    ]);
+  });
+
+  it('TEST-drive-integration-9: should parse folders, Shared Drives and folders in Shared Drives', () => {
+    const sources = parseSyncSources(
+      JSON.stringify([
+        { label: 'notes', folderId: 'folder-1' },
+        { label: 'team', driveId: '0ATeam' },
+        { folderId: 'folder-2', driveId: '0AEng' },
+      ])
+    );
+
+    expect(sources).toEqual([
+      { label: 'notes', rootFolderId: 'folder-1' },
+      { label: 'team', rootFolderId: '0ATeam', driveId: '0ATeam' },
+      { label: 'folder-2', rootFolderId: 'folder-2', driveId: '0AEng' },
+    ]);
+  });
+
+  it('should reject invalid configuration', () => {
+    expect(() => parseSyncSources(undefined, undefined)).toThrow('No sync source configured');
+    expect(() => parseSyncSources('{')).toThrow('Invalid GOOGLE_SYNC_SOURCES JSON');
+    expect(() => parseSyncSources('[]')).toThrow('non-empty JSON array');
+    expect(() => parseSyncSources('[{"label":"x"}]')).toThrow('folderId or driveId is required');
+    expect(() =>
+      parseSyncSources('[{"label":"x","folderId":"a"},{"label":"x","folderId":"b"}]')
+    ).toThrow('duplicate label "x"');
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Sync sources: the Drive folders and Shared Drives synced by one deployment
+ *
+ * Trace:
+ *   spec_id: SPEC-drive-integration-1
+ */
+
+export interface SyncSource {
+  /**
+   * Unique label; keys the source's sync state and is stored as `source` in vector metadata
+   */
+  label: string;
+
+  /**
+   * Folder whose tree is synced (for a whole Shared Drive, the drive ID itself)
+   */
+  rootFolderId: string;
+
+  /**
+   * Shared Drive containing the folder; scopes changes.list and files.list to that drive
+   */
+  driveId?: string;
+}
+
+/**
+ * Label of the single source configured through GOOGLE_ROOT_FOLDER_ID
+ */
+export const DEFAULT_SOURCE_LABEL = 'default';
+
+interface SyncSourceConfig {
+  label?: unknown;
+  folderId?: unknown;
+  driveId?: unknown;
+}
+
+function optionalId(value: unknown, field: string, index: number): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new Error(`Invalid sync source at index ${index}: ${field} must be a string`);
+  }
+  return value.trim();
+}
+
+/**
+ * Resolve the configured sync sources
+ *
+ * GOOGLE_SYNC_SOURCES is a JSON array of `{ label?, folderId?, driveId? }`:
+ * - `{ "label": "notes", "folderId": "1AbC" }` syncs a folder
+ * - `{ "label": "team", "driveId": "0AXy" }` syncs a whole Shared Drive
+ * - both fields sync a folder inside a Shared Drive
+ *
+ * Without it, GOOGLE_ROOT_FOLDER_ID is used as the single "default" source.
+ */
+export function parseSyncSources(sourcesJson?: string, rootFolderId?: string): SyncSource[] {
+  if (!sourcesJson || !sourcesJson.trim()) {
+    if (!rootFolderId) {
+      throw new Error(
+        'No sync source configured: set GOOGLE_SYNC_SOURCES or GOOGLE_ROOT_FOLDER_ID'
+      );
+    }
+    return [{ label: DEFAULT_SOURCE_LABEL, rootFolderId }];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(sourcesJson);
+  } catch (error) {
+    throw new Error(`Invalid GOOGLE_SYNC_SOURCES JSON: ${(error as Error).message}`);
+  }
+
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error('Invalid GOOGLE_SYNC_SOURCES: must be a non-empty JSON array');
+  }
+
+  const labels = new Set<string>();
+
+  return parsed.map((entry: SyncSourceConfig, index) => {
+    if (!entry || typeof entry !== 'object') {
+      throw new Error(`Invalid sync source at index ${index}: must be an object`);
+    }
+
+    const folderId = optionalId(entry.folderId, 'folderId', index);
+    const driveId = optionalId(entry.driveId, 'driveId', index);
+    const rootFolderId = folderId || driveId;
+
+    if (!rootFolderId) {
+      throw new Error(`Invalid sync source at index ${index}: folderId or driveId is required`);
+    }
+
+    const label = optionalId(entry.label, 'label', index) || rootFolderId;
+    if (labels.has(label)) {
+      throw new Error(`Invalid GOOGLE_SYNC_SOURCES: duplicate label "${label}"`);
+    }
+    labels.add(label);
+
+    return driveId ? { label, rootFolderId, driveId } : { label, rootFolderId };
+  });
+}
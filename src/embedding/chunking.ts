@@ -1,18 +1,49 @@
 /**
- * Text chunking with approximate token counting
+ * Text chunking with approximate or tokenizer-backed token counting
  *
- * Note: Replaces tiktoken with approximate counting to reduce Worker bundle size
- * Approximation: ~4 characters per token (good enough for chunking purposes)
+ * Without a tokenizer, counts are approximated at ~4 characters per token, which
+ * undercounts CJK text. Pass a Tokenizer (see tokenizer.ts) for exact counts.
  *
  * Trace:
  *   spec_id: SPEC-embedding-pipeline-1
  *   task_id: TASK-004
  */
 
+import { Tokenizer, splitPretokens } from './tokenizer.js';
+
 export interface ChunkResult {
   text: string;
   index: number;
+  /**
+   * Tokens of the embedding input (see toEmbeddingInput), breadcrumb included
+   */
   tokenCount: number;
+  /**
+   * Heading breadcrumb of the section the chunk belongs to (markdown strategy only)
+   */
+  headingPath?: string[];
+}
+
+/**
+ * fixed: character windows with overlap (chunkText)
+ * markdown: heading-aware sections with intact code blocks and tables (chunkMarkdown)
+ */
+export const CHUNKING_STRATEGIES = ['fixed', 'markdown'] as const;
+export type ChunkingStrategy = (typeof CHUNKING_STRATEGIES)[number];
+
+/**
+ * Render a heading breadcrumb, e.g. "Projects > Alpha > Timeline"
+ */
+export function formatHeadingPath(headingPath: string[] | undefined): string {
+  return (headingPath || []).join(' > ');
+}
+
+/**
+ * Text sent to the embedding model: the heading breadcrumb (if any) followed by the chunk
+ */
+export function toEmbeddingInput(chunk: ChunkResult): string {
+  const breadcrumb = formatHeadingPath(chunk.headingPath);
+  return breadcrumb ? `${breadcrumb}\n\n${chunk.text}` : chunk.text;
 }
 
 /**
@@ -49,11 +80,13 @@ function approximateTokenCount(text: string): number {
  * @param text - The text to chunk
  * @param maxTokens - Maximum tokens per chunk (default: 2000)
  * @param overlapTokens - Number of tokens to overlap between chunks (default: 200)
+ * @param tokenizer - Exact tokenizer; chunk boundaries then fall on pre-token edges
  */
 export function chunkText(
   text: string,
   maxTokens: number = 2000,
-  overlapTokens: number = 200
+  overlapTokens: number = 200,
+  tokenizer?: Tokenizer
 ): ChunkResult[] {
   // Validate parameters
   if (maxTokens <= 0) {
@@ -67,6 +100,10 @@ export function chunkText(
   // Auto-adjust overlap if it's too large for the given maxTokens
   const effectiveOverlap = Math.min(overlapTokens, Math.floor(maxTokens * 0.5));
 
+  if (tokenizer) {
+    return chunkByTokens(text, maxTokens, effectiveOverlap, tokenizer);
+  }
+
   const approximateTokens = approximateTokenCount(text);
 
   // If text is within limit, return single chunk
@@ -105,10 +142,87 @@ export function chunkText(
 }
 
 /**
- * Count tokens in text (approximate)
+ * Split text into pre-tokens no longer than maxTokens each
+ * A code point encodes to at most 4 bytes, so at most 4 byte-level tokens
+ */
+function boundedPretokens(text: string, maxTokens: number): string[] {
+  const maxCodePoints = Math.max(1, Math.floor(maxTokens / 4));
+  const pieces: string[] = [];
+
+  for (const piece of splitPretokens(text)) {
+    if (piece.length <= maxCodePoints) {
+      pieces.push(piece);
+      continue;
+    }
+
+    const codePoints = Array.from(piece);
+    for (let i = 0; i < codePoints.length; i += maxCodePoints) {
+      pieces.push(codePoints.slice(i, i + maxCodePoints).join(''));
+    }
+  }
+
+  return pieces;
+}
+
+/**
+ * Exact token windows: whole pre-tokens are packed up to maxTokens,
+ * and the next window restarts up to overlapTokens earlier
+ */
+function chunkByTokens(
+  text: string,
+  maxTokens: number,
+  overlapTokens: number,
+  tokenizer: Tokenizer
+): ChunkResult[] {
+  const pieces = boundedPretokens(text, maxTokens);
+  const counts = pieces.map(piece => tokenizer.countTokens(piece));
+  const totalTokens = counts.reduce((sum, n) => sum + n, 0);
+
+  if (totalTokens <= maxTokens) {
+    return [{ text, index: 0, tokenCount: totalTokens }];
+  }
+
+  const chunks: ChunkResult[] = [];
+  let start = 0;
+
+  while (start < pieces.length) {
+    let end = start;
+    let tokens = 0;
+    while (end < pieces.length && tokens + counts[end] <= maxTokens) {
+      tokens += counts[end++];
+    }
+    if (end === start) {
+      // A single pre-token over budget (only possible with non-byte-level tokenizers)
+      tokens = counts[end++];
+    }
+
+    chunks.push({
+      text: pieces.slice(start, end).join(''),
+      index: chunks.length,
+      tokenCount: tokens,
+    });
+
+    if (end >= pieces.length) {
+      break;
+    }
+
+    // Step back for overlap, but always move forward
+    let next = end;
+    let overlap = 0;
+    while (next > start + 1 && overlap + counts[next - 1] <= overlapTokens) {
+      overlap += counts[--next];
+    }
+    start = next;
+  }
+
+  return chunks;
+}
+
+/**
+ * Count tokens in text (approximate unless a tokenizer is given)
  */
-export function countTokens(text: string): number {
-  return approximateTokenCount(text);
+export function countTokens(text: string, tokenizer?: Tokenizer): number {
+  return tokenizer ? tokenizer.countTokens(text) : approximateTokenCount(text);
 }
 
 /**
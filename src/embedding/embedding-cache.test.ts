@@ -0,0 +1,91 @@
+/**
+ * Tests for the content-addressed embedding cache
+ *
+ * Trace:
+ *   spec_id: SPEC-embedding-pipeline-1
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  EMBEDDING_CACHE_TTL_SECONDS,
+  EmbeddingCache,
+  decodeVector,
+  embeddingCacheTag,
+  encodeVector,
+} from './embedding-cache';
+
+class MockKVNamespace {
+  store = new Map<string, string>();
+  put = vi.fn(async (key: string, value: string, _options?: { expirationTtl?: number }) => {
+    this.store.set(key, value);
+  });
+  get = vi.fn(async (keys: string[], _type: 'text') => {
+    return new Map(keys.map(key => [key, this.store.get(key) ?? null]));
+  });
+}
+
+describe('EmbeddingCache', () => {
+  it('should round-trip vectors at float32 precision', () => {
+    const vector = [0.1, -0.25, 0.333333, 1];
+
+    const decoded = decodeVector(encodeVector(vector));
+
+    expect(decoded).toHaveLength(4);
+    decoded.forEach((value, i) => expect(value).toBeCloseTo(vector[i], 6));
+  });
+
+  it('should tag entries with provider, model and dimensions', () => {
+    const client = {
+      getProviderName: () => 'workers-ai',
+      getModel: () => '@cf/baai/bge-m3',
+      getDimensions: () => 1024,
+    };
+
+    expect(embeddingCacheTag(client as any)).toBe('workers-ai:@cf/baai/bge-m3:1024');
+  });
+
+  it('should return stored vectors and leave misses out', async () => {
+    const kv = new MockKVNamespace();
+    const cache = new EmbeddingCache(kv as unknown as KVNamespace);
+
+    await cache.putMany('m', new Map([['h1', [0.5, 0.5]]]));
+    const vectors = await cache.getMany('m', ['h1', 'h2', 'h1']);
+
+    expect([...vectors.keys()]).toEqual(['h1']);
+    expect(vectors.get('h1')).toEqual([0.5, 0.5]);
+    expect(kv.put).toHaveBeenCalledWith('m:h1', expect.any(String), {
+      expirationTtl: EMBEDDING_CACHE_TTL_SECONDS,
+    });
+  });
+
+  it('should keep models apart', async () => {
+    const cache = new EmbeddingCache(new MockKVNamespace() as unknown as KVNamespace);
+
+    await cache.putMany('small', new Map([['h1', [1]]]));
+
+    expect((await cache.getMany('large', ['h1'])).size).toBe(0);
+  });
+
+  it('should read at most 100 keys per bulk get', async () => {
+    const kv = new MockKVNamespace();
+    const cache = new EmbeddingCache(kv as unknown as KVNamespace);
+
+    await cache.getMany(
+      'm',
+      Array.from({ length: 250 }, (_, i) => `h${i}`)
+    );
+
+    expect(kv.get.mock.calls.map(call => call[0].length)).toEqual([100, 100, 50]);
+  });
+
+  it('should treat KV failures as misses', async () => {
+    const kv = new MockKVNamespace();
+    kv.get.mockRejectedValue(new Error('KV unavailable'));
+    kv.put.mockRejectedValue(new Error('KV unavailable'));
+    const cache = new EmbeddingCache(kv as unknown as KVNamespace);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await expect(cache.putMany('m', new Map([['h1', [1]]]))).resolves.toBeUndefined();
+    expect((await cache.getMany('m', ['h1'])).size).toBe(0);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Content-addressed embedding cache
+ *
+ * Chunk embeddings are stored in KV under the chunk hash, tagged with the embedding
+ * provider, model and dimensions, so identical text in any file (templates, copied
+ * sections) is embedded once per model. Vectors are kept as base64 float32 (about 8 KB
+ * for 1536 dimensions) and read with bulk gets. Entries expire after
+ * EMBEDDING_CACHE_TTL_SECONDS unless written again.
+ *
+ * Trace:
+ *   spec_id: SPEC-embedding-pipeline-1
+ */
+
+import type { EmbeddingClient } from './embedding-client.js';
+import { toError } from '../errors/index.js';
+
+export const EMBEDDING_CACHE_TTL_SECONDS = 60 * 60 * 24 * 90; // 90 days
+
+// KV bulk gets take at most 100 keys
+const BULK_GET_SIZE = 100;
+
+/**
+ * Cache namespace of an embedding model; vectors of different models never mix
+ */
+export function embeddingCacheTag(client: EmbeddingClient): string {
+  return `${client.getProviderName()}:${client.getModel()}:${client.getDimensions()}`;
+}
+
+export function encodeVector(vector: number[]): string {
+  const bytes = new Uint8Array(new Float32Array(vector).buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export function decodeVector(encoded: string): number[] {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return Array.from(new Float32Array(bytes.buffer));
+}
+
+/**
+ * KV-backed cache of chunk hash -> embedding vector
+ * Cache failures are logged and treated as misses, so they never fail a sync
+ */
+export class EmbeddingCache {
+  constructor(
+    private kv: KVNamespace,
+    private ttlSeconds: number = EMBEDDING_CACHE_TTL_SECONDS
+  ) {}
+
+  /**
+   * Cached vectors of the given chunk hashes (misses are absent from the map)
+   */
+  async getMany(tag: string, hashes: string[]): Promise<Map<string, number[]>> {
+    const unique = [...new Set(hashes)];
+    const vectors = new Map<string, number[]>();
+
+    for (let i = 0; i < unique.length; i += BULK_GET_SIZE) {
+      const batch = unique.slice(i, i + BULK_GET_SIZE);
+      try {
+        const values = await this.kv.get(
+          batch.map(hash => this.key(tag, hash)),
+          'text'
+        );
+        for (const hash of batch) {
+          const value = values.get(this.key(tag, hash));
+          if (value) {
+            vectors.set(hash, decodeVector(value));
+          }
+        }
+      } catch (error) {
+        console.warn('Embedding cache lookup failed:', toError(error).message);
+      }
+    }
+
+    return vectors;
+  }
+
+  /**
+   * Store freshly computed vectors by chunk hash
+   */
+  async putMany(tag: string, vectors: Map<string, number[]>): Promise<void> {
+    const results = await Promise.allSettled(
+      [...vectors].map(([hash, vector]) =>
+        this.kv.put(this.key(tag, hash), encodeVector(vector), {
+          expirationTtl: this.ttlSeconds,
+        })
+      )
+    );
+
+    const failed = results.filter(result => result.status === 'rejected');
+    if (failed.length > 0) {
+      console.warn(
+        `Failed to cache ${failed.length} embedding(s):`,
+        toError((failed[0] as PromiseRejectedResult).reason).message
+      );
+    }
+  }
+
+  private key(tag: string, hash: string): string {
+    return `${tag}:${hash}`;
+  }
+}
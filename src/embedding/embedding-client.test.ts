@@ -7,8 +7,10 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { EmbeddingClient } from './embedding-client';
+import { EmbeddingClient, assertIndexDimensions } from './embedding-client';
+import { HashEmbeddingProvider } from './hash-provider';
 import { EmbeddingError } from '../errors/index';
+import { VectorStoreClient } from '../types/vector-store';
 
 // Mock OpenAI client
 const mockCreate = vi.fn();
@@ -90,6 +92,45 @@ describe('EmbeddingClient', () => {
 
       expect(testClient).toBeDefined();
     });
+
+    it('should embed through a configured provider', async () => {
+      const providerClient = new EmbeddingClient({
+        provider: new HashEmbeddingProvider('offline', 16),
+        apiKey: 'ignored',
+      });
+
+      const result = await providerClient.embedWithUsage(['a', 'b', 'c'], 2);
+
+      expect(providerClient.getProviderName()).toBe('hash');
+      expect(providerClient.getModel()).toBe('offline');
+      expect(result.embeddings).toHaveLength(3);
+      expect(result.embeddings[2]).toHaveLength(16);
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assertIndexDimensions', () => {
+    const indexWith = (dimensions: number | null) =>
+      ({ getDimensions: vi.fn().mockResolvedValue(dimensions) }) as unknown as VectorStoreClient;
+
+    it('TEST-embedding-pipeline-10: should reject a model whose dimensions the index does not have', async () => {
+      await expect(assertIndexDimensions(client, indexWith(1024))).rejects.toMatchObject({
+        message: 'Embedding dimensions do not match the vector index',
+        context: {
+          provider: 'openai',
+          model: 'text-embedding-3-small',
+          dimensions: DEFAULT_EMBEDDING_DIMENSIONS,
+          indexDimensions: 1024,
+        },
+      });
+    });
+
+    it('should pass matching or unknown index dimensions', async () => {
+      await expect(
+        assertIndexDimensions(client, indexWith(DEFAULT_EMBEDDING_DIMENSIONS))
+      ).resolves.toBeUndefined();
+      await expect(assertIndexDimensions(client, indexWith(null))).resolves.toBeUndefined();
+    });
   });
 
   describe('embedBatch', () => {
@@ -356,13 +397,121 @@ describe('EmbeddingClient', () => {
     }, 10000); // Increase timeout for retry logic
   });
 
+  describe('embedWithUsage', () => {
+    it('should sum usage.total_tokens across batches', async () => {
+      mockCreate.mockImplementation(async ({ input }: { input: string[] }) => ({
+        data: input.map((_, idx) => ({
+          index: idx,
+          embedding: Array(DEFAULT_EMBEDDING_DIMENSIONS).fill(0.1),
+        })),
+        usage: { prompt_tokens: input.length * 7, total_tokens: input.length * 7 },
+      }));
+
+      const result = await client.embedWithUsage(['a', 'b', 'c'], 2);
+
+      expect(result.embeddings).toHaveLength(3);
+      expect(result.totalTokens).toBe(21);
+    });
+
+    it('should report zero tokens when usage is missing', async () => {
+      mockCreate.mockResolvedValue({
+        data: [{ index: 0, embedding: Array(DEFAULT_EMBEDDING_DIMENSIONS).fill(0.1) }],
+      });
+
+      const result = await client.embedWithUsage(['a']);
+
+      expect(result.totalTokens).toBe(0);
+    });
+  });
+
+  describe('Token-aware batching', () => {
+    const respond = async ({ input }: { input: string[] }) => ({
+      data: input.map((_, idx) => ({
+        index: idx,
+        embedding: Array(DEFAULT_EMBEDDING_DIMENSIONS).fill(0.1),
+      })),
+    });
+
+    it('TEST-embedding-pipeline-12: should close a batch before it exceeds the token budget', async () => {
+      const budgetClient = new EmbeddingClient({ apiKey: 'test-key', maxBatchTokens: 100 });
+      mockCreate.mockImplementation(respond);
+
+      const result = await budgetClient.embedWithUsage(['a', 'b', 'c', 'd'], 32, [60, 30, 20, 200]);
+
+      expect(result.embeddings).toHaveLength(4);
+      // 60 + 30 fit, 20 starts the next batch, 200 goes alone
+      expect(mockCreate.mock.calls.map(call => call[0].input)).toEqual([['a', 'b'], ['c'], ['d']]);
+    });
+
+    it('should estimate token counts when none are given', async () => {
+      const budgetClient = new EmbeddingClient({ apiKey: 'test-key', maxBatchTokens: 10 });
+      mockCreate.mockImplementation(respond);
+
+      await budgetClient.embedWithUsage(['x'.repeat(40), 'y'.repeat(40)], 32);
+
+      expect(mockCreate).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep at most maxConcurrentBatches requests in flight', async () => {
+      const parallelClient = new EmbeddingClient({ apiKey: 'test-key', maxConcurrentBatches: 2 });
+      let inFlight = 0;
+      let maxInFlight = 0;
+      mockCreate.mockImplementation(async (request: { input: string[] }) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return respond(request);
+      });
+
+      const texts = Array.from({ length: 10 }, (_, i) => `Text ${i}`);
+      const result = await parallelClient.embedWithBatching(texts, 2);
+
+      expect(result).toHaveLength(10);
+      expect(mockCreate).toHaveBeenCalledTimes(5);
+      expect(maxInFlight).toBe(2);
+    });
+
+    it('should split a batch the API rejects as too large and keep the order', async () => {
+      mockCreate.mockImplementation(async (request: { input: string[] }) => {
+        if (request.input.length > 2) {
+          throw Object.assign(new Error('Requested 320000 tokens, max 300000 tokens per request'), {
+            status: 400,
+          });
+        }
+        return {
+          data: request.input.map((text, idx) => ({
+            index: idx,
+            embedding: Array(DEFAULT_EMBEDDING_DIMENSIONS).fill(Number(text)),
+          })),
+        };
+      });
+
+      const result = await client.embedWithBatching(['1', '2', '3', '4', '5'], 32);
+
+      expect(result.map(embedding => embedding[0])).toEqual([1, 2, 3, 4, 5]);
+      // 5 rejected, then 3 (rejected) + 2, then 2 + 1
+      expect(mockCreate).toHaveBeenCalledTimes(5);
+    });
+
+    it('should fail when a single text is too large', async () => {
+      mockCreate.mockRejectedValue(
+        Object.assign(new Error("This model's maximum context length is 8192 tokens"), {
+          status: 400,
+        })
+      );
+
+      await expect(client.embedBatch(['huge'])).rejects.toThrow(EmbeddingError);
+    }, 10000);
+  });
+
   describe('Retry Logic Integration', () => {
     it('should use retry logic via withRetry', async () => {
       let attemptCount = 0;
       mockCreate.mockImplementation(async () => {
         attemptCount++;
         if (attemptCount < 3) {
-          throw new Error('Temporary failure');
+          throw new TypeError('fetch failed');
         }
         return {
           data: [{ index: 0, embedding: Array(DEFAULT_EMBEDDING_DIMENSIONS).fill(0.1) }],
@@ -397,10 +546,10 @@ describe('EmbeddingClient', () => {
 
       await customClient.embedBatch(['Test']);
 
+      // ada-002 rejects a dimensions parameter
       expect(mockCreate).toHaveBeenCalledWith({
         model: 'text-embedding-ada-002',
         input: ['Test'],
-        dimensions: CUSTOM_EMBEDDING_DIMENSIONS,
       });
     });
 
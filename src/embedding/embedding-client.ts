@@ -1,5 +1,5 @@
 /**
- * OpenAI embedding client
+ * Embedding client: retries, dimension checks and batching over an embedding provider
  *
  * Trace:
  *   spec_id: SPEC-embedding-pipeline-1
@@ -7,8 +7,35 @@
  */
 
 import OpenAI from 'openai';
-import { EmbeddingError } from '../errors/index.js';
-import { withRetry } from '../errors/index.js';
+import {
+  CircuitBreaker,
+  DEFAULT_RETRY_CONFIG,
+  EmbeddingError,
+  withRetry,
+} from '../errors/index.js';
+import type { VectorStoreClient } from '../types/vector-store.js';
+import {
+  EmbeddingBatchResult,
+  EmbeddingProvider,
+  EmbeddingProviderName,
+  OPENAI_DEFAULT_DIMENSIONS,
+  OPENAI_DEFAULT_MODEL,
+  OpenAIEmbeddingProvider,
+} from './embedding-provider.js';
+import { countTokens } from './chunking.js';
+
+export type { EmbeddingBatchResult };
+
+/**
+ * Token budget of one embeddings request, below OpenAI's 300k tokens per request so that
+ * approximate counts and heading prefixes leave headroom
+ */
+export const DEFAULT_MAX_BATCH_TOKENS = 250_000;
+
+/**
+ * Batches embedWithUsage() sends at the same time
+ */
+export const DEFAULT_MAX_CONCURRENT_BATCHES = 4;
 
 export interface EmbeddingResult {
   text: string;
@@ -29,74 +56,170 @@ export interface EmbeddingConfig {
   client?: OpenAI;
   model?: string;
   dimensions?: number;
+  /**
+   * Embedding backend, see createEmbeddingProvider(); when set, client, apiKey,
+   * model and dimensions are ignored
+   */
+  provider?: EmbeddingProvider;
+  /**
+   * Token budget per request (default: DEFAULT_MAX_BATCH_TOKENS)
+   */
+  maxBatchTokens?: number;
+  /**
+   * Requests in flight at once (default: DEFAULT_MAX_CONCURRENT_BATCHES)
+   */
+  maxConcurrentBatches?: number;
 }
 
-const DEFAULT_MODEL = 'text-embedding-3-small';
-const DEFAULT_DIMENSIONS = 1536;
+/**
+ * Whether the API refused a request for its size (too many tokens or inputs), which
+ * a smaller batch can fix
+ */
+function isBatchTooLargeError(error: unknown): boolean {
+  const status = (error as { status?: number } | null)?.status;
+  if (status === 413) {
+    return true;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return (
+    (status === undefined || status === 400) &&
+    /max(imum)?[\w ]* tokens|too (large|many)|context length/i.test(message)
+  );
+}
 
 /**
- * OpenAI embedding client
+ * OpenAI provider from the legacy client/apiKey, model and dimensions settings
+ */
+function openAIProviderFromConfig(config: EmbeddingConfig): EmbeddingProvider {
+  // Support both pre-configured client and legacy API key config
+  let client: OpenAI;
+  if (config.client) {
+    client = config.client;
+  } else if (config.apiKey) {
+    client = new OpenAI({
+      apiKey: config.apiKey,
+    });
+  } else {
+    throw new Error('Either "client" or "apiKey" must be provided in EmbeddingConfig');
+  }
+
+  return new OpenAIEmbeddingProvider(
+    client,
+    config.model || OPENAI_DEFAULT_MODEL,
+    config.dimensions || OPENAI_DEFAULT_DIMENSIONS
+  );
+}
+
+/**
+ * Embedding client
  */
 export class EmbeddingClient {
-  private client: OpenAI;
-  private model: string;
-  private dimensions: number;
+  private provider: EmbeddingProvider;
+  private maxBatchTokens: number;
+  private maxConcurrentBatches: number;
+  private circuit: CircuitBreaker;
 
   constructor(config: EmbeddingConfig) {
-    // Support both pre-configured client and legacy API key config
-    if (config.client) {
-      this.client = config.client;
-    } else if (config.apiKey) {
-      this.client = new OpenAI({
-        apiKey: config.apiKey,
-      });
-    } else {
-      throw new Error('Either "client" or "apiKey" must be provided in EmbeddingConfig');
-    }
+    this.provider = config.provider || openAIProviderFromConfig(config);
+    this.circuit = new CircuitBreaker(`Embedding provider ${this.provider.name}`);
+    this.maxBatchTokens = config.maxBatchTokens || DEFAULT_MAX_BATCH_TOKENS;
+    this.maxConcurrentBatches = Math.max(
+      1,
+      config.maxConcurrentBatches || DEFAULT_MAX_CONCURRENT_BATCHES
+    );
+  }
 
-    this.model = config.model || DEFAULT_MODEL;
-    this.dimensions = config.dimensions || DEFAULT_DIMENSIONS;
+  /**
+   * Embedding provider name
+   */
+  getProviderName(): EmbeddingProviderName {
+    return this.provider.name;
+  }
+
+  /**
+   * Embedding model name
+   */
+  getModel(): string {
+    return this.provider.model;
+  }
+
+  /**
+   * Vector dimensions requested from the model
+   */
+  getDimensions(): number {
+    return this.provider.dimensions;
   }
 
   /**
    * Generate embeddings for a batch of texts
    */
   async embedBatch(texts: string[]): Promise<number[][]> {
+    return (await this.embedBatchWithUsage(texts)).embeddings;
+  }
+
+  /**
+   * Generate embeddings for a batch of texts, including reported token usage
+   */
+  async embedBatchWithUsage(texts: string[]): Promise<EmbeddingBatchResult> {
     if (texts.length === 0) {
-      return [];
+      return { embeddings: [], totalTokens: 0 };
     }
 
     try {
-      const response = await withRetry(async () => {
-        return await this.client.embeddings.create({
-          model: this.model,
-          input: texts,
-          dimensions: this.dimensions,
-        });
-      });
-
-      // Sort by index to ensure correct order
-      const embeddings = response.data
-        .sort((a, b) => a.index - b.index)
-        .map(item => item.embedding);
-
-      // Validate dimensions
-      for (const embedding of embeddings) {
-        if (embedding.length !== this.dimensions) {
-          throw new EmbeddingError('Invalid embedding dimensions', {
-            expected: this.dimensions,
-            actual: embedding.length,
-          });
+      return await this.embedSplitting(texts);
+    } catch (error) {
+      throw new EmbeddingError(
+        'Failed to generate embeddings',
+        {
+          textCount: texts.length,
+          error: (error as Error).message,
+        },
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Embed one batch; when the API rejects it as too large, embed each half instead
+   * (size rejections are not retried, the same request would fail again)
+   */
+  private async embedSplitting(texts: string[]): Promise<EmbeddingBatchResult> {
+    const result = await withRetry(
+      async () => {
+        try {
+          return await this.provider.embed(texts);
+        } catch (error) {
+          if (texts.length > 1 && isBatchTooLargeError(error)) {
+            return null;
+          }
+          throw error;
         }
-      }
+      },
+      { ...DEFAULT_RETRY_CONFIG, circuit: this.circuit }
+    );
 
-      return embeddings;
-    } catch (error) {
-      throw new EmbeddingError('Failed to generate embeddings', {
-        textCount: texts.length,
-        error: (error as Error).message,
-      });
+    if (!result) {
+      console.warn(`Embedding batch of ${texts.length} texts rejected as too large, splitting`);
+      const middle = Math.ceil(texts.length / 2);
+      const first = await this.embedSplitting(texts.slice(0, middle));
+      const second = await this.embedSplitting(texts.slice(middle));
+      return {
+        embeddings: [...first.embeddings, ...second.embeddings],
+        totalTokens: first.totalTokens + second.totalTokens,
+      };
     }
+
+    // Validate dimensions
+    for (const embedding of result.embeddings) {
+      if (embedding.length !== this.provider.dimensions) {
+        throw new EmbeddingError('Invalid embedding dimensions', {
+          expected: this.provider.dimensions,
+          actual: embedding.length,
+        });
+      }
+    }
+
+    return result;
   }
 
   /**
@@ -110,15 +233,89 @@ export class EmbeddingClient {
   /**
    * Process texts in batches with concurrency control
    */
-  async embedWithBatching(texts: string[], batchSize: number = 32): Promise<number[][]> {
-    const results: number[][] = [];
+  async embedWithBatching(
+    texts: string[],
+    batchSize: number = 32,
+    tokenCounts?: number[]
+  ): Promise<number[][]> {
+    return (await this.embedWithUsage(texts, batchSize, tokenCounts)).embeddings;
+  }
 
-    for (let i = 0; i < texts.length; i += batchSize) {
-      const batch = texts.slice(i, i + batchSize);
-      const batchEmbeddings = await this.embedBatch(batch);
-      results.push(...batchEmbeddings);
+  /**
+   * Process texts in batches of at most `batchSize` texts and maxBatchTokens tokens,
+   * up to maxConcurrentBatches at a time, and sum the token usage reported for each batch
+   * @param tokenCounts Token count of each text (default: approximate counts)
+   */
+  async embedWithUsage(
+    texts: string[],
+    batchSize: number = 32,
+    tokenCounts?: number[]
+  ): Promise<EmbeddingBatchResult> {
+    const batches = this.planBatches(texts, batchSize, tokenCounts);
+    const results: EmbeddingBatchResult[] = new Array(batches.length);
+
+    let next = 0;
+    const dispatch = async () => {
+      while (next < batches.length) {
+        const i = next++;
+        results[i] = await this.embedBatchWithUsage(batches[i]);
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(this.maxConcurrentBatches, batches.length) }, dispatch)
+    );
+
+    return {
+      embeddings: results.flatMap(result => result.embeddings),
+      totalTokens: results.reduce((sum, result) => sum + result.totalTokens, 0),
+    };
+  }
+
+  /**
+   * Group texts in order into batches within the count and token limits; a text over
+   * the token budget on its own gets a batch of its own
+   */
+  private planBatches(texts: string[], batchSize: number, tokenCounts?: number[]): string[][] {
+    const batches: string[][] = [];
+    let batch: string[] = [];
+    let batchTokens = 0;
+
+    texts.forEach((text, i) => {
+      const tokens = tokenCounts?.[i] ?? countTokens(text);
+      if (
+        batch.length > 0 &&
+        (batch.length >= batchSize || batchTokens + tokens > this.maxBatchTokens)
+      ) {
+        batches.push(batch);
+        batch = [];
+        batchTokens = 0;
+      }
+      batch.push(text);
+      batchTokens += tokens;
+    });
+
+    if (batch.length > 0) {
+      batches.push(batch);
     }
+    return batches;
+  }
+}
 
-    return results;
+/**
+ * Check the embedding dimensions against the vector index, which rejects vectors of any
+ * other size; skipped when the store cannot report its dimensions
+ */
+export async function assertIndexDimensions(
+  embeddingClient: EmbeddingClient,
+  vectorClient: VectorStoreClient
+): Promise<void> {
+  const indexDimensions = await vectorClient.getDimensions();
+  if (indexDimensions !== null && indexDimensions !== embeddingClient.getDimensions()) {
+    throw new EmbeddingError('Embedding dimensions do not match the vector index', {
+      provider: embeddingClient.getProviderName(),
+      model: embeddingClient.getModel(),
+      dimensions: embeddingClient.getDimensions(),
+      indexDimensions,
+    });
   }
 }
@@ -0,0 +1,120 @@
+/**
+ * Tests for embedding provider selection
+ *
+ * Trace:
+ *   spec_id: SPEC-embedding-pipeline-1
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type OpenAI from 'openai';
+import {
+  OPENAI_DEFAULT_DIMENSIONS,
+  OPENAI_DEFAULT_MODEL,
+  OpenAIEmbeddingProvider,
+  createEmbeddingProvider,
+} from './embedding-provider';
+import { WorkersAIEmbeddingProvider } from './workers-ai-provider';
+import { HashEmbeddingProvider } from './hash-provider';
+import type { WorkersAI } from '../types/workers-ai';
+
+function mockOpenAI(create = vi.fn()) {
+  return { embeddings: { create } } as unknown as OpenAI;
+}
+
+describe('createEmbeddingProvider', () => {
+  const ai: WorkersAI = { run: vi.fn() };
+
+  it('TEST-embedding-pipeline-10: should select the provider named by EMBEDDING_PROVIDER', () => {
+    const openai = createEmbeddingProvider({ openaiClient: mockOpenAI() });
+    const azure = createEmbeddingProvider({
+      provider: 'azure-openai',
+      azureClient: mockOpenAI(),
+      model: 'embeddings-large',
+      dimensions: 3072,
+    });
+    const workersAI = createEmbeddingProvider({ provider: 'workers-ai', ai });
+    const hash = createEmbeddingProvider({ provider: 'hash', dimensions: 64 });
+
+    expect(openai).toBeInstanceOf(OpenAIEmbeddingProvider);
+    expect(openai).toMatchObject({
+      name: 'openai',
+      model: OPENAI_DEFAULT_MODEL,
+      dimensions: OPENAI_DEFAULT_DIMENSIONS,
+    });
+    expect(azure).toMatchObject({
+      name: 'azure-openai',
+      model: 'embeddings-large',
+      dimensions: 3072,
+    });
+    expect(workersAI).toBeInstanceOf(WorkersAIEmbeddingProvider);
+    expect(workersAI).toMatchObject({ model: '@cf/baai/bge-m3', dimensions: 1024 });
+    expect(hash).toBeInstanceOf(HashEmbeddingProvider);
+    expect(hash.dimensions).toBe(64);
+  });
+
+  it('should require the client or binding of the selected provider', () => {
+    expect(() => createEmbeddingProvider({})).toThrow('requires an OpenAI client');
+    expect(() => createEmbeddingProvider({ provider: 'workers-ai' })).toThrow(
+      'requires the AI binding'
+    );
+    expect(() =>
+      createEmbeddingProvider({ provider: 'azure-openai', azureClient: mockOpenAI() })
+    ).toThrow('deployment name');
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() => createEmbeddingProvider({ provider: 'cohere', ai })).toThrow(
+      'Invalid EMBEDDING_PROVIDER "cohere"'
+    );
+  });
+});
+
+describe('OpenAIEmbeddingProvider', () => {
+  it('should send the deployment name as model and keep input order', async () => {
+    const create = vi.fn().mockResolvedValue({
+      data: [
+        { index: 1, embedding: [0, 1] },
+        { index: 0, embedding: [1, 0] },
+      ],
+      usage: { total_tokens: 7 },
+    });
+    const provider = new OpenAIEmbeddingProvider(
+      mockOpenAI(create),
+      'embeddings-small',
+      2,
+      'azure-openai',
+      true
+    );
+
+    const result = await provider.embed(['first', 'second']);
+
+    expect(create).toHaveBeenCalledWith({
+      model: 'embeddings-small',
+      input: ['first', 'second'],
+      dimensions: 2,
+    });
+    expect(result).toEqual({
+      embeddings: [
+        [1, 0],
+        [0, 1],
+      ],
+      totalTokens: 7,
+    });
+  });
+
+  it('should only send dimensions to models that accept them', async () => {
+    const create = vi.fn().mockResolvedValue({ data: [{ index: 0, embedding: [0] }] });
+    const embed = (options: Parameters<typeof createEmbeddingProvider>[0]) =>
+      createEmbeddingProvider({ ...options, openaiClient: mockOpenAI(create) }).embed(['text']);
+
+    await embed({ model: 'text-embedding-ada-002' });
+    await embed({ model: 'text-embedding-3-large', dimensions: 1024 });
+    await embed({ provider: 'azure-openai', azureClient: mockOpenAI(create), model: 'ada' });
+
+    expect(create.mock.calls.map(([body]) => body.dimensions)).toEqual([
+      undefined,
+      1024,
+      undefined,
+    ]);
+  });
+});
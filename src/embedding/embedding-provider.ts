@@ -0,0 +1,151 @@
+/**
+ * Embedding providers: the backends EmbeddingClient sends batches to
+ *
+ * EMBEDDING_PROVIDER selects one per index slot: OpenAI (default), an Azure OpenAI
+ * deployment, Cloudflare Workers AI through the AI binding, or a deterministic hash
+ * stub for offline runs. Providers make one request per batch; EmbeddingClient adds
+ * retries, dimension checks and batching on top.
+ *
+ * Trace:
+ *   spec_id: SPEC-embedding-pipeline-1
+ */
+
+import OpenAI from 'openai';
+import type { WorkersAI } from '../types/workers-ai.js';
+import { WorkersAIEmbeddingProvider } from './workers-ai-provider.js';
+import { HashEmbeddingProvider } from './hash-provider.js';
+
+export const OPENAI_DEFAULT_MODEL = 'text-embedding-3-small';
+export const OPENAI_DEFAULT_DIMENSIONS = 1536;
+
+export type EmbeddingProviderName = 'openai' | 'azure-openai' | 'workers-ai' | 'hash';
+
+const EMBEDDING_PROVIDER_NAMES: EmbeddingProviderName[] = [
+  'openai',
+  'azure-openai',
+  'workers-ai',
+  'hash',
+];
+
+/**
+ * Embeddings with the token usage reported by the API
+ */
+export interface EmbeddingBatchResult {
+  embeddings: number[][];
+  /**
+   * usage.total_tokens summed over all requests (0 if the API did not report usage)
+   */
+  totalTokens: number;
+}
+
+/**
+ * Embedding backend for one model
+ */
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  readonly dimensions: number;
+  /**
+   * Embed one batch in a single request, returning vectors in input order
+   */
+  embed(texts: string[]): Promise<EmbeddingBatchResult>;
+}
+
+/**
+ * Only the text-embedding-3 models accept a `dimensions` parameter; older models such
+ * as text-embedding-ada-002 reject any request that carries one
+ */
+function acceptsDimensions(model: string): boolean {
+  return model.startsWith('text-embedding-3-');
+}
+
+/**
+ * OpenAI embeddings API; Azure OpenAI uses the same API with the deployment name as model
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  constructor(
+    private client: OpenAI,
+    readonly model: string = OPENAI_DEFAULT_MODEL,
+    readonly dimensions: number = OPENAI_DEFAULT_DIMENSIONS,
+    readonly name: EmbeddingProviderName = 'openai',
+    private sendDimensions: boolean = acceptsDimensions(model)
+  ) {}
+
+  async embed(texts: string[]): Promise<EmbeddingBatchResult> {
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+      ...(this.sendDimensions && { dimensions: this.dimensions }),
+    });
+
+    // Sort by index to ensure correct order
+    const embeddings = response.data.sort((a, b) => a.index - b.index).map(item => item.embedding);
+
+    return { embeddings, totalTokens: response.usage?.total_tokens ?? 0 };
+  }
+}
+
+export interface EmbeddingProviderOptions {
+  /**
+   * EMBEDDING_PROVIDER value (default: openai)
+   */
+  provider?: string;
+  /**
+   * Model name; the deployment name for azure-openai (default: the provider's default model)
+   */
+  model?: string;
+  dimensions?: number;
+  /**
+   * Client for the openai provider
+   */
+  openaiClient?: OpenAI;
+  /**
+   * Client for the azure-openai provider, see createAzureOpenAIClient()
+   */
+  azureClient?: OpenAI;
+  /**
+   * Workers AI binding for the workers-ai provider
+   */
+  ai?: WorkersAI;
+}
+
+/**
+ * Create the embedding provider selected by EMBEDDING_PROVIDER
+ * Throws when the name is unknown or the provider's client or binding is missing
+ */
+export function createEmbeddingProvider(options: EmbeddingProviderOptions): EmbeddingProvider {
+  const name = (options.provider?.trim() || 'openai') as EmbeddingProviderName;
+
+  switch (name) {
+    case 'openai':
+      if (!options.openaiClient) {
+        throw new Error('EMBEDDING_PROVIDER "openai" requires an OpenAI client');
+      }
+      return new OpenAIEmbeddingProvider(options.openaiClient, options.model, options.dimensions);
+    case 'azure-openai':
+      if (!options.azureClient || !options.model) {
+        throw new Error(
+          'EMBEDDING_PROVIDER "azure-openai" requires AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_KEY and a deployment name as model'
+        );
+      }
+      // Deployment names need not name the model, so configured dimensions are sent as well
+      return new OpenAIEmbeddingProvider(
+        options.azureClient,
+        options.model,
+        options.dimensions,
+        'azure-openai',
+        options.dimensions !== undefined || acceptsDimensions(options.model)
+      );
+    case 'workers-ai':
+      if (!options.ai) {
+        throw new Error('EMBEDDING_PROVIDER "workers-ai" requires the AI binding');
+      }
+      return new WorkersAIEmbeddingProvider(options.ai, options.model, options.dimensions);
+    case 'hash':
+      return new HashEmbeddingProvider(options.model, options.dimensions);
+    default:
+      throw new Error(
+        `Invalid EMBEDDING_PROVIDER "${name}": must be one of ${EMBEDDING_PROVIDER_NAMES.join(', ')}`
+      );
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Tests for the deterministic hash embedding provider
+ *
+ * Trace:
+ *   spec_id: SPEC-embedding-pipeline-1
+ */
+
+import { describe, it, expect } from 'vitest';
+import { HashEmbeddingProvider, hashEmbedding } from './hash-provider';
+
+describe('HashEmbeddingProvider', () => {
+  it('should return the same unit vector for the same text', async () => {
+    const provider = new HashEmbeddingProvider();
+
+    const { embeddings } = await provider.embed(['meeting notes', 'meeting notes']);
+
+    expect(embeddings[0]).toHaveLength(1536);
+    expect(embeddings[0]).toEqual(embeddings[1]);
+    const norm = Math.sqrt(embeddings[0].reduce((sum, value) => sum + value * value, 0));
+    expect(norm).toBeCloseTo(1, 10);
+  });
+
+  it('should return different vectors for different texts', () => {
+    expect(hashEmbedding('alpha', 8)).not.toEqual(hashEmbedding('beta', 8));
+  });
+
+  it('should use the configured model name and dimensions', async () => {
+    const provider = new HashEmbeddingProvider('offline', 32);
+
+    const { embeddings, totalTokens } = await provider.embed(['x']);
+
+    expect(provider.model).toBe('offline');
+    expect(embeddings[0]).toHaveLength(32);
+    expect(totalTokens).toBe(0);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Deterministic hash-based embedding provider for offline tests and local development
+ *
+ * Vectors are derived from the text alone: the same text always yields the same unit
+ * vector, different texts yield unrelated ones. They carry no meaning, so search
+ * results only make sense for exact repeats.
+ *
+ * Trace:
+ *   spec_id: SPEC-embedding-pipeline-1
+ */
+
+import type { EmbeddingBatchResult, EmbeddingProvider } from './embedding-provider.js';
+
+export const HASH_DEFAULT_MODEL = 'hash-stub';
+export const HASH_DEFAULT_DIMENSIONS = 1536;
+
+/**
+ * 32-bit FNV-1a hash of the text's UTF-16 code units
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Unit vector from a mulberry32 sequence seeded with the text's hash
+ */
+export function hashEmbedding(text: string, dimensions: number): number[] {
+  let seed = fnv1a(text);
+  const vector: number[] = [];
+  for (let i = 0; i < dimensions; i++) {
+    seed = (seed + 0x6d2b79f5) >>> 0;
+    let value = seed;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    vector.push(((value ^ (value >>> 14)) >>> 0) / 0x80000000 - 1);
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map(value => value / norm);
+}
+
+/**
+ * Embeddings computed locally from text hashes, without any API call
+ */
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hash';
+
+  constructor(
+    readonly model: string = HASH_DEFAULT_MODEL,
+    readonly dimensions: number = HASH_DEFAULT_DIMENSIONS
+  ) {}
+
+  async embed(texts: string[]): Promise<EmbeddingBatchResult> {
+    return {
+      embeddings: texts.map(text => hashEmbedding(text, this.dimensions)),
+      totalTokens: 0,
+    };
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Tests for markdown-structure-aware chunking
+ *
+ * Trace:
+ *   spec_id: SPEC-embedding-pipeline-1
+ */
+
+import { describe, it, expect } from 'vitest';
+import { chunkMarkdown } from './markdown-chunking';
+import { toEmbeddingInput } from './chunking';
+import { Tokenizer } from './tokenizer';
+
+describe('chunkMarkdown', () => {
+  it('TEST-embedding-pipeline-7: should start a new chunk at every heading', () => {
+    const markdown = [
+      '# Project Alpha',
+      'Overview paragraph.',
+      '## Timeline',
+      'Launch in Q3.',
+      '### Risks',
+      'Vendor delay.',
+      '## Budget',
+      'Approved.',
+    ].join('\n\n');
+
+    const chunks = chunkMarkdown(markdown, 2000);
+
+    expect(chunks.map(chunk => chunk.headingPath)).toEqual([
+      ['Project Alpha'],
+      ['Project Alpha', 'Timeline'],
+      ['Project Alpha', 'Timeline', 'Risks'],
+      ['Project Alpha', 'Budget'],
+    ]);
+    expect(chunks[1].text).toBe('## Timeline\n\nLaunch in Q3.');
+    expect(chunks.map(chunk => chunk.index)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should keep a heading together with its first nested heading', () => {
+    const chunks = chunkMarkdown('# Title\n\n## Section\n\nBody text.', 2000);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].headingPath).toEqual(['Title', 'Section']);
+  });
+
+  it('should give content before the first heading an empty breadcrumb', () => {
+    const chunks = chunkMarkdown('Preamble.\n\n# Title\n\nBody.', 2000);
+
+    expect(chunks[0]).toMatchObject({ text: 'Preamble.', headingPath: [] });
+    expect(chunks[1].headingPath).toEqual(['Title']);
+  });
+
+  it('should not treat # lines inside fenced code as headings', () => {
+    const markdown = '# Setup\n\n```bash\n# install deps\nnpm ci\n```';
+
+    const chunks = chunkMarkdown(markdown, 2000);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].headingPath).toEqual(['Setup']);
+    expect(chunks[0].text).toContain('# install deps');
+  });
+
+  it('should pack paragraphs of a long section without cutting them', () => {
+    const paragraph = 'Sentence about the quarterly plan. '.repeat(10).trim();
+    const markdown = `# Notes\n\n${Array(20).fill(paragraph).join('\n\n')}`;
+
+    const chunks = chunkMarkdown(markdown, 200);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => {
+      expect(chunk.tokenCount).toBeLessThanOrEqual(200);
+      expect(chunk.text.endsWith('quarterly plan.')).toBe(true);
+    });
+  });
+
+  it('should keep a fenced code block intact when it fits', () => {
+    const code = ['```ts', ...Array(30).fill('const value = compute();'), '```'].join('\n');
+    const markdown = `# Code\n\n${'Intro sentence. '.repeat(20)}\n\n${code}`;
+
+    const chunks = chunkMarkdown(markdown, 250);
+
+    expect(chunks.some(chunk => chunk.text === code)).toBe(true);
+  });
+
+  it('should re-fence every piece of an oversized code block', () => {
+    const code = ['```ts', ...Array(200).fill('const value = compute();'), '```'].join('\n');
+
+    const chunks = chunkMarkdown(`# Code\n\n${code}`, 200);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => {
+      const body = chunk.text.replace(/^# Code\n\n/, '');
+      expect(body.startsWith('```ts\n')).toBe(true);
+      expect(body.endsWith('\n```')).toBe(true);
+      expect(chunk.tokenCount).toBeLessThanOrEqual(200);
+    });
+  });
+
+  it('should repeat the header row when splitting an oversized table', () => {
+    const header = '| Name | Owner |\n| --- | --- |';
+    const rows = Array.from({ length: 100 }, (_, i) => `| item-${i} | team-${i} |`);
+
+    const chunks = chunkMarkdown(`${header}\n${rows.join('\n')}`, 100);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => {
+      expect(chunk.text.startsWith(header)).toBe(true);
+    });
+    const allRows = chunks.flatMap(chunk => chunk.text.split('\n').slice(2));
+    expect(allRows).toEqual(rows);
+  });
+
+  it('should fall back to character windows for a single huge line', () => {
+    const chunks = chunkMarkdown('x'.repeat(5000), 100);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => expect(chunk.tokenCount).toBeLessThanOrEqual(100));
+    expect(chunks.map(chunk => chunk.text).join('')).toBe('x'.repeat(5000));
+  });
+
+  it('should reject non-positive maxTokens', () => {
+    expect(() => chunkMarkdown('# Title', 0)).toThrow('maxTokens must be positive');
+  });
+
+  it('should prepend the breadcrumb to the embedding input', () => {
+    const [chunk] = chunkMarkdown('# Ops\n\n## Deploy\n\nRun it.', 2000);
+
+    expect(toEmbeddingInput(chunk)).toBe('Ops > Deploy\n\n# Ops\n\n## Deploy\n\nRun it.');
+  });
+
+  it('should count the breadcrumb in the token count', () => {
+    const words: Tokenizer = { name: 'words', countTokens: text => text.split(/\s+/).length };
+    const [chunk] = chunkMarkdown('# Ops\n\n## Deploy\n\nRun it.', 2000, words);
+
+    expect(chunk.tokenCount).toBe(words.countTokens(toEmbeddingInput(chunk)));
+    expect(chunk.tokenCount).toBeGreaterThan(words.countTokens(chunk.text));
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Markdown-structure-aware chunking
+ *
+ * Splits on heading hierarchy instead of character offsets, keeps fenced code
+ * blocks and tables intact where they fit, and records the heading breadcrumb
+ * of every chunk.
+ *
+ * Trace:
+ *   spec_id: SPEC-embedding-pipeline-1
+ */
+
+import {
+  ChunkResult,
+  chunkText,
+  countTokens,
+  formatHeadingPath,
+  toEmbeddingInput,
+} from './chunking.js';
+import { Tokenizer } from './tokenizer.js';
+
+type BlockKind = 'heading' | 'code' | 'table' | 'text';
+
+interface MarkdownBlock {
+  kind: BlockKind;
+  text: string;
+  headingPath: string[];
+}
+
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/;
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const SENTENCE_BOUNDARY = /(?<=[.!?。])\s+/;
+
+/**
+ * Token budget check and the matching fallback splitter
+ */
+interface Measure {
+  tokens(text: string): number;
+  fits(text: string, budget: number): boolean;
+  hardSplit(text: string, budget: number): string[];
+}
+
+/**
+ * Without a tokenizer, also check raw length, like chunkText, so whitespace-heavy
+ * text cannot bypass the limit
+ */
+function createMeasure(tokenizer: Tokenizer | undefined): Measure {
+  const tokens = (text: string) => countTokens(text, tokenizer);
+  return {
+    tokens,
+    fits: (text, budget) =>
+      tokens(text) <= budget && (tokenizer !== undefined || text.length <= budget * 4),
+    hardSplit: (text, budget) => chunkText(text, budget, 0, tokenizer).map(chunk => chunk.text),
+  };
+}
+
+function isTableStart(lines: string[], i: number): boolean {
+  const line = lines[i];
+  if (line.trimStart().startsWith('|')) {
+    return true;
+  }
+  return line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR_PATTERN.test(lines[i + 1]);
+}
+
+/**
+ * Split markdown into headings, fenced code blocks, tables and text paragraphs
+ */
+function parseBlocks(markdown: string): MarkdownBlock[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  const headingStack: string[] = [];
+  const currentPath = () => headingStack.filter(Boolean);
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE_PATTERN.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      const closing = new RegExp(`^\\s{0,3}${marker[0]}{${marker.length},}\\s*$`);
+      const start = i++;
+      while (i < lines.length && !closing.test(lines[i])) {
+        i++;
+      }
+      i = Math.min(i + 1, lines.length);
+      blocks.push({
+        kind: 'code',
+        text: lines.slice(start, i).join('\n'),
+        headingPath: currentPath(),
+      });
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      headingStack.splice(level - 1);
+      headingStack[level - 1] = heading[2].trim();
+      blocks.push({ kind: 'heading', text: line.trim(), headingPath: currentPath() });
+      i++;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const start = i++;
+      while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+        i++;
+      }
+      blocks.push({
+        kind: 'table',
+        text: lines.slice(start, i).join('\n'),
+        headingPath: currentPath(),
+      });
+      continue;
+    }
+
+    const start = i++;
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !FENCE_PATTERN.test(lines[i]) &&
+      !HEADING_PATTERN.test(lines[i]) &&
+      !isTableStart(lines, i)
+    ) {
+      i++;
+    }
+    blocks.push({
+      kind: 'text',
+      text: lines.slice(start, i).join('\n'),
+      headingPath: currentPath(),
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * Greedily pack units into pieces that fit the budget once wrapped
+ * Units that are too large on their own are handed to splitUnit
+ */
+function packUnits(
+  measure: Measure,
+  units: string[],
+  separator: string,
+  budget: number,
+  wrap: (body: string) => string,
+  splitUnit: (unit: string, budget: number) => string[]
+): string[] {
+  const pieces: string[] = [];
+  const wrapper = wrap('');
+  // +1: joining can shift one pre-token boundary
+  const overhead = Math.max(measure.tokens(wrapper), Math.ceil(wrapper.length / 4)) + 1;
+  let current: string[] = [];
+
+  for (const unit of units) {
+    if (measure.fits(wrap([...current, unit].join(separator)), budget)) {
+      current.push(unit);
+      continue;
+    }
+
+    if (current.length > 0) {
+      pieces.push(wrap(current.join(separator)));
+      current = [];
+    }
+
+    if (measure.fits(wrap(unit), budget)) {
+      current.push(unit);
+    } else {
+      for (const part of splitUnit(unit, Math.max(1, budget - overhead))) {
+        pieces.push(wrap(part));
+      }
+    }
+  }
+
+  if (current.length > 0) {
+    pieces.push(wrap(current.join(separator)));
+  }
+
+  return pieces;
+}
+
+/**
+ * Split a block that exceeds the budget on its own
+ *
+ * - code: by lines, re-fencing every piece
+ * - table: by rows, repeating the header row in every piece
+ * - text: by lines, then sentences, then character windows
+ */
+function splitBlock(measure: Measure, block: MarkdownBlock, budget: number): string[] {
+  const lines = block.text.split('\n');
+  const identity = (body: string) => body;
+  const { hardSplit } = measure;
+
+  if (block.kind === 'code') {
+    const open = lines[0];
+    const hasClosing = lines.length > 1 && FENCE_PATTERN.test(lines[lines.length - 1]);
+    const close = hasClosing ? lines[lines.length - 1] : open.trim().replace(/[^`~].*$/, '');
+    const body = lines.slice(1, hasClosing ? -1 : undefined);
+    return packUnits(measure, body, '\n', budget, part => `${open}\n${part}\n${close}`, hardSplit);
+  }
+
+  if (block.kind === 'table') {
+    const hasHeader = lines.length > 2 && TABLE_SEPARATOR_PATTERN.test(lines[1]);
+    if (hasHeader) {
+      const header = lines.slice(0, 2).join('\n');
+      return packUnits(
+        measure,
+        lines.slice(2),
+        '\n',
+        budget,
+        part => `${header}\n${part}`,
+        hardSplit
+      );
+    }
+    return packUnits(measure, lines, '\n', budget, identity, hardSplit);
+  }
+
+  return packUnits(measure, lines, '\n', budget, identity, (line, lineBudget) =>
+    packUnits(measure, line.split(SENTENCE_BOUNDARY), ' ', lineBudget, identity, hardSplit)
+  );
+}
+
+/**
+ * Chunk markdown along its heading hierarchy
+ *
+ * Every heading starts a new chunk; consecutive blocks of a section are packed
+ * together up to the budget. The breadcrumb is reserved in the budget because
+ * it is prepended to the embedded text (see toEmbeddingInput).
+ *
+ * @param text - Markdown content
+ * @param maxTokens - Maximum tokens per chunk, breadcrumb included (default: 2000)
+ * @param tokenizer - Exact tokenizer (approximate counting when omitted)
+ */
+export function chunkMarkdown(
+  text: string,
+  maxTokens: number = 2000,
+  tokenizer?: Tokenizer
+): ChunkResult[] {
+  if (maxTokens <= 0) {
+    throw new Error('maxTokens must be positive');
+  }
+
+  const measure = createMeasure(tokenizer);
+  const fits = measure.fits;
+
+  const chunks: ChunkResult[] = [];
+  let current: MarkdownBlock[] = [];
+  let currentPath: string[] = [];
+
+  const hasContent = () => current.some(block => block.kind !== 'heading');
+  const join = (blocks: Array<{ text: string }>) => blocks.map(block => block.text).join('\n\n');
+  const budgetFor = (path: string[]) => {
+    const breadcrumb = formatHeadingPath(path);
+    const reserved = breadcrumb ? measure.tokens(breadcrumb) + 1 : 0;
+    // Never let a deep breadcrumb starve the content
+    return Math.max(Math.ceil(maxTokens / 2), maxTokens - reserved);
+  };
+
+  const flush = () => {
+    if (current.length === 0) return;
+    const chunk: ChunkResult = {
+      text: join(current),
+      index: chunks.length,
+      tokenCount: 0,
+      headingPath: currentPath,
+    };
+    // Count what is embedded, breadcrumb included, for the embedding batch budget
+    chunk.tokenCount = measure.tokens(toEmbeddingInput(chunk));
+    chunks.push(chunk);
+    current = [];
+  };
+
+  const add = (block: MarkdownBlock, budget: number) => {
+    if (!fits(join([...current, block]), budget)) {
+      flush();
+    }
+    current.push(block);
+  };
+
+  for (const block of parseBlocks(text)) {
+    if (block.kind === 'heading') {
+      if (hasContent()) {
+        flush();
+      }
+      current.push(block);
+      currentPath = block.headingPath;
+      continue;
+    }
+
+    currentPath = block.headingPath;
+    const budget = budgetFor(currentPath);
+
+    if (fits(join([...current, block]), budget) || fits(block.text, budget)) {
+      add(block, budget);
+      continue;
+    }
+
+    // Oversized block: leave room for pending headings so the first piece stays with them
+    const pendingHeadings =
+      current.length > 0 && !hasContent() ? measure.tokens(join(current)) + 1 : 0;
+    if (hasContent()) {
+      flush();
+    }
+    for (const piece of splitBlock(measure, block, Math.max(1, budget - pendingHeadings))) {
+      add({ ...block, text: piece }, budget);
+    }
+  }
+
+  flush();
+
+  return chunks;
+}
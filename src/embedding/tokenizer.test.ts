@@ -0,0 +1,133 @@
+/**
+ * Tests for the BPE tokenizer
+ *
+ * Trace:
+ *   spec_id: SPEC-embedding-pipeline-1
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { BpeTokenizer, loadCl100kTokenizer, parseTiktokenRanks, splitPretokens } from './tokenizer';
+import { chunkText } from './chunking';
+
+/**
+ * Tiny vocabulary: every byte, plus merges for "he", "ll" and "hell"
+ */
+function createRanks(): Map<string, number> {
+  const ranks = new Map<string, number>();
+  for (let byte = 0; byte < 256; byte++) {
+    ranks.set(String.fromCharCode(byte), byte);
+  }
+  ranks.set('he', 256);
+  ranks.set('ll', 257);
+  ranks.set('hell', 258);
+  return ranks;
+}
+
+function toRankFile(ranks: Map<string, number>): string {
+  return Array.from(ranks.entries())
+    .map(([token, rank]) => `${btoa(token)} ${rank}`)
+    .join('\n');
+}
+
+describe('BpeTokenizer', () => {
+  const tokenizer = new BpeTokenizer(createRanks());
+
+  it('should merge byte pairs in rank order', () => {
+    expect(tokenizer.encode('hello')).toEqual([258, 'o'.charCodeAt(0)]);
+    expect(tokenizer.countTokens('hello')).toBe(2);
+  });
+
+  it('should not merge across pre-token boundaries', () => {
+    // " he" and "llo" are separate pre-tokens
+    expect(tokenizer.encode(' he llo')).toEqual([32, 256, 32, 257, 'o'.charCodeAt(0)]);
+  });
+
+  it('TEST-embedding-pipeline-8: should count multi-byte characters per byte without merges', () => {
+    // Each Hangul syllable is 3 UTF-8 bytes
+    expect(tokenizer.countTokens('회의록')).toBe(9);
+  });
+
+  it('should pre-tokenize losslessly', () => {
+    const text = "We'll ship 12345 items\n\n  — 회의록 v2.1!";
+
+    expect(splitPretokens(text).join('')).toBe(text);
+  });
+
+  it('should parse tiktoken rank files', () => {
+    const ranks = parseTiktokenRanks(toRankFile(createRanks()) + '\n');
+
+    expect(ranks.get('hell')).toBe(258);
+    expect(ranks.size).toBe(259);
+  });
+});
+
+describe('chunkText with a tokenizer', () => {
+  const tokenizer = new BpeTokenizer(createRanks());
+
+  it('TEST-embedding-pipeline-8: should keep CJK chunks within the real token budget', () => {
+    const text = '주간 회의록 정리 '.repeat(40);
+
+    const chunks = chunkText(text, 50, 0, tokenizer);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => {
+      expect(chunk.tokenCount).toBeLessThanOrEqual(50);
+      expect(chunk.tokenCount).toBe(tokenizer.countTokens(chunk.text));
+    });
+    expect(chunks.map(chunk => chunk.text).join('')).toBe(text);
+  });
+
+  it('should overlap consecutive chunks by whole pre-tokens', () => {
+    const text = 'alpha beta gamma delta '.repeat(20);
+
+    const chunks = chunkText(text, 40, 10, tokenizer);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    const tail = chunks[0].text.slice(-5);
+    expect(chunks[1].text).toContain(tail);
+  });
+
+  it('should split a single oversized pre-token', () => {
+    const chunks = chunkText('가'.repeat(100), 12, 0, tokenizer);
+
+    chunks.forEach(chunk => expect(chunk.tokenCount).toBeLessThanOrEqual(12));
+    expect(chunks.map(chunk => chunk.text).join('')).toBe('가'.repeat(100));
+  });
+});
+
+describe('loadCl100kTokenizer', () => {
+  const rankFile = toRankFile(createRanks());
+  const sha256 = async (text: string) =>
+    Array.from(
+      new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))),
+      byte => byte.toString(16).padStart(2, '0')
+    ).join('');
+
+  it('should reject ranks that do not match the pinned hash', async () => {
+    const fetcher = vi.fn().mockImplementation(async () => new Response(`${rankFile}\nZm9v 999`));
+
+    await expect(
+      loadCl100kTokenizer(fetcher, 'https://ranks', await sha256(rankFile))
+    ).rejects.toThrow('integrity check');
+    await expect(loadCl100kTokenizer(fetcher)).rejects.toThrow('integrity check');
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry after a failed load and cache a successful one', async () => {
+    const fetcher = vi
+      .fn()
+      .mockResolvedValueOnce(new Response('unavailable', { status: 503 }))
+      .mockResolvedValue(new Response(rankFile));
+    const expected = await sha256(rankFile);
+
+    await expect(loadCl100kTokenizer(fetcher, 'https://ranks', expected)).rejects.toThrow('503');
+
+    const tokenizer = await loadCl100kTokenizer(fetcher, 'https://ranks', expected);
+    const again = await loadCl100kTokenizer(fetcher, 'https://ranks', expected);
+
+    expect(tokenizer.name).toBe('cl100k_base');
+    expect(tokenizer.countTokens('hello')).toBe(2);
+    expect(again).toBe(tokenizer);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+});
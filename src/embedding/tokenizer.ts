@@ -0,0 +1,199 @@
+/**
+ * Pluggable tokenizers for chunking and cost estimates
+ *
+ * BpeTokenizer is a compact byte-level BPE compatible with tiktoken rank files.
+ * The cl100k_base ranks (used by text-embedding-3-*) are ~1.7MB, so they are
+ * fetched lazily at runtime instead of being bundled into the Worker, and checked
+ * against a pinned hash before use.
+ *
+ * Trace:
+ *   spec_id: SPEC-embedding-pipeline-1
+ */
+
+export interface Tokenizer {
+  readonly name: string;
+  countTokens(text: string): number;
+}
+
+/**
+ * Public tiktoken rank file for cl100k_base
+ */
+export const CL100K_RANKS_URL =
+  'https://openaipublic.blob.core.windows.net/encodings/cl100k_base.tiktoken';
+
+/**
+ * SHA-256 of the rank file at CL100K_RANKS_URL (the hash tiktoken pins)
+ */
+export const CL100K_RANKS_SHA256 =
+  '223921b76ee99bde995b7ff738513eef100fb51d18c93597a113bcffe865b2a7';
+
+/**
+ * cl100k_base pre-tokenizer: BPE merges never cross these boundaries
+ */
+export const CL100K_PATTERN =
+  /'(?:[sdmt]|ll|ve|re)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/giu;
+
+const MAX_CACHED_PIECES = 10000;
+
+/**
+ * Split text into pre-tokens; concatenating the result yields the input
+ */
+export function splitPretokens(text: string): string[] {
+  return text.match(CL100K_PATTERN) || [];
+}
+
+/**
+ * Parse a tiktoken rank file ("<base64 token> <rank>" per line)
+ * Keys are byte strings (one char per byte)
+ */
+export function parseTiktokenRanks(data: string): Map<string, number> {
+  const ranks = new Map<string, number>();
+
+  for (const line of data.split('\n')) {
+    if (!line) continue;
+    const [token, rank] = line.split(' ');
+    ranks.set(atob(token), parseInt(rank, 10));
+  }
+
+  return ranks;
+}
+
+async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function toByteString(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let result = '';
+  for (const byte of bytes) {
+    result += String.fromCharCode(byte);
+  }
+  return result;
+}
+
+/**
+ * Byte-level BPE tokenizer
+ */
+export class BpeTokenizer implements Tokenizer {
+  private cache = new Map<string, number[]>();
+
+  constructor(
+    private ranks: Map<string, number>,
+    readonly name: string = 'bpe'
+  ) {}
+
+  /**
+   * Encode text into token ranks
+   */
+  encode(text: string): number[] {
+    const tokens: number[] = [];
+    for (const piece of splitPretokens(text)) {
+      tokens.push(...this.encodePiece(piece));
+    }
+    return tokens;
+  }
+
+  countTokens(text: string): number {
+    let count = 0;
+    for (const piece of splitPretokens(text)) {
+      count += this.encodePiece(piece).length;
+    }
+    return count;
+  }
+
+  private encodePiece(piece: string): number[] {
+    const cached = this.cache.get(piece);
+    if (cached) {
+      return cached;
+    }
+
+    const bytes = toByteString(piece);
+    const direct = this.ranks.get(bytes);
+    const tokens = direct !== undefined ? [direct] : this.bytePairMerge(bytes);
+
+    if (this.cache.size >= MAX_CACHED_PIECES) {
+      this.cache.clear();
+    }
+    this.cache.set(piece, tokens);
+
+    return tokens;
+  }
+
+  /**
+   * Repeatedly merge the adjacent pair with the lowest rank (tiktoken algorithm)
+   */
+  private bytePairMerge(bytes: string): number[] {
+    const boundaries = Array.from({ length: bytes.length + 1 }, (_, i) => i);
+    const rankAt = (i: number) =>
+      i + 2 < boundaries.length
+        ? (this.ranks.get(bytes.slice(boundaries[i], boundaries[i + 2])) ?? Infinity)
+        : Infinity;
+    const pairRanks = boundaries.map((_, i) => rankAt(i));
+
+    while (boundaries.length > 2) {
+      let minRank = Infinity;
+      let minIndex = -1;
+      for (let i = 0; i < pairRanks.length - 2; i++) {
+        if (pairRanks[i] < minRank) {
+          minRank = pairRanks[i];
+          minIndex = i;
+        }
+      }
+
+      if (minIndex === -1) {
+        break;
+      }
+
+      boundaries.splice(minIndex + 1, 1);
+      pairRanks.splice(minIndex + 1, 1);
+      pairRanks[minIndex] = rankAt(minIndex);
+      if (minIndex > 0) {
+        pairRanks[minIndex - 1] = rankAt(minIndex - 1);
+      }
+    }
+
+    const tokens: number[] = [];
+    for (let i = 0; i < boundaries.length - 1; i++) {
+      const rank = this.ranks.get(bytes.slice(boundaries[i], boundaries[i + 1]));
+      // Every single byte has a rank in a complete vocabulary; fall back to the byte value
+      tokens.push(rank ?? bytes.charCodeAt(boundaries[i]));
+    }
+    return tokens;
+  }
+}
+
+let cl100kPromise: Promise<Tokenizer> | null = null;
+
+/**
+ * Load the cl100k_base tokenizer once per isolate
+ * Ranks that do not match the pinned hash are rejected, like a failed fetch, and
+ * callers fail the file rather than chunk it with approximate counts. A failed load
+ * is not cached, so the next call retries.
+ */
+export function loadCl100kTokenizer(
+  fetcher: typeof fetch = fetch,
+  url: string = CL100K_RANKS_URL,
+  expectedSha256: string = CL100K_RANKS_SHA256
+): Promise<Tokenizer> {
+  if (!cl100kPromise) {
+    cl100kPromise = (async () => {
+      const response = await fetcher(url);
+      if (!response.ok) {
+        throw new Error(`Failed to load tokenizer ranks: ${response.status}`);
+      }
+
+      const data = await response.arrayBuffer();
+      const sha256 = await sha256Hex(data);
+      if (sha256 !== expectedSha256) {
+        throw new Error(`Tokenizer ranks failed the integrity check (sha256 ${sha256})`);
+      }
+      return new BpeTokenizer(parseTiktokenRanks(new TextDecoder().decode(data)), 'cl100k_base');
+    })();
+    cl100kPromise.catch(() => {
+      cl100kPromise = null;
+    });
+  }
+
+  return cl100kPromise;
+}
@@ -0,0 +1,55 @@
+/**
+ * Tests for the Workers AI embedding provider
+ *
+ * Trace:
+ *   spec_id: SPEC-embedding-pipeline-1
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { WorkersAIEmbeddingProvider } from './workers-ai-provider';
+import { EmbeddingClient } from './embedding-client';
+import { EmbeddingError } from '../errors/index';
+
+describe('WorkersAIEmbeddingProvider', () => {
+  it('should run the model on the AI binding', async () => {
+    const run = vi.fn().mockResolvedValue({
+      shape: [2, 1024],
+      data: [Array(1024).fill(0.1), Array(1024).fill(0.2)],
+    });
+    const provider = new WorkersAIEmbeddingProvider({ run });
+
+    const result = await provider.embed(['첫 번째 메모', 'second note']);
+
+    expect(run).toHaveBeenCalledWith('@cf/baai/bge-m3', { text: ['첫 번째 메모', 'second note'] });
+    expect(result.embeddings).toHaveLength(2);
+    expect(result.embeddings[1][0]).toBe(0.2);
+    expect(result.totalTokens).toBe(0);
+  });
+
+  it('should reject output without one vector per text', async () => {
+    const provider = new WorkersAIEmbeddingProvider({
+      run: vi.fn().mockResolvedValue({ shape: [1, 1024], data: [Array(1024).fill(0.1)] }),
+    });
+
+    await expect(provider.embed(['a', 'b'])).rejects.toThrow('returned 1 embeddings for 2 texts');
+  });
+
+  it('should fail dimension validation when the model output differs from the config', async () => {
+    vi.useFakeTimers();
+    try {
+      const client = new EmbeddingClient({
+        provider: new WorkersAIEmbeddingProvider(
+          { run: vi.fn().mockResolvedValue({ data: [Array(768).fill(0.1)] }) },
+          '@cf/baai/bge-base-en-v1.5',
+          1024
+        ),
+      });
+
+      const embedding = expect(client.embedBatch(['a'])).rejects.toThrow(EmbeddingError);
+      await vi.runAllTimersAsync();
+      await embedding;
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
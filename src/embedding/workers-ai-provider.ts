@@ -0,0 +1,42 @@
+/**
+ * Cloudflare Workers AI embedding provider
+ *
+ * Runs text embedding models such as @cf/baai/bge-m3 (1024 dimensions, multilingual)
+ * through the Worker's AI binding, so no external API key is needed.
+ *
+ * Trace:
+ *   spec_id: SPEC-embedding-pipeline-1
+ */
+
+import type { WorkersAI } from '../types/workers-ai.js';
+import type { EmbeddingBatchResult, EmbeddingProvider } from './embedding-provider.js';
+
+export const WORKERS_AI_DEFAULT_MODEL = '@cf/baai/bge-m3';
+export const WORKERS_AI_DEFAULT_DIMENSIONS = 1024;
+
+/**
+ * Embeddings from a Workers AI model; the model decides the dimensions, so `dimensions`
+ * must match its output
+ */
+export class WorkersAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'workers-ai';
+
+  constructor(
+    private ai: WorkersAI,
+    readonly model: string = WORKERS_AI_DEFAULT_MODEL,
+    readonly dimensions: number = WORKERS_AI_DEFAULT_DIMENSIONS
+  ) {}
+
+  async embed(texts: string[]): Promise<EmbeddingBatchResult> {
+    const output = await this.ai.run(this.model, { text: texts });
+
+    if (!Array.isArray(output.data) || output.data.length !== texts.length) {
+      throw new Error(
+        `Workers AI model ${this.model} returned ${output.data?.length ?? 'no'} embeddings for ${texts.length} texts`
+      );
+    }
+
+    // Workers AI does not report token usage for embedding models
+    return { embeddings: output.data, totalTokens: 0 };
+  }
+}
@@ -11,8 +11,19 @@ import {
   SyncError,
   DriveError,
   EmbeddingError,
+  AnswerError,
+  BindingError,
+  TokenizerLoadError,
   QdrantError,
   StateError,
+  VectorizeError,
+  CircuitBreaker,
+  CircuitOpenError,
+  DeadlineExceededError,
+  classifyError,
+  errorStatus,
+  findCause,
+  retryAfterMs,
   withRetry,
   logError,
   ErrorCollector,
@@ -44,6 +55,13 @@ describe('Custom Error Classes', () => {
     expect(error.code).toBe('EMBEDDING_ERROR');
   });
 
+  it('should create AnswerError', () => {
+    const error = new AnswerError('Chat completion failed');
+
+    expect(error.code).toBe('ANSWER_ERROR');
+    expect(error.name).toBe('AnswerError');
+  });
+
   it('should create QdrantError', () => {
     const error = new QdrantError('Qdrant failed');
 
@@ -78,8 +96,8 @@ describe('TEST-error-handling-1: Retry logic with exponential backoff', () => {
   it('should retry up to 3 times and succeed', async () => {
     const fn = vi
       .fn()
-      .mockRejectedValueOnce(new Error('Fail 1'))
-      .mockRejectedValueOnce(new Error('Fail 2'))
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
       .mockResolvedValue('success');
 
     const promise = withRetry(fn, {
@@ -97,12 +115,12 @@ describe('TEST-error-handling-1: Retry logic with exponential backoff', () => {
   });
 
   it('should throw error after max retries', async () => {
-    const fn = vi.fn().mockRejectedValue(new Error('Always fails'));
+    const fn = vi.fn().mockRejectedValue(apiError(503));
 
     const promise = withRetry(fn, { maxRetries: 3, delayMs: 100 });
 
     // Handle the promise rejection first, then run timers
-    const expectation = expect(promise).rejects.toThrow('Always fails');
+    const expectation = expect(promise).rejects.toThrow('HTTP 503');
     await vi.runAllTimersAsync();
     await expectation;
 
@@ -139,6 +157,178 @@ describe('TEST-error-handling-1: Retry logic with exponential backoff', () => {
   });
 });
 
+/**
+ * Error as thrown by an API client for an HTTP response
+ */
+function apiError(status: number, headers: Record<string, string> = {}): Error {
+  return Object.assign(new Error(`HTTP ${status}`), { status, headers });
+}
+
+describe('Error classification', () => {
+  it('should read the status of OpenAI and Google API errors', () => {
+    expect(errorStatus(apiError(429))).toBe(429);
+    expect(errorStatus({ response: { status: 503 } })).toBe(503);
+    expect(errorStatus({ code: '404' })).toBe(404);
+    expect(errorStatus({ code: 'ECONNRESET' })).toBeUndefined();
+  });
+
+  it('should classify by status', () => {
+    expect(classifyError(apiError(429))).toBe('retryable');
+    expect(classifyError(apiError(503))).toBe('transient');
+    expect(classifyError(apiError(408))).toBe('transient');
+    expect(classifyError(apiError(400))).toBe('fatal');
+    expect(classifyError(apiError(401))).toBe('fatal');
+  });
+
+  it('should retry Drive rate limit 403s and only Drive rate limit 403s', () => {
+    const driveError = (reason: string) =>
+      Object.assign(apiError(403), {
+        response: { status: 403, data: { error: { errors: [{ reason }] } } },
+      });
+
+    expect(classifyError(driveError('rateLimitExceeded'))).toBe('retryable');
+    expect(classifyError(driveError('userRateLimitExceeded'))).toBe('retryable');
+    expect(classifyError(driveError('insufficientFilePermissions'))).toBe('fatal');
+  });
+
+  it('should only treat status-less network and binding errors as transient', () => {
+    expect(classifyError(new TypeError('fetch failed'))).toBe('transient');
+    expect(classifyError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toBe(
+      'transient'
+    );
+    expect(
+      classifyError(Object.assign(new Error('timeout'), { name: 'APIConnectionTimeoutError' }))
+    ).toBe('transient');
+    expect(
+      classifyError(new BindingError('Vectorize', { cause: new Error('VECTOR_UPSERT_ERROR') }))
+    ).toBe('transient');
+    expect(
+      classifyError(new TokenizerLoadError('cl100k', { cause: new Error('Failed: 404') }))
+    ).toBe('transient');
+    expect(classifyError(new TypeError("Cannot read properties of undefined (reading 'id')"))).toBe(
+      'fatal'
+    );
+    expect(classifyError(new Error('Unexpected state'))).toBe('fatal');
+  });
+
+  it('should classify domain errors by the error they wrap', () => {
+    expect(classifyError(new DriveError('Failed', {}, { cause: apiError(500) }))).toBe('transient');
+    expect(classifyError(new VectorizeError('Failed', {}, { cause: apiError(400) }))).toBe('fatal');
+    expect(classifyError(new EmbeddingError('Invalid embedding dimensions'))).toBe('fatal');
+    expect(classifyError(new DeadlineExceededError(1000))).toBe('transient');
+    expect(classifyError(new CircuitOpenError('Google Drive', 5, 1000))).toBe('fatal');
+  });
+
+  it('should find an error in the cause chain', () => {
+    const outage = new CircuitOpenError('Vectorize', 5, 1000);
+    const wrapped = new DriveError('Outer', {}, { cause: new Error('Middle', { cause: outage }) });
+
+    expect(findCause(wrapped, CircuitOpenError)).toBe(outage);
+    expect(findCause(new Error('Other'), CircuitOpenError)).toBeUndefined();
+  });
+
+  it('should parse Retry-After in seconds, as a date and from retry-after-ms', () => {
+    const now = Date.parse('2025-11-15T00:00:00Z');
+
+    expect(retryAfterMs(apiError(429, { 'retry-after': '3' }))).toBe(3000);
+    expect(
+      retryAfterMs(apiError(429, { 'retry-after': 'Sat, 15 Nov 2025 00:00:10 GMT' }), now)
+    ).toBe(10000);
+    expect(retryAfterMs(apiError(429, { 'retry-after-ms': '250' }))).toBe(250);
+    expect(retryAfterMs({ response: { headers: new Headers({ 'Retry-After': '2' }) } })).toBe(2000);
+    expect(retryAfterMs(apiError(429))).toBeUndefined();
+  });
+});
+
+describe('TEST-error-handling-9: Classified retries, Retry-After, deadlines and circuit breaking', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should not retry fatal errors', async () => {
+    const fn = vi.fn().mockRejectedValue(apiError(401));
+
+    await expect(withRetry(fn, { maxRetries: 3, delayMs: 100 })).rejects.toThrow('HTTP 401');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait at least the Retry-After of a rate-limited call', async () => {
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(apiError(429, { 'retry-after': '5' }))
+      .mockResolvedValue('ok');
+
+    const promise = withRetry(fn, { maxRetries: 3, delayMs: 100 });
+    await vi.advanceTimersByTimeAsync(4900);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(100);
+
+    await expect(promise).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up when Retry-After is longer than it waits', async () => {
+    const fn = vi.fn().mockRejectedValue(apiError(429, { 'retry-after': '120' }));
+
+    await expect(withRetry(fn, { maxRetries: 3, delayMs: 100 })).rejects.toThrow('HTTP 429');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep jittered delays between half and all of the backoff', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const fn = vi.fn().mockRejectedValueOnce(apiError(503)).mockResolvedValue('ok');
+
+    const promise = withRetry(fn, { maxRetries: 3, delayMs: 1000 });
+    await vi.advanceTimersByTimeAsync(500);
+
+    await expect(promise).resolves.toBe('ok');
+  });
+
+  it('should abandon an attempt that runs past the deadline', async () => {
+    const fn = vi.fn().mockReturnValue(new Promise(() => {}));
+
+    const promise = withRetry(fn, { maxRetries: 3, delayMs: 100, deadlineMs: 1000 });
+    const expectation = expect(promise).rejects.toThrow(DeadlineExceededError);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expectation;
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should open the circuit after consecutive failed calls and fail fast', async () => {
+    const circuit = new CircuitBreaker('Google Drive', { failureThreshold: 2, cooldownMs: 1000 });
+    const config = { maxRetries: 1, delayMs: 100, circuit };
+    const failing = vi.fn().mockRejectedValue(apiError(503));
+
+    await expect(withRetry(failing, config)).rejects.toThrow('HTTP 503');
+    await expect(withRetry(failing, config)).rejects.toThrow('HTTP 503');
+    await expect(withRetry(failing, config)).rejects.toThrow(CircuitOpenError);
+    expect(failing).toHaveBeenCalledTimes(2);
+
+    // After the cooldown a trial call goes through and closes the circuit
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(withRetry(vi.fn().mockResolvedValue('ok'), config)).resolves.toBe('ok');
+    expect(circuit.isOpen()).toBe(false);
+  });
+
+  it('should not count rate limits or fatal errors toward the circuit', async () => {
+    const circuit = new CircuitBreaker('OpenAI', { failureThreshold: 1 });
+    const config = { maxRetries: 1, delayMs: 100, circuit };
+
+    await expect(withRetry(vi.fn().mockRejectedValue(apiError(429)), config)).rejects.toThrow();
+    await expect(withRetry(vi.fn().mockRejectedValue(apiError(400)), config)).rejects.toThrow();
+
+    expect(circuit.isOpen()).toBe(false);
+  });
+});
+
 describe('TEST-error-handling-5: Log structured error data with context', () => {
   it('should log error with context', () => {
     const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
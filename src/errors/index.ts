@@ -13,9 +13,10 @@ export class SyncError extends Error {
   constructor(
     message: string,
     public readonly code: string,
-    public readonly context?: Record<string, unknown>
+    public readonly context?: Record<string, unknown>,
+    options?: ErrorOptions
   ) {
-    super(message);
+    super(message, options);
     this.name = 'SyncError';
   }
 }
@@ -24,8 +25,8 @@ export class SyncError extends Error {
  * Drive API related errors
  */
 export class DriveError extends SyncError {
-  constructor(message: string, context?: Record<string, unknown>) {
-    super(message, 'DRIVE_ERROR', context);
+  constructor(message: string, context?: Record<string, unknown>, options?: ErrorOptions) {
+    super(message, 'DRIVE_ERROR', context, options);
     this.name = 'DriveError';
   }
 }
@@ -34,80 +35,510 @@ export class DriveError extends SyncError {
  * Embedding/OpenAI related errors
  */
 export class EmbeddingError extends SyncError {
-  constructor(message: string, context?: Record<string, unknown>) {
-    super(message, 'EMBEDDING_ERROR', context);
+  constructor(message: string, context?: Record<string, unknown>, options?: ErrorOptions) {
+    super(message, 'EMBEDDING_ERROR', context, options);
     this.name = 'EmbeddingError';
   }
 }
 
+/**
+ * Chat completion (RAG answer generation) errors
+ */
+export class AnswerError extends SyncError {
+  constructor(message: string, context?: Record<string, unknown>, options?: ErrorOptions) {
+    super(message, 'ANSWER_ERROR', context, options);
+    this.name = 'AnswerError';
+  }
+}
+
 /**
  * Qdrant related errors
  */
 export class QdrantError extends SyncError {
-  constructor(message: string, context?: Record<string, unknown>) {
-    super(message, 'QDRANT_ERROR', context);
+  constructor(message: string, context?: Record<string, unknown>, options?: ErrorOptions) {
+    super(message, 'QDRANT_ERROR', context, options);
     this.name = 'QdrantError';
   }
 }
 
+/**
+ * Cloudflare Vectorize errors
+ */
+export class VectorizeError extends SyncError {
+  constructor(message: string, context?: Record<string, unknown>, options?: ErrorOptions) {
+    super(message, 'VECTORIZE_ERROR', context, options);
+    this.name = 'VectorizeError';
+  }
+}
+
 /**
  * State management errors
  */
 export class StateError extends SyncError {
-  constructor(message: string, context?: Record<string, unknown>) {
-    super(message, 'STATE_ERROR', context);
+  constructor(message: string, context?: Record<string, unknown>, options?: ErrorOptions) {
+    super(message, 'STATE_ERROR', context, options);
     this.name = 'StateError';
   }
 }
 
+/**
+ * A file whose content cannot be extracted safely (e.g. a ZIP bomb); the file is
+ * skipped rather than retried
+ */
+export class ExtractionError extends SyncError {
+  constructor(message: string, context?: Record<string, unknown>, options?: ErrorOptions) {
+    super(message, 'EXTRACTION_ERROR', context, options);
+    this.name = 'ExtractionError';
+  }
+}
+
+/**
+ * A failed call to a Cloudflare binding (Vectorize); binding errors carry no HTTP
+ * status, so the client marks them transient explicitly
+ */
+export class BindingError extends SyncError {
+  constructor(binding: string, options?: ErrorOptions) {
+    super(
+      options?.cause instanceof Error ? options.cause.message : `${binding} call failed`,
+      'BINDING_ERROR',
+      { binding },
+      options
+    );
+    this.name = 'BindingError';
+  }
+}
+
+/**
+ * The configured exact tokenizer could not be loaded; files fail and are retried instead
+ * of being chunked with approximate counts that would move their chunk boundaries
+ */
+export class TokenizerLoadError extends SyncError {
+  constructor(tokenizer: string, options?: ErrorOptions) {
+    super(`Failed to load the ${tokenizer} tokenizer`, 'TOKENIZER_ERROR', { tokenizer }, options);
+    this.name = 'TokenizerLoadError';
+  }
+}
+
+/**
+ * A call that did not finish within its retry deadline
+ */
+export class DeadlineExceededError extends SyncError {
+  constructor(deadlineMs: number) {
+    super(`Call did not finish within ${deadlineMs}ms`, 'DEADLINE_EXCEEDED', { deadlineMs });
+    this.name = 'DeadlineExceededError';
+  }
+}
+
+/**
+ * A call refused without trying because its dependency's circuit breaker is open
+ */
+export class CircuitOpenError extends SyncError {
+  constructor(
+    public readonly dependency: string,
+    failures: number,
+    retryInMs: number
+  ) {
+    super(
+      `${dependency} is unavailable after ${failures} consecutive failed calls`,
+      'CIRCUIT_OPEN',
+      { dependency, failures, retryInMs }
+    );
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * How a failed call is handled
+ * - retryable: the dependency asked us to come back later (429, Drive's rate limit 403s);
+ *   retried after Retry-After
+ * - transient: the dependency failed or could not be reached (network, timeout, 408, 5xx,
+ *   Vectorize binding errors, tokenizer loads); retried with backoff and counted by the
+ *   circuit breaker
+ * - fatal: retrying cannot help (other 4xx such as bad requests and auth failures, open
+ *   circuits, our own validation errors and bugs)
+ */
+export type ErrorClass = 'retryable' | 'transient' | 'fatal';
+
+/**
+ * HTTP status of an API error: OpenAI errors carry `status`, Google API (gaxios) errors
+ * `response.status` or a numeric `code`
+ */
+export function errorStatus(error: unknown): number | undefined {
+  if (!error || typeof error !== 'object') {
+    return undefined;
+  }
+
+  const { status, response, code } = error as {
+    status?: unknown;
+    response?: { status?: unknown };
+    code?: unknown;
+  };
+  for (const value of [status, response?.status, code]) {
+    const parsed = typeof value === 'string' ? Number(value) : value;
+    if (typeof parsed === 'number' && Number.isInteger(parsed) && parsed >= 100 && parsed < 600) {
+      return parsed;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Drive reports rate limiting as 403 with one of these reasons
+ */
+const DRIVE_RATE_LIMIT_REASONS = new Set(['rateLimitExceeded', 'userRateLimitExceeded']);
+
+/**
+ * Socket error codes of Node and gaxios network failures
+ */
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+]);
+
+/**
+ * OpenAI SDK connection failures and AbortSignal.timeout() rejections
+ */
+const NETWORK_ERROR_NAMES = new Set([
+  'APIConnectionError',
+  'APIConnectionTimeoutError',
+  'TimeoutError',
+]);
+
+/**
+ * fetch() rejects with a TypeError naming the network failure
+ */
+const FETCH_FAILURE_PATTERN = /fetch failed|network connection lost|network error/i;
+
+/**
+ * Reason of a Google API error (`error.errors[0].reason` of the JSON error body)
+ */
+function errorReason(error: unknown): string | undefined {
+  const { errors, response } = (error ?? {}) as {
+    errors?: Array<{ reason?: unknown }>;
+    response?: { data?: { error?: { errors?: Array<{ reason?: unknown }> } } };
+  };
+  const reason = (response?.data?.error?.errors ?? errors)?.[0]?.reason;
+  return typeof reason === 'string' ? reason : undefined;
+}
+
+/**
+ * Whether an error without an HTTP status is a failed network round trip, as opposed
+ * to an error raised by our own code
+ */
+function isNetworkError(error: unknown): boolean {
+  for (let current = error; current && typeof current === 'object';) {
+    const { name, code, message, cause } = current as {
+      name?: unknown;
+      code?: unknown;
+      message?: unknown;
+      cause?: unknown;
+    };
+    if (typeof code === 'string' && NETWORK_ERROR_CODES.has(code)) {
+      return true;
+    }
+    if (typeof name === 'string' && NETWORK_ERROR_NAMES.has(name)) {
+      return true;
+    }
+    if (current instanceof TypeError && FETCH_FAILURE_PATTERN.test(String(message))) {
+      return true;
+    }
+    current = cause;
+  }
+  return false;
+}
+
+/**
+ * Classify an error from Drive, an embedding provider or Vectorize
+ * Domain errors are classified by the error they wrap (`cause`); without one they are fatal.
+ * Errors without a status are transient only for network failures, Vectorize binding
+ * errors and tokenizer loads; anything else (e.g. a TypeError from our own code) is fatal.
+ */
+export function classifyError(error: unknown): ErrorClass {
+  if (
+    error instanceof DeadlineExceededError ||
+    error instanceof BindingError ||
+    error instanceof TokenizerLoadError
+  ) {
+    return 'transient';
+  }
+  if (error instanceof SyncError) {
+    return error.cause !== undefined ? classifyError(error.cause) : 'fatal';
+  }
+
+  const status = errorStatus(error);
+  if (status === undefined) {
+    return isNetworkError(error) ? 'transient' : 'fatal';
+  }
+  if (status === 408 || status >= 500) {
+    return 'transient';
+  }
+  const reason = errorReason(error);
+  if (status === 429 || (status === 403 && reason && DRIVE_RATE_LIMIT_REASONS.has(reason))) {
+    return 'retryable';
+  }
+  return 'fatal';
+}
+
+/**
+ * Wait requested by the Retry-After (or OpenAI's retry-after-ms) header of an API error,
+ * given in seconds or as an HTTP date
+ */
+export function retryAfterMs(error: unknown, now: number = Date.now()): number | undefined {
+  const source = error as { headers?: unknown; response?: { headers?: unknown } } | null;
+  const headers = source?.headers ?? source?.response?.headers;
+  if (!headers || typeof headers !== 'object') {
+    return undefined;
+  }
+
+  const header = (name: string): unknown =>
+    typeof (headers as Headers).get === 'function'
+      ? (headers as Headers).get(name)
+      : (headers as Record<string, unknown>)[name];
+
+  const milliseconds = Number(header('retry-after-ms'));
+  if (header('retry-after-ms') != null && Number.isFinite(milliseconds)) {
+    return Math.max(0, milliseconds);
+  }
+
+  const value = header('retry-after');
+  if (value == null || value === '') {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * First error of the given type in an error's `cause` chain (including the error itself)
+ */
+export function findCause<T extends Error>(
+  error: unknown,
+  type: abstract new (...args: never[]) => T
+): T | undefined {
+  for (let current = error; current; current = (current as Error).cause) {
+    if (current instanceof type) {
+      return current;
+    }
+  }
+  return undefined;
+}
+
+export interface CircuitBreakerOptions {
+  /**
+   * Consecutive failed calls that open the circuit (default: 5)
+   */
+  failureThreshold?: number;
+  /**
+   * How long an open circuit refuses calls before letting a trial call through (default: 30s)
+   */
+  cooldownMs?: number;
+}
+
+/**
+ * Circuit breaker of one dependency (Drive, an embedding provider, Vectorize)
+ * Calls that still fail transiently after their retries count as failures; once
+ * failureThreshold of them happen in a row, calls fail fast with CircuitOpenError
+ * until the cooldown passes. A trial call then closes the circuit on success or
+ * reopens it on failure.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private failureThreshold: number;
+  private cooldownMs: number;
+
+  constructor(
+    public readonly dependency: string,
+    options: CircuitBreakerOptions = {}
+  ) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.cooldownMs = options.cooldownMs ?? 30_000;
+  }
+
+  isOpen(now: number = Date.now()): boolean {
+    return this.openedAt !== null && now - this.openedAt < this.cooldownMs;
+  }
+
+  /**
+   * Throw CircuitOpenError while the circuit is open
+   */
+  assertClosed(): void {
+    const now = Date.now();
+    if (this.isOpen(now)) {
+      throw new CircuitOpenError(
+        this.dependency,
+        this.failures,
+        this.cooldownMs - (now - this.openedAt!)
+      );
+    }
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.failures >= this.failureThreshold) {
+      if (!this.isOpen()) {
+        console.error(
+          `Circuit for ${this.dependency} opened after ${this.failures} consecutive failed calls`
+        );
+      }
+      this.openedAt = Date.now();
+    }
+  }
+}
+
 /**
  * Retry configuration
  */
 export interface RetryConfig {
+  /**
+   * Attempts, including the first
+   */
   maxRetries: number;
   delayMs: number;
   exponentialBackoff?: boolean;
+  /**
+   * Spread each delay randomly between half and all of its length (default: true)
+   */
+  jitter?: boolean;
+  /**
+   * Time budget of the whole call, waits included; an attempt still running when it
+   * passes is abandoned with DeadlineExceededError (default: none)
+   */
+  deadlineMs?: number;
+  /**
+   * Longest Retry-After the call waits for; a longer one fails the call (default: 60s)
+   */
+  maxRetryAfterMs?: number;
+  /**
+   * Breaker of the called dependency: refuses calls while open and counts failed calls
+   */
+  circuit?: CircuitBreaker;
+}
+
+/**
+ * Retries used by the API clients: 3 attempts, 1s doubling backoff, 2 minute deadline
+ */
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxRetries: 3,
+  delayMs: 1000,
+  exponentialBackoff: true,
+  deadlineMs: 120_000,
+};
+
+const DEFAULT_MAX_RETRY_AFTER_MS = 60_000;
+
+/**
+ * Reject with DeadlineExceededError if the promise is still pending at the deadline
+ * The abandoned call itself is not cancelled
+ */
+async function beforeDeadline<T>(
+  promise: Promise<T>,
+  deadline: number,
+  deadlineMs: number
+): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new DeadlineExceededError(deadlineMs)),
+      Math.max(0, deadline - Date.now())
+    );
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
 }
 
 /**
  * Retry a function with exponential backoff
+ * Fatal errors are thrown at once; rate-limited calls wait at least their Retry-After.
+ * No retry starts that could not finish its wait before the deadline.
  */
 export async function withRetry<T>(
   fn: () => Promise<T>,
-  config: RetryConfig = { maxRetries: 3, delayMs: 1000, exponentialBackoff: true }
+  config: RetryConfig = DEFAULT_RETRY_CONFIG
 ): Promise<T> {
+  const deadline = config.deadlineMs !== undefined ? Date.now() + config.deadlineMs : undefined;
   let lastError: Error | undefined;
 
   for (let attempt = 0; attempt < config.maxRetries; attempt++) {
+    config.circuit?.assertClosed();
+
     try {
-      return await fn();
+      const result =
+        deadline !== undefined
+          ? await beforeDeadline(fn(), deadline, config.deadlineMs!)
+          : await fn();
+      config.circuit?.recordSuccess();
+      return result;
     } catch (error) {
       lastError = error as Error;
+      const errorClass = classifyError(error);
+      const delay = retryDelay(config, attempt, error);
 
-      // Don't retry on last attempt
-      if (attempt === config.maxRetries - 1) {
+      // Don't retry fatal errors, on the last attempt or past the deadline
+      if (
+        errorClass === 'fatal' ||
+        attempt === config.maxRetries - 1 ||
+        delay === null ||
+        (deadline !== undefined && Date.now() + delay >= deadline)
+      ) {
+        if (errorClass === 'transient') {
+          config.circuit?.recordFailure();
+        }
         break;
       }
 
-      // Calculate delay
-      const delay = config.exponentialBackoff
-        ? config.delayMs * Math.pow(2, attempt)
-        : config.delayMs;
-
       console.warn(
         `Attempt ${attempt + 1}/${config.maxRetries} failed. Retrying in ${delay}ms...`,
         {
           error: lastError.message,
+          errorClass,
         }
       );
 
-      await new Promise((resolve) => setTimeout(resolve, delay));
+      await new Promise(resolve => setTimeout(resolve, delay));
     }
   }
 
   throw lastError!;
 }
 
+/**
+ * Delay before the next attempt, or null when Retry-After asks for more than we wait
+ */
+function retryDelay(config: RetryConfig, attempt: number, error: unknown): number | null {
+  let delay = config.exponentialBackoff ? config.delayMs * Math.pow(2, attempt) : config.delayMs;
+  if (config.jitter !== false) {
+    delay = Math.round(delay / 2 + (Math.random() * delay) / 2);
+  }
+
+  const retryAfter = retryAfterMs(error);
+  if (retryAfter !== undefined) {
+    if (retryAfter > (config.maxRetryAfterMs ?? DEFAULT_MAX_RETRY_AFTER_MS)) {
+      return null;
+    }
+    delay = Math.max(delay, retryAfter);
+  }
+  return delay;
+}
+
 /**
  * Log structured error
  */
@@ -0,0 +1,26 @@
+/**
+ * Tests for CSV parsing
+ *
+ * Trace:
+ *   spec_id: SPEC-file-processing-1
+ */
+
+import { describe, it, expect } from 'vitest';
+import { csvToMarkdownTable, parseCsv } from './csv-extractor';
+
+describe('parseCsv', () => {
+  it('should handle quoted fields, escaped quotes and CRLF line endings', () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n1,2,3')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['1', '2', '3'],
+    ]);
+  });
+});
+
+describe('csvToMarkdownTable', () => {
+  it('TEST-file-processing-14: should render a CSV file with a byte order mark as a table', () => {
+    expect(csvToMarkdownTable('\uFEFFName,Score\nAda,10\n')).toBe(
+      '| Name | Score |\n| --- | --- |\n| Ada | 10 |'
+    );
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * CSV parsing and markdown table rendering
+ *
+ * Used for uploaded .csv files and for Google Sheets exported as CSV.
+ *
+ * Trace:
+ *   spec_id: SPEC-file-processing-1
+ */
+
+import { renderMarkdownTable } from './markdown-table.js';
+
+/**
+ * Minimal RFC 4180 CSV parser (quoted fields, escaped quotes, embedded newlines)
+ */
+export function parseCsv(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+
+    if (inQuotes) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && csv[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Convert CSV into a markdown table, treating the first row as the header
+ * Keeps the header row with every row group when the markdown chunker splits it
+ */
+export function csvToMarkdownTable(csv: string): string {
+  return renderMarkdownTable(parseCsv(csv.replace(/^\uFEFF/, '')));
+}
@@ -0,0 +1,157 @@
+/**
+ * Tests for DOCX extraction and the ZIP reader
+ *
+ * Trace:
+ *   spec_id: SPEC-file-processing-1
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractDocumentXmlText, extractDocxText } from './docx-extractor';
+import { readZipEntry } from './zip';
+import { ExtractionError } from '../errors/index';
+
+interface TestEntry {
+  name: string;
+  content: string;
+  deflate?: boolean;
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Build a ZIP archive (CRCs are left as zero; the reader does not check them)
+ */
+async function createZip(entries: TestEntry[]): Promise<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const raw = encoder.encode(entry.content);
+    const data = entry.deflate ? await deflateRaw(raw) : raw;
+    const method = entry.deflate ? 8 : 0;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(8, method, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, raw.length, true);
+    local.setUint16(26, name.length, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(10, method, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, raw.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    localParts.push(new Uint8Array(local.buffer), name, data);
+    centralParts.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...localParts, ...centralParts, new Uint8Array(end.buffer)]).arrayBuffer();
+}
+
+function paragraph(text: string, properties = ''): string {
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+}
+
+function documentXml(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}<w:sectPr/></w:body></w:document>`;
+}
+
+describe('readZipEntry', () => {
+  it('should read stored and deflated entries', async () => {
+    const archive = await createZip([
+      { name: 'stored.txt', content: 'plain' },
+      { name: 'deflated.txt', content: 'compressed '.repeat(50), deflate: true },
+    ]);
+
+    const stored = await readZipEntry(archive, 'stored.txt');
+    const deflated = await readZipEntry(archive, 'deflated.txt');
+
+    expect(new TextDecoder().decode(stored!)).toBe('plain');
+    expect(new TextDecoder().decode(deflated!)).toBe('compressed '.repeat(50));
+    expect(await readZipEntry(archive, 'missing.txt')).toBeNull();
+  });
+
+  it('should stop inflating an entry past the size limit', async () => {
+    const archive = await createZip([
+      { name: 'bomb.xml', content: '0'.repeat(1024 * 1024), deflate: true },
+    ]);
+
+    await expect(readZipEntry(archive, 'bomb.xml', 64 * 1024)).rejects.toThrow(ExtractionError);
+    expect((await readZipEntry(archive, 'bomb.xml', 1024 * 1024))!.length).toBe(1024 * 1024);
+  });
+
+  it('should reject data that is not a ZIP archive', async () => {
+    await expect(readZipEntry(new ArrayBuffer(64), 'any')).rejects.toThrow('Not a ZIP archive');
+  });
+});
+
+describe('extractDocumentXmlText', () => {
+  it('TEST-file-processing-12: should keep headings, list items and tables in document order', () => {
+    const xml = documentXml(
+      [
+        paragraph('Quarterly Report', '<w:pStyle w:val="Title"/>'),
+        paragraph('Summary', '<w:pStyle w:val="Heading2"/>'),
+        '<w:p><w:r><w:t>Revenue &amp; costs</w:t></w:r><w:r><w:tab/><w:t>grew</w:t></w:r></w:p>',
+        paragraph('First item', '<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr>'),
+        '<w:p/>',
+        '<w:tbl><w:tr><w:tc>' +
+          paragraph('Region') +
+          '</w:tc><w:tc>' +
+          paragraph('Total') +
+          '</w:tc></w:tr><w:tr><w:tc>' +
+          paragraph('EMEA') +
+          '</w:tc><w:tc>' +
+          paragraph('42') +
+          '</w:tc></w:tr></w:tbl>',
+        paragraph('Closing'),
+      ].join('')
+    );
+
+    expect(extractDocumentXmlText(xml)).toBe(
+      [
+        '# Quarterly Report',
+        '## Summary',
+        'Revenue & costs\tgrew',
+        '- First item',
+        '| Region | Total |\n| --- | --- |\n| EMEA | 42 |',
+        'Closing',
+      ].join('\n\n')
+    );
+  });
+});
+
+describe('extractDocxText', () => {
+  it('should extract text from a deflated word/document.xml', async () => {
+    const archive = await createZip([
+      { name: '[Content_Types].xml', content: '<Types/>' },
+      { name: 'word/document.xml', content: documentXml(paragraph('Hello DOCX')), deflate: true },
+    ]);
+
+    expect(await extractDocxText(archive)).toBe('Hello DOCX');
+  });
+
+  it('should reject archives without a document part', async () => {
+    const archive = await createZip([{ name: 'other.xml', content: '<x/>' }]);
+
+    await expect(extractDocxText(archive)).rejects.toThrow('missing word/document.xml');
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * DOCX text extraction
+ *
+ * Unzips word/document.xml and walks paragraphs and tables in document
+ * order. Heading styles become markdown headings, numbered/bulleted
+ * paragraphs become list items and tables become markdown tables.
+ *
+ * Trace:
+ *   spec_id: SPEC-file-processing-1
+ */
+
+import { decodeEntities } from './html-extractor.js';
+import { renderMarkdownTable } from './markdown-table.js';
+import { readZipEntry } from './zip.js';
+
+const DOCUMENT_ENTRY = 'word/document.xml';
+const BLOCK_PATTERN = /<w:tbl\b[^>]*>[\s\S]*?<\/w:tbl>|<w:p\b[^>]*\/>|<w:p\b[^>]*>[\s\S]*?<\/w:p>/g;
+
+/**
+ * Concatenate the text runs of a paragraph
+ */
+function paragraphText(paragraphXml: string): string {
+  const parts: string[] = [];
+  const tokenPattern = /<w:t\b[^>]*>([\s\S]*?)<\/w:t>|<w:tab\b[^>]*\/>|<w:br\b[^>]*\/>/g;
+
+  for (const match of paragraphXml.matchAll(tokenPattern)) {
+    if (match[1] !== undefined) {
+      parts.push(decodeEntities(match[1]));
+    } else {
+      parts.push(match[0].startsWith('<w:tab') ? '\t' : '\n');
+    }
+  }
+
+  return parts.join('');
+}
+
+function headingLevel(paragraphXml: string): number {
+  const style = /<w:pStyle\b[^>]*w:val="([^"]*)"/.exec(paragraphXml)?.[1];
+  if (!style) {
+    return 0;
+  }
+  if (/^title$/i.test(style)) {
+    return 1;
+  }
+  const heading = /^heading\s*([1-6])$/i.exec(style);
+  return heading ? Number(heading[1]) : 0;
+}
+
+function renderParagraph(paragraphXml: string): string {
+  const text = paragraphText(paragraphXml).trim();
+  if (!text) {
+    return '';
+  }
+
+  const level = headingLevel(paragraphXml);
+  if (level > 0) {
+    return `${'#'.repeat(level)} ${text.replace(/\s+/g, ' ')}`;
+  }
+  if (/<w:numPr\b/.test(paragraphXml)) {
+    return `- ${text}`;
+  }
+  return text;
+}
+
+function renderTable(tableXml: string): string {
+  const rows: string[][] = [];
+  for (const row of tableXml.match(/<w:tr\b[^>]*>[\s\S]*?<\/w:tr>/g) || []) {
+    const cells = row.match(/<w:tc\b[^>]*>[\s\S]*?<\/w:tc>/g) || [];
+    rows.push(
+      cells.map(cell =>
+        (cell.match(/<w:p\b[^>]*>[\s\S]*?<\/w:p>/g) || [])
+          .map(paragraphText)
+          .join(' ')
+          .replace(/\s+/g, ' ')
+          .trim()
+      )
+    );
+  }
+  return renderMarkdownTable(rows);
+}
+
+/**
+ * Convert the main document part of a DOCX file into markdown-flavoured text
+ */
+export function extractDocumentXmlText(documentXml: string): string {
+  const blocks: string[] = [];
+
+  for (const [block] of documentXml.matchAll(BLOCK_PATTERN)) {
+    const rendered = block.startsWith('<w:tbl') ? renderTable(block) : renderParagraph(block);
+    if (rendered) {
+      blocks.push(rendered);
+    }
+  }
+
+  return blocks.join('\n\n');
+}
+
+/**
+ * Extract text from a DOCX archive
+ */
+export async function extractDocxText(archive: ArrayBuffer): Promise<string> {
+  const documentXml = await readZipEntry(archive, DOCUMENT_ENTRY);
+  if (!documentXml) {
+    throw new Error(`Invalid DOCX file: missing ${DOCUMENT_ENTRY}`);
+  }
+  return extractDocumentXmlText(new TextDecoder().decode(documentXml));
+}
@@ -0,0 +1,47 @@
+/**
+ * Tests for Google Workspace export extractors
+ *
+ * Trace:
+ *   spec_id: SPEC-drive-integration-1
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  extractGoogleDocText,
+  extractGoogleSheetText,
+  extractGoogleSlidesText,
+} from './google-export';
+
+describe('Google export extractors', () => {
+  it('should strip inline base64 images from exported Docs markdown', () => {
+    const exported = [
+      '# Design',
+      '',
+      '![][image1]',
+      '',
+      'Body text.',
+      '',
+      '[image1]: <data:image/png;base64,iVBORw0KGgo=>',
+    ].join('\n');
+
+    expect(extractGoogleDocText(exported)).toBe('# Design\n\nBody text.');
+  });
+
+  it('should trim Slides text and collapse blank runs', () => {
+    expect(extractGoogleSlidesText('Kickoff   \n\n\n\nAgenda\n')).toBe('Kickoff\n\nAgenda');
+  });
+
+  it('should render Sheets CSV as a markdown table without empty rows or columns', () => {
+    const csv = 'Owner,Task,\nAlice,Fix | pipe,\n,,\nBob,"Review\nPR",\n';
+
+    expect(extractGoogleSheetText(csv)).toBe(
+      ['| Owner | Task |', '| --- | --- |', '| Alice | Fix \\| pipe |', '| Bob | Review PR |'].join(
+        '\n'
+      )
+    );
+  });
+
+  it('should return empty text for an empty sheet', () => {
+    expect(extractGoogleSheetText(',,\n,,\n')).toBe('');
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Export formats and text extractors for native Google Workspace files
+ *
+ * Google Docs, Sheets and Slides have no binary content to download; they are
+ * converted with files.export and then normalized for embedding. The export
+ * formats are declared by the matching extractors in registry.ts.
+ *
+ * Trace:
+ *   spec_id: SPEC-drive-integration-1
+ */
+
+import { csvToMarkdownTable } from './csv-extractor.js';
+
+export const GOOGLE_DOCS_MIME_TYPE = 'application/vnd.google-apps.document';
+export const GOOGLE_SHEETS_MIME_TYPE = 'application/vnd.google-apps.spreadsheet';
+export const GOOGLE_SLIDES_MIME_TYPE = 'application/vnd.google-apps.presentation';
+
+/**
+ * Markdown export inlines images as base64 data URIs, which are useless for
+ * embedding and can be megabytes long
+ */
+const INLINE_IMAGE_DEFINITION = /^\[[^\]]+\]:\s*<?data:image\/[^\s>]+>?\s*$/gm;
+const INLINE_IMAGE_REFERENCE = /!\[[^\]]*\]\[[^\]]+\]/g;
+
+/**
+ * Normalize an exported Google Doc (markdown or plain text)
+ */
+export function extractGoogleDocText(exported: string): string {
+  return collapseBlankLines(
+    exported.replace(INLINE_IMAGE_DEFINITION, '').replace(INLINE_IMAGE_REFERENCE, '')
+  );
+}
+
+/**
+ * Normalize an exported Google Slides deck (plain text)
+ */
+export function extractGoogleSlidesText(exported: string): string {
+  return collapseBlankLines(
+    exported
+      .split('\n')
+      .map(line => line.trimEnd())
+      .join('\n')
+  );
+}
+
+/**
+ * Convert an exported Google Sheet (CSV) into a markdown table
+ */
+export function extractGoogleSheetText(exported: string): string {
+  return csvToMarkdownTable(exported);
+}
+
+function collapseBlankLines(text: string): string {
+  return text.replace(/\n{3,}/g, '\n\n').trim();
+}
@@ -0,0 +1,58 @@
+/**
+ * Tests for HTML extraction
+ *
+ * Trace:
+ *   spec_id: SPEC-file-processing-1
+ */
+
+import { describe, it, expect } from 'vitest';
+import { decodeEntities, extractHtmlText } from './html-extractor';
+
+describe('extractHtmlText', () => {
+  it('TEST-file-processing-13: should strip tags while keeping headings, lists and tables', () => {
+    const html = `<!DOCTYPE html>
+<html>
+  <head><title>Ignored</title><style>body { color: red; }</style></head>
+  <body>
+    <h1>Onboarding</h1>
+    <p>Welcome to the <b>team</b>.<br>Read this first.</p>
+    <script>track();</script>
+    <ul><li>Laptop</li><li>Badge</li></ul>
+    <table>
+      <tr><th>Tool</th><th>Owner</th></tr>
+      <tr><td>VPN</td><td>IT &amp; Ops</td></tr>
+    </table>
+    <!-- hidden comment -->
+  </body>
+</html>`;
+
+    expect(extractHtmlText(html)).toBe(
+      [
+        '# Onboarding',
+        '',
+        'Welcome to the team.',
+        'Read this first.',
+        '',
+        '- Laptop',
+        '',
+        '- Badge',
+        '',
+        '| Tool | Owner |',
+        '| --- | --- |',
+        '| VPN | IT & Ops |',
+      ].join('\n')
+    );
+  });
+
+  it('should handle fragments without a body element', () => {
+    expect(extractHtmlText('<div>one</div><div>two</div>')).toBe('one\n\ntwo');
+  });
+});
+
+describe('decodeEntities', () => {
+  it('should decode named and numeric character references', () => {
+    expect(decodeEntities('&lt;a&gt; &#233; &#x1F600; &nbsp;&unknown;')).toBe(
+      '<a> é 😀  &unknown;'
+    );
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * HTML text extraction that keeps document structure
+ *
+ * Headings become markdown headings, list items become bullets and tables
+ * become markdown tables, so the markdown chunker can split on them.
+ *
+ * Trace:
+ *   spec_id: SPEC-file-processing-1
+ */
+
+import { renderMarkdownTable } from './markdown-table.js';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  middot: '·',
+  copy: '©',
+};
+
+/**
+ * Decode character references (also covers the five XML entities)
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint =
+        entity[1] === 'x' || entity[1] === 'X'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+const REMOVED_ELEMENTS = /<(script|style|noscript|template|head|svg)\b[\s\S]*?<\/\1\s*>/gi;
+const BLOCK_TAGS =
+  /<\/?(p|div|section|article|header|footer|main|aside|nav|blockquote|pre|ul|ol|dl|dd|dt|figure|figcaption|hr|address)\b[^>]*>/gi;
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, '');
+}
+
+function inlineText(html: string): string {
+  return decodeEntities(stripTags(html)).replace(/\s+/g, ' ').trim();
+}
+
+function tableToMarkdown(tableHtml: string): string {
+  const rows: string[][] = [];
+  for (const row of tableHtml.match(/<tr\b[^>]*>[\s\S]*?<\/tr\s*>/gi) || []) {
+    const cells = row.match(/<(td|th)\b[^>]*>[\s\S]*?<\/\1\s*>/gi) || [];
+    rows.push(cells.map(inlineText));
+  }
+  return renderMarkdownTable(rows);
+}
+
+/**
+ * Convert HTML into structured plain text (markdown-flavoured)
+ */
+export function extractHtmlText(html: string): string {
+  const body = /<body\b[^>]*>([\s\S]*)<\/body\s*>/i.exec(html)?.[1] ?? html;
+
+  const text = body
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(REMOVED_ELEMENTS, '')
+    .replace(/<table\b[^>]*>[\s\S]*?<\/table\s*>/gi, table => `\n\n${tableToMarkdown(table)}\n\n`)
+    .replace(
+      /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi,
+      (_, level: string, content: string) =>
+        `\n\n${'#'.repeat(Number(level))} ${inlineText(content)}\n\n`
+    )
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<\/li\s*>/gi, '\n')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(BLOCK_TAGS, '\n\n');
+
+  return decodeEntities(stripTags(text))
+    .split('\n')
+    .map(line => (line.startsWith('|') ? line.trim() : line.replace(/[ \t\f\v]+/g, ' ').trim()))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
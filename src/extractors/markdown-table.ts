@@ -0,0 +1,35 @@
+/**
+ * Markdown table rendering shared by the CSV, DOCX and HTML extractors
+ *
+ * Trace:
+ *   spec_id: SPEC-file-processing-1
+ */
+
+function escapeCell(cell: string): string {
+  return cell.replace(/\r?\n/g, ' ').replace(/\|/g, '\\|').trim();
+}
+
+/**
+ * Render rows as a markdown table, treating the first row as the header
+ * Rows without any text and trailing columns that are empty in every row are dropped
+ */
+export function renderMarkdownTable(rows: string[][]): string {
+  const nonEmpty = rows.filter(row => row.some(cell => cell.trim() !== ''));
+  if (nonEmpty.length === 0) {
+    return '';
+  }
+
+  let width = Math.max(...nonEmpty.map(row => row.length));
+  while (width > 0 && nonEmpty.every(row => !row[width - 1]?.trim())) {
+    width--;
+  }
+
+  const formatRow = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => escapeCell(row[i] || '')).join(' | ')} |`;
+
+  return [
+    formatRow(nonEmpty[0]),
+    `| ${Array(width).fill('---').join(' | ')} |`,
+    ...nonEmpty.slice(1).map(formatRow),
+  ].join('\n');
+}
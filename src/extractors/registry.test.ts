@@ -0,0 +1,63 @@
+/**
+ * Tests for the document extractor registry
+ *
+ * Trace:
+ *   spec_id: SPEC-file-processing-1
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DOCX_MIME_TYPE,
+  DocumentExtractor,
+  ExtractorRegistry,
+  createDefaultExtractorRegistry,
+} from './registry';
+
+describe('ExtractorRegistry', () => {
+  const registry = createDefaultExtractorRegistry();
+
+  it('TEST-file-processing-11: should resolve by MIME type before extension', () => {
+    expect(registry.resolve('export.md', DOCX_MIME_TYPE)?.name).toBe('docx');
+    expect(registry.resolve('page.HTM', 'application/octet-stream')?.name).toBe('html');
+    expect(registry.resolve('Budget', 'application/vnd.google-apps.spreadsheet')?.name).toBe(
+      'google-sheets'
+    );
+  });
+
+  it('should declare how each format is downloaded', () => {
+    expect(registry.resolve('a.pdf')?.download).toEqual({ mode: 'binary' });
+    expect(registry.resolve('a.docx')?.download).toEqual({ mode: 'binary' });
+    expect(registry.resolve('a.txt')?.download).toEqual({ mode: 'text' });
+    expect(registry.resolve('Design', 'application/vnd.google-apps.document')?.download).toEqual({
+      mode: 'export',
+      exportMimeTypes: ['text/markdown', 'text/plain'],
+    });
+  });
+
+  it('should not support unregistered formats', () => {
+    expect(registry.isSupported('diagram.png', 'image/png')).toBe(false);
+    expect(registry.isSupported('Makefile')).toBe(false);
+    expect(registry.isSupported('Survey', 'application/vnd.google-apps.form')).toBe(false);
+  });
+
+  it('should let later registrations override built-in extractors', async () => {
+    const custom: DocumentExtractor = {
+      name: 'uppercase-text',
+      mimeTypes: ['text/plain'],
+      extensions: ['.txt', '.log'],
+      download: { mode: 'text' },
+      extract: content => String(content).toUpperCase(),
+    };
+
+    const extended = createDefaultExtractorRegistry().register(custom);
+
+    expect(extended.resolve('notes.txt')).toBe(custom);
+    expect(extended.isSupported('server.LOG')).toBe(true);
+    expect(await extended.resolve('notes.txt')!.extract('hi')).toBe('HI');
+    expect(new ExtractorRegistry().isSupported('notes.txt')).toBe(false);
+  });
+
+  it('should normalize line endings in plain text', async () => {
+    expect(await registry.resolve('a.txt')!.extract('one\r\ntwo\rthree')).toBe('one\ntwo\nthree');
+  });
+});
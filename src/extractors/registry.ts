@@ -0,0 +1,201 @@
+/**
+ * Document extractor registry
+ *
+ * Maps MIME types and file extensions to extractors. Each extractor declares
+ * how its content is fetched from Drive (text, binary or export) and how text
+ * is extracted from it, so supporting a new format only needs a registration.
+ *
+ * Trace:
+ *   spec_id: SPEC-file-processing-1
+ */
+
+import { csvToMarkdownTable } from './csv-extractor.js';
+import { extractDocxText } from './docx-extractor.js';
+import {
+  GOOGLE_DOCS_MIME_TYPE,
+  GOOGLE_SHEETS_MIME_TYPE,
+  GOOGLE_SLIDES_MIME_TYPE,
+  extractGoogleDocText,
+  extractGoogleSheetText,
+  extractGoogleSlidesText,
+} from './google-export.js';
+import { extractHtmlText } from './html-extractor.js';
+
+/**
+ * How file content is fetched from Drive
+ * - text: files.get with alt=media as a string
+ * - binary: files.get with alt=media as an ArrayBuffer
+ * - export: files.export, trying each MIME type in order
+ */
+export type DownloadMode =
+  { mode: 'text' } | { mode: 'binary' } | { mode: 'export'; exportMimeTypes: string[] };
+
+export interface DocumentExtractor {
+  /**
+   * Short identifier for logging (e.g. "docx")
+   */
+  name: string;
+
+  /**
+   * MIME types handled by this extractor
+   */
+  mimeTypes: string[];
+
+  /**
+   * Lowercase file extensions including the dot (e.g. ".docx")
+   */
+  extensions: string[];
+
+  download: DownloadMode;
+
+  /**
+   * Extract plain text from downloaded content
+   * Receives a string for text/export downloads and an ArrayBuffer for binary ones
+   */
+  extract(content: string | ArrayBuffer): string | Promise<string>;
+}
+
+export const DOCX_MIME_TYPE =
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+/**
+ * Resolves extractors by MIME type first, then by file extension
+ */
+export class ExtractorRegistry {
+  private byMimeType = new Map<string, DocumentExtractor>();
+  private byExtension = new Map<string, DocumentExtractor>();
+
+  /**
+   * Register an extractor; later registrations override earlier ones
+   */
+  register(extractor: DocumentExtractor): this {
+    for (const mimeType of extractor.mimeTypes) {
+      this.byMimeType.set(mimeType, extractor);
+    }
+    for (const extension of extractor.extensions) {
+      this.byExtension.set(extension.toLowerCase(), extractor);
+    }
+    return this;
+  }
+
+  resolve(fileName: string, mimeType?: string | null): DocumentExtractor | undefined {
+    if (mimeType) {
+      const extractor = this.byMimeType.get(mimeType);
+      if (extractor) {
+        return extractor;
+      }
+    }
+
+    const dot = fileName.lastIndexOf('.');
+    return dot === -1 ? undefined : this.byExtension.get(fileName.slice(dot).toLowerCase());
+  }
+
+  isSupported(fileName: string, mimeType?: string | null): boolean {
+    return this.resolve(fileName, mimeType) !== undefined;
+  }
+}
+
+function asText(content: string | ArrayBuffer): string {
+  return typeof content === 'string' ? content : new TextDecoder().decode(content);
+}
+
+function asBinary(content: string | ArrayBuffer): ArrayBuffer {
+  if (typeof content === 'string') {
+    throw new Error('Expected binary content');
+  }
+  return content;
+}
+
+export const markdownExtractor: DocumentExtractor = {
+  name: 'markdown',
+  mimeTypes: ['text/markdown', 'text/x-markdown'],
+  extensions: ['.md', '.markdown'],
+  download: { mode: 'text' },
+  extract: asText,
+};
+
+export const plainTextExtractor: DocumentExtractor = {
+  name: 'text',
+  mimeTypes: ['text/plain'],
+  extensions: ['.txt'],
+  download: { mode: 'text' },
+  extract: content => asText(content).replace(/\r\n?/g, '\n'),
+};
+
+export const csvExtractor: DocumentExtractor = {
+  name: 'csv',
+  mimeTypes: ['text/csv'],
+  extensions: ['.csv'],
+  download: { mode: 'text' },
+  extract: content => csvToMarkdownTable(asText(content)),
+};
+
+export const htmlExtractor: DocumentExtractor = {
+  name: 'html',
+  mimeTypes: ['text/html', 'application/xhtml+xml'],
+  extensions: ['.html', '.htm'],
+  download: { mode: 'text' },
+  extract: content => extractHtmlText(asText(content)),
+};
+
+export const pdfExtractor: DocumentExtractor = {
+  name: 'pdf',
+  mimeTypes: ['application/pdf'],
+  extensions: ['.pdf'],
+  download: { mode: 'binary' },
+  extract: async content => {
+    // Import PDF extractor dynamically to avoid issues in non-PDF contexts
+    const { extractTextFromPDF } = await import('../utils/pdf-extractor.js');
+    return extractTextFromPDF(asBinary(content));
+  },
+};
+
+export const docxExtractor: DocumentExtractor = {
+  name: 'docx',
+  mimeTypes: [DOCX_MIME_TYPE],
+  extensions: ['.docx'],
+  download: { mode: 'binary' },
+  extract: content => extractDocxText(asBinary(content)),
+};
+
+export const googleDocsExtractor: DocumentExtractor = {
+  name: 'google-docs',
+  mimeTypes: [GOOGLE_DOCS_MIME_TYPE],
+  extensions: [],
+  // Markdown keeps headings for the markdown chunker; fall back to plain text
+  download: { mode: 'export', exportMimeTypes: ['text/markdown', 'text/plain'] },
+  extract: content => extractGoogleDocText(asText(content)),
+};
+
+export const googleSheetsExtractor: DocumentExtractor = {
+  name: 'google-sheets',
+  mimeTypes: [GOOGLE_SHEETS_MIME_TYPE],
+  extensions: [],
+  // CSV export only includes the first sheet
+  download: { mode: 'export', exportMimeTypes: ['text/csv'] },
+  extract: content => extractGoogleSheetText(asText(content)),
+};
+
+export const googleSlidesExtractor: DocumentExtractor = {
+  name: 'google-slides',
+  mimeTypes: [GOOGLE_SLIDES_MIME_TYPE],
+  extensions: [],
+  download: { mode: 'export', exportMimeTypes: ['text/plain'] },
+  extract: content => extractGoogleSlidesText(asText(content)),
+};
+
+/**
+ * Registry with all built-in extractors
+ */
+export function createDefaultExtractorRegistry(): ExtractorRegistry {
+  return new ExtractorRegistry()
+    .register(markdownExtractor)
+    .register(plainTextExtractor)
+    .register(csvExtractor)
+    .register(htmlExtractor)
+    .register(pdfExtractor)
+    .register(docxExtractor)
+    .register(googleDocsExtractor)
+    .register(googleSheetsExtractor)
+    .register(googleSlidesExtractor);
+}
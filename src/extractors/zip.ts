@@ -0,0 +1,154 @@
+/**
+ * Minimal ZIP reader for Office Open XML containers
+ *
+ * Reads the central directory and inflates single entries with the runtime's
+ * DecompressionStream, so no unzip library has to be bundled. Inflation stops at
+ * a size limit, since the sizes in the archive's headers cannot be trusted.
+ *
+ * Trace:
+ *   spec_id: SPEC-file-processing-1
+ */
+
+import { ExtractionError } from '../errors/index.js';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/**
+ * Largest inflated entry; anything bigger is treated as a ZIP bomb
+ */
+export const MAX_INFLATED_ENTRY_BYTES = 32 * 1024 * 1024;
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Locate the central directory via the end-of-central-directory record
+ * (searched backwards because it may be followed by a comment)
+ */
+function readEntries(view: DataView): ZipEntry[] {
+  let eocd = -1;
+  for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+
+  if (eocd === -1) {
+    throw new Error('Not a ZIP archive: end of central directory not found');
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt ZIP archive: invalid central directory header');
+    }
+
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+
+    entries.push({
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+      name: decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength)),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Inflate a raw deflate stream, giving up once the output exceeds maxBytes
+ */
+async function inflateRaw(
+  data: Uint8Array,
+  entryName: string,
+  maxBytes: number
+): Promise<Uint8Array> {
+  const reader = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream('deflate-raw'))
+    .getReader();
+  const parts: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new ExtractionError(`ZIP entry ${entryName} inflates to more than ${maxBytes} bytes`, {
+        entryName,
+        maxBytes,
+      });
+    }
+    parts.push(value);
+  }
+
+  const result = new Uint8Array(size);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.byteLength;
+  }
+  return result;
+}
+
+/**
+ * Read a single entry from a ZIP archive
+ *
+ * @returns The entry bytes, or null if the archive has no such entry
+ * @throws ExtractionError if the entry inflates to more than maxBytes
+ */
+export async function readZipEntry(
+  archive: ArrayBuffer,
+  entryName: string,
+  maxBytes: number = MAX_INFLATED_ENTRY_BYTES
+): Promise<Uint8Array | null> {
+  const view = new DataView(archive);
+  const entry = readEntries(view).find(candidate => candidate.name === entryName);
+
+  if (!entry) {
+    return null;
+  }
+
+  const header = entry.localHeaderOffset;
+  if (view.getUint32(header, true) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Corrupt ZIP archive: invalid local header for ${entryName}`);
+  }
+
+  // Local name/extra lengths can differ from the central directory copy
+  const dataStart =
+    header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const data = new Uint8Array(archive, dataStart, entry.compressedSize);
+
+  if (entry.method === METHOD_STORED) {
+    return data.slice();
+  }
+
+  if (entry.method === METHOD_DEFLATE) {
+    return inflateRaw(data, entryName, maxBytes);
+  }
+
+  throw new Error(`Unsupported ZIP compression method ${entry.method} for ${entryName}`);
+}
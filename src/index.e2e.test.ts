@@ -78,45 +78,19 @@ vi.mock('./auth/zt-validator.js', () => {
 import worker from './index';
 import type { Env } from './index';
 import { STATIC_ASSETS } from './static/assets';
+import type { FileJob } from './queue/file-queue';
+import { MockKVNamespace } from './test-utils/mock-kv-namespace';
 
 /**
- * Mock KVNamespace implementation
+ * Mock KVNamespace that reads malformed JSON as a missing key
  */
-class MockKVNamespace {
-  private store = new Map<string, string>();
-
-  async get(key: string, type?: 'text' | 'json' | 'arrayBuffer' | 'stream'): Promise<any> {
-    const value = this.store.get(key);
-    if (value === undefined) {
+class LenientKVNamespace extends MockKVNamespace {
+  protected parseJson(value: string): unknown {
+    try {
+      return JSON.parse(value);
+    } catch {
       return null;
     }
-
-    if (type === 'json') {
-      try {
-        return JSON.parse(value);
-      } catch {
-        return null;
-      }
-    }
-
-    // Default: return as string (text type)
-    return value;
-  }
-
-  async put(key: string, value: string): Promise<void> {
-    this.store.set(key, value);
-  }
-
-  async delete(key: string): Promise<void> {
-    this.store.delete(key);
-  }
-
-  // Implement remaining KVNamespace methods
-  getWithMetadata = vi.fn().mockResolvedValue({ value: null, metadata: null });
-
-  async list<Metadata = unknown>(): Promise<KVNamespaceListResult<Metadata>> {
-    const keys = Array.from(this.store.keys()).map(name => ({ name, metadata: null as Metadata }));
-    return { keys, list_complete: true, cacheStatus: null };
   }
 }
 
@@ -180,8 +154,8 @@ class MockVectorizeIndex implements VectorizeIndex {
  */
 function createMockEnv(): Env {
   return {
-    WORKNOTE_SYNC_STATE: new MockKVNamespace() as unknown as KVNamespace,
-    WORKNOTE_FILE_VECTOR_INDEX: new MockKVNamespace() as unknown as KVNamespace,
+    WORKNOTE_SYNC_STATE: new LenientKVNamespace() as unknown as KVNamespace,
+    WORKNOTE_FILE_VECTOR_INDEX: new LenientKVNamespace() as unknown as KVNamespace,
     VECTORIZE: new MockVectorizeIndex() as unknown as VectorizeIndex,
     GOOGLE_SERVICE_ACCOUNT_JSON: JSON.stringify({
       type: 'service_account',
@@ -235,8 +209,8 @@ describe('E2E Integration Tests', () => {
 
   beforeEach(() => {
     // Create shared KV instances to persist state across multiple calls in the same test
-    sharedStateKV = new MockKVNamespace();
-    sharedFileIndexKV = new MockKVNamespace();
+    sharedStateKV = new LenientKVNamespace();
+    sharedFileIndexKV = new LenientKVNamespace();
     sharedVectorize = new MockVectorizeIndex();
 
     env = {
@@ -437,6 +411,45 @@ describe('E2E Integration Tests', () => {
       });
     });
 
+    describe('Drive Webhook', () => {
+      it('should reject notifications for unknown channels without Access auth', async () => {
+        const request = new Request('http://localhost/webhooks/drive', {
+          method: 'POST',
+          headers: { 'X-Goog-Channel-ID': 'channel-1', 'X-Goog-Channel-Token': 'forged' },
+        });
+
+        const response = await worker.fetch(request, env, ctx);
+
+        expect(response.status).toBe(403);
+        expect(ctx.waitUntil).not.toHaveBeenCalled();
+      });
+
+      it('should leave a valid notification pending for the scheduler', async () => {
+        const stateKV = env.WORKNOTE_SYNC_STATE;
+        await stateKV.put(
+          'push_channel:default',
+          JSON.stringify({ source: 'default', channelId: 'channel-1', token: 'secret' })
+        );
+
+        const request = new Request('http://localhost/webhooks/drive', {
+          method: 'POST',
+          headers: {
+            'X-Goog-Channel-ID': 'channel-1',
+            'X-Goog-Channel-Token': 'secret',
+            'X-Goog-Resource-State': 'change',
+          },
+        });
+        const response = await worker.fetch(request, env, ctx);
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ status: 'pending' });
+        expect(ctx.waitUntil).not.toHaveBeenCalled();
+        expect(JSON.parse((await stateKV.get('push_sync_state'))!)).toEqual({
+          pendingSince: expect.any(String),
+        });
+      });
+    });
+
     describe('404 Handler', () => {
       it('should return 404 for unknown paths', async () => {
         const request = new Request('http://localhost/unknown/path');
@@ -480,6 +493,21 @@ describe('E2E Integration Tests', () => {
       expect(lock).toBeTruthy();
     });
 
+    it('should skip continuation ticks when no full sync is checkpointed', async () => {
+      const stateKV = env.WORKNOTE_SYNC_STATE;
+      const event = {
+        type: 'scheduled',
+        scheduledTime: Date.now(),
+        cron: '*/10 * * * *',
+      } as ScheduledEvent;
+
+      await expect(worker.scheduled(event, env, ctx)).resolves.toBeUndefined();
+
+      // No sync ran, so the lock was never taken
+      expect(await stateKV.get('sync_lock')).toBeNull();
+      expect(await stateKV.get('drive_start_page_token')).toBeNull();
+    });
+
     it('should log scheduled time correctly', async () => {
       const scheduledTime = Date.now();
       const event = {
@@ -498,6 +526,28 @@ describe('E2E Integration Tests', () => {
     });
   });
 
+  describe('Queue Handler', () => {
+    it('should acknowledge file jobs that complete', async () => {
+      const message = {
+        id: 'msg-1',
+        timestamp: new Date(),
+        body: { type: 'delete', fileId: 'file-1' },
+        attempts: 1,
+        ack: vi.fn(),
+        retry: vi.fn(),
+      };
+      const batch = {
+        queue: 'worknote-file-jobs',
+        messages: [message],
+      } as unknown as MessageBatch<FileJob>;
+
+      await worker.queue(batch, env, ctx);
+
+      expect(message.ack).toHaveBeenCalled();
+      expect(message.retry).not.toHaveBeenCalled();
+    });
+  });
+
   describe('State Persistence', () => {
     it('should persist state across operations', async () => {
       const stateKV = env.WORKNOTE_SYNC_STATE;
@@ -585,6 +635,27 @@ describe('E2E Integration Tests', () => {
 
       expect(response.status).toBe(200);
     });
+
+    it('should only disable the secondary index when its provider is misconfigured', async () => {
+      const secondaryEnv = {
+        ...env,
+        VECTORIZE_SECONDARY: new MockVectorizeIndex() as unknown as VectorizeIndex,
+        SECONDARY_EMBEDDING_PROVIDER: 'workers-ai', // Without the AI binding
+      };
+
+      const response = await worker.fetch(
+        new Request('http://localhost/admin/migration', {
+          headers: { CF_Authorization: 'valid-access-token' },
+        }),
+        secondaryEnv,
+        ctx
+      );
+      const data = (await response.json()) as { target: unknown; targetError?: string };
+
+      expect(response.status).toBe(200);
+      expect(data.target).toBeNull();
+      expect(data.targetError).toContain('requires the AI binding');
+    });
   });
 
   describe('Integration Scenarios', () => {
@@ -606,9 +677,34 @@ describe('E2E Integration Tests', () => {
       });
       const resyncResponse = await worker.fetch(resyncRequest, env, ctx);
 
-      // Expect either success, lock conflict, or API error (all valid E2E behaviors without real credentials)
-      expect([200, 409, 500]).toContain(resyncResponse.status);
-    });
+      // The resync is queued as a job for the next continuation tick
+      expect(resyncResponse.status).toBe(202);
+      const { jobId, statusUrl } = (await resyncResponse.json()) as {
+        jobId: string;
+        statusUrl: string;
+      };
+      expect(statusUrl).toBe(`/admin/jobs/${jobId}`);
+
+      // 3. The continuation tick starts it (fails without real Google credentials)
+      const tick = { type: 'scheduled', scheduledTime: Date.now(), cron: '*/10 * * * *' };
+      await worker.scheduled(tick as ScheduledEvent, env, ctx);
+
+      const jobResponse = await worker.fetch(
+        new Request(`http://localhost${statusUrl}`, {
+          headers: { CF_Authorization: 'valid-access-token' },
+        }),
+        env,
+        ctx
+      );
+      const job = (await jobResponse.json()) as { status: string; error?: string };
+      expect(jobResponse.status).toBe(200);
+      expect(job.status).toBe('failed');
+      expect(job.error).toBeTruthy();
+
+      // The lock is released once the tick settles and the job is no longer queued
+      expect(await env.WORKNOTE_SYNC_STATE.get('sync_lock')).toBeNull();
+      expect(await env.WORKNOTE_SYNC_STATE.get('sync_job_queued_resync')).toBeNull();
+    }, 15000);
 
     it('should handle health check while sync is running', async () => {
       // Acquire lock to simulate running sync
@@ -2,39 +2,83 @@
  * Main entry point for Google Drive → Cloudflare Vectorize Sync Worker
  *
  * Handles:
- * - Scheduled cron triggers (daily sync)
- * - HTTP requests (admin API)
+ * - Scheduled cron triggers (incremental, full and continuation syncs per SYNC_SCHEDULES)
+ * - HTTP requests (admin API, Drive push notifications)
+ * - Queue batches (per-file sync jobs)
  *
  * Trace:
- *   spec_id: SPEC-scheduling-1, SPEC-admin-api-1, SPEC-web-dashboard-1
+ *   spec_id: SPEC-scheduling-1, SPEC-admin-api-1, SPEC-web-dashboard-1, SPEC-search-1
  *   task_id: TASK-009, TASK-011, TASK-027, TASK-031
  */
 
 import { DriveClient } from './drive/drive-client.js';
+import { PathFilter } from './drive/path-filter.js';
+import { SyncSource, parseSyncSources } from './drive/sync-source.js';
 import { EmbeddingClient } from './embedding/embedding-client.js';
 import { VectorizeClient } from './vectorize/vectorize-client.js';
 import { KVStateManager } from './state/kv-state-manager.js';
-import { SyncOrchestrator } from './sync/sync-orchestrator.js';
+import { FailureStore } from './state/failure-store.js';
+import { SyncJobStore } from './state/job-store.js';
+import { PushChannelStore } from './state/push-channel-store.js';
+import { EmbeddingIndexStore, IndexSlot, otherSlot } from './state/embedding-index-store.js';
+import {
+  DurableObjectSyncLock,
+  KVSyncLock,
+  SyncLockProvider,
+  createLockOwnerId,
+  withSyncLock,
+} from './state/sync-lock.js';
+import { SyncOrchestrator, SyncResult } from './sync/sync-orchestrator.js';
+import { DRIVE_WEBHOOK_PATH, DrivePushService } from './sync/push-notifications.js';
+import { parseSyncSchedules, resolveSyncSchedule } from './sync/sync-schedule.js';
 import { AdminHandler } from './api/admin-handler.js';
+import { SearchService } from './search/search-service.js';
+import { AnswerService } from './search/answer-service.js';
+import { loadCl100kTokenizer } from './embedding/tokenizer.js';
+import { KVKeywordIndex } from './search/keyword-index.js';
+import { CloudflareFileJobQueue, FileJob, consumeFileJobs } from './queue/file-queue.js';
 import { requireAccessJwt, unauthorizedResponse } from './auth/zt-validator.js';
 import { logError } from './errors/index.js';
 import { resolveAssetPath, serveStaticAsset } from './static/server.js';
-import { createOpenAIClient } from './openai/openai-factory.js';
+import { createAzureOpenAIClient, createOpenAIClient } from './openai/openai-factory.js';
+import { createEmbeddingProvider } from './embedding/embedding-provider.js';
+import { EmbeddingCache } from './embedding/embedding-cache.js';
+import type OpenAI from 'openai';
 import { buildCorsHeaders } from './utils/cors.js';
 import type { VectorizeIndex } from './types/vectorize.js';
+import type { WorkersAI } from './types/workers-ai.js';
+
+export { SyncLockObject } from './state/sync-lock-object.js';
 
 export interface Env {
   // Cloudflare Workers bindings
   WORKNOTE_SYNC_STATE: KVNamespace;
   WORKNOTE_FILE_VECTOR_INDEX: KVNamespace;
   VECTORIZE: VectorizeIndex;
+  // Optional: second index an embedding migration fills with SECONDARY_EMBEDDING_MODEL
+  VECTORIZE_SECONDARY?: VectorizeIndex;
+  // Optional: queue that per-file sync jobs are fanned out to (processed in place when unbound)
+  FILE_QUEUE?: Queue<FileJob>;
+  // Optional: Workers AI binding for EMBEDDING_PROVIDER = "workers-ai"
+  AI?: WorkersAI;
+  // Optional: KV namespace caching chunk embeddings by content hash (no cache when unbound)
+  EMBEDDING_CACHE?: KVNamespace;
+  // Optional: SyncLockObject namespace for an atomic sync lock (falls back to a KV lock when unbound)
+  SYNC_LOCK?: DurableObjectNamespace;
 
   // Secrets
   // Service Account JSON string from Google Cloud Console
   GOOGLE_SERVICE_ACCOUNT_JSON: string;
   // Optional: User email for domain-wide delegation
   GOOGLE_IMPERSONATION_EMAIL?: string;
-  GOOGLE_ROOT_FOLDER_ID: string;
+  // Single folder to sync; ignored when GOOGLE_SYNC_SOURCES is set
+  GOOGLE_ROOT_FOLDER_ID?: string;
+  // Optional: JSON array of { label?, folderId?, driveId? } for multiple folders / Shared Drives
+  GOOGLE_SYNC_SOURCES?: string;
+  // Optional: JSON array of { cron, mode } matching the wrangler.toml crons (default: daily + continuation)
+  SYNC_SCHEDULES?: string;
+  // Optional: public HTTPS URL of /webhooks/drive; enables Drive push notifications when set
+  DRIVE_WEBHOOK_URL?: string;
   OPENAI_API_KEY: string;
   CF_ACCESS_TEAM_DOMAIN: string;
   CF_ACCESS_AUD_TAG: string;
@@ -42,13 +86,42 @@ export interface Env {
   CF_ACCOUNT_ID?: string;
   CF_AI_GATEWAY_NAME?: string;
   CF_AI_GATEWAY_TOKEN?: string;
+  // Optional: Azure OpenAI resource for EMBEDDING_PROVIDER = "azure-openai"
+  AZURE_OPENAI_API_KEY?: string;
+  AZURE_OPENAI_ENDPOINT?: string;
+  AZURE_OPENAI_API_VERSION?: string;
 
   // Environment variables
   CHUNK_SIZE: string;
+  // Optional: 'fixed' (default) or 'markdown'
+  CHUNKING_STRATEGY?: string;
+  // Optional: 'approximate' (default) or 'cl100k' (exact counts, ranks fetched on first sync)
+  TOKENIZER?: string;
+  // Optional: comma/newline-separated globs matched against file paths (e.g. "Archive/**, *.draft.md")
+  SYNC_INCLUDE_GLOBS?: string;
+  SYNC_EXCLUDE_GLOBS?: string;
   MAX_BATCH_SIZE: string;
+  // Optional: token budget of one embeddings request (default: 250000, OpenAI allows 300000)
+  MAX_BATCH_TOKENS?: string;
+  // Optional: embeddings requests sent at the same time (default: 4)
+  EMBEDDING_CONCURRENCY?: string;
   MAX_CONCURRENCY: string;
+  // Optional: files a full sync processes per invocation before checkpointing (default: 200)
+  FULL_SYNC_FILES_PER_RUN?: string;
   MAX_RETRIES: string;
   INDEX_NAME: string;
+  // Optional: chat model for /admin/ask (default: gpt-4o-mini)
+  OPENAI_CHAT_MODEL?: string;
+  // Optional: embedding provider of each index slot: 'openai' (default), 'azure-openai',
+  // 'workers-ai' or 'hash' (deterministic stub for offline runs)
+  EMBEDDING_PROVIDER?: string;
+  SECONDARY_EMBEDDING_PROVIDER?: string;
+  // Optional: embedding model (Azure deployment name) and dimensions of each index slot
+  // (default: the provider's model, e.g. text-embedding-3-small with 1536 dimensions)
+  EMBEDDING_MODEL?: string;
+  EMBEDDING_DIMENSIONS?: string;
+  SECONDARY_EMBEDDING_MODEL?: string;
+  SECONDARY_EMBEDDING_DIMENSIONS?: string;
 
   // Monitoring and alerting (optional)
   WEBHOOK_URL?: string;
@@ -59,14 +132,84 @@ export interface Env {
 // Re-export Vectorize types for external use
 export type { VectorizeIndex };
 
+/**
+ * Embedding client and Vectorize store of an index slot, or null when its binding is missing
+ * The secondary slot keeps its file index under a "secondary:" key prefix
+ */
+function createIndexTarget(
+  env: Env,
+  clients: { openaiClient: OpenAI; azureClient?: OpenAI },
+  slot: IndexSlot
+) {
+  const primary = slot === 'primary';
+  const index = primary ? env.VECTORIZE : env.VECTORIZE_SECONDARY;
+  if (!index) {
+    return null;
+  }
+
+  const dimensions = primary ? env.EMBEDDING_DIMENSIONS : env.SECONDARY_EMBEDDING_DIMENSIONS;
+  const embeddingClient = new EmbeddingClient({
+    provider: createEmbeddingProvider({
+      provider: primary ? env.EMBEDDING_PROVIDER : env.SECONDARY_EMBEDDING_PROVIDER,
+      model: primary ? env.EMBEDDING_MODEL : env.SECONDARY_EMBEDDING_MODEL,
+      dimensions: dimensions ? parseInt(dimensions, 10) : undefined,
+      ...clients,
+      ai: env.AI,
+    }),
+    maxBatchTokens: env.MAX_BATCH_TOKENS ? parseInt(env.MAX_BATCH_TOKENS, 10) : undefined,
+    maxConcurrentBatches: env.EMBEDDING_CONCURRENCY
+      ? parseInt(env.EMBEDDING_CONCURRENCY, 10)
+      : undefined,
+  });
+  const vectorClient = new VectorizeClient({
+    index,
+    fileIndex: env.WORKNOTE_FILE_VECTOR_INDEX,
+    collectionName: primary ? env.INDEX_NAME : `${env.INDEX_NAME} (secondary)`,
+    keyPrefix: primary ? undefined : 'secondary:',
+  });
+
+  return { slot, embeddingClient, vectorClient };
+}
+
+/**
+ * Provider configuration errors of inactive index slots, logged once per isolate
+ */
+const inactiveSlotErrors = new Map<IndexSlot, string>();
+
+/**
+ * Index target of the inactive slot, or null with the reason when its embedding provider
+ * is misconfigured: that disables migrations into the slot instead of failing every
+ * request and scheduled run
+ */
+function createInactiveIndexTarget(
+  env: Env,
+  clients: { openaiClient: OpenAI; azureClient?: OpenAI },
+  slot: IndexSlot
+): { target: ReturnType<typeof createIndexTarget>; error?: string } {
+  try {
+    return { target: createIndexTarget(env, clients, slot) };
+  } catch (error) {
+    const message = (error as Error).message;
+    if (inactiveSlotErrors.get(slot) !== message) {
+      inactiveSlotErrors.set(slot, message);
+      logError(error as Error, { context: `Disabling the ${slot} index`, slot });
+    }
+    return { target: null, error: message };
+  }
+}
+
 /**
  * Initialize all clients and orchestrator
  */
-function initializeServices(env: Env, request: Request) {
+async function initializeServices(env: Env, request: Request) {
+  const sources = parseSyncSources(env.GOOGLE_SYNC_SOURCES, env.GOOGLE_ROOT_FOLDER_ID);
+  const schedules = parseSyncSchedules(env.SYNC_SCHEDULES);
+
   // Initialize Drive client with Service Account
   const driveClient = DriveClient.fromJSON(
     env.GOOGLE_SERVICE_ACCOUNT_JSON,
-    env.GOOGLE_IMPERSONATION_EMAIL
+    env.GOOGLE_IMPERSONATION_EMAIL,
+    { pathFilter: PathFilter.fromLists(env.SYNC_INCLUDE_GLOBS, env.SYNC_EXCLUDE_GLOBS) }
   );
 
   // Create OpenAI client with optional AI Gateway routing
@@ -76,20 +219,47 @@ function initializeServices(env: Env, request: Request) {
     cfGatewayName: env.CF_AI_GATEWAY_NAME,
     cfGatewayToken: env.CF_AI_GATEWAY_TOKEN,
   });
+  const embeddingClients = {
+    openaiClient,
+    azureClient:
+      env.AZURE_OPENAI_ENDPOINT && env.AZURE_OPENAI_API_KEY
+        ? createAzureOpenAIClient({
+            apiKey: env.AZURE_OPENAI_API_KEY,
+            endpoint: env.AZURE_OPENAI_ENDPOINT,
+            apiVersion: env.AZURE_OPENAI_API_VERSION,
+          })
+        : undefined,
+  };
 
-  const embeddingClient = new EmbeddingClient({
-    client: openaiClient,
-  });
-
-  // Vector store client - Cloudflare Vectorize
-  console.log('Using Cloudflare Vectorize for vector storage');
-  const vectorClient = new VectorizeClient({
-    index: env.VECTORIZE as VectorizeIndex,
-    fileIndex: env.WORKNOTE_FILE_VECTOR_INDEX,
-    collectionName: env.INDEX_NAME,
-  });
+  // Vector store client - Cloudflare Vectorize, in the slot an embedding migration last switched to
+  const embeddingIndex = new EmbeddingIndexStore(env.WORKNOTE_SYNC_STATE);
+  const indexState = await embeddingIndex.getState();
+  let activeTarget = createIndexTarget(env, embeddingClients, indexState.active);
+  if (!activeTarget) {
+    console.error(`The active ${indexState.active} index is not bound, using the primary index`);
+    activeTarget = createIndexTarget(env, embeddingClients, 'primary')!;
+  }
+  const { embeddingClient, vectorClient } = activeTarget;
+  const { target: inactiveTarget, error: inactiveTargetError } = createInactiveIndexTarget(
+    env,
+    embeddingClients,
+    otherSlot(activeTarget.slot)
+  );
 
   const stateManager = new KVStateManager(env.WORKNOTE_SYNC_STATE);
+  const failureStore = new FailureStore(env.WORKNOTE_SYNC_STATE);
+  const jobs = new SyncJobStore(env.WORKNOTE_SYNC_STATE);
+  const push = new DrivePushService(
+    driveClient,
+    new PushChannelStore(env.WORKNOTE_SYNC_STATE),
+    env.DRIVE_WEBHOOK_URL
+  );
+  const lock: SyncLockProvider = env.SYNC_LOCK
+    ? new DurableObjectSyncLock(env.SYNC_LOCK)
+    : new KVSyncLock(env.WORKNOTE_SYNC_STATE);
+
+  // Inverted keyword index for hybrid search (shares the file index namespace under kw:*)
+  const keywordIndex = new KVKeywordIndex(env.WORKNOTE_FILE_VECTOR_INDEX);
 
   const orchestrator = new SyncOrchestrator(
     driveClient,
@@ -98,35 +268,112 @@ function initializeServices(env: Env, request: Request) {
     stateManager,
     {
       chunkSize: parseInt(env.CHUNK_SIZE || '2000', 10),
+      chunkingStrategy: env.CHUNKING_STRATEGY === 'markdown' ? 'markdown' : 'fixed',
       maxBatchSize: parseInt(env.MAX_BATCH_SIZE || '32', 10),
       maxConcurrency: parseInt(env.MAX_CONCURRENCY || '4', 10),
+      maxFilesPerRun: parseInt(env.FULL_SYNC_FILES_PER_RUN || '200', 10),
     },
     {
       webhookUrl: env.WEBHOOK_URL,
       webhookType: env.WEBHOOK_TYPE,
       performanceThreshold: env.PERFORMANCE_THRESHOLD ? parseFloat(env.PERFORMANCE_THRESHOLD) : 0.5,
+    },
+    {
+      keywordIndex,
+      failureStore,
+      jobs,
+      fileQueue: env.FILE_QUEUE ? new CloudflareFileJobQueue(env.FILE_QUEUE) : undefined,
+      embeddingCache: env.EMBEDDING_CACHE ? new EmbeddingCache(env.EMBEDDING_CACHE) : undefined,
+      loadTokenizer: env.TOKENIZER === 'cl100k' ? () => loadCl100kTokenizer() : undefined,
+      migration:
+        indexState.migration && inactiveTarget?.slot === indexState.migration.target
+          ? {
+              ...inactiveTarget,
+              store: embeddingIndex,
+              clearing: indexState.migration.clearing === true,
+            }
+          : undefined,
     }
   );
 
+  const searchService = new SearchService(embeddingClient, vectorClient, keywordIndex);
+
+  // Chat completions go through the same client, so AI Gateway routing applies
+  const answerService = new AnswerService(searchService, {
+    client: openaiClient,
+    model: env.OPENAI_CHAT_MODEL,
+  });
+
   const adminHandler = new AdminHandler(
     orchestrator,
     stateManager,
+    lock,
     vectorClient,
     driveClient,
-    env.GOOGLE_ROOT_FOLDER_ID,
-    request
+    sources,
+    request,
+    {
+      search: searchService,
+      ask: answerService,
+      failures: failureStore,
+      jobs,
+      schedules,
+      embeddingIndex,
+      migrationTarget: inactiveTarget || undefined,
+      migrationTargetError: inactiveTargetError,
+    }
   );
 
   return {
+    sources,
+    schedules,
     driveClient,
     embeddingClient,
     vectorClient,
     stateManager,
+    jobs,
+    lock,
+    push,
+    indexState,
     orchestrator,
+    searchService,
+    answerService,
     adminHandler,
   };
 }
 
+/**
+ * Start a resync job queued by POST /admin/resync (called under the sync lock)
+ * The first slice runs now and later continuation ticks resume the checkpoint; the
+ * orchestrator reports progress and the final status, and anything failing before
+ * it starts marks the job failed here.
+ */
+async function startQueuedResync(
+  jobId: string,
+  services: {
+    orchestrator: SyncOrchestrator;
+    stateManager: KVStateManager;
+    jobs: SyncJobStore;
+    sources: SyncSource[];
+  }
+): Promise<SyncResult> {
+  const { orchestrator, stateManager, jobs, sources } = services;
+  await jobs.clearQueuedResync();
+
+  try {
+    await jobs.update(jobId, { status: 'running', phase: 'listing' });
+    // Clear state to force full resync
+    await stateManager.clearState();
+  } catch (error) {
+    await jobs
+      .update(jobId, { status: 'failed', error: (error as Error).message })
+      .catch(storeError => console.error(`Failed to update sync job ${jobId}:`, storeError));
+    throw error;
+  }
+
+  return orchestrator.runFullSync(sources, { jobId });
+}
+
 export default {
   /**
    * Scheduled cron trigger handler
@@ -136,32 +383,84 @@ export default {
 
     // Scheduled tasks don't have a request, so we create a dummy one for service initialization
     const dummyRequest = new Request('http://localhost');
-    const { orchestrator, stateManager } = initializeServices(env, dummyRequest);
+    const { orchestrator, stateManager, jobs, lock, push, indexState, sources, schedules } =
+      await initializeServices(env, dummyRequest);
+    const { mode } = resolveSyncSchedule(schedules, event.cron);
+    const isContinuation = mode === 'continuation';
 
     try {
-      // 1. Check for concurrent execution
-      const lockAcquired = await stateManager.acquireLock();
-
-      if (!lockAcquired) {
-        console.log('Sync already running, skipping this execution');
+      // Continuation ticks pick up a queued manual resync, a checkpointed full sync, a
+      // sync that push notifications are still waiting for, an embedding migration
+      // backfill, or push channels due for renewal
+      const queuedResync = await jobs.getQueuedResync();
+      const hasFullSyncCursor = (await stateManager.getFullSyncCursor()) !== null;
+      const hasPendingPush = await push.hasPendingSync();
+      const migrating = indexState.migration !== null;
+      const renewalDue = await push.renewalDue(sources);
+      if (
+        isContinuation &&
+        !queuedResync &&
+        !hasFullSyncCursor &&
+        !hasPendingPush &&
+        !migrating &&
+        !renewalDue
+      ) {
         return;
       }
 
-      try {
-        // 2. Run incremental sync
-        const result = await orchestrator.runIncrementalSync(env.GOOGLE_ROOT_FOLDER_ID);
+      // Hold the sync lock (with heartbeats) for the whole run; released when it settles
+      const run = await withSyncLock(lock, createLockOwnerId('cron'), async () => {
+        // Register or renew Drive push channels (a no-op while they are fresh; never
+        // throws). Under the lock, so two crons firing together cannot both register one.
+        await push.renewChannels(sources);
+
+        // Read again under the lock: a concurrent tick may have started it already
+        const resyncJobId = queuedResync && (await jobs.getQueuedResync());
+        if (resyncJobId) {
+          return startQueuedResync(resyncJobId, { orchestrator, stateManager, jobs, sources });
+        }
+        if (isContinuation && !hasFullSyncCursor && !hasPendingPush) {
+          return orchestrator.runMigrationSlice(sources);
+        }
+        if (mode === 'full' && !hasFullSyncCursor) {
+          // Scheduled full resync: rescan every file (unchanged chunks reuse their embeddings)
+          await stateManager.clearState();
+          return orchestrator.runFullSync(sources);
+        }
+        if (mode !== 'incremental' && hasFullSyncCursor) {
+          return orchestrator.runFullSync(sources);
+        }
+
+        // Run incremental sync (resumes an unfinished full sync first); it covers any
+        // pending push notification
+        await push.clearPendingSync();
+        return orchestrator.runIncrementalSync(sources);
+      });
 
-        console.log('Scheduled sync completed:', result);
-      } finally {
-        // 3. Release lock
-        await stateManager.releaseLock();
+      if (!run.acquired) {
+        // A queued resync stays queued for the tick that gets the lock
+        console.log(`Sync already running (${run.holder?.ownerId}), skipping this execution`);
+        return;
       }
+
+      console.log('Scheduled sync completed:', run.result);
     } catch (error) {
       console.error('Scheduled sync failed:', error);
       logError(error as Error);
     }
   },
 
+  /**
+   * Queue consumer for per-file sync jobs
+   * Failed jobs are retried with backoff; the queue dead-letters them after max_retries
+   */
+  async queue(batch: MessageBatch<FileJob>, env: Env, _ctx: ExecutionContext): Promise<void> {
+    const { orchestrator } = await initializeServices(env, new Request('http://localhost'));
+
+    await consumeFileJobs(batch.messages, job => orchestrator.runFileJob(job));
+    console.log(`Processed ${batch.messages.length} file job(s) from ${batch.queue}`);
+  },
+
   /**
    * HTTP request handler (admin API)
    */
@@ -195,6 +494,18 @@ export default {
       return serveStaticAsset(request, assetPath);
     }
 
+    // Drive push notifications are authenticated by their channel token, not Cloudflare Access
+    if (url.pathname === DRIVE_WEBHOOK_PATH && request.method === 'POST') {
+      // Only marks a sync as pending: the next continuation tick runs it under the lock
+      const { push, sources } = await initializeServices(env, request);
+      const outcome = await push.handleNotification(request.headers, sources);
+
+      return new Response(JSON.stringify({ status: outcome }), {
+        status: outcome === 'rejected' ? 403 : 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
     // Admin endpoints require Cloudflare Zero Trust authentication
     if (url.pathname.startsWith('/admin')) {
       try {
@@ -204,7 +515,7 @@ export default {
       }
 
       // Handle admin API requests
-      const { adminHandler } = initializeServices(env, request);
+      const { adminHandler } = await initializeServices(env, request);
       return await adminHandler.handleRequest(request);
     }
 
@@ -6,7 +6,7 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { CostTracker } from './cost-tracker.js';
+import { CostTracker, embeddingCacheHitRate } from './cost-tracker.js';
 
 describe('CostTracker', () => {
   let tracker: CostTracker;
@@ -92,6 +92,21 @@ describe('CostTracker', () => {
     });
   });
 
+  describe('Embedding cache tracking', () => {
+    it('should accumulate cache hits and misses', () => {
+      tracker.recordEmbeddingCacheLookup(3, 1);
+      tracker.recordEmbeddingCacheLookup(0, 4);
+
+      expect(tracker.getMetrics().embeddingCache).toEqual({ hits: 3, misses: 5 });
+      expect(tracker.getCostBreakdown().embeddingCache.hitRate).toBeCloseTo(0.375, 6);
+      expect(tracker.getSummary()).toContain('Embedding cache: 3/8 hits (38%)');
+    });
+
+    it('should report a zero hit rate without lookups', () => {
+      expect(embeddingCacheHitRate({ hits: 0, misses: 0 })).toBe(0);
+    });
+  });
+
   describe('reset', () => {
     it('should reset all metrics', () => {
       tracker.recordEmbeddingUsage(1000);
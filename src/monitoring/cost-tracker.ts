@@ -31,6 +31,23 @@ export interface CostMetrics {
   vectorIndex: {
     totalOperations: number;
   };
+  /**
+   * Chunk embeddings looked up in the embedding cache (hits skip the embedding API)
+   */
+  embeddingCache: EmbeddingCacheStats;
+}
+
+export interface EmbeddingCacheStats {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Share of cache lookups that hit, 0-1 (0 without lookups)
+ */
+export function embeddingCacheHitRate(stats: EmbeddingCacheStats): number {
+  const lookups = stats.hits + stats.misses;
+  return lookups > 0 ? stats.hits / lookups : 0;
 }
 
 /**
@@ -54,6 +71,10 @@ export class CostTracker {
       vectorIndex: {
         totalOperations: 0,
       },
+      embeddingCache: {
+        hits: 0,
+        misses: 0,
+      },
     };
   }
 
@@ -74,6 +95,10 @@ export class CostTracker {
       vectorIndex: {
         totalOperations: 0,
       },
+      embeddingCache: {
+        hits: 0,
+        misses: 0,
+      },
     };
     this.driveQueryTimestamps = [];
   }
@@ -87,6 +112,14 @@ export class CostTracker {
     this.metrics.openai.embeddingCalls++;
   }
 
+  /**
+   * Record embedding cache lookups for a batch of chunks
+   */
+  recordEmbeddingCacheLookup(hits: number, misses: number): void {
+    this.metrics.embeddingCache.hits += hits;
+    this.metrics.embeddingCache.misses += misses;
+  }
+
   /**
    * Record Drive API query
    */
@@ -142,10 +175,12 @@ export class CostTracker {
    * Get a summary string for logging
    */
   getSummary(): string {
+    const cache = this.metrics.embeddingCache;
     return [
       `OpenAI: ${this.metrics.openai.totalTokens.toLocaleString()} tokens, $${this.metrics.openai.totalCost.toFixed(4)}`,
       `Drive: ${this.metrics.drive.totalQueries} queries (${this.metrics.drive.queriesLast100Sec} in last 100s)`,
       `Vectorize: ${this.metrics.vectorIndex.totalOperations} operations`,
+      `Embedding cache: ${cache.hits}/${cache.hits + cache.misses} hits (${Math.round(embeddingCacheHitRate(cache) * 100)}%)`,
     ].join(' | ');
   }
 
@@ -156,6 +191,7 @@ export class CostTracker {
     openai: { tokens: number; cost: number; calls: number };
     drive: { queries: number; queriesLast100Sec: number };
     vectorIndex: { operations: number };
+    embeddingCache: EmbeddingCacheStats & { hitRate: number };
     total: { openaiCost: number };
   } {
     return {
@@ -171,6 +207,10 @@ export class CostTracker {
       vectorIndex: {
         operations: this.metrics.vectorIndex.totalOperations,
       },
+      embeddingCache: {
+        ...this.metrics.embeddingCache,
+        hitRate: embeddingCacheHitRate(this.metrics.embeddingCache),
+      },
       total: {
         // Note: Currently only tracks OpenAI costs (Drive and Vectorize are usage-based)
         openaiCost: this.metrics.openai.totalCost,
@@ -7,7 +7,11 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { createOpenAIClient } from './openai-factory.js';
+import {
+  DEFAULT_AZURE_API_VERSION,
+  createAzureOpenAIClient,
+  createOpenAIClient,
+} from './openai-factory.js';
 
 // Mock OpenAI class
 vi.mock('openai', () => {
@@ -23,8 +27,11 @@ vi.mock('openai', () => {
     }
   }
 
+  class MockAzureOpenAI extends MockOpenAI {}
+
   return {
     default: MockOpenAI,
+    AzureOpenAI: MockAzureOpenAI,
   };
 });
 
@@ -218,4 +225,19 @@ describe('OpenAI Factory', () => {
       expect(client._config.defaultHeaders?.['cf-aig-authorization']).toBe(`Bearer ${token}`);
     });
   });
+
+  describe('createAzureOpenAIClient', () => {
+    it('should create an Azure client for the resource endpoint', () => {
+      const client = createAzureOpenAIClient({
+        apiKey: 'azure-key',
+        endpoint: 'https://worknote.openai.azure.com/',
+      }) as unknown as { _config: Record<string, string> };
+
+      expect(client._config).toEqual({
+        apiKey: 'azure-key',
+        endpoint: 'https://worknote.openai.azure.com/',
+        apiVersion: DEFAULT_AZURE_API_VERSION,
+      });
+    });
+  });
 });
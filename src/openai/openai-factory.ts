@@ -9,7 +9,7 @@
  *   task_id: TASK-034
  */
 
-import OpenAI from 'openai';
+import OpenAI, { AzureOpenAI } from 'openai';
 
 export interface OpenAIFactoryConfig {
   apiKey: string;
@@ -100,3 +100,32 @@ export function createOpenAIClient(config: OpenAIFactoryConfig): OpenAI {
     apiKey,
   });
 }
+
+export interface AzureOpenAIFactoryConfig {
+  apiKey: string;
+  /**
+   * Resource endpoint, e.g. https://my-resource.openai.azure.com/
+   */
+  endpoint: string;
+  /**
+   * Azure OpenAI REST API version (default: DEFAULT_AZURE_API_VERSION)
+   */
+  apiVersion?: string;
+}
+
+export const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+
+/**
+ * Create an Azure OpenAI client
+ *
+ * Requests address a deployment through the `model` parameter, so one client serves
+ * every deployment of the resource.
+ */
+export function createAzureOpenAIClient(config: AzureOpenAIFactoryConfig): OpenAI {
+  console.log(`Using Azure OpenAI: ${config.endpoint}`);
+  return new AzureOpenAI({
+    apiKey: config.apiKey,
+    endpoint: config.endpoint,
+    apiVersion: config.apiVersion || DEFAULT_AZURE_API_VERSION,
+  });
+}
@@ -0,0 +1,114 @@
+/**
+ * Tests for the file job queue
+ *
+ * Trace:
+ *   spec_id: SPEC-error-handling-1
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  CloudflareFileJobQueue,
+  FileJob,
+  FileJobMessage,
+  InMemoryFileJobQueue,
+  consumeFileJobs,
+  retryDelaySeconds,
+} from './file-queue';
+
+const deleteJob = (fileId: string): FileJob => ({ type: 'delete', fileId });
+
+describe('CloudflareFileJobQueue', () => {
+  it('should send jobs in batches of at most 100 messages', async () => {
+    const binding = { sendBatch: vi.fn().mockResolvedValue(undefined) };
+    const queue = new CloudflareFileJobQueue(binding as unknown as Queue<FileJob>);
+    const jobs = Array.from({ length: 150 }, (_, i) => deleteJob(`file${i}`));
+
+    await queue.sendBatch(jobs);
+
+    expect(binding.sendBatch).toHaveBeenCalledTimes(2);
+    expect(binding.sendBatch.mock.calls[0][0]).toHaveLength(100);
+    expect(binding.sendBatch.mock.calls[1][0][49]).toEqual({ body: deleteJob('file149') });
+  });
+});
+
+describe('InMemoryFileJobQueue', () => {
+  it('should deliver jobs in batches until the queue is empty', async () => {
+    const queue = new InMemoryFileJobQueue({ batchSize: 2 });
+    await queue.sendBatch([deleteJob('a'), deleteJob('b'), deleteJob('c')]);
+    const batches: string[][] = [];
+
+    await queue.drain(async messages => {
+      batches.push(messages.map(message => message.body.fileId));
+      messages.forEach(message => message.ack());
+    });
+
+    expect(batches).toEqual([['a', 'b'], ['c']]);
+    expect(queue.size).toBe(0);
+    expect(queue.deadLetters).toEqual([]);
+  });
+
+  it('TEST-error-handling-7: should redeliver retried jobs and dead-letter them after maxRetries', async () => {
+    const queue = new InMemoryFileJobQueue({ maxRetries: 2 });
+    await queue.sendBatch([deleteJob('flaky'), deleteJob('broken')]);
+    const attempts: Record<string, number[]> = { flaky: [], broken: [] };
+
+    await queue.drain(async messages => {
+      for (const message of messages) {
+        attempts[message.body.fileId].push(message.attempts);
+        if (message.body.fileId === 'flaky' && message.attempts > 1) {
+          message.ack();
+        } else {
+          message.retry();
+        }
+      }
+    });
+
+    expect(attempts).toEqual({ flaky: [1, 2], broken: [1, 2, 3] });
+    expect(queue.deadLetters).toEqual([{ job: deleteJob('broken'), attempts: 3 }]);
+  });
+
+  it('should retry unacknowledged messages when the consumer throws', async () => {
+    const queue = new InMemoryFileJobQueue({ maxRetries: 1 });
+    await queue.sendBatch([deleteJob('acked'), deleteJob('lost')]);
+    let deliveries = 0;
+
+    await queue.drain(async messages => {
+      deliveries++;
+      messages.find(message => message.body.fileId === 'acked')?.ack();
+      throw new Error('Consumer crashed');
+    });
+
+    expect(deliveries).toBe(2);
+    expect(queue.deadLetters.map(entry => entry.job.fileId)).toEqual(['lost']);
+  });
+});
+
+describe('consumeFileJobs', () => {
+  const message = (job: FileJob, attempts = 1): FileJobMessage => ({
+    body: job,
+    attempts,
+    ack: vi.fn(),
+    retry: vi.fn(),
+  });
+
+  it('should acknowledge completed jobs and retry failed ones with backoff', async () => {
+    const done = message(deleteJob('done'));
+    const failed = message(deleteJob('failed'), 3);
+
+    await consumeFileJobs([done, failed], async job => {
+      if (job.fileId === 'failed') {
+        throw new Error('Vectorize unavailable');
+      }
+    });
+
+    expect(done.ack).toHaveBeenCalled();
+    expect(done.retry).not.toHaveBeenCalled();
+    expect(failed.ack).not.toHaveBeenCalled();
+    expect(failed.retry).toHaveBeenCalledWith({ delaySeconds: 120 });
+  });
+
+  it('should cap the retry delay', () => {
+    expect(retryDelaySeconds(1)).toBe(30);
+    expect(retryDelaySeconds(20)).toBe(900);
+  });
+});
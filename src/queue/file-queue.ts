@@ -0,0 +1,172 @@
+/**
+ * File job queue: fans per-file sync work out to a queue consumer
+ *
+ * The sync run produces one job per file to (re)index or remove, and the
+ * `queue()` handler consumes them. CloudflareFileJobQueue sends to a Queues
+ * binding; InMemoryFileJobQueue mirrors its delivery, retry and dead-letter
+ * semantics in-process for tests and local runs.
+ *
+ * Trace:
+ *   spec_id: SPEC-error-handling-1
+ */
+
+import type { DriveFileMetadata } from '../drive/drive-client.js';
+import { logError, toError } from '../errors/index.js';
+
+/**
+ * Unit of per-file work
+ */
+export type FileJob =
+  { type: 'process'; fileId: string; file: DriveFileMetadata } | { type: 'delete'; fileId: string };
+
+/**
+ * Delivered job as seen by the consumer (subset of a Cloudflare Queues message)
+ */
+export type FileJobMessage = Pick<Message<FileJob>, 'body' | 'attempts' | 'ack' | 'retry'>;
+
+/**
+ * Producer side of the file job queue
+ */
+export interface FileJobQueue {
+  sendBatch(jobs: FileJob[]): Promise<void>;
+}
+
+/**
+ * Messages per sendBatch call (Cloudflare Queues limit)
+ */
+export const QUEUE_SEND_BATCH_SIZE = 100;
+
+/**
+ * Default redeliveries before a job is dead-lettered (Cloudflare Queues default)
+ */
+const DEFAULT_MAX_RETRIES = 3;
+
+const RETRY_BASE_DELAY_SECONDS = 30;
+const RETRY_MAX_DELAY_SECONDS = 15 * 60;
+
+/**
+ * Sends file jobs to a Cloudflare Queues binding
+ */
+export class CloudflareFileJobQueue implements FileJobQueue {
+  constructor(private queue: Queue<FileJob>) {}
+
+  async sendBatch(jobs: FileJob[]): Promise<void> {
+    for (let i = 0; i < jobs.length; i += QUEUE_SEND_BATCH_SIZE) {
+      await this.queue.sendBatch(
+        jobs.slice(i, i + QUEUE_SEND_BATCH_SIZE).map(job => ({ body: job }))
+      );
+    }
+  }
+}
+
+/**
+ * Job that exhausted its retries
+ */
+export interface DeadLetteredJob {
+  job: FileJob;
+  attempts: number;
+}
+
+/**
+ * In-process queue with Cloudflare Queues delivery semantics
+ */
+export class InMemoryFileJobQueue implements FileJobQueue {
+  readonly deadLetters: DeadLetteredJob[] = [];
+  private pending: Array<{ job: FileJob; attempts: number }> = [];
+  private maxRetries: number;
+  private batchSize: number;
+
+  constructor(options: { maxRetries?: number; batchSize?: number } = {}) {
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.batchSize = options.batchSize ?? 10;
+  }
+
+  async sendBatch(jobs: FileJob[]): Promise<void> {
+    this.pending.push(...jobs.map(job => ({ job, attempts: 0 })));
+  }
+
+  /**
+   * Number of jobs waiting for delivery
+   */
+  get size(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Deliver pending jobs to the consumer in batches until the queue is empty
+   *
+   * As on Cloudflare: a message is retried when the consumer calls retry() or
+   * throws without acknowledging it, and is dead-lettered once it has been
+   * retried maxRetries times.
+   */
+  async drain(consumer: (messages: FileJobMessage[]) => Promise<void>): Promise<void> {
+    while (this.pending.length > 0) {
+      const entries = this.pending.splice(0, this.batchSize);
+      const outcomes = new Array<'ack' | 'retry' | undefined>(entries.length);
+      const messages = entries.map((entry, i) => ({
+        body: entry.job,
+        attempts: entry.attempts + 1,
+        ack: () => {
+          outcomes[i] ??= 'ack';
+        },
+        retry: () => {
+          outcomes[i] ??= 'retry';
+        },
+      }));
+
+      let failed = false;
+      try {
+        await consumer(messages);
+      } catch {
+        failed = true;
+      }
+
+      entries.forEach((entry, i) => {
+        const retry = outcomes[i] === 'retry' || (failed && outcomes[i] !== 'ack');
+        if (!retry) {
+          return;
+        }
+
+        const attempts = entry.attempts + 1;
+        if (attempts > this.maxRetries) {
+          this.deadLetters.push({ job: entry.job, attempts });
+        } else {
+          this.pending.push({ job: entry.job, attempts });
+        }
+      });
+    }
+  }
+}
+
+/**
+ * Backoff before a failed job is redelivered
+ */
+export function retryDelaySeconds(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_SECONDS * 2 ** (attempts - 1), RETRY_MAX_DELAY_SECONDS);
+}
+
+/**
+ * Run every job of a delivered batch concurrently
+ * Successful jobs are acknowledged; failed ones are retried with backoff and
+ * reach the dead-letter queue once the queue's max_retries is exceeded
+ */
+export async function consumeFileJobs(
+  messages: readonly FileJobMessage[],
+  runJob: (job: FileJob) => Promise<unknown>
+): Promise<void> {
+  await Promise.all(
+    messages.map(async message => {
+      try {
+        await runJob(message.body);
+        message.ack();
+      } catch (error) {
+        logError(toError(error), {
+          fileId: message.body.fileId,
+          jobType: message.body.type,
+          attempts: message.attempts,
+        });
+        message.retry({ delaySeconds: retryDelaySeconds(message.attempts) });
+      }
+    })
+  );
+}
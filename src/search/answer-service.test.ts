@@ -0,0 +1,158 @@
+/**
+ * Tests for AnswerService
+ *
+ * Trace:
+ *   spec_id: SPEC-search-1
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type OpenAI from 'openai';
+import { AnswerService, buildCitations, buildGroundedPrompt } from './answer-service';
+import type { SearchHit, SearchService } from './search-service';
+import { AnswerError } from '../errors/index';
+
+function createHit(id: string, text: string): SearchHit {
+  return {
+    id: `${id}_0`,
+    score: 0.8,
+    file_id: id,
+    file_name: `${id}.md`,
+    file_path: `notes/${id}.md`,
+    chunk_index: 0,
+    last_modified: '2025-11-13T00:00:00Z',
+    snippet: text.substring(0, 300),
+    text,
+  };
+}
+
+async function collect(tokens: AsyncIterable<string>): Promise<string[]> {
+  const result: string[] = [];
+  for await (const token of tokens) {
+    result.push(token);
+  }
+  return result;
+}
+
+describe('AnswerService', () => {
+  let searchService: { search: ReturnType<typeof vi.fn> };
+  let create: ReturnType<typeof vi.fn>;
+  let service: AnswerService;
+
+  beforeEach(() => {
+    searchService = {
+      search: vi
+        .fn()
+        .mockResolvedValue([
+          createHit('fileA', 'Launch moved to September 15.'),
+          createHit('fileB', 'Budget approved.'),
+        ]),
+    };
+    create = vi.fn().mockResolvedValue({
+      choices: [{ message: { content: 'The launch is on September 15 [1].' } }],
+    });
+    service = new AnswerService(searchService as unknown as SearchService, {
+      client: { chat: { completions: { create } } } as unknown as OpenAI,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('TEST-search-6: should answer from retrieved chunks with citations', async () => {
+    const result = await service.answer('When is the launch?', { topK: 2 });
+
+    expect(searchService.search).toHaveBeenCalledWith('When is the launch?', {
+      topK: 2,
+      includeText: true,
+    });
+    expect(result.answer).toBe('The launch is on September 15 [1].');
+    expect(result.model).toBe('gpt-4o-mini');
+    expect(result.citations.map(c => [c.index, c.file_id, c.file_path])).toEqual([
+      [1, 'fileA', 'notes/fileA.md'],
+      [2, 'fileB', 'notes/fileB.md'],
+    ]);
+
+    const request = create.mock.calls[0][0];
+    expect(request.model).toBe('gpt-4o-mini');
+    expect(request.messages[0].role).toBe('system');
+    expect(request.messages[1].content).toContain('[1] notes/fileA.md (chunk 0)');
+    expect(request.messages[1].content).toContain('Question: When is the launch?');
+  });
+
+  it('should use the configured chat model', async () => {
+    service = new AnswerService(searchService as unknown as SearchService, {
+      client: { chat: { completions: { create } } } as unknown as OpenAI,
+      model: 'gpt-4.1',
+    });
+
+    const result = await service.answer('When is the launch?');
+
+    expect(create.mock.calls[0][0].model).toBe('gpt-4.1');
+    expect(result.model).toBe('gpt-4.1');
+  });
+
+  it('should not call the model when nothing is retrieved', async () => {
+    searchService.search.mockResolvedValue([]);
+
+    const result = await service.answer('Unrelated question');
+
+    expect(create).not.toHaveBeenCalled();
+    expect(result.citations).toEqual([]);
+    expect(result.answer).toContain('No relevant worknotes');
+  });
+
+  it('should wrap model failures in AnswerError', async () => {
+    vi.useFakeTimers();
+    create.mockRejectedValue(Object.assign(new Error('rate limited'), { status: 429 }));
+
+    const promise = service.answer('When is the launch?');
+    const assertion = expect(promise).rejects.toBeInstanceOf(AnswerError);
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    expect(create).toHaveBeenCalledTimes(3);
+  });
+
+  it('TEST-search-6: should stream answer deltas after citations', async () => {
+    create.mockResolvedValue(
+      (async function* () {
+        yield { choices: [{ delta: { role: 'assistant' } }] };
+        yield { choices: [{ delta: { content: 'September ' } }] };
+        yield { choices: [{ delta: { content: '15 [1].' } }] };
+      })()
+    );
+
+    const stream = await service.streamAnswer('When is the launch?');
+
+    expect(create.mock.calls[0][0].stream).toBe(true);
+    expect(stream.citations).toHaveLength(2);
+    expect(await collect(stream.tokens)).toEqual(['September ', '15 [1].']);
+  });
+
+  it('should stream the no-context answer without calling the model', async () => {
+    searchService.search.mockResolvedValue([]);
+
+    const stream = await service.streamAnswer('Unrelated question');
+
+    expect(create).not.toHaveBeenCalled();
+    expect((await collect(stream.tokens)).join('')).toContain('No relevant worknotes');
+  });
+
+  describe('prompt helpers', () => {
+    it('should link citations to the Drive file', () => {
+      const [citation] = buildCitations([createHit('fileA', 'text')]);
+
+      expect(citation.drive_url).toBe('https://drive.google.com/file/d/fileA/view');
+    });
+
+    it('should prefer the full chunk text over the snippet', () => {
+      const hit = { ...createHit('fileA', 'x'.repeat(800)) };
+
+      expect(buildGroundedPrompt('q', [hit])).toContain('x'.repeat(800));
+      expect(buildGroundedPrompt('q', [{ ...hit, text: undefined }])).not.toContain(
+        'x'.repeat(301)
+      );
+    });
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Retrieval-augmented answers grounded in synced worknotes
+ *
+ * Trace:
+ *   spec_id: SPEC-search-1
+ */
+
+import OpenAI from 'openai';
+import { AnswerError, withRetry } from '../errors/index.js';
+import { SearchHit, SearchOptions, SearchService } from './search-service.js';
+
+const DEFAULT_CHAT_MODEL = 'gpt-4o-mini';
+const NO_CONTEXT_ANSWER = 'No relevant worknotes were found for this question.';
+
+const SYSTEM_PROMPT = [
+  'You answer questions using only the numbered worknote excerpts provided.',
+  'Cite the excerpts you rely on with their numbers in square brackets, e.g. [1] or [2][3].',
+  'If the excerpts do not contain the answer, say so instead of guessing.',
+  'Answer in the same language as the question.',
+].join(' ');
+
+export interface AnswerConfig {
+  /**
+   * Pre-configured OpenAI client (use createOpenAIClient() for AI Gateway routing)
+   */
+  client: OpenAI;
+  model?: string;
+  temperature?: number;
+}
+
+/**
+ * Source chunk referenced by an answer; `index` matches the [n] markers
+ */
+export interface Citation {
+  index: number;
+  file_id: string;
+  file_name: string;
+  file_path: string;
+  chunk_index: number;
+  score: number;
+  drive_url: string;
+}
+
+export interface AnswerResult {
+  answer: string;
+  citations: Citation[];
+  model: string;
+}
+
+export interface AnswerStream {
+  citations: Citation[];
+  model: string;
+  /**
+   * Answer text deltas in arrival order
+   */
+  tokens: AsyncIterable<string>;
+}
+
+/**
+ * Build citations from retrieved hits, numbered from 1
+ */
+export function buildCitations(hits: SearchHit[]): Citation[] {
+  return hits.map((hit, i) => ({
+    index: i + 1,
+    file_id: hit.file_id,
+    file_name: hit.file_name,
+    file_path: hit.file_path,
+    chunk_index: hit.chunk_index,
+    score: hit.score,
+    drive_url: `https://drive.google.com/file/d/${hit.file_id}/view`,
+  }));
+}
+
+/**
+ * Build the user prompt: numbered excerpts followed by the question
+ */
+export function buildGroundedPrompt(question: string, hits: SearchHit[]): string {
+  const excerpts = hits
+    .map(
+      (hit, i) =>
+        `[${i + 1}] ${hit.file_path} (chunk ${hit.chunk_index})\n${hit.text ?? hit.snippet}`
+    )
+    .join('\n\n');
+
+  return `Worknote excerpts:\n\n${excerpts}\n\nQuestion: ${question}`;
+}
+
+/**
+ * Answers questions with a chat model over retrieved worknote chunks
+ */
+export class AnswerService {
+  private client: OpenAI;
+  private model: string;
+  private temperature: number;
+
+  constructor(
+    private searchService: SearchService,
+    config: AnswerConfig
+  ) {
+    this.client = config.client;
+    this.model = config.model || DEFAULT_CHAT_MODEL;
+    this.temperature = config.temperature ?? 0.2;
+  }
+
+  /**
+   * Retrieve context and return the complete answer
+   */
+  async answer(question: string, options: SearchOptions = {}): Promise<AnswerResult> {
+    const hits = await this.searchService.search(question, { ...options, includeText: true });
+    const citations = buildCitations(hits);
+
+    if (hits.length === 0) {
+      return { answer: NO_CONTEXT_ANSWER, citations, model: this.model };
+    }
+
+    try {
+      const completion = await withRetry(async () => {
+        return await this.client.chat.completions.create({
+          model: this.model,
+          temperature: this.temperature,
+          messages: this.buildMessages(question, hits),
+        });
+      });
+
+      return {
+        answer: completion.choices[0]?.message?.content || '',
+        citations,
+        model: this.model,
+      };
+    } catch (error) {
+      throw new AnswerError('Failed to generate answer', {
+        citationCount: citations.length,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Retrieve context and stream the answer token by token
+   * Citations are available immediately, before the first token
+   */
+  async streamAnswer(question: string, options: SearchOptions = {}): Promise<AnswerStream> {
+    const hits = await this.searchService.search(question, { ...options, includeText: true });
+    const citations = buildCitations(hits);
+
+    if (hits.length === 0) {
+      return {
+        citations,
+        model: this.model,
+        tokens: (async function* () {
+          yield NO_CONTEXT_ANSWER;
+        })(),
+      };
+    }
+
+    try {
+      const stream = await withRetry(async () => {
+        return await this.client.chat.completions.create({
+          model: this.model,
+          temperature: this.temperature,
+          messages: this.buildMessages(question, hits),
+          stream: true,
+        });
+      });
+
+      return {
+        citations,
+        model: this.model,
+        tokens: (async function* () {
+          for await (const chunk of stream) {
+            const delta = chunk.choices[0]?.delta?.content;
+            if (delta) {
+              yield delta;
+            }
+          }
+        })(),
+      };
+    } catch (error) {
+      throw new AnswerError('Failed to start answer stream', {
+        citationCount: citations.length,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  private buildMessages(
+    question: string,
+    hits: SearchHit[]
+  ): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+    return [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: buildGroundedPrompt(question, hits) },
+    ];
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Tests for the KV-backed keyword index
+ *
+ * Trace:
+ *   spec_id: SPEC-search-1
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { KVKeywordIndex, extractTerms, bm25TermScore } from './keyword-index';
+import { MockKVNamespace } from '../test-utils/mock-kv-namespace';
+
+describe('extractTerms', () => {
+  it('should lowercase and split on punctuation', () => {
+    expect(extractTerms('Deploy the API, then VERIFY!')).toEqual([
+      'deploy',
+      'the',
+      'api',
+      'then',
+      'verify',
+    ]);
+  });
+
+  it('should keep ticket IDs whole and also index their parts', () => {
+    const terms = extractTerms('Fixed in PROJ-1234 today');
+
+    expect(terms).toContain('proj-1234');
+    expect(terms).toContain('proj');
+    expect(terms).toContain('1234');
+  });
+
+  it('should emit Hangul bigrams so nouns match with attached particles', () => {
+    const terms = extractTerms('김철수가 보고서를 작성');
+
+    expect(terms).toContain('김철수가');
+    expect(terms).toContain('김철');
+    expect(terms).toContain('철수');
+  });
+
+  it('should drop single ASCII characters but keep single Hangul syllables', () => {
+    expect(extractTerms('a 팀 b')).toEqual(['팀']);
+  });
+});
+
+describe('bm25TermScore', () => {
+  it('should favour rarer terms', () => {
+    const stats = { chunkCount: 100, totalLength: 10000 };
+
+    const rare = bm25TermScore(1, 100, 1, stats);
+    const common = bm25TermScore(1, 100, 90, stats);
+
+    expect(rare).toBeGreaterThan(common);
+  });
+
+  it('should favour shorter chunks for the same term frequency', () => {
+    const stats = { chunkCount: 10, totalLength: 1000 };
+
+    expect(bm25TermScore(2, 50, 3, stats)).toBeGreaterThan(bm25TermScore(2, 400, 3, stats));
+  });
+});
+
+describe('KVKeywordIndex', () => {
+  let kv: MockKVNamespace;
+  let index: KVKeywordIndex;
+
+  beforeEach(() => {
+    kv = new MockKVNamespace();
+    index = new KVKeywordIndex(kv as unknown as KVNamespace);
+  });
+
+  it('should rank chunks containing the exact query term first', async () => {
+    await index.indexFile('file1', [
+      { id: 'file1_0', text: 'Incident review for PROJ-1234 and follow-ups' },
+      { id: 'file1_1', text: 'General meeting notes about planning' },
+    ]);
+    await index.indexFile('file2', [{ id: 'file2_0', text: 'Planning the next quarter' }]);
+
+    const matches = await index.search('PROJ-1234', 10);
+
+    expect(matches[0].id).toBe('file1_0');
+    expect(matches.map(m => m.id)).not.toContain('file2_0');
+  });
+
+  it('should match Korean names with particles attached', async () => {
+    await index.indexFile('file1', [{ id: 'file1_0', text: '김철수가 회의록을 공유했다' }]);
+    await index.indexFile('file2', [{ id: 'file2_0', text: '이영희 담당 업무 정리' }]);
+
+    const matches = await index.search('김철수', 5);
+
+    expect(matches.map(m => m.id)).toEqual(['file1_0']);
+  });
+
+  it('should replace previous postings when a file is reindexed', async () => {
+    await index.indexFile('file1', [{ id: 'file1_0', text: 'legacy billing service' }]);
+    await index.indexFile('file1', [{ id: 'file1_0', text: 'new payments gateway' }]);
+
+    expect(await index.search('billing', 5)).toEqual([]);
+    expect((await index.search('payments', 5))[0].id).toBe('file1_0');
+  });
+
+  it('should remove a file and its statistics', async () => {
+    await index.indexFile('file1', [{ id: 'file1_0', text: 'release checklist' }]);
+    await index.removeFile('file1');
+
+    expect(await index.search('release', 5)).toEqual([]);
+    expect(kv.store.size).toBe(0);
+  });
+
+  it('should store postings under one key per term and file', async () => {
+    await index.indexFile('file1', [
+      { id: 'file1_0', text: 'release checklist' },
+      { id: 'file1_1', text: 'release owners' },
+    ]);
+
+    expect(Array.from(kv.store.keys()).sort()).toEqual([
+      'kw:file:file1',
+      'kw:term:checklist:file1',
+      'kw:term:owners:file1',
+      'kw:term:release:file1',
+    ]);
+    expect(kv.metadata.get('kw:term:release:file1')).toEqual({
+      postings: { file1_0: [1, 2], file1_1: [1, 2] },
+    });
+    expect(kv.metadata.get('kw:file:file1')).toEqual({ chunkCount: 2, totalLength: 4 });
+  });
+
+  it('should answer from key listings of the query terms without reading values', async () => {
+    await index.indexFile('file1', [{ id: 'file1_0', text: 'incident PROJ-1234 postmortem' }]);
+    await index.indexFile('file2', [{ id: 'file2_0', text: 'quarterly planning notes' }]);
+    const getSpy = vi.spyOn(kv, 'get');
+    const listSpy = vi.spyOn(kv, 'list');
+
+    const matches = await index.search('postmortem', 5);
+
+    expect(matches.map(m => m.id)).toEqual(['file1_0']);
+    expect(getSpy).not.toHaveBeenCalled();
+    expect(listSpy.mock.calls.map(([options]) => options?.prefix)).toEqual([
+      'kw:term:postmortem:',
+      'kw:file:',
+    ]);
+  });
+
+  it('should read postings too large for list metadata from the term key', async () => {
+    const chunks = Array.from({ length: 80 }, (_, i) => ({
+      id: `file1_${i}`,
+      text: `runbook step ${i}`,
+    }));
+    await index.indexFile('file1', chunks);
+    const getSpy = vi.spyOn(kv, 'get');
+
+    const matches = await index.search('runbook', 100);
+
+    expect(kv.metadata.get('kw:term:runbook:file1')).toBeUndefined();
+    expect(getSpy).toHaveBeenCalledWith('kw:term:runbook:file1', 'json');
+    expect(matches).toHaveLength(80);
+  });
+
+  it('should only rewrite the terms whose postings changed', async () => {
+    await index.indexFile('file1', [{ id: 'file1_0', text: 'release checklist draft' }]);
+    const putSpy = vi.spyOn(kv, 'put');
+    const deleteSpy = vi.spyOn(kv, 'delete');
+
+    await index.indexFile('file1', [{ id: 'file1_0', text: 'release checklist final' }]);
+
+    expect(putSpy.mock.calls.map(([key]) => key)).toEqual([
+      'kw:file:file1',
+      'kw:term:final:file1',
+      'kw:file:file1',
+    ]);
+    expect(deleteSpy).toHaveBeenCalledWith('kw:term:draft:file1');
+  });
+
+  it('should not lose postings when files are indexed concurrently', async () => {
+    await Promise.all(
+      Array.from({ length: 5 }, (_, i) =>
+        index.indexFile(`file${i}`, [{ id: `file${i}_0`, text: `shared keyword unique${i}` }])
+      )
+    );
+
+    const matches = await index.search('shared', 10);
+
+    expect(matches).toHaveLength(5);
+  });
+
+  it('should return nothing for queries without indexable terms', async () => {
+    await index.indexFile('file1', [{ id: 'file1_0', text: 'anything' }]);
+
+    expect(await index.search('!!', 5)).toEqual([]);
+  });
+});
@@ -0,0 +1,349 @@
+/**
+ * Inverted keyword index with BM25 ranking
+ *
+ * Complements vector search for exact terms that embeddings tend to miss
+ * (ticket IDs, Korean proper nouns, code identifiers).
+ *
+ * Trace:
+ *   spec_id: SPEC-search-1
+ */
+
+/**
+ * Chunk to be indexed, keyed by its vector ID so keyword and vector
+ * results can be fused
+ */
+export interface KeywordChunk {
+  id: string;
+  text: string;
+}
+
+/**
+ * Keyword match with its BM25 score
+ */
+export interface KeywordMatch {
+  id: string;
+  score: number;
+}
+
+/**
+ * Storage-agnostic keyword index
+ *
+ * KVKeywordIndex is the default implementation; a D1/SQL-backed index can
+ * implement the same contract.
+ */
+export interface KeywordIndex {
+  /**
+   * Replace all indexed chunks of a file
+   */
+  indexFile(fileId: string, chunks: KeywordChunk[]): Promise<void>;
+
+  /**
+   * Remove every chunk of a file from the index
+   */
+  removeFile(fileId: string): Promise<void>;
+
+  /**
+   * Rank chunks against the query terms (highest score first)
+   */
+  search(query: string, topK: number): Promise<KeywordMatch[]>;
+}
+
+/**
+ * Postings of one term within one file: chunkId → [termFrequency, chunkLength]
+ */
+type TermPostings = Record<string, [number, number]>;
+
+/**
+ * Terms indexed for a file, each with its serialized postings, so a reindex only
+ * rewrites the term keys whose postings changed
+ */
+interface IndexedFileEntry {
+  terms: Record<string, string>;
+}
+
+/**
+ * List metadata of a file entry, so search can derive corpus stats from key listings
+ */
+interface IndexedFileMetadata {
+  chunkCount: number;
+  totalLength: number;
+}
+
+/**
+ * List metadata of a term key; postings are omitted when they exceed the metadata limit
+ */
+interface TermKeyMetadata {
+  postings?: TermPostings;
+}
+
+export interface KeywordIndexStats {
+  chunkCount: number;
+  totalLength: number;
+}
+
+const FILE_PREFIX = 'kw:file:';
+const TERM_PREFIX = 'kw:term:';
+const MAX_TERM_LENGTH = 64;
+
+/**
+ * KV rejects list metadata above 1024 bytes once serialized
+ */
+const MAX_METADATA_BYTES = 1024;
+
+/**
+ * BM25 tuning parameters (standard Okapi defaults)
+ */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Word-like tokens; keeps compound identifiers such as "ABC-123" or "v1.2" intact
+ */
+const TERM_PATTERN = /[\p{L}\p{N}]+(?:[-_.][\p{L}\p{N}]+)*/gu;
+const CJK_PATTERN = /[\p{Script=Hangul}\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+
+/**
+ * Extract index terms from text
+ *
+ * - Lowercases and splits on non-word characters
+ * - Emits compound identifiers both whole and split into parts
+ * - Emits character bigrams for CJK words so that Korean nouns still match
+ *   when particles are attached (e.g. "김철수가" matches "김철수")
+ */
+export function extractTerms(text: string): string[] {
+  const terms: string[] = [];
+
+  for (const match of text.toLowerCase().matchAll(TERM_PATTERN)) {
+    const token = match[0];
+    const parts = token.split(/[-_.]/);
+
+    addTerm(terms, token);
+    if (parts.length > 1) {
+      parts.forEach(part => addTerm(terms, part));
+    }
+
+    for (const part of parts) {
+      if (part.length > 2 && CJK_PATTERN.test(part)) {
+        for (let i = 0; i < part.length - 1; i++) {
+          addTerm(terms, part.substring(i, i + 2));
+        }
+      }
+    }
+  }
+
+  return terms;
+}
+
+function addTerm(terms: string[], term: string): void {
+  if (term.length > MAX_TERM_LENGTH) {
+    return;
+  }
+
+  // Single ASCII characters carry no signal; single CJK syllables can
+  if (term.length < 2 && !CJK_PATTERN.test(term)) {
+    return;
+  }
+
+  terms.push(term);
+}
+
+/**
+ * Count term frequencies for a chunk
+ */
+function countTerms(text: string): { frequencies: Map<string, number>; length: number } {
+  const terms = extractTerms(text);
+  const frequencies = new Map<string, number>();
+
+  for (const term of terms) {
+    frequencies.set(term, (frequencies.get(term) || 0) + 1);
+  }
+
+  return { frequencies, length: terms.length };
+}
+
+/**
+ * Term postings as list metadata, or undefined when they do not fit
+ */
+function termKeyMetadata(serialized: string): TermKeyMetadata | undefined {
+  const metadata = `{"postings":${serialized}}`;
+  return new TextEncoder().encode(metadata).length <= MAX_METADATA_BYTES
+    ? { postings: JSON.parse(serialized) as TermPostings }
+    : undefined;
+}
+
+function termKey(term: string, fileId: string): string {
+  return `${TERM_PREFIX}${term}:${fileId}`;
+}
+
+/**
+ * BM25 score contribution of a single term in a single chunk
+ */
+export function bm25TermScore(
+  termFrequency: number,
+  chunkLength: number,
+  documentFrequency: number,
+  stats: KeywordIndexStats
+): number {
+  const avgLength = stats.chunkCount > 0 ? stats.totalLength / stats.chunkCount : 0;
+  const idf = Math.log(
+    1 + (stats.chunkCount - documentFrequency + 0.5) / (documentFrequency + 0.5)
+  );
+  const lengthNorm = avgLength > 0 ? chunkLength / avgLength : 1;
+
+  return (
+    (idf * termFrequency * (BM25_K1 + 1)) /
+    (termFrequency + BM25_K1 * (1 - BM25_B + BM25_B * lengthNorm))
+  );
+}
+
+/**
+ * KV-backed keyword index
+ *
+ * Key layout:
+ * - kw:term:<term>:<fileId> → postings of the term in the file, repeated as list
+ *   metadata when they fit
+ * - kw:file:<fileId> → terms indexed for the file, with chunk count and total
+ *   length as list metadata (BM25 corpus stats)
+ *
+ * Every key belongs to a single file, so the queue consumer and concurrent syncs
+ * never contend on shared keys. A query lists the term prefixes of its own terms
+ * and the file stats, and reads a term key only when its postings exceed the
+ * metadata limit. Indexing writes one key per changed term of the file.
+ */
+export class KVKeywordIndex implements KeywordIndex {
+  constructor(private kv: KVNamespace) {}
+
+  async indexFile(fileId: string, chunks: KeywordChunk[]): Promise<void> {
+    const postings = new Map<string, TermPostings>();
+    let totalLength = 0;
+    for (const chunk of chunks) {
+      const { frequencies, length } = countTerms(chunk.text);
+      totalLength += length;
+
+      for (const [term, frequency] of frequencies) {
+        postings.set(term, { ...postings.get(term), [chunk.id]: [frequency, length] });
+      }
+    }
+
+    const fileKey = `${FILE_PREFIX}${fileId}`;
+    const { value: entry, metadata: previousStats } = await this.kv.getWithMetadata<
+      IndexedFileEntry,
+      IndexedFileMetadata
+    >(fileKey, 'json');
+    const previous = entry?.terms || {};
+    const next: Record<string, string> = {};
+    for (const [term, termPostings] of postings) {
+      next[term] = JSON.stringify(termPostings);
+    }
+
+    const changed = Object.keys(next).filter(term => previous[term] !== next[term]);
+    const removed = Object.keys(previous).filter(term => !(term in next));
+
+    // Record new terms before writing them, so an interrupted write leaves no
+    // term key that a later reindex or removal would not clean up
+    if (changed.some(term => !(term in previous))) {
+      const pending: IndexedFileEntry = { terms: { ...previous } };
+      for (const term of changed) {
+        pending.terms[term] = previous[term] ?? '';
+      }
+      await this.kv.put(fileKey, JSON.stringify(pending), { metadata: previousStats });
+    }
+
+    await Promise.all(
+      changed.map(term =>
+        this.kv.put(termKey(term, fileId), next[term], { metadata: termKeyMetadata(next[term]) })
+      )
+    );
+    await Promise.all(removed.map(term => this.kv.delete(termKey(term, fileId))));
+
+    if (chunks.length === 0) {
+      await this.kv.delete(fileKey);
+      return;
+    }
+
+    const metadata: IndexedFileMetadata = { chunkCount: chunks.length, totalLength };
+    await this.kv.put(fileKey, JSON.stringify({ terms: next }), { metadata });
+  }
+
+  async removeFile(fileId: string): Promise<void> {
+    return this.indexFile(fileId, []);
+  }
+
+  async search(query: string, topK: number): Promise<KeywordMatch[]> {
+    const queryTerms = Array.from(new Set(extractTerms(query)));
+    if (queryTerms.length === 0) {
+      return [];
+    }
+
+    const termPostings = await Promise.all(queryTerms.map(term => this.getTermPostings(term)));
+    if (termPostings.every(postings => postings.length === 0)) {
+      return [];
+    }
+
+    const stats = await this.getStats();
+    const scores = new Map<string, number>();
+    for (const postings of termPostings) {
+      for (const [chunkId, [termFrequency, chunkLength]] of postings) {
+        const score = bm25TermScore(termFrequency, chunkLength, postings.length, stats);
+        scores.set(chunkId, (scores.get(chunkId) || 0) + score);
+      }
+    }
+
+    return Array.from(scores.entries())
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  /**
+   * Postings of a term across all files, as [chunkId, [termFrequency, chunkLength]]
+   */
+  private async getTermPostings(term: string): Promise<Array<[string, [number, number]]>> {
+    const postings: Array<[string, [number, number]]> = [];
+    const oversized: string[] = [];
+
+    await this.listAll<TermKeyMetadata>(`${TERM_PREFIX}${term}:`, key => {
+      if (key.metadata?.postings) {
+        postings.push(...Object.entries(key.metadata.postings));
+      } else {
+        oversized.push(key.name);
+      }
+    });
+
+    const values = await Promise.all(
+      oversized.map(name => this.kv.get<TermPostings>(name, 'json'))
+    );
+    for (const value of values) {
+      postings.push(...Object.entries(value || {}));
+    }
+
+    return postings;
+  }
+
+  /**
+   * Corpus chunk count and total length, summed from file key metadata
+   */
+  private async getStats(): Promise<KeywordIndexStats> {
+    const stats: KeywordIndexStats = { chunkCount: 0, totalLength: 0 };
+    await this.listAll<IndexedFileMetadata>(FILE_PREFIX, key => {
+      stats.chunkCount += key.metadata?.chunkCount || 0;
+      stats.totalLength += key.metadata?.totalLength || 0;
+    });
+    return stats;
+  }
+
+  private async listAll<Metadata>(
+    prefix: string,
+    visit: (key: KVNamespaceListKey<Metadata>) => void
+  ): Promise<void> {
+    let cursor: string | undefined;
+    do {
+      const listResult: KVNamespaceListResult<Metadata> = await this.kv.list<Metadata>({
+        prefix,
+        cursor,
+      });
+      listResult.keys.forEach(visit);
+      cursor = listResult.list_complete ? undefined : listResult.cursor;
+    } while (cursor);
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Tests for reciprocal rank fusion
+ *
+ * Trace:
+ *   spec_id: SPEC-search-1
+ */
+
+import { describe, it, expect } from 'vitest';
+import { reciprocalRankFusion } from './rank-fusion';
+
+describe('reciprocalRankFusion', () => {
+  it('should rank items found by both retrievers above single-source items', () => {
+    const fused = reciprocalRankFusion([
+      ['a', 'b', 'c'],
+      ['d', 'b', 'a'],
+    ]);
+
+    expect(fused.map(r => r.id).slice(0, 2)).toEqual(['a', 'b']);
+  });
+
+  it('should score by 1 / (k + rank)', () => {
+    const [top] = reciprocalRankFusion([['a']], 60);
+
+    expect(top.score).toBeCloseTo(1 / 61);
+  });
+
+  it('should handle empty rankings', () => {
+    expect(reciprocalRankFusion([[], []])).toEqual([]);
+  });
+});
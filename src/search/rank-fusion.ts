@@ -0,0 +1,40 @@
+/**
+ * Reciprocal rank fusion (RRF) for combining ranked result lists
+ *
+ * Trace:
+ *   spec_id: SPEC-search-1
+ */
+
+/**
+ * Standard RRF damping constant (Cormack et al., 2009)
+ */
+export const DEFAULT_RRF_K = 60;
+
+export interface FusedResult {
+  id: string;
+  score: number;
+}
+
+/**
+ * Fuse several ranked ID lists into one ranking
+ *
+ * Each list contributes 1 / (k + rank) for every ID it contains (rank is 1-based),
+ * so items ranked highly by multiple retrievers rise to the top regardless of
+ * the retrievers' incomparable raw scores.
+ */
+export function reciprocalRankFusion(
+  rankings: string[][],
+  k: number = DEFAULT_RRF_K
+): FusedResult[] {
+  const scores = new Map<string, number>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      scores.set(id, (scores.get(id) || 0) + 1 / (k + index + 1));
+    });
+  }
+
+  return Array.from(scores.entries())
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,202 @@
+/**
+ * Tests for SearchService
+ *
+ * Trace:
+ *   spec_id: SPEC-search-1
+ */
+
+import { describe, it, expect, beforeEach, vi, type Mocked } from 'vitest';
+import { SearchService, MAX_SEARCH_TOP_K, matchesFilter } from './search-service';
+import type { KeywordIndex } from './keyword-index';
+import type { EmbeddingClient } from '../embedding/embedding-client';
+import type { VectorQueryMatch, VectorStoreClient } from '../types/vector-store';
+
+function createMatch(id: string, score: number, text = 'chunk text'): VectorQueryMatch {
+  return {
+    id,
+    score,
+    payload: {
+      file_id: id.split('_')[0],
+      file_name: `${id}.md`,
+      file_path: `notes/${id}.md`,
+      chunk_index: 0,
+      chunk_hash: 'hash',
+      last_modified: '2025-11-13T00:00:00Z',
+      text,
+    },
+  };
+}
+
+function createVectorClient(): Mocked<VectorStoreClient> {
+  return {
+    initializeCollection: vi.fn(),
+    upsertVectors: vi.fn(),
+    getVectorsByFileId: vi.fn(),
+    getVectorsByIds: vi.fn().mockResolvedValue([]),
+    deleteVectorsByIds: vi.fn(),
+    deleteVectorsByFileId: vi.fn(),
+    queryVectors: vi.fn().mockResolvedValue([]),
+    getCollectionInfo: vi.fn(),
+    countVectors: vi.fn(),
+    getDimensions: vi.fn(),
+    listIndexedFileIds: vi.fn(),
+    listIndexedFiles: vi.fn(),
+    setVectorCount: vi.fn(),
+  };
+}
+
+describe('SearchService', () => {
+  let embeddingClient: { embedSingle: ReturnType<typeof vi.fn> };
+  let vectorClient: Mocked<VectorStoreClient>;
+  let service: SearchService;
+
+  beforeEach(() => {
+    embeddingClient = {
+      embedSingle: vi.fn().mockResolvedValue([0.1, 0.2, 0.3]),
+    };
+    vectorClient = createVectorClient();
+    service = new SearchService(embeddingClient as unknown as EmbeddingClient, vectorClient);
+  });
+
+  it('TEST-search-1: embeds the query and queries the vector store', async () => {
+    await service.search('weekly report', { topK: 3 });
+
+    expect(embeddingClient.embedSingle).toHaveBeenCalledWith('weekly report');
+    expect(vectorClient.queryVectors).toHaveBeenCalledWith([0.1, 0.2, 0.3], { topK: 3 });
+  });
+
+  it('uses the default topK when none is provided', async () => {
+    await service.search('weekly report');
+
+    expect(vectorClient.queryVectors).toHaveBeenCalledWith(expect.any(Array), { topK: 5 });
+  });
+
+  it('caps topK at the Vectorize metadata limit', async () => {
+    await service.search('weekly report', { topK: 100 });
+
+    expect(vectorClient.queryVectors).toHaveBeenCalledWith(expect.any(Array), {
+      topK: MAX_SEARCH_TOP_K,
+    });
+  });
+
+  it('TEST-search-2: returns hits sorted by score with file metadata', async () => {
+    vectorClient.queryVectors.mockResolvedValue([
+      createMatch('fileA_0', 0.42),
+      createMatch('fileB_0', 0.91),
+    ]);
+
+    const hits = await service.search('weekly report');
+
+    expect(hits.map(hit => hit.id)).toEqual(['fileB_0', 'fileA_0']);
+    expect(hits[0]).toMatchObject({
+      score: 0.91,
+      file_id: 'fileB',
+      file_name: 'fileB_0.md',
+      file_path: 'notes/fileB_0.md',
+      chunk_index: 0,
+      snippet: 'chunk text',
+    });
+  });
+
+  it('truncates long snippets', async () => {
+    vectorClient.queryVectors.mockResolvedValue([createMatch('fileA_0', 0.5, 'x'.repeat(1000))]);
+
+    const [hit] = await service.search('weekly report');
+
+    expect(hit.snippet).toHaveLength(300);
+  });
+
+  describe('keyword and hybrid modes', () => {
+    let keywordIndex: Mocked<KeywordIndex>;
+    let hybridService: SearchService;
+
+    beforeEach(() => {
+      keywordIndex = {
+        indexFile: vi.fn(),
+        removeFile: vi.fn(),
+        search: vi.fn().mockResolvedValue([]),
+      };
+      hybridService = new SearchService(
+        embeddingClient as unknown as EmbeddingClient,
+        vectorClient,
+        keywordIndex
+      );
+    });
+
+    it('should reject keyword modes without a keyword index', async () => {
+      expect(service.supportsKeywordSearch()).toBe(false);
+      await expect(service.search('PROJ-1', { mode: 'hybrid' })).rejects.toThrow(
+        'requires a keyword index'
+      );
+    });
+
+    it('should rank keyword hits by BM25 score without embedding the query', async () => {
+      keywordIndex.search.mockResolvedValue([
+        { id: 'fileA_0', score: 7.5 },
+        { id: 'fileB_0', score: 2.1 },
+      ]);
+      vectorClient.getVectorsByIds.mockResolvedValue([
+        { id: 'fileB_0', vector: [], payload: createMatch('fileB_0', 0).payload },
+        { id: 'fileA_0', vector: [], payload: createMatch('fileA_0', 0).payload },
+      ]);
+
+      const hits = await hybridService.search('PROJ-1', { mode: 'keyword' });
+
+      expect(embeddingClient.embedSingle).not.toHaveBeenCalled();
+      expect(hits.map(hit => [hit.id, hit.score])).toEqual([
+        ['fileA_0', 7.5],
+        ['fileB_0', 2.1],
+      ]);
+    });
+
+    it('TEST-search-5: should fuse vector and keyword rankings', async () => {
+      vectorClient.queryVectors.mockResolvedValue([
+        createMatch('fileA_0', 0.9),
+        createMatch('fileB_0', 0.8),
+      ]);
+      keywordIndex.search.mockResolvedValue([
+        { id: 'fileC_0', score: 9 },
+        { id: 'fileB_0', score: 4 },
+      ]);
+      vectorClient.getVectorsByIds.mockResolvedValue([
+        { id: 'fileC_0', vector: [], payload: createMatch('fileC_0', 0).payload },
+      ]);
+
+      const hits = await hybridService.search('PROJ-1', { mode: 'hybrid', topK: 3 });
+
+      // fileB is ranked by both retrievers, so it wins
+      expect(hits.map(hit => hit.id)).toEqual(['fileB_0', 'fileA_0', 'fileC_0']);
+      // Only the keyword-only hit needs a metadata lookup
+      expect(vectorClient.getVectorsByIds).toHaveBeenCalledWith(['fileC_0']);
+    });
+
+    it('should apply filters to keyword-only hits', async () => {
+      keywordIndex.search.mockResolvedValue([{ id: 'fileA_0', score: 3 }]);
+      vectorClient.getVectorsByIds.mockResolvedValue([
+        { id: 'fileA_0', vector: [], payload: createMatch('fileA_0', 0).payload },
+      ]);
+
+      const hits = await hybridService.search('PROJ-1', {
+        mode: 'keyword',
+        filter: { pathPrefix: 'archive/' },
+      });
+
+      expect(hits).toEqual([]);
+    });
+  });
+
+  describe('matchesFilter', () => {
+    const payload = createMatch('fileA_0', 0).payload;
+
+    it('should match everything without a filter', () => {
+      expect(matchesFilter(payload, undefined)).toBe(true);
+    });
+
+    it('should check path prefix, MIME type and modification date', () => {
+      expect(matchesFilter(payload, { pathPrefix: 'notes/' })).toBe(true);
+      expect(matchesFilter(payload, { mimeTypes: ['application/pdf'] })).toBe(false);
+      expect(matchesFilter(payload, { modifiedAfter: '2025-01-01' })).toBe(true);
+      expect(matchesFilter(payload, { modifiedAfter: '2025-12-01' })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Semantic search over the synced worknote vectors
+ *
+ * Trace:
+ *   spec_id: SPEC-search-1
+ */
+
+import { EmbeddingClient } from '../embedding/embedding-client.js';
+import {
+  VectorPoint,
+  VectorQueryFilter,
+  VectorQueryMatch,
+  VectorStoreClient,
+} from '../types/vector-store.js';
+import { KeywordIndex } from './keyword-index.js';
+import { reciprocalRankFusion } from './rank-fusion.js';
+
+export const DEFAULT_SEARCH_TOP_K = 5;
+/**
+ * Vectorize caps topK at 20 when full metadata is requested
+ */
+export const MAX_SEARCH_TOP_K = 20;
+const SNIPPET_LENGTH = 300;
+/**
+ * Keyword candidates considered before fusion / metadata lookup
+ */
+const KEYWORD_CANDIDATES = 50;
+
+export const SEARCH_MODES = ['vector', 'keyword', 'hybrid'] as const;
+export type SearchMode = (typeof SEARCH_MODES)[number];
+
+export interface SearchOptions {
+  topK?: number;
+  filter?: VectorQueryFilter;
+  /**
+   * vector (default): embedding similarity only
+   * keyword: BM25 over the inverted keyword index
+   * hybrid: reciprocal rank fusion of both rankings
+   */
+  mode?: SearchMode;
+  /**
+   * Include the full stored chunk text (not just the snippet) in each hit
+   */
+  includeText?: boolean;
+}
+
+/**
+ * Ranked search hit returned to API consumers
+ */
+export interface SearchHit {
+  id: string;
+  score: number;
+  file_id: string;
+  file_name: string;
+  file_path: string;
+  chunk_index: number;
+  last_modified: string;
+  mime_type?: string;
+  heading_path?: string;
+  source?: string;
+  snippet: string;
+  text?: string;
+}
+
+/**
+ * Check a payload against a filter on the client side
+ * Used for keyword hits, which the vector store has not filtered
+ */
+export function matchesFilter(
+  payload: VectorPoint['payload'],
+  filter: VectorQueryFilter | undefined
+): boolean {
+  if (!filter) {
+    return true;
+  }
+
+  if (filter.pathPrefix && !payload.file_path.startsWith(filter.pathPrefix)) {
+    return false;
+  }
+
+  if (
+    filter.mimeTypes &&
+    filter.mimeTypes.length > 0 &&
+    !filter.mimeTypes.includes(payload.mime_type || '')
+  ) {
+    return false;
+  }
+
+  if (
+    filter.modifiedAfter &&
+    !(Date.parse(payload.last_modified) > Date.parse(filter.modifiedAfter))
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+function toSearchHit(
+  id: string,
+  score: number,
+  payload: VectorPoint['payload'],
+  includeText = false
+): SearchHit {
+  const hit: SearchHit = {
+    id,
+    score,
+    file_id: payload.file_id,
+    file_name: payload.file_name,
+    file_path: payload.file_path,
+    chunk_index: payload.chunk_index,
+    last_modified: payload.last_modified,
+    mime_type: payload.mime_type,
+    heading_path: payload.heading_path,
+    source: payload.source,
+    snippet: (payload.text || '').substring(0, SNIPPET_LENGTH),
+  };
+
+  if (includeText) {
+    hit.text = payload.text || '';
+  }
+
+  return hit;
+}
+
+/**
+ * Embeds a natural-language query and looks up the closest chunks,
+ * optionally fused with keyword (BM25) ranking
+ */
+export class SearchService {
+  constructor(
+    private embeddingClient: EmbeddingClient,
+    private vectorClient: VectorStoreClient,
+    private keywordIndex?: KeywordIndex
+  ) {}
+
+  /**
+   * Whether keyword and hybrid modes are available
+   */
+  supportsKeywordSearch(): boolean {
+    return this.keywordIndex !== undefined;
+  }
+
+  /**
+   * Search for chunks relevant to the query, highest score first
+   */
+  async search(query: string, options: SearchOptions = {}): Promise<SearchHit[]> {
+    const topK = Math.min(options.topK ?? DEFAULT_SEARCH_TOP_K, MAX_SEARCH_TOP_K);
+    const mode = options.mode ?? 'vector';
+
+    if (mode !== 'vector' && !this.keywordIndex) {
+      throw new Error(`Search mode '${mode}' requires a keyword index`);
+    }
+
+    let hits: Array<{ id: string; score: number; payload: VectorPoint['payload'] }>;
+    if (mode === 'keyword') {
+      hits = await this.keywordSearch(query, topK, options.filter);
+    } else if (mode === 'hybrid') {
+      hits = await this.hybridSearch(query, topK, options.filter);
+    } else {
+      const matches = await this.vectorSearch(query, topK, options.filter);
+      hits = matches.sort((a, b) => b.score - a.score);
+    }
+
+    return hits.map(hit => toSearchHit(hit.id, hit.score, hit.payload, options.includeText));
+  }
+
+  private async vectorSearch(
+    query: string,
+    topK: number,
+    filter: VectorQueryFilter | undefined
+  ): Promise<VectorQueryMatch[]> {
+    const queryVector = await this.embeddingClient.embedSingle(query);
+    return this.vectorClient.queryVectors(queryVector, { topK, filter });
+  }
+
+  private async keywordSearch(
+    query: string,
+    topK: number,
+    filter: VectorQueryFilter | undefined
+  ): Promise<VectorQueryMatch[]> {
+    const keywordMatches = await this.keywordIndex!.search(query, KEYWORD_CANDIDATES);
+
+    return this.resolveHits(keywordMatches, new Map(), topK, filter);
+  }
+
+  private async hybridSearch(
+    query: string,
+    topK: number,
+    filter: VectorQueryFilter | undefined
+  ): Promise<VectorQueryMatch[]> {
+    const [vectorMatches, keywordMatches] = await Promise.all([
+      this.vectorSearch(query, MAX_SEARCH_TOP_K, filter),
+      this.keywordIndex!.search(query, KEYWORD_CANDIDATES),
+    ]);
+
+    const vectorRanking = [...vectorMatches]
+      .sort((a, b) => b.score - a.score)
+      .map(match => match.id);
+    const fused = reciprocalRankFusion([vectorRanking, keywordMatches.map(match => match.id)]);
+
+    const knownPayloads = new Map(vectorMatches.map(match => [match.id, match.payload]));
+    return this.resolveHits(fused, knownPayloads, topK, filter);
+  }
+
+  /**
+   * Attach payloads to ranked IDs, fetching unknown ones from the vector store,
+   * then apply the filter and cut to topK
+   */
+  private async resolveHits(
+    ranked: Array<{ id: string; score: number }>,
+    knownPayloads: Map<string, VectorPoint['payload']>,
+    topK: number,
+    filter: VectorQueryFilter | undefined
+  ): Promise<VectorQueryMatch[]> {
+    // Only look up as many candidates as the vector store returns metadata for
+    const candidates = ranked.slice(0, MAX_SEARCH_TOP_K);
+    const missingIds = candidates.map(c => c.id).filter(id => !knownPayloads.has(id));
+
+    if (missingIds.length > 0) {
+      const vectors = await this.vectorClient.getVectorsByIds(missingIds);
+      for (const vector of vectors) {
+        knownPayloads.set(vector.id, vector.payload);
+      }
+    }
+
+    const hits: VectorQueryMatch[] = [];
+    for (const candidate of candidates) {
+      const payload = knownPayloads.get(candidate.id);
+      if (!payload || !matchesFilter(payload, filter)) continue;
+
+      hits.push({ id: candidate.id, score: candidate.score, payload });
+      if (hits.length >= topK) break;
+    }
+
+    return hits;
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Tests for the embedding index state store
+ *
+ * Trace:
+ *   spec_id: SPEC-embedding-pipeline-1
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  EmbeddingIndexStore,
+  EmbeddingMigration,
+  migrationCoverage,
+  otherSlot,
+} from './embedding-index-store';
+import { MockKVNamespace } from '../test-utils/mock-kv-namespace';
+
+describe('EmbeddingIndexStore', () => {
+  let store: EmbeddingIndexStore;
+
+  const migration = (overrides: Partial<EmbeddingMigration> = {}): EmbeddingMigration => ({
+    target: 'secondary',
+    model: 'text-embedding-3-large',
+    dimensions: 1024,
+    startedAt: '2025-11-15T00:00:00Z',
+    filesTotal: 40,
+    filesMigrated: 10,
+    clearing: false,
+    updatedAt: '2025-11-15T00:10:00Z',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    store = new EmbeddingIndexStore(new MockKVNamespace() as unknown as KVNamespace);
+  });
+
+  it('should default to the primary index without a migration', async () => {
+    expect(await store.getState()).toEqual({
+      active: 'primary',
+      migration: null,
+      switchedAt: null,
+    });
+  });
+
+  it('TEST-embedding-pipeline-9: should track migrated files per file ID', async () => {
+    await store.markMigrated('a');
+    await store.markMigrated('b');
+    await store.unmarkMigrated('a');
+
+    expect(await store.listMigratedFileIds()).toEqual(['b']);
+
+    await store.markMigrated('c');
+
+    expect(await store.clearMigratedFiles(1)).toBe(false);
+    expect(await store.listMigratedFileIds()).toEqual(['c']);
+    expect(await store.clearMigratedFiles()).toBe(true);
+    expect(await store.listMigratedFileIds()).toEqual([]);
+  });
+
+  it('should report coverage once the file total is known', () => {
+    expect(migrationCoverage(migration())).toBe(25);
+    expect(migrationCoverage(migration({ filesTotal: null, filesMigrated: 0 }))).toBe(0);
+    expect(migrationCoverage(migration({ filesTotal: 0, filesMigrated: 0 }))).toBe(100);
+    expect(otherSlot('primary')).toBe('secondary');
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Active embedding index and the progress of an embedding model migration
+ *
+ * Two Vectorize bindings ("slots") can hold vectors of different embedding models.
+ * Searches and syncs use the active slot; while a migration runs, the other slot is
+ * filled with the new model and every file written to it is marked here. Switching
+ * is a single write of the state key, so readers see either the old or the new slot.
+ *
+ * Trace:
+ *   spec_id: SPEC-embedding-pipeline-1
+ */
+
+export type IndexSlot = 'primary' | 'secondary';
+
+export interface EmbeddingMigration {
+  target: IndexSlot;
+  model: string; // Embedding model of the target slot
+  dimensions: number;
+  startedAt: string;
+  filesTotal: number | null; // Drive files seen by the last backfill run (null before the first)
+  filesMigrated: number;
+  clearing: boolean; // Target still holds a previous migration's vectors; emptied before the backfill
+  updatedAt: string;
+}
+
+export interface EmbeddingIndexState {
+  active: IndexSlot;
+  migration: EmbeddingMigration | null;
+  switchedAt: string | null; // Last time a migration made its target active
+}
+
+const EMBEDDING_INDEX_STATE_KEY = 'embedding_index_state';
+const MIGRATED_FILE_PREFIX = 'migrated_file:';
+
+/**
+ * The slot a migration writes to
+ */
+export function otherSlot(slot: IndexSlot): IndexSlot {
+  return slot === 'primary' ? 'secondary' : 'primary';
+}
+
+/**
+ * Share of files already written to the migration target, 0-100
+ */
+export function migrationCoverage(migration: EmbeddingMigration): number {
+  if (!migration.filesTotal) {
+    return migration.filesTotal === 0 ? 100 : 0;
+  }
+  return Math.floor((migration.filesMigrated / migration.filesTotal) * 100);
+}
+
+/**
+ * KV-backed index state (one key) and migrated-file markers (one key per file)
+ */
+export class EmbeddingIndexStore {
+  constructor(private kv: KVNamespace) {}
+
+  async getState(): Promise<EmbeddingIndexState> {
+    const state = (await this.kv.get(
+      EMBEDDING_INDEX_STATE_KEY,
+      'json'
+    )) as EmbeddingIndexState | null;
+    return state || { active: 'primary', migration: null, switchedAt: null };
+  }
+
+  async saveState(state: EmbeddingIndexState): Promise<void> {
+    await this.kv.put(EMBEDDING_INDEX_STATE_KEY, JSON.stringify(state));
+  }
+
+  async markMigrated(fileId: string): Promise<void> {
+    await this.kv.put(`${MIGRATED_FILE_PREFIX}${fileId}`, new Date().toISOString());
+  }
+
+  async unmarkMigrated(fileId: string): Promise<void> {
+    await this.kv.delete(`${MIGRATED_FILE_PREFIX}${fileId}`);
+  }
+
+  async listMigratedFileIds(): Promise<string[]> {
+    const fileIds: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const listResult: KVNamespaceListResult<unknown> = await this.kv.list({
+        prefix: MIGRATED_FILE_PREFIX,
+        cursor,
+      });
+      fileIds.push(...listResult.keys.map(key => key.name.slice(MIGRATED_FILE_PREFIX.length)));
+      cursor = listResult.list_complete ? undefined : listResult.cursor;
+    } while (cursor);
+
+    return fileIds;
+  }
+
+  /**
+   * Forget up to `limit` migrated-file markers (a new migration starts from scratch)
+   * @returns Whether no markers are left
+   */
+  async clearMigratedFiles(limit = Infinity): Promise<boolean> {
+    const fileIds = await this.listMigratedFileIds();
+    await Promise.all(fileIds.slice(0, limit).map(fileId => this.unmarkMigrated(fileId)));
+    return fileIds.length <= limit;
+  }
+}
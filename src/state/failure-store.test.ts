@@ -0,0 +1,87 @@
+/**
+ * Tests for the failed file store
+ *
+ * Trace:
+ *   spec_id: SPEC-error-handling-1
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FailureStore, MAX_AUTO_RETRY_ATTEMPTS, failureRetryDelayMs } from './failure-store';
+import { DriveError } from '../errors/index';
+import type { DriveFileMetadata } from '../drive/drive-client';
+import { MockKVNamespace } from '../test-utils/mock-kv-namespace';
+
+const file = (id: string): DriveFileMetadata => ({
+  id,
+  name: `${id}.md`,
+  path: `${id}.md`,
+  mimeType: 'text/markdown',
+  modifiedTime: '2025-11-14T00:00:00Z',
+  source: 'default',
+});
+
+describe('FailureStore', () => {
+  let kv: MockKVNamespace;
+  let store: FailureStore;
+  const now = new Date('2025-11-15T00:00:00Z');
+
+  beforeEach(() => {
+    kv = new MockKVNamespace();
+    store = new FailureStore(kv as unknown as KVNamespace);
+  });
+
+  it('TEST-error-handling-8: should record failures with error code, attempts and backoff', async () => {
+    await store.recordFailure(file('a'), new DriveError('Download failed'), now);
+    const later = new Date(now.getTime() + 60_000);
+    const failure = await store.recordFailure(file('a'), new Error('Timeout'), later);
+
+    expect(failure).toMatchObject({
+      fileId: 'a',
+      errorCode: 'Error',
+      errorMessage: 'Timeout',
+      attempts: 2,
+      firstFailedAt: now.toISOString(),
+      lastAttemptAt: later.toISOString(),
+      nextRetryAt: new Date(later.getTime() + failureRetryDelayMs(2)).toISOString(),
+    });
+    expect((await store.getFailure('a'))?.file.source).toBe('default');
+    expect((await store.recordFailure(file('b'), new DriveError('x'), now)).errorCode).toBe(
+      'DRIVE_ERROR'
+    );
+  });
+
+  it('should stop scheduling automatic retries after the maximum attempts', async () => {
+    let failure;
+    for (let i = 0; i < MAX_AUTO_RETRY_ATTEMPTS; i++) {
+      failure = await store.recordFailure(file('a'), new Error('Still failing'), now);
+    }
+
+    expect(failure?.nextRetryAt).toBeNull();
+    expect(await store.getDueFailures(new Date('2030-01-01T00:00:00Z'))).toEqual([]);
+  });
+
+  it('should return only failures whose backoff has passed', async () => {
+    await store.recordFailure(file('a'), new Error('boom'), now);
+
+    expect(await store.getDueFailures(now)).toEqual([]);
+    const due = await store.getDueFailures(new Date(now.getTime() + failureRetryDelayMs(1)));
+    expect(due.map(failure => failure.fileId)).toEqual(['a']);
+  });
+
+  it('should clear recorded failures and skip KV for unknown files', async () => {
+    await store.recordFailure(file('a'), new Error('boom'), now);
+
+    expect(await store.clearFailure('a')).toBe(true);
+    expect(await store.clearFailure('never-failed')).toBe(false);
+    expect(await store.listFailures()).toEqual([]);
+  });
+
+  it('should list failures recorded by other instances, most recent first', async () => {
+    await store.recordFailure(file('old'), new Error('boom'), now);
+    await store.recordFailure(file('new'), new Error('boom'), new Date('2025-11-16T00:00:00Z'));
+
+    const other = new FailureStore(kv as unknown as KVNamespace);
+
+    expect((await other.listFailures()).map(failure => failure.fileId)).toEqual(['new', 'old']);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Dead-letter store for files that failed to sync
+ *
+ * A file whose processing fails is recorded with its error and attempt count,
+ * retried by later runs once its backoff has passed, and removed as soon as it
+ * syncs (or is deleted from Drive).
+ *
+ * Trace:
+ *   spec_id: SPEC-error-handling-1
+ */
+
+import type { DriveFileMetadata } from '../drive/drive-client.js';
+import { SyncError } from '../errors/index.js';
+
+/**
+ * Failed file as recorded in the store
+ */
+export interface FailedFile {
+  fileId: string;
+  file: DriveFileMetadata; // Metadata needed to retry without a Drive change
+  errorCode: string;
+  errorMessage: string;
+  attempts: number;
+  firstFailedAt: string;
+  lastAttemptAt: string;
+  nextRetryAt: string | null; // null once automatic retries are exhausted
+}
+
+const FAILURE_PREFIX = 'failed_file:';
+const RETRY_BASE_DELAY_MS = 1000 * 60 * 30; // 30 minutes
+const RETRY_MAX_DELAY_MS = 1000 * 60 * 60 * 24; // 1 day
+export const MAX_AUTO_RETRY_ATTEMPTS = 5;
+
+/**
+ * Delay before the next automatic retry after the given number of attempts
+ */
+export function failureRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * KV-backed store of failed files (one key per file)
+ */
+export class FailureStore {
+  private knownIds: Promise<Set<string>> | null = null;
+
+  constructor(private kv: KVNamespace) {}
+
+  /**
+   * Record a failed attempt and schedule the next automatic retry
+   */
+  async recordFailure(
+    file: DriveFileMetadata,
+    error: Error,
+    now: Date = new Date()
+  ): Promise<FailedFile> {
+    const previous = await this.getFailure(file.id);
+    const attempts = (previous?.attempts || 0) + 1;
+
+    const failure: FailedFile = {
+      fileId: file.id,
+      file,
+      errorCode: error instanceof SyncError ? error.code : error.name || 'Error',
+      errorMessage: error.message,
+      attempts,
+      firstFailedAt: previous?.firstFailedAt || now.toISOString(),
+      lastAttemptAt: now.toISOString(),
+      nextRetryAt:
+        attempts < MAX_AUTO_RETRY_ATTEMPTS
+          ? new Date(now.getTime() + failureRetryDelayMs(attempts)).toISOString()
+          : null,
+    };
+
+    await this.kv.put(`${FAILURE_PREFIX}${file.id}`, JSON.stringify(failure));
+    (await this.ids()).add(file.id);
+    return failure;
+  }
+
+  /**
+   * Remove a file from the store (synced or deleted)
+   * Only touches KV when the file is actually recorded
+   */
+  async clearFailure(fileId: string): Promise<boolean> {
+    const ids = await this.ids();
+    if (!ids.has(fileId)) {
+      return false;
+    }
+
+    await this.kv.delete(`${FAILURE_PREFIX}${fileId}`);
+    ids.delete(fileId);
+    return true;
+  }
+
+  async getFailure(fileId: string): Promise<FailedFile | null> {
+    return (await this.kv.get(`${FAILURE_PREFIX}${fileId}`, 'json')) as FailedFile | null;
+  }
+
+  /**
+   * All recorded failures, most recent attempt first
+   */
+  async listFailures(): Promise<FailedFile[]> {
+    const ids = [...(await this.ids())];
+    const failures = await Promise.all(ids.map(id => this.getFailure(id)));
+
+    return failures
+      .filter((failure): failure is FailedFile => failure !== null)
+      .sort((a, b) => b.lastAttemptAt.localeCompare(a.lastAttemptAt));
+  }
+
+  /**
+   * Failures whose backoff has passed
+   */
+  async getDueFailures(now: Date = new Date()): Promise<FailedFile[]> {
+    return (await this.listFailures()).filter(
+      failure => failure.nextRetryAt !== null && Date.parse(failure.nextRetryAt) <= now.getTime()
+    );
+  }
+
+  /**
+   * Recorded file IDs, listed from KV once per instance
+   */
+  private ids(): Promise<Set<string>> {
+    if (!this.knownIds) {
+      this.knownIds = (async () => {
+        const ids = new Set<string>();
+        let cursor: string | undefined;
+        do {
+          const listResult: KVNamespaceListResult<unknown> = await this.kv.list({
+            prefix: FAILURE_PREFIX,
+            cursor,
+          });
+          listResult.keys.forEach(key => ids.add(key.name.slice(FAILURE_PREFIX.length)));
+          cursor = listResult.list_complete ? undefined : listResult.cursor;
+        } while (cursor);
+        return ids;
+      })();
+    }
+
+    return this.knownIds;
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Tests for the sync job store
+ *
+ * Trace:
+ *   spec_id: SPEC-admin-api-1
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SyncJobStore } from './job-store';
+import { MockKVNamespace } from '../test-utils/mock-kv-namespace';
+
+describe('SyncJobStore', () => {
+  let kv: MockKVNamespace;
+  let jobs: SyncJobStore;
+
+  beforeEach(() => {
+    kv = new MockKVNamespace();
+    jobs = new SyncJobStore(kv as unknown as KVNamespace);
+  });
+
+  it('should create queued jobs that expire after a week', async () => {
+    const job = await jobs.create('resync');
+
+    expect(job).toMatchObject({
+      type: 'resync',
+      status: 'queued',
+      phase: 'queued',
+      filesDone: 0,
+      filesTotal: null,
+      errors: [],
+      finishedAt: null,
+    });
+    expect(await jobs.get(job.id)).toEqual(job);
+    expect(kv.ttls.get(`sync_job:${job.id}`)).toBe(60 * 60 * 24 * 7);
+  });
+
+  it('TEST-admin-api-7: should merge progress updates and stamp finishedAt', async () => {
+    const job = await jobs.create();
+
+    const running = await jobs.update(job.id, {
+      status: 'running',
+      phase: 'processing',
+      filesDone: 10,
+      filesTotal: 40,
+    });
+    expect(running).toMatchObject({ filesDone: 10, filesTotal: 40, finishedAt: null });
+
+    const completed = await jobs.update(job.id, { status: 'completed', phase: 'done' });
+    expect(completed).toMatchObject({ filesDone: 10, filesTotal: 40, phase: 'done' });
+    expect(completed?.finishedAt).toBe(completed?.updatedAt);
+  });
+
+  it('should keep only the most recent errors', async () => {
+    const job = await jobs.create();
+    const errors = Array.from({ length: 60 }, (_, i) => `error ${i}`);
+
+    const updated = await jobs.update(job.id, { errors });
+
+    expect(updated?.errors).toHaveLength(50);
+    expect(updated?.errors[49]).toBe('error 59');
+  });
+
+  it('should return null when updating an unknown job', async () => {
+    expect(await jobs.update('missing', { status: 'failed' })).toBeNull();
+    expect(await jobs.get('missing')).toBeNull();
+  });
+
+  it('should hold the queued resync until it is started', async () => {
+    const job = await jobs.create('resync');
+
+    await jobs.queueResync(job.id);
+    expect(await jobs.getQueuedResync()).toBe(job.id);
+
+    await jobs.clearQueuedResync();
+    expect(await jobs.getQueuedResync()).toBeNull();
+  });
+});
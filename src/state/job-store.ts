@@ -0,0 +1,123 @@
+/**
+ * Sync job records for background admin operations
+ *
+ * A manual resync returns a job ID right away and is queued for the next
+ * continuation cron tick, which starts it under the sync lock; the cron handler
+ * and the orchestrator write the job's phase and progress here so the dashboard
+ * can poll GET /admin/jobs/{id}.
+ *
+ * Trace:
+ *   spec_id: SPEC-admin-api-1
+ */
+
+import type { SyncResult } from '../sync/sync-orchestrator.js';
+
+export type SyncJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+/**
+ * queued → listing → processing → (waiting → processing …) → done
+ * "waiting" means the rest of a checkpointed full sync continues on scheduled runs
+ */
+export type SyncJobPhase = 'queued' | 'listing' | 'processing' | 'waiting' | 'done';
+
+export interface SyncJob {
+  id: string;
+  type: 'resync';
+  status: SyncJobStatus;
+  phase: SyncJobPhase;
+  filesDone: number;
+  filesTotal: number | null; // Unknown until the file list is snapshotted
+  errors: string[];
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+  result?: SyncResult;
+  error?: string; // Set when the job failed
+}
+
+export type SyncJobUpdate = Partial<
+  Pick<SyncJob, 'status' | 'phase' | 'filesDone' | 'filesTotal' | 'errors' | 'result' | 'error'>
+>;
+
+const JOB_PREFIX = 'sync_job:';
+const QUEUED_RESYNC_KEY = 'sync_job_queued_resync';
+const JOB_TTL_SECONDS = 60 * 60 * 24 * 7; // Keep finished jobs for a week
+const MAX_JOB_ERRORS = 50;
+
+/**
+ * KV-backed store of sync jobs (one key per job, expiring after a week)
+ */
+export class SyncJobStore {
+  constructor(private kv: KVNamespace) {}
+
+  async create(type: SyncJob['type'] = 'resync'): Promise<SyncJob> {
+    const now = new Date().toISOString();
+    const job: SyncJob = {
+      id: crypto.randomUUID(),
+      type,
+      status: 'queued',
+      phase: 'queued',
+      filesDone: 0,
+      filesTotal: null,
+      errors: [],
+      createdAt: now,
+      updatedAt: now,
+      finishedAt: null,
+    };
+
+    await this.save(job);
+    return job;
+  }
+
+  async get(id: string): Promise<SyncJob | null> {
+    return (await this.kv.get(`${JOB_PREFIX}${id}`, 'json')) as SyncJob | null;
+  }
+
+  /**
+   * Merge an update into a job; finishing statuses set finishedAt
+   * Returns null when the job does not exist (expired or unknown ID)
+   */
+  async update(id: string, update: SyncJobUpdate): Promise<SyncJob | null> {
+    const job = await this.get(id);
+    if (!job) {
+      return null;
+    }
+
+    const next: SyncJob = {
+      ...job,
+      ...update,
+      errors: (update.errors || job.errors).slice(-MAX_JOB_ERRORS),
+      updatedAt: new Date().toISOString(),
+    };
+    if (update.status === 'completed' || update.status === 'failed') {
+      next.finishedAt = next.updatedAt;
+    }
+
+    await this.save(next);
+    return next;
+  }
+
+  /**
+   * Queue a resync job for the next scheduled run to start
+   */
+  async queueResync(id: string): Promise<void> {
+    await this.kv.put(QUEUED_RESYNC_KEY, id);
+  }
+
+  /**
+   * ID of the resync job waiting to be started, if any
+   */
+  async getQueuedResync(): Promise<string | null> {
+    return this.kv.get(QUEUED_RESYNC_KEY);
+  }
+
+  async clearQueuedResync(): Promise<void> {
+    await this.kv.delete(QUEUED_RESYNC_KEY);
+  }
+
+  private async save(job: SyncJob): Promise<void> {
+    await this.kv.put(`${JOB_PREFIX}${job.id}`, JSON.stringify(job), {
+      expirationTtl: JOB_TTL_SECONDS,
+    });
+  }
+}
@@ -7,42 +7,8 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { KVStateManager, SyncState } from './kv-state-manager';
-
-// Mock KVNamespace
-class MockKVNamespace {
-  private store = new Map<string, string>();
-
-  async get(key: string, type?: 'text' | 'json'): Promise<any> {
-    const value = this.store.get(key);
-    if (!value) return null;
-    if (type === 'json') return JSON.parse(value);
-    return value;
-  }
-
-  async put(key: string, value: string, _options?: any): Promise<void> {
-    this.store.set(key, value);
-  }
-
-  async delete(key: string): Promise<void> {
-    this.store.delete(key);
-  }
-
-  async list(options?: { prefix?: string }): Promise<any> {
-    const keys = Array.from(this.store.keys())
-      .filter(key => !options?.prefix || key.startsWith(options.prefix))
-      .map(name => ({ name }));
-    return { keys };
-  }
-
-  async getWithMetadata(): Promise<any> {
-    return { value: null, metadata: null };
-  }
-
-  clear(): void {
-    this.store.clear();
-  }
-}
+import { FullSyncCursor, KVStateManager, SyncState } from './kv-state-manager';
+import { MockKVNamespace } from '../test-utils/mock-kv-namespace';
 
 describe('KVStateManager', () => {
   let kvNamespace: MockKVNamespace;
@@ -101,6 +67,33 @@ describe('KVStateManager', () => {
     });
   });
 
+  describe('Per-source state', () => {
+    it('TEST-drive-integration-9: should keep a start page token per source', async () => {
+      await stateManager.updateStartPageToken('team-token', 'team');
+      await stateManager.updateStartPageToken('notes-token', 'notes');
+      await stateManager.updateSourceStats('team', 3, 1, 'Export failed');
+
+      const team = await stateManager.getSourceState('team');
+      expect(team.startPageToken).toBe('team-token');
+      expect(team.filesProcessed).toBe(3);
+      expect(team.lastError).toBe('Export failed');
+      expect((await stateManager.getSourceState('notes')).startPageToken).toBe('notes-token');
+      expect((await stateManager.getState()).startPageToken).toBeNull();
+    });
+
+    it('should read the top-level token as the default source', async () => {
+      await stateManager.setState({
+        startPageToken: 'legacy-token',
+        lastSyncTime: '2025-11-12T00:00:00Z',
+        filesProcessed: 5,
+        errorCount: 0,
+      });
+
+      expect((await stateManager.getSourceState('default')).startPageToken).toBe('legacy-token');
+      expect((await stateManager.getSourceState('team')).startPageToken).toBeNull();
+    });
+  });
+
   describe('TEST-state-management-3: Load startPageToken on subsequent runs', () => {
     it('should load previously saved state', async () => {
       // Save state
@@ -148,34 +141,61 @@ describe('KVStateManager', () => {
       expect(state.filesProcessed).toBe(0);
       expect(state.errorCount).toBe(0);
     });
-  });
 
-  describe('Lock management', () => {
-    it('should acquire lock when not locked', async () => {
-      const acquired = await stateManager.acquireLock();
-      expect(acquired).toBe(true);
-    });
+    it('should keep the path rules fingerprint', async () => {
+      await stateManager.updateStartPageToken('token789', 'team');
+      await stateManager.updatePathRulesFingerprint('{"include":[],"exclude":["Archive/**"]}');
 
-    it('should not acquire lock when already locked', async () => {
-      await stateManager.acquireLock();
-      const acquired = await stateManager.acquireLock();
-      expect(acquired).toBe(false);
+      await stateManager.clearState();
+
+      const state = await stateManager.getState();
+      expect(state.pathRulesFingerprint).toBe('{"include":[],"exclude":["Archive/**"]}');
+      expect(state.sources).toBeUndefined();
+      expect((await stateManager.getSourceState('team')).startPageToken).toBeNull();
     });
+  });
 
-    it('should release lock', async () => {
-      await stateManager.acquireLock();
-      await stateManager.releaseLock();
-      const acquired = await stateManager.acquireLock();
-      expect(acquired).toBe(true);
+  describe('TEST-state-management-6: Full sync checkpoint', () => {
+    const cursor: FullSyncCursor = {
+      startedAt: '2025-11-13T00:00:00Z',
+      updatedAt: '2025-11-13T00:00:00Z',
+      sourceLabels: ['default'],
+      startPageTokens: { default: 'token-1' },
+      totalFiles: 2,
+      offset: 0,
+      filesProcessed: 0,
+      vectorsUpserted: 0,
+      errors: [],
+      elapsedMs: 0,
+    };
+    const files = [
+      {
+        id: 'file1',
+        name: 'a.md',
+        path: 'a.md',
+        mimeType: 'text/markdown',
+        modifiedTime: '2025-11-13T00:00:00Z',
+      },
+    ];
+
+    it('should store the file snapshot and progress of a full sync', async () => {
+      await stateManager.startFullSync(cursor, files);
+      await stateManager.updateFullSyncCursor({ ...cursor, offset: 1, filesProcessed: 1 });
+
+      expect(await stateManager.getFullSyncFiles()).toEqual(files);
+      const saved = await stateManager.getFullSyncCursor();
+      expect(saved?.offset).toBe(1);
+      expect(saved?.filesProcessed).toBe(1);
+      expect(saved?.updatedAt).not.toBe(cursor.updatedAt);
     });
 
-    it('should acquire lock after expiration time', async () => {
-      // Mock old lock time (more than 30 minutes ago)
-      const oldTime = Date.now() - 31 * 60 * 1000;
-      await kvNamespace.put('sync_lock', oldTime.toString());
+    it('should drop the checkpoint when state is cleared', async () => {
+      await stateManager.startFullSync(cursor, files);
 
-      const acquired = await stateManager.acquireLock();
-      expect(acquired).toBe(true);
+      await stateManager.clearState();
+
+      expect(await stateManager.getFullSyncCursor()).toBeNull();
+      expect(await stateManager.getFullSyncFiles()).toBeNull();
     });
   });
 
@@ -196,28 +216,6 @@ describe('KVStateManager', () => {
     });
   });
 
-  describe('isLocked (TASK-028)', () => {
-    it('should return false when no lock exists', async () => {
-      const locked = await stateManager.isLocked();
-      expect(locked).toBe(false);
-    });
-
-    it('should return true when lock is active', async () => {
-      await stateManager.acquireLock();
-      const locked = await stateManager.isLocked();
-      expect(locked).toBe(true);
-    });
-
-    it('should return false when lock is expired', async () => {
-      // Set expired lock (31 minutes ago)
-      const oldTime = Date.now() - 31 * 60 * 1000;
-      await kvNamespace.put('sync_lock', oldTime.toString());
-
-      const locked = await stateManager.isLocked();
-      expect(locked).toBe(false);
-    });
-  });
-
   describe('updateSyncDuration (TASK-028)', () => {
     it('should update lastSyncDuration in state', async () => {
       await stateManager.setState({
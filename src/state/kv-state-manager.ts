@@ -6,12 +6,28 @@
  *   task_id: TASK-008, TASK-028
  */
 
+import type { DriveFileMetadata } from '../drive/drive-client.js';
+import { DEFAULT_SOURCE_LABEL } from '../drive/sync-source.js';
+
+/**
+ * Sync state of a single sync source (folder or Shared Drive)
+ */
+export interface SourceSyncState {
+  startPageToken: string | null;
+  lastSyncTime: string | null;
+  filesProcessed: number;
+  errorCount: number;
+  lastError?: string;
+}
+
 export interface SyncState {
   startPageToken: string | null;
   lastSyncTime: string | null;
   filesProcessed: number;
   errorCount: number;
   lastSyncDuration?: number; // Duration in milliseconds
+  pathRulesFingerprint?: string; // Include/exclude rules the index was last cleaned for
+  sources?: Record<string, SourceSyncState>; // Keyed by sync source label
 }
 
 /**
@@ -24,12 +40,37 @@ export interface SyncHistoryEntry {
   vectorsDeleted: number;
   duration: number;
   errors: string[];
+  /**
+   * Chunk embeddings found in (hits) or missing from the embedding cache, when one is
+   * configured; hitRate is hits / lookups, 0-1
+   */
+  embeddingCache?: { hits: number; misses: number; hitRate: number };
+}
+
+/**
+ * Checkpoint of a full sync that spans several invocations
+ * The file list snapshot is stored separately, so checkpoints stay small
+ */
+export interface FullSyncCursor {
+  startedAt: string;
+  updatedAt: string;
+  sourceLabels: string[]; // Sources the snapshot was taken for
+  startPageTokens: Record<string, string>; // Taken before listing, saved when the run completes
+  totalFiles: number;
+  offset: number; // Snapshot files already processed
+  filesProcessed: number;
+  vectorsUpserted: number;
+  filesQueued?: number; // Files handed to the file queue instead of processed in place
+  errors: string[];
+  elapsedMs: number; // Processing time summed over invocations
+  embeddingCache?: { hits: number; misses: number }; // Cache lookups summed over invocations
+  jobId?: string; // Background sync job that reports this run's progress
 }
 
 const STATE_KEY = 'drive_start_page_token';
-const SYNC_LOCK_KEY = 'sync_lock';
+const FULL_SYNC_CURSOR_KEY = 'full_sync_cursor';
+const FULL_SYNC_FILES_KEY = 'full_sync_files';
 const SYNC_HISTORY_PREFIX = 'sync_history_';
-const LOCK_DURATION_MS = 1000 * 60 * 30; // 30 minutes
 const MAX_HISTORY_ENTRIES = 30; // Rolling window size
 
 /**
@@ -64,79 +105,156 @@ export class KVStateManager {
   }
 
   /**
-   * Update only the startPageToken
+   * Update the startPageToken of a sync source
+   * The default source also keeps the top-level token written by earlier versions
    */
-  async updateStartPageToken(token: string): Promise<void> {
+  async updateStartPageToken(
+    token: string,
+    sourceLabel: string = DEFAULT_SOURCE_LABEL
+  ): Promise<void> {
     const currentState = await this.getState();
-    currentState.startPageToken = token;
-    currentState.lastSyncTime = new Date().toISOString();
+    const now = new Date().toISOString();
+
+    if (sourceLabel === DEFAULT_SOURCE_LABEL) {
+      currentState.startPageToken = token;
+    }
+    currentState.lastSyncTime = now;
+    currentState.sources = {
+      ...currentState.sources,
+      [sourceLabel]: {
+        ...this.toSourceState(currentState, sourceLabel),
+        startPageToken: token,
+        lastSyncTime: now,
+      },
+    };
     await this.setState(currentState);
   }
 
   /**
-   * Clear all state (for full resync)
+   * Get the sync state of a source
+   * Falls back to the top-level token for the default source (state written before sources)
    */
-  async clearState(): Promise<void> {
-    await this.kv.delete(STATE_KEY);
+  async getSourceState(sourceLabel: string): Promise<SourceSyncState> {
+    return this.toSourceState(await this.getState(), sourceLabel);
   }
 
   /**
-   * Acquire lock to prevent concurrent syncs
-   * Returns true if lock acquired, false if already locked
+   * Record the outcome of syncing a source
    */
-  async acquireLock(): Promise<boolean> {
-    const existingLock = await this.kv.get(SYNC_LOCK_KEY);
-
-    if (existingLock) {
-      const lockTime = parseInt(existingLock, 10);
-      const now = Date.now();
+  async updateSourceStats(
+    sourceLabel: string,
+    filesProcessed: number,
+    errorCount: number,
+    lastError?: string
+  ): Promise<void> {
+    const currentState = await this.getState();
+    const sourceState = this.toSourceState(currentState, sourceLabel);
+
+    currentState.sources = {
+      ...currentState.sources,
+      [sourceLabel]: {
+        ...sourceState,
+        filesProcessed: sourceState.filesProcessed + filesProcessed,
+        errorCount: sourceState.errorCount + errorCount,
+        lastError,
+      },
+    };
+    await this.setState(currentState);
+  }
 
-      // Check if lock is still valid
-      if (now - lockTime < LOCK_DURATION_MS) {
-        return false;
-      }
+  private toSourceState(state: SyncState, sourceLabel: string): SourceSyncState {
+    const sourceState = state.sources?.[sourceLabel];
+    if (sourceState) {
+      return sourceState;
     }
 
-    // Acquire lock
-    await this.kv.put(SYNC_LOCK_KEY, Date.now().toString(), {
-      expirationTtl: Math.floor(LOCK_DURATION_MS / 1000),
-    });
+    const isLegacyDefault = sourceLabel === DEFAULT_SOURCE_LABEL && !!state.startPageToken;
+    return {
+      startPageToken: isLegacyDefault ? state.startPageToken : null,
+      lastSyncTime: isLegacyDefault ? state.lastSyncTime : null,
+      filesProcessed: 0,
+      errorCount: 0,
+    };
+  }
+
+  /**
+   * Record the include/exclude rules that excluded files were last removed for
+   */
+  async updatePathRulesFingerprint(fingerprint: string): Promise<void> {
+    const currentState = await this.getState();
+    currentState.pathRulesFingerprint = fingerprint;
+    await this.setState(currentState);
+  }
 
-    return true;
+  /**
+   * Clear all state (for full resync), including an unfinished full sync
+   * The path rules fingerprint is kept: it describes the index, which a resync does not
+   * empty, and losing it would rescan every source for excluded files after each resync.
+   */
+  async clearState(): Promise<void> {
+    const { pathRulesFingerprint } = await this.getState();
+    if (pathRulesFingerprint === undefined) {
+      await this.kv.delete(STATE_KEY);
+    } else {
+      await this.setState({
+        startPageToken: null,
+        lastSyncTime: null,
+        filesProcessed: 0,
+        errorCount: 0,
+        pathRulesFingerprint,
+      });
+    }
+    await this.clearFullSyncCursor();
   }
 
   /**
-   * Release sync lock
+   * Get the checkpoint of an unfinished full sync
    */
-  async releaseLock(): Promise<void> {
-    await this.kv.delete(SYNC_LOCK_KEY);
+  async getFullSyncCursor(): Promise<FullSyncCursor | null> {
+    return (await this.kv.get(FULL_SYNC_CURSOR_KEY, 'json')) as FullSyncCursor | null;
   }
 
   /**
-   * Update sync statistics
+   * Get the file list snapshot of an unfinished full sync
    */
-  async updateStats(filesProcessed: number, errorCount: number): Promise<void> {
-    const currentState = await this.getState();
-    currentState.filesProcessed += filesProcessed;
-    currentState.errorCount += errorCount;
-    await this.setState(currentState);
+  async getFullSyncFiles(): Promise<DriveFileMetadata[] | null> {
+    return (await this.kv.get(FULL_SYNC_FILES_KEY, 'json')) as DriveFileMetadata[] | null;
   }
 
   /**
-   * Check if sync is currently locked (in progress)
+   * Begin a checkpointed full sync over a file list snapshot
    */
-  async isLocked(): Promise<boolean> {
-    const existingLock = await this.kv.get(SYNC_LOCK_KEY);
+  async startFullSync(cursor: FullSyncCursor, files: DriveFileMetadata[]): Promise<void> {
+    await this.kv.put(FULL_SYNC_FILES_KEY, JSON.stringify(files));
+    await this.kv.put(FULL_SYNC_CURSOR_KEY, JSON.stringify(cursor));
+  }
 
-    if (!existingLock) {
-      return false;
-    }
+  /**
+   * Save the progress of the running full sync
+   */
+  async updateFullSyncCursor(cursor: FullSyncCursor): Promise<void> {
+    await this.kv.put(
+      FULL_SYNC_CURSOR_KEY,
+      JSON.stringify({ ...cursor, updatedAt: new Date().toISOString() })
+    );
+  }
 
-    const lockTime = parseInt(existingLock, 10);
-    const now = Date.now();
+  /**
+   * Drop the full sync checkpoint (run completed or abandoned)
+   */
+  async clearFullSyncCursor(): Promise<void> {
+    await this.kv.delete(FULL_SYNC_CURSOR_KEY);
+    await this.kv.delete(FULL_SYNC_FILES_KEY);
+  }
 
-    // Check if lock is still valid
-    return now - lockTime < LOCK_DURATION_MS;
+  /**
+   * Update sync statistics
+   */
+  async updateStats(filesProcessed: number, errorCount: number): Promise<void> {
+    const currentState = await this.getState();
+    currentState.filesProcessed += filesProcessed;
+    currentState.errorCount += errorCount;
+    await this.setState(currentState);
   }
 
   /**
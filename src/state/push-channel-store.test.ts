@@ -0,0 +1,84 @@
+/**
+ * Tests for the push channel store
+ *
+ * Trace:
+ *   spec_id: SPEC-scheduling-1
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PushChannel, PushChannelStore } from './push-channel-store';
+import { MockKVNamespace } from '../test-utils/mock-kv-namespace';
+
+describe('PushChannelStore', () => {
+  let kv: MockKVNamespace;
+  let store: PushChannelStore;
+  const now = new Date('2025-11-15T00:00:00Z');
+  const week = 1000 * 60 * 60 * 24 * 7;
+
+  const channel = (overrides: Partial<PushChannel> = {}): PushChannel => ({
+    source: 'default',
+    channelId: 'channel-1',
+    resourceId: 'resource-1',
+    token: 'secret-token',
+    address: 'https://work.example.com/webhooks/drive',
+    expiresAt: new Date(now.getTime() + week).toISOString(),
+    createdAt: now.toISOString(),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+    kv = new MockKVNamespace();
+    store = new PushChannelStore(kv as unknown as KVNamespace);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should save and look up channels per source', async () => {
+    await store.saveChannel(channel());
+    await store.saveChannel(channel({ source: 'team', channelId: 'channel-2' }));
+
+    expect(await store.getChannel('default')).toEqual(channel());
+    expect((await store.getChannel('team'))?.channelId).toBe('channel-2');
+    expect(await store.getChannel('unknown')).toBeNull();
+  });
+
+  it('should replace and delete a source channel', async () => {
+    await store.saveChannel(channel());
+    await store.saveChannel(channel({ channelId: 'channel-3' }));
+    expect((await store.getChannel('default'))?.channelId).toBe('channel-3');
+
+    await store.deleteChannel('default');
+
+    expect(await store.getChannel('default')).toBeNull();
+  });
+
+  it('should forget a channel once it expires', async () => {
+    await store.saveChannel(channel());
+
+    vi.setSystemTime(now.getTime() + week - 1000);
+    expect(await store.getChannel('default')).not.toBeNull();
+
+    vi.setSystemTime(now.getTime() + week);
+    expect(await store.getChannel('default')).toBeNull();
+  });
+
+  it('should keep an almost expired channel for the KV minimum TTL', async () => {
+    const putSpy = vi.spyOn(kv, 'put');
+
+    await store.saveChannel(channel({ expiresAt: new Date(now.getTime() + 5000).toISOString() }));
+
+    expect(putSpy.mock.calls[0][2]).toEqual({ expirationTtl: 60 });
+  });
+
+  it('should default to no pending sync and persist the pending state', async () => {
+    expect(await store.getSyncState()).toEqual({ pendingSince: null });
+
+    await store.saveSyncState({ pendingSince: now.toISOString() });
+
+    expect(await store.getSyncState()).toEqual({ pendingSince: now.toISOString() });
+  });
+});
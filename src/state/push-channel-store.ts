@@ -0,0 +1,62 @@
+/**
+ * Drive push notification channels and webhook-triggered sync state
+ *
+ * Each sync source has at most one changes.watch channel; its token is what the
+ * webhook checks incoming notifications against. The sync state records whether a
+ * notification is still owed a sync, which the continuation cron tick runs.
+ *
+ * Trace:
+ *   spec_id: SPEC-scheduling-1
+ */
+
+/**
+ * Registered changes.watch channel of a sync source
+ */
+export interface PushChannel {
+  source: string;
+  channelId: string;
+  resourceId: string; // Needed to stop the channel
+  token: string; // Echoed by Drive in X-Goog-Channel-Token
+  address: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface PushSyncState {
+  pendingSince: string | null; // First notification not yet covered by a sync
+}
+
+const CHANNEL_PREFIX = 'push_channel:';
+const PUSH_SYNC_STATE_KEY = 'push_sync_state';
+
+/**
+ * KV-backed store of push channels (one key per source) and the push sync state
+ * Channel keys expire with the channel, so a lapsed channel reads as missing
+ */
+export class PushChannelStore {
+  constructor(private kv: KVNamespace) {}
+
+  async getChannel(source: string): Promise<PushChannel | null> {
+    return (await this.kv.get(`${CHANNEL_PREFIX}${source}`, 'json')) as PushChannel | null;
+  }
+
+  async saveChannel(channel: PushChannel): Promise<void> {
+    await this.kv.put(`${CHANNEL_PREFIX}${channel.source}`, JSON.stringify(channel), {
+      // KV's minimum TTL is 60 seconds
+      expirationTtl: Math.max(60, Math.ceil((Date.parse(channel.expiresAt) - Date.now()) / 1000)),
+    });
+  }
+
+  async deleteChannel(source: string): Promise<void> {
+    await this.kv.delete(`${CHANNEL_PREFIX}${source}`);
+  }
+
+  async getSyncState(): Promise<PushSyncState> {
+    const state = (await this.kv.get(PUSH_SYNC_STATE_KEY, 'json')) as PushSyncState | null;
+    return state || { pendingSince: null };
+  }
+
+  async saveSyncState(state: PushSyncState): Promise<void> {
+    await this.kv.put(PUSH_SYNC_STATE_KEY, JSON.stringify(state));
+  }
+}
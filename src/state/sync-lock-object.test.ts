@@ -0,0 +1,137 @@
+/**
+ * Tests for the sync lock Durable Object and its client
+ *
+ * Trace:
+ *   spec_id: SPEC-state-management-1
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SyncLockObject } from './sync-lock-object';
+import { DurableObjectSyncLock } from './sync-lock';
+
+class MockDurableObjectStorage {
+  store = new Map<string, unknown>();
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return this.store.get(key) as T | undefined;
+  }
+
+  async put(key: string, value: unknown): Promise<void> {
+    this.store.set(key, structuredClone(value));
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.store.delete(key);
+  }
+}
+
+/**
+ * State whose blockConcurrencyWhile runs callbacks one at a time, like the runtime
+ */
+function mockState(storage: MockDurableObjectStorage): DurableObjectState {
+  let queue: Promise<unknown> = Promise.resolve();
+  return {
+    storage,
+    blockConcurrencyWhile: <T>(callback: () => Promise<T>): Promise<T> => {
+      const run = queue.then(callback);
+      queue = run.catch(() => undefined);
+      return run;
+    },
+  } as unknown as DurableObjectState;
+}
+
+/**
+ * Namespace whose stubs all route to one SyncLockObject instance
+ */
+function mockNamespace(object: SyncLockObject): DurableObjectNamespace {
+  return {
+    idFromName: (name: string) => ({ name }),
+    get: () => ({
+      fetch: (input: string, init?: RequestInit) => object.fetch(new Request(input, init)),
+    }),
+  } as unknown as DurableObjectNamespace;
+}
+
+describe('SyncLockObject', () => {
+  let storage: MockDurableObjectStorage;
+  let object: SyncLockObject;
+
+  const send = (action: string, ownerId?: string) =>
+    object.fetch(
+      new Request(`https://sync-lock/${action}`, {
+        method: 'POST',
+        body: JSON.stringify({ ownerId }),
+      })
+    );
+
+  beforeEach(() => {
+    storage = new MockDurableObjectStorage();
+    object = new SyncLockObject(mockState(storage), {});
+  });
+
+  it('TEST-state-management-7: should grant the lock to exactly one concurrent caller', async () => {
+    const responses = await Promise.all(
+      ['cron:1', 'admin:1', 'cron:2'].map(id => send('acquire', id))
+    );
+    const results = (await Promise.all(responses.map(response => response.json()))) as {
+      ok: boolean;
+    }[];
+
+    expect(results.filter(result => result.ok)).toHaveLength(1);
+  });
+
+  it('should reject acquire and heartbeat without an owner ID', async () => {
+    expect((await send('acquire')).status).toBe(400);
+    expect((await send('heartbeat')).status).toBe(400);
+  });
+
+  it('should return 404 for unknown actions', async () => {
+    expect((await send('steal', 'cron:1')).status).toBe(404);
+  });
+
+  it('should report and force-release the current lock', async () => {
+    await send('acquire', 'cron:1');
+
+    const status = (await (await send('status')).json()) as { lock: { ownerId: string } };
+    expect(status.lock.ownerId).toBe('cron:1');
+
+    const released = (await (await send('force-release')).json()) as { lock: { ownerId: string } };
+    expect(released.lock.ownerId).toBe('cron:1');
+    expect(storage.store.size).toBe(0);
+  });
+});
+
+describe('DurableObjectSyncLock', () => {
+  let lock: DurableObjectSyncLock;
+
+  beforeEach(() => {
+    const object = new SyncLockObject(mockState(new MockDurableObjectStorage()), {});
+    lock = new DurableObjectSyncLock(mockNamespace(object));
+  });
+
+  it('should acquire, renew and release through the Durable Object', async () => {
+    expect(await lock.acquire('cron:1')).toBe(true);
+    expect(await lock.acquire('admin:1')).toBe(false);
+    expect(await lock.heartbeat('cron:1')).toBe(true);
+    expect(await lock.heartbeat('admin:1')).toBe(false);
+    expect(await lock.release('admin:1')).toBe(false);
+    expect(await lock.release('cron:1')).toBe(true);
+    expect(await lock.getLock()).toBeNull();
+  });
+
+  it('should return the broken lock on force release', async () => {
+    await lock.acquire('cron:1');
+
+    expect((await lock.forceRelease())?.ownerId).toBe('cron:1');
+    expect(await lock.acquire('admin:1')).toBe(true);
+  });
+
+  it('should throw a StateError when the Durable Object fails', async () => {
+    const failing = new DurableObjectSyncLock({
+      idFromName: () => ({}),
+      get: () => ({ fetch: async () => new Response('boom', { status: 500 }) }),
+    } as unknown as DurableObjectNamespace);
+
+    await expect(failing.acquire('cron:1')).rejects.toThrow('Sync lock acquire failed: 500');
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Durable Object that holds the sync lock
+ *
+ * All lock requests are routed to a single instance (idFromName('sync')) and each
+ * one runs inside blockConcurrencyWhile, so read-check-write never interleaves
+ * across requests: exactly one concurrent caller gets the lock.
+ *
+ * Protocol: POST https://sync-lock/{acquire|heartbeat|release|force-release|status}
+ * with { ownerId }, answered with { ok, lock }.
+ *
+ * Trace:
+ *   spec_id: SPEC-state-management-1
+ */
+
+import { SyncLockInfo, acquireLockRecord, renewLockRecord } from './sync-lock.js';
+
+const LOCK_STORAGE_KEY = 'lock';
+
+export class SyncLockObject implements DurableObject {
+  constructor(
+    private state: DurableObjectState,
+    _env: unknown
+  ) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const action = new URL(request.url).pathname.slice(1);
+    const { ownerId } = (await request.json().catch(() => ({}))) as { ownerId?: string };
+
+    return this.state.blockConcurrencyWhile(() => this.handle(action, ownerId));
+  }
+
+  private async handle(action: string, ownerId: string | undefined): Promise<Response> {
+    const now = Date.now();
+    const current = (await this.state.storage.get<SyncLockInfo>(LOCK_STORAGE_KEY)) || null;
+    const live = current && Date.parse(current.expiresAt) > now ? current : null;
+
+    switch (action) {
+      case 'acquire':
+      case 'heartbeat': {
+        if (!ownerId) {
+          return this.json({ error: 'ownerId is required' }, 400);
+        }
+
+        const next =
+          action === 'acquire'
+            ? acquireLockRecord(current, ownerId, now)
+            : renewLockRecord(current, ownerId, now);
+        if (!next) {
+          return this.json({ ok: false, lock: live });
+        }
+
+        await this.state.storage.put(LOCK_STORAGE_KEY, next);
+        return this.json({ ok: true, lock: next });
+      }
+
+      case 'release': {
+        if (!live || live.ownerId !== ownerId) {
+          return this.json({ ok: false, lock: live });
+        }
+
+        await this.state.storage.delete(LOCK_STORAGE_KEY);
+        return this.json({ ok: true, lock: null });
+      }
+
+      case 'force-release':
+        await this.state.storage.delete(LOCK_STORAGE_KEY);
+        return this.json({ ok: true, lock: live });
+
+      case 'status':
+        return this.json({ ok: true, lock: live });
+
+      default:
+        return this.json({ error: `Unknown action: ${action}` }, 404);
+    }
+  }
+
+  private json(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
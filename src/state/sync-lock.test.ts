@@ -0,0 +1,152 @@
+/**
+ * Tests for sync lock providers
+ *
+ * Trace:
+ *   spec_id: SPEC-state-management-1
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  KVSyncLock,
+  LOCK_TTL_MS,
+  SyncLockProvider,
+  acquireLockRecord,
+  renewLockRecord,
+  withSyncLock,
+} from './sync-lock';
+import { MockKVNamespace } from '../test-utils/mock-kv-namespace';
+
+describe('lock records', () => {
+  const now = Date.parse('2025-11-15T00:00:00Z');
+
+  it('should refuse a live lock held by another owner', () => {
+    const lock = acquireLockRecord(null, 'cron:1', now);
+
+    expect(acquireLockRecord(lock, 'admin:1', now + 1000)).toBeNull();
+    expect(acquireLockRecord(lock, 'admin:1', now + LOCK_TTL_MS)?.ownerId).toBe('admin:1');
+  });
+
+  it('should keep acquiredAt when the owner renews', () => {
+    const lock = acquireLockRecord(null, 'cron:1', now);
+    const renewed = renewLockRecord(lock, 'cron:1', now + 60_000);
+
+    expect(renewed?.acquiredAt).toBe(lock?.acquiredAt);
+    expect(renewed?.expiresAt).toBe(new Date(now + 60_000 + LOCK_TTL_MS).toISOString());
+    expect(renewLockRecord(lock, 'admin:1', now + 60_000)).toBeNull();
+    expect(renewLockRecord(lock, 'cron:1', now + LOCK_TTL_MS)).toBeNull();
+  });
+});
+
+describe('KVSyncLock', () => {
+  let kv: MockKVNamespace;
+  let lock: KVSyncLock;
+
+  beforeEach(() => {
+    kv = new MockKVNamespace();
+    lock = new KVSyncLock(kv as unknown as KVNamespace);
+  });
+
+  it('should acquire the lock when free and refuse other owners', async () => {
+    expect(await lock.acquire('cron:1')).toBe(true);
+    expect(await lock.acquire('admin:1')).toBe(false);
+    expect((await lock.getLock())?.ownerId).toBe('cron:1');
+  });
+
+  it('should only release the lock for its owner', async () => {
+    await lock.acquire('cron:1');
+
+    expect(await lock.release('admin:1')).toBe(false);
+    expect(await lock.release('cron:1')).toBe(true);
+    expect(await lock.getLock()).toBeNull();
+  });
+
+  it('should force-release a lock held by another owner', async () => {
+    await lock.acquire('cron:1');
+
+    expect((await lock.forceRelease())?.ownerId).toBe('cron:1');
+    expect(await lock.acquire('admin:1')).toBe(true);
+  });
+
+  it('should treat an expired lock as free', async () => {
+    kv.store.set(
+      'sync_lock',
+      JSON.stringify(acquireLockRecord(null, 'cron:crashed', Date.now() - LOCK_TTL_MS - 1000))
+    );
+
+    expect(await lock.getLock()).toBeNull();
+    expect(await lock.acquire('admin:1')).toBe(true);
+  });
+
+  it('should honour timestamp locks written before owner IDs', async () => {
+    kv.store.set('sync_lock', Date.now().toString());
+    expect(await lock.acquire('cron:1')).toBe(false);
+
+    kv.store.set('sync_lock', (Date.now() - 31 * 60 * 1000).toString());
+    expect(await lock.acquire('cron:1')).toBe(true);
+  });
+});
+
+describe('withSyncLock', () => {
+  let lock: KVSyncLock;
+
+  beforeEach(() => {
+    lock = new KVSyncLock(new MockKVNamespace() as unknown as KVNamespace);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('TEST-state-management-7: should skip work while another owner holds the lock', async () => {
+    await lock.acquire('cron:1');
+    const run = vi.fn();
+
+    const outcome = await withSyncLock(lock, 'admin:1', run);
+
+    expect(outcome).toMatchObject({ acquired: false, holder: { ownerId: 'cron:1' } });
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('should release the lock after the work fails', async () => {
+    await expect(
+      withSyncLock(lock, 'cron:1', async () => {
+        throw new Error('Sync failed');
+      })
+    ).rejects.toThrow('Sync failed');
+
+    expect(await lock.getLock()).toBeNull();
+  });
+
+  it('should send heartbeats while the work runs', async () => {
+    vi.useFakeTimers();
+    const heartbeat = vi.spyOn(lock, 'heartbeat');
+    let finish!: (value: string) => void;
+
+    const outcome = withSyncLock(
+      lock,
+      'cron:1',
+      () => new Promise<string>(resolve => (finish = resolve)),
+      1000
+    );
+    await vi.advanceTimersByTimeAsync(2500);
+    finish('done');
+
+    expect(await outcome).toEqual({ acquired: true, result: 'done' });
+    expect(heartbeat).toHaveBeenCalledTimes(2);
+    expect(heartbeat).toHaveBeenCalledWith('cron:1');
+  });
+
+  it('should work with any lock provider', async () => {
+    const provider: SyncLockProvider = {
+      acquire: vi.fn().mockResolvedValue(true),
+      heartbeat: vi.fn().mockResolvedValue(true),
+      release: vi.fn().mockResolvedValue(true),
+      forceRelease: vi.fn().mockResolvedValue(null),
+      getLock: vi.fn().mockResolvedValue(null),
+    };
+
+    await withSyncLock(provider, 'cron:1', async () => 1);
+
+    expect(provider.release).toHaveBeenCalledWith('cron:1');
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Sync lock providers
+ *
+ * A single lock guards every sync run (cron, continuation tick, manual resync).
+ * Holders are identified by an owner ID and keep the lock alive with heartbeats,
+ * so a crashed run frees it within one TTL instead of blocking syncs.
+ *
+ * - DurableObjectSyncLock: atomic, backed by the SyncLockObject Durable Object
+ * - KVSyncLock: fallback when no Durable Object is bound (get-then-put, not atomic)
+ *
+ * Trace:
+ *   spec_id: SPEC-state-management-1
+ */
+
+import { StateError } from '../errors/index.js';
+
+/**
+ * Current lock holder
+ */
+export interface SyncLockInfo {
+  ownerId: string;
+  acquiredAt: string;
+  heartbeatAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Lock provider used by the scheduler and the admin API
+ */
+export interface SyncLockProvider {
+  /** Take the lock for ownerId; true if acquired (or already held by ownerId) */
+  acquire(ownerId: string): Promise<boolean>;
+  /** Extend the lock; false if ownerId no longer holds it */
+  heartbeat(ownerId: string): Promise<boolean>;
+  /** Release the lock if ownerId holds it */
+  release(ownerId: string): Promise<boolean>;
+  /** Release the lock regardless of owner; returns the lock that was broken */
+  forceRelease(): Promise<SyncLockInfo | null>;
+  /** Live lock, or null when free or expired */
+  getLock(): Promise<SyncLockInfo | null>;
+}
+
+export const LOCK_TTL_MS = 1000 * 60 * 5; // 5 minutes without a heartbeat
+export const LOCK_HEARTBEAT_INTERVAL_MS = 1000 * 60; // 1 minute
+const LEGACY_LOCK_DURATION_MS = 1000 * 60 * 30; // Timestamp-only KV locks
+const SYNC_LOCK_KEY = 'sync_lock';
+
+/**
+ * Owner ID for a lock holder, e.g. "cron:3f2a..."
+ */
+export function createLockOwnerId(trigger: string): string {
+  return `${trigger}:${crypto.randomUUID()}`;
+}
+
+function liveLock(lock: SyncLockInfo | null, now: number): SyncLockInfo | null {
+  return lock && Date.parse(lock.expiresAt) > now ? lock : null;
+}
+
+/**
+ * Lock after ownerId tries to acquire it, or null if another owner holds it
+ */
+export function acquireLockRecord(
+  current: SyncLockInfo | null,
+  ownerId: string,
+  now: number = Date.now(),
+  ttlMs: number = LOCK_TTL_MS
+): SyncLockInfo | null {
+  const held = liveLock(current, now);
+  if (held && held.ownerId !== ownerId) {
+    return null;
+  }
+
+  return {
+    ownerId,
+    acquiredAt: held?.acquiredAt || new Date(now).toISOString(),
+    heartbeatAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttlMs).toISOString(),
+  };
+}
+
+/**
+ * Lock after a heartbeat from ownerId, or null if ownerId no longer holds it
+ */
+export function renewLockRecord(
+  current: SyncLockInfo | null,
+  ownerId: string,
+  now: number = Date.now(),
+  ttlMs: number = LOCK_TTL_MS
+): SyncLockInfo | null {
+  const held = liveLock(current, now);
+  if (!held || held.ownerId !== ownerId) {
+    return null;
+  }
+
+  return acquireLockRecord(held, ownerId, now, ttlMs);
+}
+
+/**
+ * Run work while holding the lock, sending heartbeats until it settles
+ * Returns acquired: false (with the current holder) when the lock is taken
+ */
+export async function withSyncLock<T>(
+  lock: SyncLockProvider,
+  ownerId: string,
+  run: () => Promise<T>,
+  heartbeatIntervalMs: number = LOCK_HEARTBEAT_INTERVAL_MS
+): Promise<{ acquired: true; result: T } | { acquired: false; holder: SyncLockInfo | null }> {
+  if (!(await lock.acquire(ownerId))) {
+    return { acquired: false, holder: await lock.getLock() };
+  }
+
+  const heartbeat = setInterval(() => {
+    lock
+      .heartbeat(ownerId)
+      .then(renewed => {
+        if (!renewed) {
+          console.warn(`Sync lock lost by ${ownerId} (expired or force-released)`);
+        }
+      })
+      .catch(error => console.error('Sync lock heartbeat failed:', error));
+  }, heartbeatIntervalMs);
+
+  try {
+    return { acquired: true, result: await run() };
+  } finally {
+    clearInterval(heartbeat);
+    await lock.release(ownerId);
+  }
+}
+
+/**
+ * Lock stored in KV (eventually consistent: two runs can both acquire it)
+ */
+export class KVSyncLock implements SyncLockProvider {
+  constructor(private kv: KVNamespace) {}
+
+  async acquire(ownerId: string): Promise<boolean> {
+    return this.write(acquireLockRecord(await this.read(), ownerId));
+  }
+
+  async heartbeat(ownerId: string): Promise<boolean> {
+    return this.write(renewLockRecord(await this.read(), ownerId));
+  }
+
+  async release(ownerId: string): Promise<boolean> {
+    const lock = await this.getLock();
+    if (!lock || lock.ownerId !== ownerId) {
+      return false;
+    }
+
+    await this.kv.delete(SYNC_LOCK_KEY);
+    return true;
+  }
+
+  async forceRelease(): Promise<SyncLockInfo | null> {
+    const lock = await this.getLock();
+    await this.kv.delete(SYNC_LOCK_KEY);
+    return lock;
+  }
+
+  async getLock(): Promise<SyncLockInfo | null> {
+    return liveLock(await this.read(), Date.now());
+  }
+
+  private async write(lock: SyncLockInfo | null): Promise<boolean> {
+    if (!lock) {
+      return false;
+    }
+
+    await this.kv.put(SYNC_LOCK_KEY, JSON.stringify(lock), {
+      // KV rejects TTLs under 60 seconds; expiresAt is authoritative anyway
+      expirationTtl: Math.max(60, Math.ceil((Date.parse(lock.expiresAt) - Date.now()) / 1000)),
+    });
+    return true;
+  }
+
+  private async read(): Promise<SyncLockInfo | null> {
+    const value = await this.kv.get(SYNC_LOCK_KEY);
+    if (!value) {
+      return null;
+    }
+
+    // Locks written before owner IDs were a bare timestamp
+    if (/^\d+$/.test(value)) {
+      const lockTime = parseInt(value, 10);
+      return {
+        ownerId: 'legacy',
+        acquiredAt: new Date(lockTime).toISOString(),
+        heartbeatAt: new Date(lockTime).toISOString(),
+        expiresAt: new Date(lockTime + LEGACY_LOCK_DURATION_MS).toISOString(),
+      };
+    }
+
+    return JSON.parse(value) as SyncLockInfo;
+  }
+}
+
+/**
+ * Lock held by the SyncLockObject Durable Object (atomic)
+ */
+export class DurableObjectSyncLock implements SyncLockProvider {
+  private stub: DurableObjectStub;
+
+  constructor(namespace: DurableObjectNamespace, name = 'sync') {
+    this.stub = namespace.get(namespace.idFromName(name));
+  }
+
+  async acquire(ownerId: string): Promise<boolean> {
+    return (await this.call('acquire', ownerId)).ok;
+  }
+
+  async heartbeat(ownerId: string): Promise<boolean> {
+    return (await this.call('heartbeat', ownerId)).ok;
+  }
+
+  async release(ownerId: string): Promise<boolean> {
+    return (await this.call('release', ownerId)).ok;
+  }
+
+  async forceRelease(): Promise<SyncLockInfo | null> {
+    return (await this.call('force-release')).lock;
+  }
+
+  async getLock(): Promise<SyncLockInfo | null> {
+    return (await this.call('status')).lock;
+  }
+
+  private async call(
+    action: string,
+    ownerId?: string
+  ): Promise<{ ok: boolean; lock: SyncLockInfo | null }> {
+    const response = await this.stub.fetch(`https://sync-lock/${action}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ownerId }),
+    });
+
+    if (!response.ok) {
+      throw new StateError(`Sync lock ${action} failed: ${response.status}`, { action, ownerId });
+    }
+
+    return (await response.json()) as { ok: boolean; lock: SyncLockInfo | null };
+  }
+}
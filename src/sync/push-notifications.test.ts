@@ -0,0 +1,204 @@
+/**
+ * Tests for Drive push notification channels and webhook handling
+ *
+ * Trace:
+ *   spec_id: SPEC-scheduling-1
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  DrivePushService,
+  PUSH_CHANNEL_RENEW_MARGIN_MS,
+  PUSH_CHANNEL_TTL_MS,
+} from './push-notifications';
+import { PushChannel, PushChannelStore } from '../state/push-channel-store';
+import { DriveClient } from '../drive/drive-client';
+import { SyncSource } from '../drive/sync-source';
+import { MockKVNamespace } from '../test-utils/mock-kv-namespace';
+
+const ADDRESS = 'https://work.example.com/webhooks/drive';
+
+describe('DrivePushService', () => {
+  let kv: MockKVNamespace;
+  let store: PushChannelStore;
+  let driveClient: {
+    getStartPageToken: ReturnType<typeof vi.fn>;
+    watchChanges: ReturnType<typeof vi.fn>;
+    stopChannel: ReturnType<typeof vi.fn>;
+  };
+  let push: DrivePushService;
+  const sources: SyncSource[] = [
+    { label: 'default', rootFolderId: 'root' },
+    { label: 'team', rootFolderId: 'team-root', driveId: 'drive-1' },
+  ];
+  const now = new Date('2025-11-15T00:00:00Z');
+
+  const channel = (overrides: Partial<PushChannel> = {}): PushChannel => ({
+    source: 'default',
+    channelId: 'channel-1',
+    resourceId: 'resource-1',
+    token: 'secret-token',
+    address: ADDRESS,
+    expiresAt: new Date(now.getTime() + PUSH_CHANNEL_TTL_MS).toISOString(),
+    createdAt: now.toISOString(),
+    ...overrides,
+  });
+
+  const notification = (headers: Record<string, string> = {}) =>
+    new Headers({
+      'X-Goog-Channel-ID': 'channel-1',
+      'X-Goog-Channel-Token': 'secret-token',
+      'X-Goog-Resource-State': 'change',
+      ...headers,
+    });
+
+  beforeEach(() => {
+    kv = new MockKVNamespace();
+    store = new PushChannelStore(kv as unknown as KVNamespace);
+    driveClient = {
+      getStartPageToken: vi.fn().mockResolvedValue('page-token'),
+      watchChanges: vi.fn(
+        async (_pageToken: string, request: { id: string; expiration: Date }) => ({
+          id: request.id,
+          resourceId: `resource-${request.id}`,
+          expiration: request.expiration.toISOString(),
+        })
+      ),
+      stopChannel: vi.fn().mockResolvedValue(undefined),
+    };
+    push = new DrivePushService(driveClient as unknown as DriveClient, store, ADDRESS);
+  });
+
+  describe('renewChannels', () => {
+    it('TEST-scheduling-5: should register a channel per source', async () => {
+      const renewal = await push.renewChannels(sources, now);
+
+      expect(renewal).toEqual({ registered: ['default', 'team'], stopped: [], errors: 0 });
+      expect(driveClient.watchChanges).toHaveBeenCalledWith(
+        'page-token',
+        expect.objectContaining({ address: ADDRESS }),
+        'drive-1'
+      );
+
+      const saved = await store.getChannel('team');
+      expect(saved).toMatchObject({ source: 'team', address: ADDRESS });
+      expect(saved?.token).toEqual(expect.any(String));
+      expect(saved?.expiresAt).toBe(new Date(now.getTime() + PUSH_CHANNEL_TTL_MS).toISOString());
+    });
+
+    it('should keep fresh channels', async () => {
+      await store.saveChannel(channel());
+
+      const renewal = await push.renewChannels([sources[0]], now);
+
+      expect(renewal.registered).toEqual([]);
+      expect(driveClient.watchChanges).not.toHaveBeenCalled();
+    });
+
+    it('should replace expiring channels and stop the old one', async () => {
+      await store.saveChannel(
+        channel({ expiresAt: new Date(now.getTime() + PUSH_CHANNEL_RENEW_MARGIN_MS).toISOString() })
+      );
+
+      const renewal = await push.renewChannels([sources[0]], now);
+
+      expect(renewal.registered).toEqual(['default']);
+      expect(driveClient.stopChannel).toHaveBeenCalledWith('channel-1', 'resource-1');
+      expect((await store.getChannel('default'))?.channelId).not.toBe('channel-1');
+    });
+
+    it('should re-register when the webhook address changed', async () => {
+      await store.saveChannel(channel({ address: 'https://old.example.com/webhooks/drive' }));
+
+      const renewal = await push.renewChannels([sources[0]], now);
+
+      expect(renewal.registered).toEqual(['default']);
+    });
+
+    it('should stop and forget channels when push is disabled', async () => {
+      await store.saveChannel(channel());
+      push = new DrivePushService(driveClient as unknown as DriveClient, store, undefined);
+
+      const renewal = await push.renewChannels(sources, now);
+
+      expect(renewal).toEqual({ registered: [], stopped: ['default'], errors: 0 });
+      expect(await store.getChannel('default')).toBeNull();
+      expect(driveClient.watchChanges).not.toHaveBeenCalled();
+    });
+
+    it('should count failures per source without throwing', async () => {
+      driveClient.watchChanges.mockRejectedValueOnce(new Error('Forbidden'));
+
+      const renewal = await push.renewChannels(sources, now);
+
+      expect(renewal).toEqual({ registered: ['team'], stopped: [], errors: 1 });
+    });
+  });
+
+  describe('renewalDue', () => {
+    it('should be due until every source has a fresh channel', async () => {
+      expect(await push.renewalDue([sources[0]], now)).toBe(true);
+
+      await store.saveChannel(channel());
+
+      expect(await push.renewalDue([sources[0]], now)).toBe(false);
+      expect(await push.renewalDue(sources, now)).toBe(true);
+    });
+
+    it('should only be due with push disabled while a channel is left to stop', async () => {
+      push = new DrivePushService(driveClient as unknown as DriveClient, store, undefined);
+
+      expect(await push.renewalDue(sources, now)).toBe(false);
+
+      await store.saveChannel(channel());
+
+      expect(await push.renewalDue(sources, now)).toBe(true);
+    });
+  });
+
+  describe('handleNotification', () => {
+    beforeEach(async () => {
+      await store.saveChannel(channel());
+    });
+
+    it('TEST-scheduling-5: should mark a sync pending for a valid change notification', async () => {
+      expect(await push.handleNotification(notification(), sources, now)).toBe('pending');
+      expect(await push.hasPendingSync()).toBe(true);
+    });
+
+    it('should reject unknown channels and wrong tokens', async () => {
+      const unknown = notification({ 'X-Goog-Channel-ID': 'channel-2' });
+      const forged = notification({ 'X-Goog-Channel-Token': 'secret-tokem' });
+
+      expect(await push.handleNotification(unknown, sources, now)).toBe('rejected');
+      expect(await push.handleNotification(forged, sources, now)).toBe('rejected');
+      expect(await push.handleNotification(new Headers(), sources, now)).toBe('rejected');
+      expect(await push.hasPendingSync()).toBe(false);
+    });
+
+    it('should ignore the sync handshake', async () => {
+      const handshake = notification({ 'X-Goog-Resource-State': 'sync' });
+
+      expect(await push.handleNotification(handshake, sources, now)).toBe('ignored');
+    });
+
+    it('should keep the first pending time across a burst of notifications', async () => {
+      await push.handleNotification(notification(), sources, now);
+      const putSpy = vi.spyOn(kv, 'put');
+
+      const later = new Date(now.getTime() + 1000);
+      expect(await push.handleNotification(notification(), sources, later)).toBe('pending');
+
+      expect(putSpy).not.toHaveBeenCalled();
+      expect((await store.getSyncState()).pendingSince).toBe(now.toISOString());
+    });
+
+    it('should clear pending notifications once a sync covers them', async () => {
+      await push.handleNotification(notification(), sources, now);
+
+      await push.clearPendingSync();
+
+      expect(await push.hasPendingSync()).toBe(false);
+    });
+  });
+});
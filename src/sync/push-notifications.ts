@@ -0,0 +1,218 @@
+/**
+ * Drive push notifications (changes.watch), so an edit syncs on the next continuation
+ * cron tick (within 10 minutes) instead of the nightly run
+ *
+ * Every sync source gets a web_hook channel pointing at DRIVE_WEBHOOK_PATH. Drive
+ * calls it whenever the source's change feed moves; a valid notification only marks
+ * a sync as pending, and the next continuation cron tick runs it under the sync lock
+ * (the webhook response cannot keep a sync alive). Channels expire after a week, so
+ * scheduled runs renew them a day ahead, under the sync lock so that two cron triggers
+ * firing together cannot register a channel each.
+ *
+ * Trace:
+ *   spec_id: SPEC-scheduling-1, SPEC-drive-integration-1
+ */
+
+import { DriveClient } from '../drive/drive-client.js';
+import { SyncSource } from '../drive/sync-source.js';
+import { PushChannel, PushChannelStore } from '../state/push-channel-store.js';
+import { logError, toError } from '../errors/index.js';
+
+export const DRIVE_WEBHOOK_PATH = '/webhooks/drive';
+
+export const PUSH_CHANNEL_TTL_MS = 1000 * 60 * 60 * 24 * 7; // Drive's maximum for changes
+export const PUSH_CHANNEL_RENEW_MARGIN_MS = 1000 * 60 * 60 * 24; // 1 day
+
+/**
+ * What to do with a webhook request
+ * - rejected: unknown channel or wrong token
+ * - ignored: the "sync" handshake Drive sends when a channel is created
+ * - pending: a sync is owed; the next continuation tick runs it
+ */
+export type PushNotificationOutcome = 'rejected' | 'ignored' | 'pending';
+
+export interface PushChannelRenewal {
+  registered: string[]; // Source labels with a new channel
+  stopped: string[]; // Source labels whose channel was stopped without a replacement
+  errors: number;
+}
+
+/**
+ * Compare tokens without leaking the matching prefix length through timing
+ */
+function tokensMatch(expected: string, actual: string): boolean {
+  if (expected.length !== actual.length) {
+    return false;
+  }
+
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ actual.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Registers Drive push channels and turns their notifications into pending syncs
+ * Push is disabled when no webhook address is configured
+ */
+export class DrivePushService {
+  constructor(
+    private driveClient: DriveClient,
+    private store: PushChannelStore,
+    private address: string | undefined
+  ) {}
+
+  /**
+   * Whether renewChannels has anything to register or stop; lets idle continuation
+   * ticks skip the sync lock
+   */
+  async renewalDue(sources: SyncSource[], now: Date = new Date()): Promise<boolean> {
+    const channels = await Promise.all(sources.map(source => this.store.getChannel(source.label)));
+    return channels.some(channel => !this.isCurrent(channel, now));
+  }
+
+  /**
+   * Register channels that are missing, expiring or point at an old address, and stop
+   * channels when push is disabled; failures are logged per source and never thrown.
+   * Call it under the sync lock: concurrent calls would register a channel each.
+   */
+  async renewChannels(sources: SyncSource[], now: Date = new Date()): Promise<PushChannelRenewal> {
+    const renewal: PushChannelRenewal = { registered: [], stopped: [], errors: 0 };
+
+    for (const source of sources) {
+      try {
+        const current = await this.store.getChannel(source.label);
+        if (this.isCurrent(current, now)) {
+          continue;
+        }
+
+        if (!this.address) {
+          if (current) {
+            await this.stopChannel(current);
+            await this.store.deleteChannel(source.label);
+            renewal.stopped.push(source.label);
+          }
+          continue;
+        }
+
+        await this.registerChannel(source, this.address, now);
+        renewal.registered.push(source.label);
+
+        // Stop the old channel only once its replacement is live, so no change is missed
+        if (current) {
+          await this.stopChannel(current);
+        }
+      } catch (error) {
+        renewal.errors++;
+        logError(toError(error), { source: source.label, context: 'Push channel renewal' });
+      }
+    }
+
+    if (renewal.registered.length > 0 || renewal.stopped.length > 0) {
+      console.log('Drive push channels updated:', renewal);
+    }
+    return renewal;
+  }
+
+  /**
+   * A source's channel needs nothing: it is fresh and points at the configured address,
+   * or push is disabled and there is none to stop
+   */
+  private isCurrent(channel: PushChannel | null, now: Date): boolean {
+    if (!this.address) {
+      return channel === null;
+    }
+    return (
+      channel !== null &&
+      channel.address === this.address &&
+      Date.parse(channel.expiresAt) - now.getTime() > PUSH_CHANNEL_RENEW_MARGIN_MS
+    );
+  }
+
+  /**
+   * Validate a webhook request against the registered channels and mark a sync as
+   * pending; bursts of notifications write the pending state once
+   */
+  async handleNotification(
+    headers: Headers,
+    sources: SyncSource[],
+    now: Date = new Date()
+  ): Promise<PushNotificationOutcome> {
+    const channelId = headers.get('X-Goog-Channel-ID');
+    const token = headers.get('X-Goog-Channel-Token') || '';
+    if (!channelId) {
+      return 'rejected';
+    }
+
+    const channels = await Promise.all(sources.map(source => this.store.getChannel(source.label)));
+    const channel = channels.find(candidate => candidate?.channelId === channelId);
+    if (!channel || !tokensMatch(channel.token, token)) {
+      return 'rejected';
+    }
+
+    if (headers.get('X-Goog-Resource-State') === 'sync') {
+      return 'ignored';
+    }
+
+    const state = await this.store.getSyncState();
+    if (state.pendingSince === null) {
+      await this.store.saveSyncState({ ...state, pendingSince: now.toISOString() });
+    }
+    return 'pending';
+  }
+
+  /**
+   * Whether a notification is still waiting for a sync
+   */
+  async hasPendingSync(): Promise<boolean> {
+    return (await this.store.getSyncState()).pendingSince !== null;
+  }
+
+  /**
+   * Mark pending notifications as covered; call under the sync lock right before
+   * an incremental sync starts
+   */
+  async clearPendingSync(): Promise<void> {
+    const state = await this.store.getSyncState();
+    if (state.pendingSince !== null) {
+      await this.store.saveSyncState({ ...state, pendingSince: null });
+    }
+  }
+
+  private async registerChannel(source: SyncSource, address: string, now: Date): Promise<void> {
+    const pageToken = await this.driveClient.getStartPageToken(source.driveId);
+    const token = crypto.randomUUID();
+    const watched = await this.driveClient.watchChanges(
+      pageToken,
+      {
+        id: crypto.randomUUID(),
+        address,
+        token,
+        expiration: new Date(now.getTime() + PUSH_CHANNEL_TTL_MS),
+      },
+      source.driveId
+    );
+
+    await this.store.saveChannel({
+      source: source.label,
+      channelId: watched.id,
+      resourceId: watched.resourceId,
+      token,
+      address,
+      expiresAt: watched.expiration,
+      createdAt: now.toISOString(),
+    });
+  }
+
+  /**
+   * Stop a channel; an already expired or unknown channel is not an error
+   */
+  private async stopChannel(channel: PushChannel): Promise<void> {
+    try {
+      await this.driveClient.stopChannel(channel.channelId, channel.resourceId);
+    } catch (error) {
+      console.warn(`Failed to stop push channel ${channel.channelId}:`, toError(error).message);
+    }
+  }
+}
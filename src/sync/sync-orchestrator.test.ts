@@ -6,18 +6,67 @@
  *   task_id: TASK-012
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { SyncOrchestrator, SyncConfig } from './sync-orchestrator';
-import { DriveFileMetadata, DriveChange } from '../drive/drive-client';
-import { VectorPoint } from '../types/vector-store';
-import { SyncState } from '../state/kv-state-manager';
-
-// Mock implementations
-class MockDriveClient {
+import { describe, it, expect, beforeEach, vi, type Mocked } from 'vitest';
+import { SyncOrchestrator, SyncConfig, SyncServices } from './sync-orchestrator';
+import { DriveClient, DriveFileMetadata, DriveChange } from '../drive/drive-client';
+import { EmbeddingClient } from '../embedding/embedding-client';
+import { EmbeddingProviderName } from '../embedding/embedding-provider';
+import { KeywordIndex } from '../search/keyword-index';
+import {
+  IndexedFilesPage,
+  IndexedFilesPageOptions,
+  VectorPoint,
+  VectorQueryMatch,
+  VectorStoreClient,
+} from '../types/vector-store';
+import {
+  FullSyncCursor,
+  KVStateManager,
+  SourceSyncState,
+  SyncHistoryEntry,
+  SyncState,
+} from '../state/kv-state-manager';
+import { SyncSource } from '../drive/sync-source';
+import { PathFilter } from '../drive/path-filter';
+import { InMemoryFileJobQueue, consumeFileJobs } from '../queue/file-queue';
+import { FailureStore } from '../state/failure-store';
+import { SyncJobStore } from '../state/job-store';
+import { EmbeddingIndexStore } from '../state/embedding-index-store';
+import { EmbeddingCache } from '../embedding/embedding-cache';
+import { Tokenizer } from '../embedding/tokenizer';
+import { CircuitOpenError, DriveError, ExtractionError } from '../errors/index';
+import { MockKVNamespace } from '../test-utils/mock-kv-namespace';
+
+// Mock implementations of the client methods the orchestrator calls
+class MockDriveClient implements Pick<
+  DriveClient,
+  | 'getPathFilter'
+  | 'listFilesByPathRules'
+  | 'listMarkdownFiles'
+  | 'fetchChanges'
+  | 'getStartPageToken'
+  | 'getFileMetadata'
+  | 'downloadFileContent'
+> {
   private files: DriveFileMetadata[] = [];
   private changes: DriveChange[] = [];
   private startPageToken = 'start-token-123';
   private fileContents = new Map<string, string>();
+  private pathFilter = new PathFilter();
+  private excludedFiles: DriveFileMetadata[] = [];
+
+  setPathFilter(pathFilter: PathFilter, excludedFiles: DriveFileMetadata[] = []) {
+    this.pathFilter = pathFilter;
+    this.excludedFiles = excludedFiles;
+  }
+
+  getPathFilter(): PathFilter {
+    return this.pathFilter;
+  }
+
+  async listFilesByPathRules(_rootFolderId: string) {
+    return { included: this.files, excluded: this.excludedFiles };
+  }
 
   setFiles(files: DriveFileMetadata[]) {
     this.files = files;
@@ -41,7 +90,9 @@ class MockDriveClient {
 
   async fetchChanges(
     _startPageToken: string,
-    _rootFolderId: string
+    _rootFolderId: string,
+    _driveId?: string,
+    _indexedFileIds?: ReadonlySet<string>
   ): Promise<{ changes: DriveChange[]; newStartPageToken: string }> {
     return {
       changes: this.changes,
@@ -53,13 +104,34 @@ class MockDriveClient {
     return this.startPageToken;
   }
 
+  async getFileMetadata(fileId: string, rootFolderIds: string[]) {
+    const file = this.files.find(file => file.id === fileId);
+    return file ? { file, rootFolderId: rootFolderIds[0] } : null;
+  }
+
   async downloadFileContent(fileId: string): Promise<string> {
     return this.fileContents.get(fileId) || '';
   }
 }
 
-class MockEmbeddingClient {
+class MockEmbeddingClient implements Pick<
+  EmbeddingClient,
+  'getProviderName' | 'getModel' | 'getDimensions' | 'embedWithBatching' | 'embedWithUsage'
+> {
   private embeddings: number[][] = [];
+  dimensions = 1536;
+
+  getProviderName(): EmbeddingProviderName {
+    return 'openai';
+  }
+
+  getModel() {
+    return 'text-embedding-3-small';
+  }
+
+  getDimensions() {
+    return this.dimensions;
+  }
 
   setEmbeddings(embeddings: number[][]) {
     this.embeddings = embeddings;
@@ -69,15 +141,30 @@ class MockEmbeddingClient {
     // Return mock embeddings (1536 dimensions)
     return this.embeddings.length > 0 ? this.embeddings : _texts.map(() => Array(1536).fill(0.1));
   }
+
+  async embedWithUsage(texts: string[], batchSize: number) {
+    return { embeddings: await this.embedWithBatching(texts, batchSize), totalTokens: 0 };
+  }
 }
 
-class MockVectorClient {
+class MockVectorClient implements VectorStoreClient {
   private vectors = new Map<string, VectorPoint[]>();
+  private lostIds = new Set<string>();
+  vectorCount = 100;
+  dimensions: number | null = null; // Unknown unless a test sets it
+  indexPageSize = Infinity; // Files per file index page, below the requested limit if set
 
   setVectors(fileId: string, vectors: VectorPoint[]) {
     this.vectors.set(fileId, vectors);
   }
 
+  /**
+   * Keep vectors in the file index but drop them from the store
+   */
+  loseVectors(ids: string[]) {
+    ids.forEach(id => this.lostIds.add(id));
+  }
+
   clearVectors() {
     this.vectors.clear();
   }
@@ -95,42 +182,164 @@ class MockVectorClient {
   }
 
   async deleteVectorsByFileId(fileId: string): Promise<void> {
+    this.vectorCount -= this.vectors.get(fileId)?.length ?? 0;
     this.vectors.delete(fileId);
   }
 
-  async deleteVectorsByIds(_ids: string[]): Promise<void> {
-    // Mock implementation
+  async deleteVectorsByIds(ids: string[]): Promise<void> {
+    for (const [fileId, vectors] of this.vectors) {
+      this.vectors.set(
+        fileId,
+        vectors.filter(vector => !ids.includes(vector.id))
+      );
+    }
+    this.vectorCount -= ids.length;
+  }
+
+  async queryVectors(): Promise<VectorQueryMatch[]> {
+    return [];
   }
 
   async getCollectionInfo(): Promise<unknown> {
     return { name: 'project_docs', status: 'green' };
   }
 
+  async getVectorsByIds(ids: string[]): Promise<VectorPoint[]> {
+    return [...this.vectors.values()]
+      .flat()
+      .filter(vector => ids.includes(vector.id) && !this.lostIds.has(vector.id));
+  }
+
+  async listIndexedFileIds(): Promise<string[]> {
+    return [...this.vectors.keys()];
+  }
+
+  async listIndexedFiles(options: IndexedFilesPageOptions): Promise<IndexedFilesPage> {
+    const start = Number(options.cursor ?? 0);
+    const end = start + Math.min(options.limit, this.indexPageSize);
+    const entries = [...this.vectors].sort(([a], [b]) => a.localeCompare(b));
+    return {
+      files: new Map(
+        entries
+          .slice(start, end)
+          .map(([fileId, vectors]) => [fileId, vectors.map(vector => vector.id)])
+      ),
+      cursor: end < entries.length ? String(end) : null,
+    };
+  }
+
   async countVectors(): Promise<number> {
-    return 100;
+    return this.vectorCount;
+  }
+
+  async setVectorCount(count: number): Promise<void> {
+    this.vectorCount = count;
+  }
+
+  async getDimensions(): Promise<number | null> {
+    return this.dimensions;
   }
 }
 
-class MockKVStateManager {
+class MockKVStateManager implements Pick<
+  KVStateManager,
+  | 'getState'
+  | 'getFullSyncCursor'
+  | 'getFullSyncFiles'
+  | 'startFullSync'
+  | 'updateFullSyncCursor'
+  | 'clearFullSyncCursor'
+  | 'updateStartPageToken'
+  | 'getSourceState'
+  | 'updateSourceStats'
+  | 'updatePathRulesFingerprint'
+  | 'updateStats'
+  | 'clearState'
+  | 'updateSyncDuration'
+  | 'saveSyncHistory'
+  | 'getSyncHistory'
+> {
   private state: SyncState = {
     startPageToken: null,
     lastSyncTime: null,
     filesProcessed: 0,
     errorCount: 0,
   };
-  private locked = false;
+  fullSyncCursor: FullSyncCursor | null = null;
+  fullSyncFiles: DriveFileMetadata[] | null = null;
 
   async getState(): Promise<SyncState> {
     return { ...this.state };
   }
 
+  async getFullSyncCursor(): Promise<FullSyncCursor | null> {
+    return this.fullSyncCursor ? { ...this.fullSyncCursor } : null;
+  }
+
+  async getFullSyncFiles(): Promise<DriveFileMetadata[] | null> {
+    return this.fullSyncFiles;
+  }
+
+  async startFullSync(cursor: FullSyncCursor, files: DriveFileMetadata[]): Promise<void> {
+    this.fullSyncCursor = { ...cursor };
+    this.fullSyncFiles = files;
+  }
+
+  async updateFullSyncCursor(cursor: FullSyncCursor): Promise<void> {
+    this.fullSyncCursor = { ...cursor, errors: [...cursor.errors] };
+  }
+
+  async clearFullSyncCursor(): Promise<void> {
+    this.fullSyncCursor = null;
+    this.fullSyncFiles = null;
+  }
+
   async setState(state: SyncState): Promise<void> {
     this.state = { ...state };
   }
 
-  async updateStartPageToken(token: string): Promise<void> {
-    this.state.startPageToken = token;
+  async updateStartPageToken(token: string, sourceLabel = 'default'): Promise<void> {
+    if (sourceLabel === 'default') {
+      this.state.startPageToken = token;
+    }
     this.state.lastSyncTime = new Date().toISOString();
+    this.state.sources = {
+      ...this.state.sources,
+      [sourceLabel]: { ...(await this.getSourceState(sourceLabel)), startPageToken: token },
+    };
+  }
+
+  async getSourceState(sourceLabel: string): Promise<SourceSyncState> {
+    return (
+      this.state.sources?.[sourceLabel] ?? {
+        startPageToken: sourceLabel === 'default' ? this.state.startPageToken : null,
+        lastSyncTime: null,
+        filesProcessed: 0,
+        errorCount: 0,
+      }
+    );
+  }
+
+  async updateSourceStats(
+    sourceLabel: string,
+    filesProcessed: number,
+    errorCount: number,
+    lastError?: string
+  ): Promise<void> {
+    const sourceState = await this.getSourceState(sourceLabel);
+    this.state.sources = {
+      ...this.state.sources,
+      [sourceLabel]: {
+        ...sourceState,
+        filesProcessed: sourceState.filesProcessed + filesProcessed,
+        errorCount: sourceState.errorCount + errorCount,
+        lastError,
+      },
+    };
+  }
+
+  async updatePathRulesFingerprint(fingerprint: string): Promise<void> {
+    this.state.pathRulesFingerprint = fingerprint;
   }
 
   async updateStats(filesProcessed: number, errorCount: number): Promise<void> {
@@ -148,34 +357,62 @@ class MockKVStateManager {
     };
   }
 
-  async acquireLock(): Promise<boolean> {
-    if (this.locked) return false;
-    this.locked = true;
-    return true;
-  }
-
-  async releaseLock(): Promise<void> {
-    this.locked = false;
-  }
-
-  async isLocked(): Promise<boolean> {
-    return this.locked;
-  }
-
   async updateSyncDuration(duration: number): Promise<void> {
     this.state.lastSyncDuration = duration;
   }
 
-  async saveSyncHistory(_entry: any): Promise<void> {
+  async saveSyncHistory(_entry: SyncHistoryEntry): Promise<void> {
     // Mock implementation - no-op for tests
   }
 
-  async getSyncHistory(_limit?: number): Promise<any[]> {
+  async getSyncHistory(_limit?: number): Promise<SyncHistoryEntry[]> {
     // Mock implementation - return empty array
     return [];
   }
 }
 
+interface OrchestratorMocks {
+  driveClient: MockDriveClient;
+  embeddingClient: MockEmbeddingClient;
+  vectorClient: MockVectorClient;
+  stateManager: MockKVStateManager;
+}
+
+/**
+ * Wire an orchestrator to the mocks. They implement the client methods the orchestrator
+ * calls (checked through Pick), so only the clients' remaining members are cast away here
+ */
+function createOrchestrator(
+  mocks: OrchestratorMocks,
+  config: SyncConfig,
+  services?: SyncServices
+): SyncOrchestrator {
+  return new SyncOrchestrator(
+    mocks.driveClient as unknown as DriveClient,
+    mocks.embeddingClient as unknown as EmbeddingClient,
+    mocks.vectorClient,
+    mocks.stateManager as unknown as KVStateManager,
+    config,
+    undefined,
+    services
+  );
+}
+
+/**
+ * Stored vector payload with placeholder metadata
+ */
+function vectorPayload(overrides: Partial<VectorPoint['payload']> = {}): VectorPoint['payload'] {
+  return {
+    file_id: 'file',
+    file_name: 'file.md',
+    file_path: 'file.md',
+    chunk_index: 0,
+    chunk_hash: 'hash',
+    last_modified: '2025-11-14T00:00:00Z',
+    ...overrides,
+  };
+}
+
 describe('SyncOrchestrator', () => {
   let orchestrator: SyncOrchestrator;
   let driveClient: MockDriveClient;
@@ -183,6 +420,13 @@ describe('SyncOrchestrator', () => {
   let vectorClient: MockVectorClient;
   let stateManager: MockKVStateManager;
   let config: SyncConfig;
+  const sources: SyncSource[] = [{ label: 'default', rootFolderId: 'root-folder-id' }];
+  const mocks = (): OrchestratorMocks => ({
+    driveClient,
+    embeddingClient,
+    vectorClient,
+    stateManager,
+  });
 
   beforeEach(() => {
     driveClient = new MockDriveClient();
@@ -195,13 +439,7 @@ describe('SyncOrchestrator', () => {
       maxConcurrency: 4,
     };
 
-    orchestrator = new SyncOrchestrator(
-      driveClient as any,
-      embeddingClient as any,
-      vectorClient as any,
-      stateManager as any,
-      config
-    );
+    orchestrator = createOrchestrator(mocks(), config);
   });
 
   describe('Full Sync', () => {
@@ -228,7 +466,7 @@ describe('SyncOrchestrator', () => {
       driveClient.setFileContent('file2', 'Content of document 2');
       driveClient.setStartPageToken('new-token-456');
 
-      const result = await orchestrator.runFullSync('root-folder-id');
+      const result = await orchestrator.runFullSync(sources);
 
       expect(result.filesProcessed).toBe(2);
       expect(result.vectorsUpserted).toBeGreaterThan(0);
@@ -245,7 +483,7 @@ describe('SyncOrchestrator', () => {
     it('should handle empty file lists', async () => {
       driveClient.setFiles([]);
 
-      const result = await orchestrator.runFullSync('root-folder-id');
+      const result = await orchestrator.runFullSync(sources);
 
       expect(result.filesProcessed).toBe(0);
       expect(result.vectorsUpserted).toBe(0);
@@ -270,7 +508,7 @@ describe('SyncOrchestrator', () => {
         driveClient.setFileContent(file.id, `Content of ${file.name}`);
       });
 
-      const result = await orchestrator.runFullSync('root-folder-id');
+      const result = await orchestrator.runFullSync(sources);
 
       expect(result.filesProcessed).toBe(10);
       expect(result.errors).toBe(0);
@@ -298,7 +536,7 @@ describe('SyncOrchestrator', () => {
       driveClient.setFileContent('file1', 'Content of document 1');
       // file2 will have no content, causing it to be skipped
 
-      const result = await orchestrator.runFullSync('root-folder-id');
+      const result = await orchestrator.runFullSync(sources);
 
       expect(result.filesProcessed).toBe(2); // Both files processed, one returned 0 vectors
       expect(result.errors).toBe(0); // Skipped files don't count as errors
@@ -318,7 +556,7 @@ describe('SyncOrchestrator', () => {
       driveClient.setFiles(files);
       driveClient.setFileContent('file1', '   '); // Whitespace only
 
-      const result = await orchestrator.runFullSync('root-folder-id');
+      const result = await orchestrator.runFullSync(sources);
 
       expect(result.filesProcessed).toBe(1); // File was processed but returned 0 vectors
       expect(result.vectorsUpserted).toBe(0);
@@ -342,7 +580,7 @@ describe('SyncOrchestrator', () => {
       driveClient.setFiles(files);
       driveClient.setFileContent('file1', 'Content of document 1');
 
-      const result = await orchestrator.runIncrementalSync('root-folder-id');
+      const result = await orchestrator.runIncrementalSync(sources);
 
       expect(result.filesProcessed).toBe(1);
       expect(result.vectorsUpserted).toBeGreaterThan(0);
@@ -353,7 +591,7 @@ describe('SyncOrchestrator', () => {
       driveClient.setChanges([]);
       driveClient.setStartPageToken('new-token-789');
 
-      const result = await orchestrator.runIncrementalSync('root-folder-id');
+      const result = await orchestrator.runIncrementalSync(sources);
 
       expect(result.filesProcessed).toBe(0);
       expect(result.vectorsUpserted).toBe(0);
@@ -386,7 +624,7 @@ describe('SyncOrchestrator', () => {
       driveClient.setFileContent('file1', 'Updated content');
       driveClient.setStartPageToken('new-token-999');
 
-      const result = await orchestrator.runIncrementalSync('root-folder-id');
+      const result = await orchestrator.runIncrementalSync(sources);
 
       expect(result.filesProcessed).toBe(1);
       expect(result.vectorsUpserted).toBeGreaterThan(0);
@@ -408,12 +646,56 @@ describe('SyncOrchestrator', () => {
 
       driveClient.setChanges(changes);
 
-      const result = await orchestrator.runIncrementalSync('root-folder-id');
+      const result = await orchestrator.runIncrementalSync(sources);
 
       expect(result.filesProcessed).toBe(0);
       expect(result.vectorsDeleted).toBe(1);
     });
 
+    it('should delete a file moved out of the tree and reindex it when moved back', async () => {
+      await stateManager.updateStartPageToken('existing-token');
+      const doc: DriveFileMetadata = {
+        id: 'moved',
+        name: 'moved.md',
+        path: 'moved.md',
+        mimeType: 'text/markdown',
+        modifiedTime: '2025-11-14T00:00:00Z',
+      };
+      driveClient.setFileContent('moved', 'Moved content');
+      vectorClient.setVectors('moved', [
+        { id: 'moved_0', vector: [0.1], payload: vectorPayload({ file_id: 'moved' }) },
+      ]);
+
+      // Drive only reports an out-of-tree file as deleted while it is indexed
+      let inTree = false;
+      const fetchSpy = vi
+        .spyOn(driveClient, 'fetchChanges')
+        .mockImplementation(async (_token, _root, _driveId, indexedFileIds = new Set()) => ({
+          changes: inTree
+            ? [{ fileId: 'moved', type: 'modified', file: doc }]
+            : indexedFileIds.has('moved')
+              ? [{ fileId: 'moved', type: 'deleted', movedOut: true }]
+              : [],
+          newStartPageToken: 'next-token',
+        }));
+      const upsert = vi.spyOn(vectorClient, 'upsertVectors');
+
+      const movedOut = await orchestrator.runIncrementalSync(sources);
+
+      expect(fetchSpy.mock.calls[0][3]).toEqual(new Set(['moved']));
+      expect(movedOut.vectorsDeleted).toBe(1);
+      expect(await vectorClient.listIndexedFileIds()).toEqual([]);
+
+      const unrelated = await orchestrator.runIncrementalSync(sources);
+      expect(unrelated.vectorsDeleted).toBe(0);
+
+      inTree = true;
+      const movedBack = await orchestrator.runIncrementalSync(sources);
+
+      expect(movedBack.filesProcessed).toBe(1);
+      expect(upsert.mock.lastCall?.[0][0].payload.file_id).toBe('moved');
+    });
+
     it('should handle mixed success/failure scenarios', async () => {
       await stateManager.updateStartPageToken('existing-token');
 
@@ -438,7 +720,7 @@ describe('SyncOrchestrator', () => {
       driveClient.setChanges(changes);
       driveClient.setFileContent('file1', 'Good content');
 
-      const result = await orchestrator.runIncrementalSync('root-folder-id');
+      const result = await orchestrator.runIncrementalSync(sources);
 
       expect(result.filesProcessed).toBe(1);
       expect(result.vectorsDeleted).toBe(1);
@@ -450,7 +732,7 @@ describe('SyncOrchestrator', () => {
       driveClient.setChanges([]);
       driveClient.setStartPageToken('brand-new-token');
 
-      await orchestrator.runIncrementalSync('root-folder-id');
+      await orchestrator.runIncrementalSync(sources);
 
       const state = await stateManager.getState();
       expect(state.startPageToken).toBe('brand-new-token');
@@ -495,7 +777,7 @@ describe('SyncOrchestrator', () => {
       const files = [file];
       driveClient.setFiles(files);
 
-      const result = await orchestrator.runFullSync('root-folder-id');
+      const result = await orchestrator.runFullSync(sources);
 
       expect(result.filesProcessed).toBe(1);
     });
@@ -515,7 +797,7 @@ describe('SyncOrchestrator', () => {
       const files = [file];
       driveClient.setFiles(files);
 
-      const result = await orchestrator.runFullSync('root-folder-id');
+      const result = await orchestrator.runFullSync(sources);
 
       expect(result.filesProcessed).toBe(1);
       expect(result.vectorsUpserted).toBeGreaterThan(0);
@@ -541,7 +823,7 @@ describe('SyncOrchestrator', () => {
       const files = [file];
       driveClient.setFiles(files);
 
-      const result = await orchestrator.runFullSync('root-folder-id');
+      const result = await orchestrator.runFullSync(sources);
 
       expect(result.filesProcessed).toBe(1);
       expect(result.errors).toBe(0); // Should not count as error
@@ -610,7 +892,7 @@ describe('SyncOrchestrator', () => {
       const files = [file];
       driveClient.setFiles(files);
 
-      const result = await orchestrator.runFullSync('root-folder-id');
+      const result = await orchestrator.runFullSync(sources);
 
       expect(result.filesProcessed).toBe(1);
       // Should have upserted at least one vector for the new content
@@ -641,12 +923,93 @@ describe('SyncOrchestrator', () => {
       driveClient.setFileContent('good-file', 'Good content');
       // bad-file will have no content and be skipped
 
-      const result = await orchestrator.runFullSync('root-folder-id');
+      const result = await orchestrator.runFullSync(sources);
 
       // Should process at least the good file
       expect(result.filesProcessed).toBeGreaterThanOrEqual(1);
     });
 
+    it('TEST-error-handling-9: should abort the sync when a dependency circuit is open', async () => {
+      const files: DriveFileMetadata[] = Array.from({ length: 6 }, (_, i) => ({
+        id: `file${i}`,
+        name: `doc${i}.md`,
+        path: `/docs/doc${i}.md`,
+        mimeType: 'text/markdown',
+        modifiedTime: '2025-11-14T00:00:00Z',
+      }));
+      driveClient.setFiles(files);
+      const outage = new CircuitOpenError('Google Drive', 5, 30000);
+      const downloadSpy = vi
+        .spyOn(driveClient, 'downloadFileContent')
+        .mockRejectedValue(
+          new DriveError('Failed to download file content', {}, { cause: outage })
+        );
+      const failureStore = new FailureStore(new MockKVNamespace() as unknown as KVNamespace);
+      const recordSpy = vi.spyOn(failureStore, 'recordFailure');
+      orchestrator = createOrchestrator(mocks(), config, { failureStore });
+
+      await expect(orchestrator.runFullSync(sources)).rejects.toBe(outage);
+
+      // Only the first batch was tried; the run resumes from its start next time
+      expect(downloadSpy).toHaveBeenCalledTimes(config.maxConcurrency);
+      expect(stateManager.fullSyncCursor?.offset).toBe(0);
+      expect(recordSpy).not.toHaveBeenCalled();
+    });
+
+    it('should skip a file whose content cannot be extracted without recording a failure', async () => {
+      driveClient.setFiles([
+        {
+          id: 'bomb',
+          name: 'bomb.docx',
+          path: '/bomb.docx',
+          mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+          modifiedTime: '2025-11-14T00:00:00Z',
+        },
+      ]);
+      vi.spyOn(driveClient, 'downloadFileContent').mockRejectedValue(
+        new DriveError(
+          'Failed to download file content',
+          {},
+          {
+            cause: new ExtractionError('ZIP entry word/document.xml inflates to more than 1 bytes'),
+          }
+        )
+      );
+      const failureStore = new FailureStore(new MockKVNamespace() as unknown as KVNamespace);
+      const recordSpy = vi.spyOn(failureStore, 'recordFailure');
+      const upsertSpy = vi.spyOn(vectorClient, 'upsertVectors');
+      orchestrator = createOrchestrator(mocks(), config, { failureStore });
+
+      const result = await orchestrator.runFullSync(sources);
+
+      expect(result.errors).toBe(0);
+      expect(upsertSpy).not.toHaveBeenCalled();
+      expect(recordSpy).not.toHaveBeenCalled();
+    });
+
+    it('should keep the start page token when an incremental sync aborts', async () => {
+      await stateManager.updateStartPageToken('existing-token');
+      driveClient.setChanges([
+        {
+          type: 'modified',
+          fileId: 'a',
+          file: {
+            id: 'a',
+            name: 'a.md',
+            path: '/a.md',
+            mimeType: 'text/markdown',
+            modifiedTime: '2025-11-14T00:00:00Z',
+          },
+        },
+      ]);
+      vi.spyOn(driveClient, 'downloadFileContent').mockRejectedValue(
+        new CircuitOpenError('Google Drive', 5, 30000)
+      );
+
+      await expect(orchestrator.runIncrementalSync(sources)).rejects.toThrow(CircuitOpenError);
+      expect((await stateManager.getState()).startPageToken).toBe('existing-token');
+    });
+
     it('should handle errors during incremental sync change processing', async () => {
       await stateManager.updateStartPageToken('existing-token');
 
@@ -679,11 +1042,37 @@ describe('SyncOrchestrator', () => {
       driveClient.setFileContent('good-file', 'Good content');
       // bad-file has no content
 
-      const result = await orchestrator.runIncrementalSync('root-folder-id');
+      const result = await orchestrator.runIncrementalSync(sources);
 
       expect(result.filesProcessed).toBeGreaterThanOrEqual(1);
       expect(result.errors).toBeGreaterThanOrEqual(0);
     });
+
+    it('TEST-embedding-pipeline-10: should stop before embedding when the index has other dimensions', async () => {
+      await stateManager.updateStartPageToken('existing-token');
+      driveClient.setChanges([
+        {
+          type: 'modified',
+          fileId: 'good-file',
+          file: {
+            id: 'good-file',
+            name: 'good.md',
+            path: '/good.md',
+            mimeType: 'text/markdown',
+            modifiedTime: '2025-11-14T00:00:00Z',
+          },
+        },
+      ]);
+      driveClient.setFileContent('good-file', 'Good content');
+      vectorClient.dimensions = 1024;
+      const embedSpy = vi.spyOn(embeddingClient, 'embedWithUsage');
+
+      await expect(orchestrator.runIncrementalSync(sources)).rejects.toThrow(
+        'Embedding dimensions do not match the vector index'
+      );
+      expect(embedSpy).not.toHaveBeenCalled();
+      expect((await stateManager.getState()).startPageToken).toBe('existing-token');
+    });
   });
 
   describe('Large File Handling', () => {
@@ -703,13 +1092,80 @@ describe('SyncOrchestrator', () => {
       const files = [file];
       driveClient.setFiles(files);
 
-      const result = await orchestrator.runFullSync('root-folder-id');
+      const result = await orchestrator.runFullSync(sources);
 
       expect(result.filesProcessed).toBe(1);
       expect(result.vectorsUpserted).toBeGreaterThan(0);
     });
   });
 
+  describe('Chunking Strategy', () => {
+    const markdown =
+      '# Runbook\n\n## Deploy\n\nRun the pipeline.\n\n## Rollback\n\nRevert the tag.';
+
+    beforeEach(() => {
+      driveClient.setFiles([
+        {
+          id: 'file1',
+          name: 'runbook.md',
+          path: 'ops/runbook.md',
+          mimeType: 'text/markdown',
+          modifiedTime: '2025-11-14T00:00:00Z',
+        },
+      ]);
+      driveClient.setFileContent('file1', markdown);
+    });
+
+    it('should keep small files in a single fixed-size chunk by default', async () => {
+      const upsertSpy = vi.spyOn(vectorClient, 'upsertVectors');
+
+      await orchestrator.runFullSync(sources);
+
+      const upserted = upsertSpy.mock.calls[0][0];
+      expect(upserted).toHaveLength(1);
+      expect(upserted[0].payload.heading_path).toBeUndefined();
+    });
+
+    it('should split on headings and embed the breadcrumb with the markdown strategy', async () => {
+      orchestrator = createOrchestrator(mocks(), { ...config, chunkingStrategy: 'markdown' });
+      const embedSpy = vi.spyOn(embeddingClient, 'embedWithBatching');
+      const upsertSpy = vi.spyOn(vectorClient, 'upsertVectors');
+
+      await orchestrator.runFullSync(sources);
+
+      const upserted = upsertSpy.mock.calls[0][0];
+      expect(upserted.map(v => v.payload.heading_path)).toEqual([
+        'Runbook > Deploy',
+        'Runbook > Rollback',
+      ]);
+      expect(upserted[1].payload.text).toBe('## Rollback\n\nRevert the tag.');
+      expect(embedSpy.mock.calls[0][0][1]).toBe(
+        'Runbook > Rollback\n\n## Rollback\n\nRevert the tag.'
+      );
+    });
+
+    it('should fail files while the configured tokenizer cannot be loaded', async () => {
+      const tokenizer: Tokenizer = { name: 'words', countTokens: text => text.split(' ').length };
+      const loadTokenizer = vi
+        .fn<() => Promise<Tokenizer>>()
+        .mockRejectedValueOnce(new Error('Failed to load tokenizer ranks: 503'))
+        .mockResolvedValue(tokenizer);
+      orchestrator = createOrchestrator(mocks(), config, { loadTokenizer });
+      const upsertSpy = vi.spyOn(vectorClient, 'upsertVectors');
+
+      const failed = await orchestrator.runFullSync(sources);
+
+      expect(failed.errors).toBe(1);
+      expect(upsertSpy).not.toHaveBeenCalled();
+
+      const retried = await orchestrator.runFullSync(sources);
+
+      expect(retried.errors).toBe(0);
+      expect(loadTokenizer).toHaveBeenCalledTimes(2);
+      expect(upsertSpy).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('State Updates', () => {
     it('should update stats correctly after sync', async () => {
       const files: DriveFileMetadata[] = [
@@ -733,7 +1189,7 @@ describe('SyncOrchestrator', () => {
       driveClient.setFileContent('file1', 'Content 1');
       driveClient.setFileContent('file2', 'Content 2');
 
-      await orchestrator.runFullSync('root-folder-id');
+      await orchestrator.runFullSync(sources);
 
       const state = await stateManager.getState();
       expect(state.filesProcessed).toBe(2);
@@ -741,4 +1197,1081 @@ describe('SyncOrchestrator', () => {
       expect(state.lastSyncTime).toBeDefined();
     });
   });
+
+  describe('Keyword Index Maintenance', () => {
+    let keywordIndex: Mocked<KeywordIndex>;
+
+    beforeEach(() => {
+      keywordIndex = {
+        indexFile: vi.fn<KeywordIndex['indexFile']>().mockResolvedValue(undefined),
+        removeFile: vi.fn<KeywordIndex['removeFile']>().mockResolvedValue(undefined),
+        search: vi.fn<KeywordIndex['search']>().mockResolvedValue([]),
+      };
+      orchestrator = createOrchestrator(mocks(), config, { keywordIndex });
+    });
+
+    it('should index chunk text under the vector IDs', async () => {
+      driveClient.setFiles([
+        {
+          id: 'file1',
+          name: 'doc1.md',
+          path: 'doc1.md',
+          mimeType: 'text/markdown',
+          modifiedTime: '2025-11-14T00:00:00Z',
+        },
+      ]);
+      driveClient.setFileContent('file1', 'Ticket PROJ-42 follow-up');
+
+      await orchestrator.runFullSync(sources);
+
+      expect(keywordIndex.indexFile).toHaveBeenCalledWith('file1', [
+        { id: 'file1_0', text: 'Ticket PROJ-42 follow-up' },
+      ]);
+    });
+
+    it('should remove deleted files from the keyword index', async () => {
+      await stateManager.updateStartPageToken('existing-token');
+      driveClient.setChanges([{ type: 'deleted', fileId: 'file1' }]);
+
+      await orchestrator.runIncrementalSync(sources);
+
+      expect(keywordIndex.removeFile).toHaveBeenCalledWith('file1');
+    });
+
+    it('should purge a file that was emptied or can no longer be extracted', async () => {
+      const doc = (id: string): DriveFileMetadata => ({
+        id,
+        name: `${id}.docx`,
+        path: `${id}.docx`,
+        mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        modifiedTime: '2025-11-14T00:00:00Z',
+      });
+      driveClient.setFiles([doc('emptied'), doc('bomb')]);
+      vectorClient.setVectors('emptied', [
+        { id: 'emptied_0', vector: [0.1], payload: vectorPayload({ file_id: 'emptied' }) },
+      ]);
+      vectorClient.setVectors('bomb', [
+        { id: 'bomb_0', vector: [0.1], payload: vectorPayload({ file_id: 'bomb' }) },
+      ]);
+      const download = vi.spyOn(driveClient, 'downloadFileContent');
+      download.mockImplementation(async fileId => {
+        if (fileId === 'bomb') {
+          throw new DriveError(
+            'Failed to download file content',
+            {},
+            {
+              cause: new ExtractionError(
+                'ZIP entry word/document.xml inflates to more than 1 bytes'
+              ),
+            }
+          );
+        }
+        return '  ';
+      });
+
+      const result = await orchestrator.runFullSync(sources);
+
+      expect(result.errors).toBe(0);
+      expect(await vectorClient.getVectorsByFileId('emptied')).toEqual([]);
+      expect(await vectorClient.getVectorsByFileId('bomb')).toEqual([]);
+      expect(keywordIndex.removeFile).toHaveBeenCalledWith('emptied');
+      expect(keywordIndex.removeFile).toHaveBeenCalledWith('bomb');
+      expect(keywordIndex.indexFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Path Rules', () => {
+    const file = (id: string, path: string): DriveFileMetadata => ({
+      id,
+      name: path.split('/').pop()!,
+      path,
+      mimeType: 'text/markdown',
+      modifiedTime: '2025-11-14T00:00:00Z',
+    });
+
+    it('TEST-drive-integration-8: should remove vectors of newly excluded files on the next run', async () => {
+      await stateManager.updateStartPageToken('existing-token');
+      vectorClient.setVectors('archived', [
+        {
+          id: 'archived_0',
+          vector: [],
+          payload: {
+            file_id: 'archived',
+            file_name: 'old.md',
+            file_path: 'Archive/old.md',
+            chunk_index: 0,
+            chunk_hash: 'hash',
+            last_modified: '2025-01-01T00:00:00Z',
+          },
+        },
+      ]);
+      driveClient.setPathFilter(new PathFilter({ exclude: ['Archive/**'] }), [
+        file('archived', 'Archive/old.md'),
+      ]);
+
+      const result = await orchestrator.runIncrementalSync(sources);
+
+      expect(result.vectorsDeleted).toBe(1);
+      expect(await vectorClient.getVectorsByFileId('archived')).toEqual([]);
+      expect((await stateManager.getState()).pathRulesFingerprint).toBe(
+        driveClient.getPathFilter().fingerprint
+      );
+
+      // Rules unchanged: nothing to reconcile
+      const listSpy = vi.spyOn(driveClient, 'listFilesByPathRules');
+      await orchestrator.runIncrementalSync(sources);
+      expect(listSpy).not.toHaveBeenCalled();
+    });
+
+    it('should index files that the previous rules excluded', async () => {
+      await stateManager.updateStartPageToken('existing-token');
+      await stateManager.updatePathRulesFingerprint(
+        new PathFilter({ exclude: ['Drafts/**'] }).fingerprint
+      );
+      driveClient.setFiles([file('draft', 'Drafts/plan.md'), file('kept', 'Notes/kept.md')]);
+      driveClient.setFileContent('draft', 'Draft content');
+      driveClient.setFileContent('kept', 'Kept content');
+
+      const result = await orchestrator.runIncrementalSync(sources);
+
+      expect(result.filesProcessed).toBe(1);
+      expect((await stateManager.getState()).pathRulesFingerprint).toBe('');
+    });
+  });
+
+  describe('Multiple Sources', () => {
+    const twoSources: SyncSource[] = [
+      { label: 'notes', rootFolderId: 'folder-notes' },
+      { label: 'team', rootFolderId: '0ATeam', driveId: '0ATeam' },
+    ];
+
+    const fileIn = (id: string): DriveFileMetadata => ({
+      id,
+      name: `${id}.md`,
+      path: `${id}.md`,
+      mimeType: 'text/markdown',
+      modifiedTime: '2025-11-14T00:00:00Z',
+    });
+
+    it('TEST-drive-integration-9: should sync each source with its own token and label', async () => {
+      const listSpy = vi
+        .spyOn(driveClient, 'listMarkdownFiles')
+        .mockImplementation(async rootFolderId =>
+          rootFolderId === '0ATeam' ? [fileIn('team-doc')] : [fileIn('notes-doc')]
+        );
+      const tokenSpy = vi
+        .spyOn(driveClient, 'getStartPageToken')
+        .mockImplementation(async (driveId?: string) => (driveId ? 'drive-token' : 'user-token'));
+      const upsertSpy = vi.spyOn(vectorClient, 'upsertVectors');
+      driveClient.setFileContent('team-doc', 'Team content');
+      driveClient.setFileContent('notes-doc', 'Notes content');
+
+      const result = await orchestrator.runFullSync(twoSources);
+
+      expect(result.filesProcessed).toBe(2);
+      expect(listSpy).toHaveBeenCalledWith('0ATeam', '0ATeam');
+      expect(tokenSpy).toHaveBeenCalledWith('0ATeam');
+      expect((await stateManager.getSourceState('notes')).startPageToken).toBe('user-token');
+      expect((await stateManager.getSourceState('team')).startPageToken).toBe('drive-token');
+
+      const sourcesByFile = Object.fromEntries(
+        upsertSpy.mock.calls.flatMap(([vectors]) =>
+          vectors.map(vector => [vector.payload.file_id, vector.payload.source])
+        )
+      );
+      expect(sourcesByFile).toEqual({ 'notes-doc': 'notes', 'team-doc': 'team' });
+    });
+
+    it('should keep syncing other sources when one fails', async () => {
+      await stateManager.updateStartPageToken('notes-token', 'notes');
+      await stateManager.updateStartPageToken('team-token', 'team');
+      const fetchSpy = vi
+        .spyOn(driveClient, 'fetchChanges')
+        .mockImplementation(async (_token, rootFolderId) => {
+          if (rootFolderId === '0ATeam') {
+            throw new Error('Shared drive not found');
+          }
+          return { changes: [{ fileId: 'gone', type: 'deleted' }], newStartPageToken: 'notes-2' };
+        });
+
+      const result = await orchestrator.runIncrementalSync(twoSources);
+
+      expect(fetchSpy).toHaveBeenCalledWith('team-token', '0ATeam', '0ATeam', expect.any(Set));
+      expect(result.vectorsDeleted).toBe(1);
+      expect(result.errors).toBe(1);
+      expect((await stateManager.getSourceState('notes')).startPageToken).toBe('notes-2');
+      const team = await stateManager.getSourceState('team');
+      expect(team.startPageToken).toBe('team-token');
+      expect(team.lastError).toBe('Shared drive not found');
+    });
+
+    it('should keep a file moved from a later source into an earlier one', async () => {
+      await stateManager.updateStartPageToken('notes-token', 'notes');
+      await stateManager.updateStartPageToken('team-token', 'team');
+      vectorClient.setVectors('doc', [
+        { id: 'doc_0', vector: [0.1], payload: vectorPayload({ file_id: 'doc', source: 'team' }) },
+      ]);
+      driveClient.setFileContent('doc', 'Moved to notes');
+      vi.spyOn(driveClient, 'fetchChanges').mockImplementation(async (_token, rootFolderId) => ({
+        changes:
+          rootFolderId === '0ATeam'
+            ? [{ fileId: 'doc', type: 'deleted' }]
+            : [{ fileId: 'doc', type: 'modified', file: fileIn('doc') }],
+        newStartPageToken: 'next-token',
+      }));
+      const deleteSpy = vi.spyOn(vectorClient, 'deleteVectorsByFileId');
+
+      const result = await orchestrator.runIncrementalSync(twoSources);
+
+      expect(result.filesProcessed).toBe(1);
+      expect(deleteSpy).not.toHaveBeenCalled();
+    });
+
+    describe('sharing a change feed', () => {
+      const folderSources: SyncSource[] = [
+        { label: 'notes', rootFolderId: 'folder-notes' },
+        { label: 'team', rootFolderId: 'folder-team' },
+      ];
+
+      beforeEach(async () => {
+        await stateManager.updateStartPageToken('notes-token', 'notes');
+        await stateManager.updateStartPageToken('team-token', 'team');
+        vectorClient.setVectors('doc', [
+          {
+            id: 'doc_0',
+            vector: [0.1],
+            payload: vectorPayload({ file_id: 'doc', source: 'team' }),
+          },
+        ]);
+        driveClient.setFileContent('doc', 'Team content');
+      });
+
+      it('should not delete a file another source moved out of when a later source owns it', async () => {
+        // Both sources read the same feed: notes sees the team file as outside its tree
+        vi.spyOn(driveClient, 'fetchChanges').mockImplementation(async (_token, rootFolderId) => ({
+          changes:
+            rootFolderId === 'folder-notes'
+              ? [{ fileId: 'doc', type: 'deleted', movedOut: true }]
+              : [{ fileId: 'doc', type: 'modified', file: fileIn('doc') }],
+          newStartPageToken: 'next-token',
+        }));
+        const deleteSpy = vi.spyOn(vectorClient, 'deleteVectorsByFileId');
+
+        const result = await orchestrator.runIncrementalSync(folderSources);
+
+        expect(result.filesProcessed).toBe(1);
+        expect(result.vectorsDeleted).toBe(0);
+        expect(deleteSpy).not.toHaveBeenCalled();
+      });
+
+      it('should delete a file that left every source once all sources ran', async () => {
+        vi.spyOn(driveClient, 'fetchChanges').mockResolvedValue({
+          changes: [{ fileId: 'doc', type: 'deleted', movedOut: true }],
+          newStartPageToken: 'next-token',
+        });
+        const deleteSpy = vi.spyOn(vectorClient, 'deleteVectorsByFileId');
+
+        const result = await orchestrator.runIncrementalSync(folderSources);
+
+        expect(result.vectorsDeleted).toBe(1);
+        expect(deleteSpy).toHaveBeenCalledTimes(1);
+      });
+
+      it('should keep moved-out files when a source fails', async () => {
+        vi.spyOn(driveClient, 'fetchChanges').mockImplementation(async (_token, rootFolderId) => {
+          if (rootFolderId === 'folder-team') {
+            throw new Error('Backend Error');
+          }
+          return {
+            changes: [{ fileId: 'doc', type: 'deleted', movedOut: true }],
+            newStartPageToken: 'next-token',
+          };
+        });
+        const deleteSpy = vi.spyOn(vectorClient, 'deleteVectorsByFileId');
+
+        const result = await orchestrator.runIncrementalSync(folderSources);
+
+        expect(result.errors).toBe(1);
+        expect(deleteSpy).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should fully scan a newly added source during incremental sync', async () => {
+      await stateManager.updateStartPageToken('notes-token', 'notes');
+      const listSpy = vi.spyOn(driveClient, 'listMarkdownFiles');
+      const fetchSpy = vi.spyOn(driveClient, 'fetchChanges');
+
+      await orchestrator.runIncrementalSync(twoSources);
+
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect(listSpy).toHaveBeenCalledWith('0ATeam', '0ATeam');
+      expect((await stateManager.getSourceState('team')).startPageToken).toBe('start-token-123');
+    });
+
+    it('should fail the run when every source fails', async () => {
+      vi.spyOn(driveClient, 'listMarkdownFiles').mockRejectedValue(new Error('Drive unavailable'));
+
+      await expect(orchestrator.runFullSync(twoSources)).rejects.toThrow('Drive unavailable');
+    });
+  });
+
+  describe('Resumable Full Sync', () => {
+    const manyFiles = (count: number): DriveFileMetadata[] =>
+      Array.from({ length: count }, (_, i) => ({
+        id: `file${i}`,
+        name: `doc${i}.md`,
+        path: `doc${i}.md`,
+        mimeType: 'text/markdown',
+        modifiedTime: '2025-11-14T00:00:00Z',
+      }));
+
+    beforeEach(() => {
+      orchestrator = createOrchestrator(mocks(), {
+        ...config,
+        maxConcurrency: 2,
+        maxFilesPerRun: 3,
+      });
+      const files = manyFiles(5);
+      driveClient.setFiles(files);
+      files.forEach(file => driveClient.setFileContent(file.id, `Content of ${file.name}`));
+    });
+
+    it('TEST-state-management-6: should checkpoint after a slice and resume on the next run', async () => {
+      const listSpy = vi.spyOn(driveClient, 'listMarkdownFiles');
+
+      const first = await orchestrator.runFullSync(sources);
+
+      expect(first.filesProcessed).toBe(3);
+      expect(first.pendingFiles).toBe(2);
+      expect(stateManager.fullSyncCursor?.offset).toBe(3);
+      expect((await stateManager.getState()).startPageToken).toBeNull();
+
+      const second = await orchestrator.runFullSync(sources);
+
+      expect(listSpy).toHaveBeenCalledTimes(1);
+      expect(second.filesProcessed).toBe(5);
+      expect(second.pendingFiles).toBeUndefined();
+      expect(stateManager.fullSyncCursor).toBeNull();
+      expect((await stateManager.getState()).startPageToken).toBe('start-token-123');
+      expect((await stateManager.getState()).filesProcessed).toBe(5);
+    });
+
+    it('should save the start page token taken before listing', async () => {
+      const events: string[] = [];
+      vi.spyOn(driveClient, 'getStartPageToken').mockImplementation(async () => {
+        events.push('token');
+        return 'before-listing';
+      });
+      vi.spyOn(driveClient, 'listMarkdownFiles').mockImplementation(async () => {
+        events.push('list');
+        return manyFiles(2);
+      });
+
+      await orchestrator.runFullSync(sources);
+
+      expect(events).toEqual(['token', 'list']);
+      expect((await stateManager.getState()).startPageToken).toBe('before-listing');
+    });
+
+    it('should resume an unfinished full sync instead of fetching changes', async () => {
+      await orchestrator.runFullSync(sources);
+      await stateManager.updateStartPageToken('old-token');
+      const fetchSpy = vi.spyOn(driveClient, 'fetchChanges');
+
+      const result = await orchestrator.runIncrementalSync(sources);
+
+      expect(fetchSpy).not.toHaveBeenCalled();
+      expect(result.filesProcessed).toBe(5);
+      expect(stateManager.fullSyncCursor).toBeNull();
+    });
+
+    it('should restart when the checkpoint was taken for other sources', async () => {
+      await orchestrator.runFullSync(sources);
+      const listSpy = vi.spyOn(driveClient, 'listMarkdownFiles');
+
+      const result = await orchestrator.runFullSync([{ label: 'notes', rootFolderId: 'notes' }]);
+
+      expect(listSpy).toHaveBeenCalledTimes(1);
+      expect(result.filesProcessed).toBe(3);
+      expect(stateManager.fullSyncCursor?.sourceLabels).toEqual(['notes']);
+    });
+  });
+
+  describe('File Queue', () => {
+    let fileQueue: InMemoryFileJobQueue;
+
+    const doc = (id: string): DriveFileMetadata => ({
+      id,
+      name: `${id}.md`,
+      path: `${id}.md`,
+      mimeType: 'text/markdown',
+      modifiedTime: '2025-11-14T00:00:00Z',
+    });
+
+    beforeEach(() => {
+      fileQueue = new InMemoryFileJobQueue({ maxRetries: 2 });
+      orchestrator = createOrchestrator(mocks(), config, { fileQueue });
+    });
+
+    it('TEST-error-handling-7: should enqueue files during full sync and process them in the consumer', async () => {
+      driveClient.setFiles([doc('a'), doc('b')]);
+      driveClient.setFileContent('a', 'Content A');
+      driveClient.setFileContent('b', 'Content B');
+      const upsertSpy = vi.spyOn(vectorClient, 'upsertVectors');
+
+      const result = await orchestrator.runFullSync(sources);
+
+      expect(result.filesQueued).toBe(2);
+      expect(result.filesProcessed).toBe(0);
+      expect(upsertSpy).not.toHaveBeenCalled();
+      expect((await stateManager.getState()).startPageToken).toBe('start-token-123');
+
+      await fileQueue.drain(messages =>
+        consumeFileJobs(messages, job => orchestrator.runFileJob(job))
+      );
+
+      expect(upsertSpy).toHaveBeenCalledTimes(2);
+      expect(upsertSpy.mock.calls[0][0][0].payload.source).toBe('default');
+      expect(fileQueue.deadLetters).toEqual([]);
+    });
+
+    it('should enqueue delete and process jobs for incremental changes', async () => {
+      await stateManager.updateStartPageToken('token-1');
+      driveClient.setChanges([
+        { fileId: 'gone', type: 'deleted' },
+        { fileId: 'a', type: 'modified', file: doc('a') },
+      ]);
+      const deleteSpy = vi.spyOn(vectorClient, 'deleteVectorsByFileId');
+
+      const result = await orchestrator.runIncrementalSync(sources);
+
+      expect(result.filesQueued).toBe(2);
+      expect(deleteSpy).not.toHaveBeenCalled();
+
+      await fileQueue.drain(messages =>
+        consumeFileJobs(messages, job => orchestrator.runFileJob(job))
+      );
+
+      expect(deleteSpy).toHaveBeenCalledWith('gone');
+    });
+
+    it('should not enqueue a move-out delete for a file a later source owns', async () => {
+      const folderSources: SyncSource[] = [
+        { label: 'notes', rootFolderId: 'folder-notes' },
+        { label: 'team', rootFolderId: 'folder-team' },
+      ];
+      await stateManager.updateStartPageToken('notes-token', 'notes');
+      await stateManager.updateStartPageToken('team-token', 'team');
+      vi.spyOn(driveClient, 'fetchChanges').mockImplementation(async (_token, rootFolderId) => ({
+        changes:
+          rootFolderId === 'folder-notes'
+            ? [{ fileId: 'a', type: 'deleted', movedOut: true }]
+            : [{ fileId: 'a', type: 'modified', file: doc('a') }],
+        newStartPageToken: 'next-token',
+      }));
+      const sendSpy = vi.spyOn(fileQueue, 'sendBatch');
+
+      const result = await orchestrator.runIncrementalSync(folderSources);
+
+      expect(result.filesQueued).toBe(1);
+      expect(sendSpy.mock.calls.flatMap(([jobs]) => jobs)).toEqual([
+        expect.objectContaining({ type: 'process', fileId: 'a' }),
+      ]);
+    });
+
+    it('should dead-letter a file job that keeps failing', async () => {
+      driveClient.setFiles([doc('a')]);
+      vi.spyOn(driveClient, 'downloadFileContent').mockRejectedValue(new Error('Download failed'));
+
+      await orchestrator.runFullSync(sources);
+      await fileQueue.drain(messages =>
+        consumeFileJobs(messages, job => orchestrator.runFileJob(job))
+      );
+
+      expect(fileQueue.deadLetters).toHaveLength(1);
+      expect(fileQueue.deadLetters[0].job.fileId).toBe('a');
+      expect(fileQueue.deadLetters[0].attempts).toBe(3);
+    });
+  });
+
+  describe('Failed Files', () => {
+    let failureStore: FailureStore;
+
+    const doc = (id: string): DriveFileMetadata => ({
+      id,
+      name: `${id}.md`,
+      path: `${id}.md`,
+      mimeType: 'text/markdown',
+      modifiedTime: '2025-11-14T00:00:00Z',
+      source: 'default',
+    });
+
+    beforeEach(() => {
+      failureStore = new FailureStore(new MockKVNamespace() as unknown as KVNamespace);
+      orchestrator = createOrchestrator(mocks(), config, { failureStore });
+    });
+
+    it('TEST-error-handling-8: should record failed files and retry them once due', async () => {
+      driveClient.setFiles([doc('a'), doc('b')]);
+      driveClient.setFileContent('a', 'Content A');
+      driveClient.setFileContent('b', 'Content B');
+      const download = vi.spyOn(driveClient, 'downloadFileContent');
+      download.mockRejectedValueOnce(new Error('Download failed'));
+
+      const result = await orchestrator.runFullSync(sources);
+
+      expect(result.errors).toBe(1);
+      const [failure] = await failureStore.listFailures();
+      expect(failure).toMatchObject({ fileId: 'a', attempts: 1, errorMessage: 'Download failed' });
+
+      // Backdate the failure so its retry is due on the next incremental run
+      await failureStore.recordFailure(doc('a'), new Error('Download failed'), new Date(0));
+      driveClient.setChanges([]);
+
+      const retry = await orchestrator.runIncrementalSync(sources);
+
+      expect(retry.filesProcessed).toBe(1);
+      expect(await failureStore.listFailures()).toEqual([]);
+    });
+
+    it('should not retry failures before their backoff has passed', async () => {
+      await stateManager.updateStartPageToken('token-1');
+      await failureStore.recordFailure(doc('a'), new Error('Download failed'));
+      driveClient.setChanges([]);
+      const download = vi.spyOn(driveClient, 'downloadFileContent');
+
+      await orchestrator.runIncrementalSync(sources);
+
+      expect(download).not.toHaveBeenCalled();
+      expect(await failureStore.getFailure('a')).not.toBeNull();
+    });
+
+    it('should clear the failure when the file is deleted from Drive', async () => {
+      await stateManager.updateStartPageToken('token-1');
+      await failureStore.recordFailure(doc('a'), new Error('Download failed'));
+      driveClient.setChanges([{ fileId: 'a', type: 'deleted' }]);
+
+      await orchestrator.runIncrementalSync(sources);
+
+      expect(await failureStore.getFailure('a')).toBeNull();
+    });
+
+    it('should retry a failed file on demand', async () => {
+      await failureStore.recordFailure(doc('a'), new Error('Download failed'));
+      driveClient.setFileContent('a', 'Content A');
+
+      expect(await orchestrator.retryFailedFile('a')).toBeGreaterThan(0);
+      expect(await orchestrator.retryFailedFile('a')).toBeNull();
+    });
+
+    it('should bump the attempt count when an on-demand retry fails again', async () => {
+      await failureStore.recordFailure(doc('a'), new Error('Download failed'));
+      vi.spyOn(driveClient, 'downloadFileContent').mockRejectedValue(new Error('Still failing'));
+
+      await expect(orchestrator.retryFailedFile('a')).rejects.toThrow('Still failing');
+      expect(await failureStore.getFailure('a')).toMatchObject({
+        attempts: 2,
+        errorMessage: 'Still failing',
+      });
+    });
+  });
+
+  describe('Admin File Operations', () => {
+    const doc: DriveFileMetadata = {
+      id: 'a',
+      name: 'a.md',
+      path: 'a.md',
+      mimeType: 'text/markdown',
+      modifiedTime: '2025-11-14T00:00:00Z',
+    };
+
+    it('TEST-admin-api-8: should re-embed every chunk when reindexing a file', async () => {
+      driveClient.setFiles([doc]);
+      driveClient.setFileContent('a', 'Content A');
+      const upsert = vi.spyOn(vectorClient, 'upsertVectors');
+      await orchestrator.runFullSync(sources);
+      vectorClient.setVectors('a', upsert.mock.calls[0][0]);
+
+      // Unchanged chunks are reused by a regular sync...
+      const embed = vi.spyOn(embeddingClient, 'embedWithUsage');
+      await stateManager.updateStartPageToken('token-1');
+      driveClient.setChanges([{ fileId: 'a', type: 'modified', file: doc }]);
+      await orchestrator.runIncrementalSync(sources);
+      expect(embed).not.toHaveBeenCalled();
+
+      // ...but a reindex embeds them again
+      expect(await orchestrator.reindexFile('a', sources)).toBe(1);
+      expect(embed).toHaveBeenCalledTimes(1);
+      expect(upsert.mock.lastCall?.[0][0].payload.source).toBe('default');
+    });
+
+    it('should return null when no source tracks the file', async () => {
+      expect(await orchestrator.reindexFile('missing', sources)).toBeNull();
+    });
+
+    it('should look the file up once and reindex it under the source holding it', async () => {
+      const twoSources: SyncSource[] = [
+        { label: 'notes', rootFolderId: 'folder-notes' },
+        { label: 'team', rootFolderId: 'folder-team' },
+      ];
+      driveClient.setFileContent('a', 'Content A');
+      const lookup = vi
+        .spyOn(driveClient, 'getFileMetadata')
+        .mockResolvedValue({ file: doc, rootFolderId: 'folder-team' });
+      const upsert = vi.spyOn(vectorClient, 'upsertVectors');
+
+      expect(await orchestrator.reindexFile('a', twoSources)).toBe(1);
+
+      expect(lookup).toHaveBeenCalledTimes(1);
+      expect(lookup).toHaveBeenCalledWith('a', ['folder-notes', 'folder-team']);
+      expect(upsert.mock.lastCall?.[0][0].payload.source).toBe('team');
+    });
+
+    it("should purge a file's vectors and keyword entries", async () => {
+      const keywordIndex: Mocked<KeywordIndex> = {
+        indexFile: vi.fn(),
+        removeFile: vi.fn(),
+        search: vi.fn(),
+      };
+      orchestrator = createOrchestrator(mocks(), config, { keywordIndex });
+      vectorClient.setVectors('a', [
+        {
+          id: 'a_0',
+          vector: [0.1],
+          payload: vectorPayload({ file_id: 'a', file_name: 'a.md', file_path: 'a.md' }),
+        },
+      ]);
+
+      await orchestrator.purgeFile('a');
+
+      expect(await vectorClient.getVectorsByFileId('a')).toEqual([]);
+      expect(keywordIndex.removeFile).toHaveBeenCalledWith('a');
+    });
+  });
+
+  describe('Reconciliation', () => {
+    const file = (id: string): DriveFileMetadata => ({
+      id,
+      name: `${id}.md`,
+      path: `${id}.md`,
+      mimeType: 'text/markdown',
+      modifiedTime: '2025-11-14T00:00:00Z',
+    });
+    const vectors = (fileId: string, count: number): VectorPoint[] =>
+      Array.from({ length: count }, (_, chunkIndex) => ({
+        id: `${fileId}_${chunkIndex}`,
+        vector: [0.1],
+        payload: vectorPayload({ file_id: fileId, chunk_index: chunkIndex, chunk_hash: 'stale' }),
+      }));
+
+    beforeEach(() => {
+      // a: in sync; b: lost one of its vectors; c: missing; gone: deleted from Drive
+      driveClient.setFiles([file('a'), file('b'), file('c')]);
+      ['a', 'b', 'c'].forEach(id => driveClient.setFileContent(id, `Content ${id}`));
+      vectorClient.setVectors('a', vectors('a', 1));
+      vectorClient.setVectors('b', vectors('b', 2));
+      vectorClient.setVectors('gone', vectors('gone', 3));
+      vectorClient.loseVectors(['b_1']);
+    });
+
+    it('TEST-admin-api-9: should report drift without repairing it in a dry run', async () => {
+      const deleteFile = vi.spyOn(vectorClient, 'deleteVectorsByFileId');
+      const upsert = vi.spyOn(vectorClient, 'upsertVectors');
+
+      const report = await orchestrator.reconcile(sources, { dryRun: true });
+
+      expect(report).toMatchObject({
+        dryRun: true,
+        filesInDrive: 3,
+        filesInIndex: 3,
+        orphanedFiles: ['gone'],
+        missingFiles: ['c'],
+        danglingVectors: 1,
+        vectorCount: { tracked: 100, actual: 2 },
+      });
+      expect(report.repairs).toBeUndefined();
+      expect(deleteFile).not.toHaveBeenCalled();
+      expect(upsert).not.toHaveBeenCalled();
+      expect(vectorClient.vectorCount).toBe(100);
+    });
+
+    it('TEST-admin-api-9: should purge orphans, reset the count and reindex affected files', async () => {
+      const deleteIds = vi.spyOn(vectorClient, 'deleteVectorsByIds');
+      const upsert = vi.spyOn(vectorClient, 'upsertVectors');
+
+      const report = await orchestrator.reconcile(sources);
+
+      expect(report.repairs).toEqual({
+        filesDeleted: 1,
+        filesProcessed: 2,
+        filesQueued: 0,
+        errors: 0,
+        vectorCountReset: true,
+      });
+      expect(report.nextCursor).toBeNull();
+      expect(await vectorClient.getVectorsByFileId('gone')).toEqual([]);
+      expect(deleteIds).toHaveBeenCalledWith(['b_1']);
+      expect(vectorClient.vectorCount).toBe(2);
+      const reindexed = upsert.mock.calls.map(([points]) => points[0].payload.file_id);
+      expect(reindexed.sort()).toEqual(['b', 'c']);
+    });
+
+    it('should reconcile the file index a page at a time', async () => {
+      vectorClient.indexPageSize = 2;
+      const upsert = vi.spyOn(vectorClient, 'upsertVectors');
+
+      const first = await orchestrator.reconcile(sources);
+
+      // a and b only: c sorts after the page, so it is left to the next one
+      expect(first).toMatchObject({ filesInIndex: 2, orphanedFiles: [], missingFiles: [] });
+      expect(first.repairs?.vectorCountReset).toBe(false);
+      expect(first.nextCursor).toEqual(expect.any(String));
+      expect(upsert.mock.calls.map(([points]) => points[0].payload.file_id)).toEqual(['b']);
+
+      const last = await orchestrator.reconcile(sources, { cursor: first.nextCursor! });
+
+      expect(last).toMatchObject({
+        filesInIndex: 1,
+        orphanedFiles: ['gone'],
+        missingFiles: ['c'],
+        vectorCount: { tracked: 100, actual: 2 },
+        nextCursor: null,
+      });
+      expect(last.repairs?.vectorCountReset).toBe(true);
+      expect(vectorClient.vectorCount).toBe(2);
+    });
+
+    it('should leave the vector count as is when a repair failed', async () => {
+      vi.spyOn(vectorClient, 'deleteVectorsByIds').mockRejectedValueOnce(
+        new Error('Vectorize down')
+      );
+
+      const setCount = vi.spyOn(vectorClient, 'setVectorCount');
+
+      const report = await orchestrator.reconcile(sources);
+
+      expect(report.repairs).toMatchObject({ errors: 1, vectorCountReset: false });
+      expect(setCount).not.toHaveBeenCalled();
+    });
+
+    it('should reject a cursor it did not issue', async () => {
+      await expect(orchestrator.reconcile(sources, { cursor: 'not-a-cursor' })).rejects.toThrow(
+        'Invalid reconcile cursor'
+      );
+    });
+
+    it('should change nothing when a Drive listing fails', async () => {
+      vi.spyOn(driveClient, 'listMarkdownFiles').mockRejectedValue(new Error('Drive down'));
+      const deleteFile = vi.spyOn(vectorClient, 'deleteVectorsByFileId');
+
+      await expect(orchestrator.reconcile(sources)).rejects.toThrow('Drive down');
+      expect(deleteFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Embedding Migration', () => {
+    let store: EmbeddingIndexStore;
+    let targetEmbedding: MockEmbeddingClient;
+    let targetVectors: MockVectorClient;
+
+    const fileIn = (id: string): DriveFileMetadata => ({
+      id,
+      name: `${id}.md`,
+      path: `${id}.md`,
+      mimeType: 'text/markdown',
+      modifiedTime: '2025-11-14T00:00:00Z',
+    });
+
+    beforeEach(async () => {
+      store = new EmbeddingIndexStore(new MockKVNamespace() as unknown as KVNamespace);
+      await store.saveState({
+        active: 'primary',
+        migration: {
+          target: 'secondary',
+          model: 'text-embedding-3-large',
+          dimensions: 1024,
+          startedAt: '2025-11-15T00:00:00Z',
+          filesTotal: null,
+          filesMigrated: 0,
+          clearing: false,
+          updatedAt: '2025-11-15T00:00:00Z',
+        },
+        switchedAt: null,
+      });
+      targetEmbedding = new MockEmbeddingClient();
+      targetEmbedding.setEmbeddings([Array(1024).fill(0.2)]);
+      targetVectors = new MockVectorClient();
+      orchestrator = createOrchestrator(
+        mocks(),
+        { ...config, maxFilesPerRun: 2 },
+        {
+          migration: {
+            embeddingClient: targetEmbedding as unknown as EmbeddingClient,
+            vectorClient: targetVectors,
+            store,
+          },
+        }
+      );
+      ['a', 'b', 'c'].forEach(id => driveClient.setFileContent(id, `Content ${id}`));
+    });
+
+    it('TEST-embedding-pipeline-9: should shadow-write synced files to the target index', async () => {
+      await stateManager.updateStartPageToken('existing-token');
+      driveClient.setChanges([{ fileId: 'a', type: 'modified', file: fileIn('a') }]);
+      const activeUpsert = vi.spyOn(vectorClient, 'upsertVectors');
+      const targetUpsert = vi.spyOn(targetVectors, 'upsertVectors');
+
+      await orchestrator.runIncrementalSync(sources);
+
+      expect(activeUpsert.mock.calls[0][0][0].vector).toHaveLength(1536);
+      expect(targetUpsert.mock.calls[0][0][0].vector).toHaveLength(1024);
+      expect(await store.listMigratedFileIds()).toEqual(['a']);
+    });
+
+    it('should remove deleted files from both indexes', async () => {
+      await store.markMigrated('a');
+      const targetDelete = vi.spyOn(targetVectors, 'deleteVectorsByFileId');
+
+      await orchestrator.purgeFile('a');
+
+      expect(targetDelete).toHaveBeenCalledWith('a');
+      expect(await store.listMigratedFileIds()).toEqual([]);
+    });
+
+    it('should keep the sync successful when the shadow write fails', async () => {
+      await stateManager.updateStartPageToken('existing-token');
+      driveClient.setChanges([{ fileId: 'a', type: 'modified', file: fileIn('a') }]);
+      vi.spyOn(targetVectors, 'upsertVectors').mockRejectedValue(new Error('Index not found'));
+
+      const result = await orchestrator.runIncrementalSync(sources);
+
+      expect(result.errors).toBe(0);
+      expect(await store.listMigratedFileIds()).toEqual([]);
+    });
+
+    it('TEST-embedding-pipeline-9: should backfill in slices and switch once every file is covered', async () => {
+      driveClient.setFiles([fileIn('a'), fileIn('b'), fileIn('c')]);
+      await store.markMigrated('a');
+      const activeUpsert = vi.spyOn(vectorClient, 'upsertVectors');
+
+      const first = await orchestrator.runMigrationSlice(sources);
+
+      expect(first).toEqual({
+        filesTotal: 3,
+        filesMigrated: 3,
+        errors: 0,
+        switched: true,
+        filesCleared: 0,
+      });
+      expect(activeUpsert).not.toHaveBeenCalled();
+      expect(await store.getState()).toMatchObject({ active: 'secondary', migration: null });
+      expect(await orchestrator.runMigrationSlice(sources)).toBeNull();
+    });
+
+    it('should record partial progress without switching', async () => {
+      driveClient.setFiles([fileIn('a'), fileIn('b'), fileIn('c')]);
+      vi.spyOn(targetVectors, 'upsertVectors')
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('Index not found'));
+
+      const result = await orchestrator.runMigrationSlice(sources);
+
+      expect(result).toEqual({
+        filesTotal: 3,
+        filesMigrated: 1,
+        errors: 1,
+        switched: false,
+        filesCleared: 0,
+      });
+      expect((await store.getState()).migration).toMatchObject({
+        filesTotal: 3,
+        filesMigrated: 1,
+      });
+    });
+
+    it('should empty the target of a previous migration in slices before the backfill', async () => {
+      const state = await store.getState();
+      await store.saveState({ ...state, migration: { ...state.migration!, clearing: true } });
+      driveClient.setFiles([fileIn('a')]);
+      ['x', 'y', 'z'].forEach(id => targetVectors.setVectors(id, []));
+      await store.markMigrated('x');
+      const targetUpsert = vi.spyOn(targetVectors, 'upsertVectors');
+
+      const first = await orchestrator.runMigrationSlice(sources);
+
+      expect(first).toMatchObject({ filesCleared: 2, filesMigrated: 0, switched: false });
+      expect((await store.getState()).migration?.clearing).toBe(true);
+
+      const second = await orchestrator.runMigrationSlice(sources);
+
+      expect(second?.filesCleared).toBe(1);
+      expect(await targetVectors.listIndexedFileIds()).toEqual([]);
+      expect(await store.listMigratedFileIds()).toEqual([]);
+      expect(targetVectors.vectorCount).toBe(0);
+      expect((await store.getState()).migration?.clearing).toBe(false);
+      expect(targetUpsert).not.toHaveBeenCalled();
+
+      const third = await orchestrator.runMigrationSlice(sources);
+
+      expect(third).toMatchObject({ filesMigrated: 1, switched: true, filesCleared: 0 });
+    });
+
+    it('should not shadow-write to a target that is still being emptied', async () => {
+      orchestrator = createOrchestrator(mocks(), config, {
+        migration: {
+          embeddingClient: targetEmbedding as unknown as EmbeddingClient,
+          vectorClient: targetVectors,
+          store,
+          clearing: true,
+        },
+      });
+      await stateManager.updateStartPageToken('existing-token');
+      driveClient.setChanges([{ fileId: 'a', type: 'modified', file: fileIn('a') }]);
+      const targetUpsert = vi.spyOn(targetVectors, 'upsertVectors');
+
+      await orchestrator.runIncrementalSync(sources);
+
+      expect(targetUpsert).not.toHaveBeenCalled();
+      expect(await store.listMigratedFileIds()).toEqual([]);
+    });
+
+    it('should not backfill a target index created for other dimensions', async () => {
+      driveClient.setFiles([fileIn('a')]);
+      targetEmbedding.dimensions = 1024;
+      targetVectors.dimensions = 1536;
+      const targetUpsert = vi.spyOn(targetVectors, 'upsertVectors');
+
+      await expect(orchestrator.runMigrationSlice(sources)).rejects.toThrow(
+        'Embedding dimensions do not match the vector index'
+      );
+      expect(targetUpsert).not.toHaveBeenCalled();
+      expect((await store.getState()).migration?.filesTotal).toBeNull();
+    });
+  });
+
+  describe('Embedding Cache', () => {
+    let cache: EmbeddingCache;
+
+    const doc = (id: string): DriveFileMetadata => ({
+      id,
+      name: `${id}.md`,
+      path: `${id}.md`,
+      mimeType: 'text/markdown',
+      modifiedTime: '2025-11-14T00:00:00Z',
+    });
+
+    beforeEach(() => {
+      cache = new EmbeddingCache(new MockKVNamespace() as unknown as KVNamespace);
+      // One file per batch, so later files see earlier files' cache entries
+      orchestrator = createOrchestrator(
+        mocks(),
+        { ...config, maxConcurrency: 1 },
+        { embeddingCache: cache }
+      );
+    });
+
+    it('TEST-embedding-pipeline-11: should reuse cached embeddings for identical chunks in other files', async () => {
+      driveClient.setFiles([doc('a'), doc('b')]);
+      driveClient.setFileContent('a', 'Shared template text');
+      driveClient.setFileContent('b', 'Shared template text');
+      embeddingClient.setEmbeddings([Array(1536).fill(0.3)]);
+      const embedSpy = vi.spyOn(embeddingClient, 'embedWithUsage');
+      const upsertSpy = vi.spyOn(vectorClient, 'upsertVectors');
+      const historySpy = vi.spyOn(stateManager, 'saveSyncHistory');
+
+      const result = await orchestrator.runFullSync(sources);
+
+      expect(result.filesProcessed).toBe(2);
+      expect(embedSpy).toHaveBeenCalledTimes(1);
+      expect(upsertSpy).toHaveBeenCalledTimes(2);
+      expect(upsertSpy.mock.calls[1][0][0].vector[0]).toBeCloseTo(0.3, 5);
+      expect(historySpy.mock.calls[0][0].embeddingCache).toEqual({
+        hits: 1,
+        misses: 1,
+        hitRate: 0.5,
+      });
+    });
+
+    it('should embed only the chunks missing from the cache', async () => {
+      await cache.putMany(
+        'openai:text-embedding-3-small:1536',
+        new Map([['unused-hash', Array(1536).fill(0.5)]])
+      );
+      driveClient.setFiles([doc('a')]);
+      driveClient.setFileContent('a', 'Fresh content');
+      const embedSpy = vi.spyOn(embeddingClient, 'embedWithUsage');
+
+      await orchestrator.runFullSync(sources);
+
+      expect(embedSpy).toHaveBeenCalledTimes(1);
+      expect(embedSpy.mock.calls[0][0]).toHaveLength(1);
+    });
+
+    it('should leave cache stats out of sync history when no cache is configured', async () => {
+      orchestrator = createOrchestrator(mocks(), config);
+      driveClient.setFiles([doc('a')]);
+      driveClient.setFileContent('a', 'Content A');
+      const historySpy = vi.spyOn(stateManager, 'saveSyncHistory');
+
+      await orchestrator.runFullSync(sources);
+
+      expect(historySpy.mock.calls[0][0].embeddingCache).toBeUndefined();
+    });
+  });
+
+  describe('Background Jobs', () => {
+    let jobs: SyncJobStore;
+
+    beforeEach(() => {
+      jobs = new SyncJobStore(new MockKVNamespace() as unknown as KVNamespace);
+      orchestrator = createOrchestrator(mocks(), { ...config, maxFilesPerRun: 2 }, { jobs });
+      const files = ['a', 'b', 'c'].map(id => ({
+        id,
+        name: `${id}.md`,
+        path: `${id}.md`,
+        mimeType: 'text/markdown',
+        modifiedTime: '2025-11-14T00:00:00Z',
+      }));
+      driveClient.setFiles(files);
+      files.forEach(file => driveClient.setFileContent(file.id, `Content of ${file.name}`));
+    });
+
+    it('TEST-admin-api-7: should report progress to the job across continuation runs', async () => {
+      const job = await jobs.create('resync');
+
+      await orchestrator.runFullSync(sources, { jobId: job.id });
+
+      expect(await jobs.get(job.id)).toMatchObject({
+        status: 'running',
+        phase: 'waiting',
+        filesDone: 2,
+        filesTotal: 3,
+      });
+
+      // The scheduled continuation knows nothing about the job; the checkpoint carries it
+      await orchestrator.runFullSync(sources);
+
+      const finished = await jobs.get(job.id);
+      expect(finished).toMatchObject({
+        status: 'completed',
+        phase: 'done',
+        filesDone: 3,
+        filesTotal: 3,
+        result: { filesProcessed: 3 },
+      });
+      expect(finished?.finishedAt).not.toBeNull();
+    });
+
+    it('should mark the job failed when the full sync throws', async () => {
+      const job = await jobs.create('resync');
+      vi.spyOn(driveClient, 'listMarkdownFiles').mockRejectedValue(new Error('Drive unavailable'));
+
+      await expect(orchestrator.runFullSync(sources, { jobId: job.id })).rejects.toThrow();
+
+      expect(await jobs.get(job.id)).toMatchObject({
+        status: 'failed',
+        error: 'Drive unavailable',
+      });
+    });
+  });
 });
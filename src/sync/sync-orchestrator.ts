@@ -8,21 +8,321 @@
  */
 
 import { DriveClient, DriveFileMetadata } from '../drive/drive-client.js';
-import { EmbeddingClient } from '../embedding/embedding-client.js';
-import { chunkText } from '../embedding/chunking.js';
+import { PathFilter } from '../drive/path-filter.js';
+import { DEFAULT_SOURCE_LABEL, SyncSource } from '../drive/sync-source.js';
+import { EmbeddingClient, assertIndexDimensions } from '../embedding/embedding-client.js';
+import {
+  ChunkResult,
+  ChunkingStrategy,
+  chunkText,
+  formatHeadingPath,
+  toEmbeddingInput,
+} from '../embedding/chunking.js';
+import { chunkMarkdown } from '../embedding/markdown-chunking.js';
+import { Tokenizer } from '../embedding/tokenizer.js';
 import { computeChunkHash } from '../embedding/hash.js';
+import { EmbeddingCache, embeddingCacheTag } from '../embedding/embedding-cache.js';
 import { VectorStoreClient, VectorPoint } from '../types/vector-store.js';
 import { generateVectorId } from '../vectorize/vector-id.js';
-import { KVStateManager, SyncHistoryEntry } from '../state/kv-state-manager.js';
-import { ErrorCollector, logError, toError } from '../errors/index.js';
+import { FullSyncCursor, KVStateManager, SyncHistoryEntry } from '../state/kv-state-manager.js';
+import {
+  CircuitOpenError,
+  ErrorCollector,
+  ExtractionError,
+  TokenizerLoadError,
+  findCause,
+  logError,
+  toError,
+} from '../errors/index.js';
 import { MetricsCollector } from '../monitoring/metrics.js';
 import { AlertingService, AlertConfig } from '../monitoring/alerting.js';
-import { CostTracker } from '../monitoring/cost-tracker.js';
+import {
+  CostTracker,
+  EmbeddingCacheStats,
+  embeddingCacheHitRate,
+} from '../monitoring/cost-tracker.js';
+import { KeywordIndex } from '../search/keyword-index.js';
+import { FileJob, FileJobQueue, QUEUE_SEND_BATCH_SIZE } from '../queue/file-queue.js';
+import { FailureStore } from '../state/failure-store.js';
+import { SyncJobStore, SyncJobUpdate } from '../state/job-store.js';
+import { EmbeddingIndexStore } from '../state/embedding-index-store.js';
 
 export interface SyncConfig {
   chunkSize: number;
   maxBatchSize: number;
   maxConcurrency: number;
+  /**
+   * How file content is split before embedding (default: 'fixed')
+   */
+  chunkingStrategy?: ChunkingStrategy;
+  /**
+   * Files a full sync processes per invocation before it checkpoints and
+   * leaves the rest to the next run (default: all files)
+   */
+  maxFilesPerRun?: number;
+}
+
+/**
+ * Optional secondary indexes maintained alongside vector upserts
+ */
+export interface SyncServices {
+  keywordIndex?: KeywordIndex;
+  /**
+   * Lazily loads an exact tokenizer for chunking; approximate counting is used when
+   * omitted. When loading fails, files fail (and are retried) rather than being chunked
+   * with approximate counts.
+   */
+  loadTokenizer?: () => Promise<Tokenizer>;
+  /**
+   * Queue that per-file work is fanned out to; files are processed in place when omitted
+   */
+  fileQueue?: FileJobQueue;
+  /**
+   * Records files that fail to sync so later runs retry them with backoff
+   */
+  failureStore?: FailureStore;
+  /**
+   * Receives the progress of full syncs started as background jobs (manual resync)
+   */
+  jobs?: SyncJobStore;
+  /**
+   * Embedding migration in progress: processed files are also written to the target
+   * index with its model, and runMigrationSlice backfills the rest
+   */
+  migration?: MigrationTarget;
+  /**
+   * Embeddings by chunk hash, shared across files; consulted before the embedding API
+   */
+  embeddingCache?: EmbeddingCache;
+}
+
+/**
+ * Index (and embedding model) an embedding migration fills next to the active one
+ */
+export interface MigrationTarget {
+  embeddingClient: EmbeddingClient;
+  vectorClient: VectorStoreClient;
+  store: EmbeddingIndexStore;
+  /**
+   * The target is still being emptied of a previous migration's vectors, so files are
+   * not shadow-written to it yet
+   */
+  clearing?: boolean;
+}
+
+/**
+ * Embedding model and vector index that chunks are written to
+ */
+interface IndexWriter {
+  embeddingClient: EmbeddingClient;
+  vectorClient: VectorStoreClient;
+}
+
+export interface MigrationSliceResult {
+  filesTotal: number;
+  filesMigrated: number;
+  errors: number;
+  /**
+   * The target covered every file and became the active index
+   */
+  switched: boolean;
+  /**
+   * Files of a previous migration removed from the target before the backfill starts
+   */
+  filesCleared: number;
+}
+
+export interface FullSyncOptions {
+  /**
+   * Job to report progress to; kept in the checkpoint so continuation runs report too
+   */
+  jobId?: string;
+}
+
+interface ProcessFileOptions {
+  /**
+   * Re-embed every chunk instead of reusing embeddings of unchanged chunks
+   */
+  force?: boolean;
+}
+
+export interface ReconcileOptions {
+  /**
+   * Only report drift; nothing is deleted, reindexed or rewritten
+   */
+  dryRun?: boolean;
+  /**
+   * Continue after the page a previous call returned as `nextCursor`
+   */
+  cursor?: string;
+}
+
+/**
+ * Drift between Drive, the vector store's file index and its tracked vector count, for
+ * one page of the file index
+ */
+export interface ReconcileReport {
+  dryRun: boolean;
+  filesInDrive: number;
+  /**
+   * Indexed files on this page
+   */
+  filesInIndex: number;
+  /**
+   * Indexed files that no source lists anymore; their vectors are deleted
+   */
+  orphanedFiles: string[];
+  /**
+   * Drive files without vectors in this page's file ID range; they are indexed (or queued)
+   */
+  missingFiles: string[];
+  /**
+   * Vector IDs in the file index that the vector store no longer holds; dropped from the
+   * index, and files that lost only some chunks are reindexed
+   */
+  danglingVectors: number;
+  /**
+   * Tracked vector count when the first page ran vs. vectors left in the file index after
+   * repairs, summed over the pages so far
+   */
+  vectorCount: { tracked: number; actual: number };
+  /**
+   * Outcome of this page's repairs (absent in a dry run)
+   */
+  repairs?: {
+    filesDeleted: number;
+    filesProcessed: number;
+    filesQueued: number;
+    errors: number;
+    /**
+     * Whether the tracked vector count was corrected; only the last page does, and only
+     * when no page had failed repairs
+     */
+    vectorCountReset: boolean;
+  };
+  /**
+   * Pass as `cursor` to reconcile the next page; null after the last page
+   */
+  nextCursor: string | null;
+  duration: number;
+}
+
+/**
+ * Vector IDs checked against the vector store per lookup
+ */
+const RECONCILE_LOOKUP_BATCH_SIZE = 20;
+
+/**
+ * Indexed files reconciled per call, which bounds the KV reads and vector lookups of a
+ * single request
+ */
+const RECONCILE_PAGE_SIZE = 100;
+
+/**
+ * Progress carried from one reconcile page to the next (opaque `nextCursor` to callers)
+ */
+interface ReconcileCursor {
+  /**
+   * File index listing cursor of the next page
+   */
+  list: string;
+  /**
+   * Last file ID of the previous page; missing files are looked for above it
+   */
+  after: string;
+  tracked: number;
+  actual: number;
+  /**
+   * Vectors deleted by repairs so far, which already lowered the tracked count
+   */
+  removed: number;
+  errors: number;
+}
+
+function encodeReconcileCursor(cursor: ReconcileCursor): string {
+  return btoa(JSON.stringify(cursor));
+}
+
+function decodeReconcileCursor(value: string): ReconcileCursor | null {
+  try {
+    const cursor = JSON.parse(atob(value)) as ReconcileCursor;
+    const numbers = [cursor.tracked, cursor.actual, cursor.removed, cursor.errors];
+    return typeof cursor.list === 'string' &&
+      typeof cursor.after === 'string' &&
+      numbers.every(Number.isFinite)
+      ? cursor
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a `cursor` came from a previous reconcile report
+ */
+export function isReconcileCursor(value: string): boolean {
+  return decodeReconcileCursor(value) !== null;
+}
+
+/**
+ * File IDs an incremental run shares across its sources
+ */
+interface IncrementalRunFiles {
+  /**
+   * Files with vectors when the run started; Drive reports them as deleted when they
+   * leave a source's tree
+   */
+  indexed: ReadonlySet<string>;
+  /**
+   * Files a source of the run found in its tree: one moved between sources is kept even
+   * when another source sees it leave
+   */
+  claimed: Set<string>;
+  /**
+   * Files a source saw leave its tree; folder sources share one change feed, so they are
+   * only removed once every source ran and none claimed them
+   */
+  movedOut: Set<string>;
+  /**
+   * Sources that synced without failing
+   */
+  sourcesSynced: number;
+}
+
+/**
+ * Job progress of a full sync checkpoint
+ */
+function jobProgress(cursor: FullSyncCursor): SyncJobUpdate {
+  return { filesDone: cursor.offset, filesTotal: cursor.totalFiles, errors: cursor.errors };
+}
+
+/**
+ * Per-source totals summed into a SyncResult
+ */
+interface SourceSyncCounts {
+  filesProcessed: number;
+  vectorsUpserted: number;
+  vectorsDeleted: number;
+  /**
+   * Files listed (full scan) or changes fetched (incremental)
+   */
+  changes: number;
+  /**
+   * Jobs handed to the file queue instead of being processed in place
+   */
+  filesQueued: number;
+  errors: number;
+}
+
+function emptyCounts(): SourceSyncCounts {
+  return {
+    filesProcessed: 0,
+    vectorsUpserted: 0,
+    vectorsDeleted: 0,
+    changes: 0,
+    filesQueued: 0,
+    errors: 0,
+  };
 }
 
 export interface SyncResult {
@@ -31,6 +331,14 @@ export interface SyncResult {
   vectorsDeleted: number;
   errors: number;
   duration: number;
+  /**
+   * Files of a checkpointed full sync left for later runs (absent once the run completes)
+   */
+  pendingFiles?: number;
+  /**
+   * File jobs sent to the queue consumer (set when a file queue is configured)
+   */
+  filesQueued?: number;
 }
 
 /**
@@ -40,6 +348,8 @@ export class SyncOrchestrator {
   private metricsCollector: MetricsCollector;
   private alertingService: AlertingService;
   private costTracker: CostTracker;
+  private tokenizer: Promise<Tokenizer | undefined> | null = null;
+  private indexChecks = new Map<VectorStoreClient, Promise<void>>();
 
   constructor(
     private driveClient: DriveClient,
@@ -47,7 +357,8 @@ export class SyncOrchestrator {
     private vectorClient: VectorStoreClient,
     private stateManager: KVStateManager,
     private config: SyncConfig,
-    alertConfig?: AlertConfig
+    alertConfig?: AlertConfig,
+    private services: SyncServices = {}
   ) {
     this.metricsCollector = new MetricsCollector();
     this.alertingService = new AlertingService(alertConfig || {});
@@ -55,62 +366,83 @@ export class SyncOrchestrator {
   }
 
   /**
-   * Run full sync (initial scan)
+   * Run full sync (initial scan) of every source
+   *
+   * The file list is snapshotted once and processed in slices of `maxFilesPerRun`
+   * files, checkpointed in KV after every batch. A run cut short by Worker limits,
+   * or by reaching the slice size, continues where it stopped on the next call.
    */
-  async runFullSync(rootFolderId: string): Promise<SyncResult> {
+  async runFullSync(sources: SyncSource[], options: FullSyncOptions = {}): Promise<SyncResult> {
     const startTime = Date.now();
     const errorCollector = new ErrorCollector();
-    let filesProcessed = 0;
-    let vectorsUpserted = 0;
-
-    console.log('Starting full sync...');
+    let jobId = options.jobId;
 
     // Start metrics and cost tracking
     this.metricsCollector.start();
     this.costTracker.reset();
 
     try {
-      // 1. Initialize vector store collection
-      this.metricsCollector.recordVectorIndexCall();
-      this.costTracker.recordVectorIndexOperation();
-      await this.vectorClient.initializeCollection();
+      await this.checkIndexDimensions(this.activeWriter());
 
-      // 2. List all markdown files
-      this.metricsCollector.recordDriveApiCall();
-      this.costTracker.recordDriveQuery();
-      const files = await this.driveClient.listMarkdownFiles(rootFolderId);
-      console.log(`Found ${files.length} markdown files`);
-
-      // 3. Process files with concurrency control
-      for (let i = 0; i < files.length; i += this.config.maxConcurrency) {
-        const batch = files.slice(i, i + this.config.maxConcurrency);
-        const results = await Promise.allSettled(batch.map(file => this.processFile(file)));
-
-        for (const result of results) {
-          if (result.status === 'fulfilled') {
-            filesProcessed++;
-            vectorsUpserted += result.value;
-            this.metricsCollector.recordFileProcessed('added');
-            this.metricsCollector.recordVectorsUpserted(result.value);
-          } else {
-            const error = toError(result.reason);
-            errorCollector.addError(error);
-            this.metricsCollector.recordError(error);
-            logError(error);
-          }
-        }
+      // 1. Resume the unfinished run, or initialize the collection and snapshot every source
+      let run = await this.loadFullSyncRun(sources);
+      if (run) {
+        console.log(`Resuming full sync at file ${run.cursor.offset}/${run.cursor.totalFiles}...`);
+      } else {
+        console.log(`Starting full sync of ${sources.length} source(s)...`);
+        this.metricsCollector.recordVectorIndexCall();
+        this.costTracker.recordVectorIndexOperation();
+        await this.vectorClient.initializeCollection();
+        run = await this.startFullSyncRun(sources, errorCollector, jobId);
       }
+      const { cursor, files } = run;
+      jobId = cursor.jobId;
+      await this.reportJob(jobId, {
+        status: 'running',
+        phase: 'processing',
+        ...jobProgress(cursor),
+      });
+
+      // 2. Process the next slice of files
+      const slice = await this.processFullSyncSlice(cursor, files, errorCollector);
+      await this.stateManager.updateStats(
+        slice.filesProcessed,
+        errorCollector.getSummary().totalErrors
+      );
+      cursor.elapsedMs += Date.now() - startTime;
 
-      // 4. Get and save new start page token
-      this.metricsCollector.recordDriveApiCall();
-      this.costTracker.recordDriveQuery();
-      const startPageToken = await this.driveClient.getStartPageToken();
-      await this.stateManager.updateStartPageToken(startPageToken);
+      if (cursor.offset < cursor.totalFiles) {
+        await this.stateManager.updateFullSyncCursor(cursor);
+        this.metricsCollector.end(true);
+        console.log(`Full sync checkpointed at file ${cursor.offset}/${cursor.totalFiles}`);
 
-      // 5. Update stats
-      await this.stateManager.updateStats(filesProcessed, errorCollector.getSummary().totalErrors);
+        const result: SyncResult = {
+          filesProcessed: cursor.filesProcessed,
+          vectorsUpserted: cursor.vectorsUpserted,
+          vectorsDeleted: 0,
+          errors: cursor.errors.length,
+          duration: cursor.elapsedMs,
+          pendingFiles: cursor.totalFiles - cursor.offset,
+          filesQueued: this.queuedCount(cursor.filesQueued),
+        };
+        await this.reportJob(jobId, { phase: 'waiting', ...jobProgress(cursor), result });
+        return result;
+      }
 
-      const duration = Date.now() - startTime;
+      // 3. Save the start page tokens taken before listing and finish the run
+      for (const [label, startPageToken] of Object.entries(cursor.startPageTokens)) {
+        await this.stateManager.updateStartPageToken(startPageToken, label);
+      }
+      await this.stateManager.clearFullSyncCursor();
+
+      // 4. Drop files excluded since the include/exclude rules last changed
+      const errorsBefore = errorCollector.getSummary().totalErrors;
+      const ruleChanges = await this.applyPathRuleChanges(sources, errorCollector);
+      const ruleErrors = errorCollector.getSummary().errors.slice(errorsBefore);
+      cursor.errors.push(...ruleErrors.map(e => e.message));
+      await this.stateManager.updateStats(0, ruleErrors.length);
+
+      const duration = cursor.elapsedMs;
       console.log(`Full sync completed in ${duration}ms`);
 
       // End metrics and send alerts
@@ -131,23 +463,33 @@ export class SyncOrchestrator {
       await this.stateManager.updateSyncDuration(duration);
       const historyEntry: SyncHistoryEntry = {
         timestamp: new Date().toISOString(),
-        filesProcessed,
-        vectorsUpserted,
-        vectorsDeleted: 0,
+        filesProcessed: cursor.filesProcessed,
+        vectorsUpserted: cursor.vectorsUpserted,
+        vectorsDeleted: ruleChanges.removed,
         duration,
-        errors: errorCollector.getSummary().errors.map(e => e.message),
+        errors: cursor.errors,
+        embeddingCache: this.cacheHistory(cursor.embeddingCache),
       };
       await this.stateManager.saveSyncHistory(historyEntry);
 
-      return {
-        filesProcessed,
-        vectorsUpserted,
-        vectorsDeleted: 0,
-        errors: errorCollector.getSummary().totalErrors,
+      const result: SyncResult = {
+        filesProcessed: cursor.filesProcessed,
+        vectorsUpserted: cursor.vectorsUpserted,
+        vectorsDeleted: ruleChanges.removed,
+        errors: cursor.errors.length,
         duration,
+        filesQueued: this.queuedCount(cursor.filesQueued),
       };
+      await this.reportJob(jobId, {
+        status: 'completed',
+        phase: 'done',
+        ...jobProgress(cursor),
+        result,
+      });
+      return result;
     } catch (error) {
       const err = error as Error;
+      await this.reportJob(jobId, { status: 'failed', error: err.message });
 
       // End metrics and send failure alert
       this.metricsCollector.end(false);
@@ -164,15 +506,36 @@ export class SyncOrchestrator {
   }
 
   /**
-   * Run incremental sync (using changes API)
+   * Run incremental sync (using changes API) of every source
+   * Sources without a start page token yet are fully scanned
    */
-  async runIncrementalSync(rootFolderId: string): Promise<SyncResult> {
+  async runIncrementalSync(sources: SyncSource[]): Promise<SyncResult> {
     const startTime = Date.now();
     const errorCollector = new ErrorCollector();
     let filesProcessed = 0;
     let vectorsUpserted = 0;
     let vectorsDeleted = 0;
 
+    // 0. Finish an unfinished full sync before applying changes
+    if (await this.stateManager.getFullSyncCursor()) {
+      console.log('Unfinished full sync found, resuming it instead');
+      return await this.runFullSync(sources);
+    }
+
+    // 1. Get current state of each source
+    const tokens = new Map<string, string | null>();
+    for (const source of sources) {
+      tokens.set(
+        source.label,
+        (await this.stateManager.getSourceState(source.label)).startPageToken
+      );
+    }
+
+    if (sources.every(source => !tokens.get(source.label))) {
+      console.log('No start page token found, running full sync instead');
+      return await this.runFullSync(sources);
+    }
+
     console.log('Starting incremental sync...');
 
     // Start metrics and cost tracking
@@ -180,98 +543,59 @@ export class SyncOrchestrator {
     this.costTracker.reset();
 
     try {
-      // 1. Get current state
-      const state = await this.stateManager.getState();
-
-      if (!state.startPageToken) {
-        console.log('No start page token found, running full sync instead');
-        return await this.runFullSync(rootFolderId);
-      }
-
-      // 2. Fetch changes
-      this.metricsCollector.recordDriveApiCall();
-      this.costTracker.recordDriveQuery();
-      const { changes, newStartPageToken } = await this.driveClient.fetchChanges(
-        state.startPageToken,
-        rootFolderId
-      );
-
-      console.log(`Found ${changes.length} changes`);
-
-      if (changes.length === 0) {
-        // Update token even if no changes
-        await this.stateManager.updateStartPageToken(newStartPageToken);
-
-        this.metricsCollector.end(true);
-        const metrics = this.metricsCollector.getMetrics();
-        const perfMetrics = this.metricsCollector.getPerformanceMetrics();
-
-        console.log(this.metricsCollector.getSummary());
-        console.log('Cost tracking:', this.costTracker.getSummary());
-
-        // Send notification for successful sync with no changes
-        await this.alertingService.sendSyncCompleted(metrics, perfMetrics);
-
-        const duration = Date.now() - startTime;
-
-        // Save sync duration and history
-        await this.stateManager.updateSyncDuration(duration);
-        const historyEntry: SyncHistoryEntry = {
-          timestamp: new Date().toISOString(),
-          filesProcessed: 0,
-          vectorsUpserted: 0,
-          vectorsDeleted: 0,
-          duration,
-          errors: [],
-        };
-        await this.stateManager.saveSyncHistory(historyEntry);
-
-        return {
-          filesProcessed: 0,
-          vectorsUpserted: 0,
-          vectorsDeleted: 0,
-          errors: 0,
-          duration,
-        };
+      await this.checkIndexDimensions(this.activeWriter());
+
+      // 2. Apply include/exclude rule changes to files that did not change themselves,
+      // and pick up failed files whose retry backoff has passed
+      const ruleChanges = await this.applyPathRuleChanges(sources, errorCollector);
+      vectorsDeleted += ruleChanges.removed;
+      const dueFailures = (await this.services.failureStore?.getDueFailures()) || [];
+      if (dueFailures.length > 0) {
+        console.log(`Retrying ${dueFailures.length} previously failed file(s)`);
       }
 
-      // 3. Process changes
-      for (const change of changes) {
-        try {
-          if (change.type === 'deleted') {
-            this.metricsCollector.recordVectorIndexCall();
-            this.costTracker.recordVectorIndexOperation();
-            await this.vectorClient.deleteVectorsByFileId(change.fileId);
-            this.metricsCollector.recordFileProcessed('deleted');
-            this.metricsCollector.recordVectorsDeleted(1);
-            vectorsDeleted++;
-          } else if (change.type === 'modified' && change.file) {
-            // Process updated file with incremental optimization
-            // (processFile will handle hash comparison and selective re-embedding)
-            const count = await this.processFile(change.file);
-            this.metricsCollector.recordFileProcessed('modified');
-            this.metricsCollector.recordVectorsUpserted(count);
-            vectorsUpserted += count;
-            filesProcessed++;
-          }
-        } catch (error) {
-          const err = error as Error;
-          errorCollector.addError(err, {
-            fileId: change.fileId,
-            changeType: change.type,
-          });
-          this.metricsCollector.recordError(err, {
-            fileId: change.fileId,
-            changeType: change.type,
-          });
-          logError(err, { fileId: change.fileId });
+      // 3. Fetch and process the changes of each source
+      this.metricsCollector.recordVectorIndexCall();
+      const runFiles: IncrementalRunFiles = {
+        indexed: new Set(await this.vectorClient.listIndexedFileIds()),
+        claimed: new Set(),
+        movedOut: new Set(),
+        sourcesSynced: 0,
+      };
+      const counts = await this.syncSources(sources, errorCollector, async source => {
+        const startPageToken = tokens.get(source.label);
+
+        if (!startPageToken) {
+          console.log(`No start page token for source ${source.label}, running full scan`);
+          this.metricsCollector.recordVectorIndexCall();
+          this.costTracker.recordVectorIndexOperation();
+          await this.vectorClient.initializeCollection();
+          const scanned = await this.fullSyncSource(source, errorCollector, runFiles.claimed);
+          runFiles.sourcesSynced++;
+          return scanned;
         }
-      }
 
-      // 4. Save new start page token
-      await this.stateManager.updateStartPageToken(newStartPageToken);
-
-      // 5. Update stats
+        const unchangedFiles = [
+          ...ruleChanges.included,
+          ...dueFailures.map(failure => failure.file),
+        ].filter(file => (file.source || DEFAULT_SOURCE_LABEL) === source.label);
+        const synced = await this.incrementalSyncSource(
+          source,
+          startPageToken,
+          unchangedFiles,
+          runFiles,
+          errorCollector
+        );
+        runFiles.sourcesSynced++;
+        return synced;
+      });
+      const movedOut = await this.removeMovedOutFiles(runFiles, sources.length, errorCollector);
+      filesProcessed += counts.filesProcessed;
+      vectorsUpserted += counts.vectorsUpserted;
+      vectorsDeleted += counts.vectorsDeleted + movedOut.removed;
+      const filesQueued = counts.filesQueued + movedOut.queued;
+
+      // 4. Update stats
       await this.stateManager.updateStats(filesProcessed, errorCollector.getSummary().totalErrors);
 
       const duration = Date.now() - startTime;
@@ -288,8 +612,10 @@ export class SyncOrchestrator {
       // Send success notification
       await this.alertingService.sendSyncCompleted(metrics, perfMetrics);
 
-      // Check for performance issues
-      await this.alertingService.sendPerformanceAlert(metrics, perfMetrics);
+      // Check for performance issues (skipped when nothing changed)
+      if (counts.changes > 0) {
+        await this.alertingService.sendPerformanceAlert(metrics, perfMetrics);
+      }
 
       // Save sync duration and history
       await this.stateManager.updateSyncDuration(duration);
@@ -300,6 +626,7 @@ export class SyncOrchestrator {
         vectorsDeleted,
         duration,
         errors: errorCollector.getSummary().errors.map(e => e.message),
+        embeddingCache: this.cacheHistory(this.costTracker.getMetrics().embeddingCache),
       };
       await this.stateManager.saveSyncHistory(historyEntry);
 
@@ -309,6 +636,7 @@ export class SyncOrchestrator {
         vectorsDeleted,
         errors: errorCollector.getSummary().totalErrors,
         duration,
+        filesQueued: this.queuedCount(filesQueued),
       };
     } catch (error) {
       const err = error as Error;
@@ -328,41 +656,1080 @@ export class SyncOrchestrator {
   }
 
   /**
-   * Process a single file: download, chunk, embed, upsert
-   * Uses incremental optimization to avoid re-embedding unchanged chunks
+   * Run a sync step for each source and sum the results
+   * A failing source is recorded in its state without stopping the others;
+   * the run only fails when every source fails
    */
-  private async processFile(file: DriveFileMetadata): Promise<number> {
-    console.log(`Processing file: ${file.name} (${file.id})`);
+  private async syncSources(
+    sources: SyncSource[],
+    errorCollector: ErrorCollector,
+    syncSource: (source: SyncSource) => Promise<SourceSyncCounts>
+  ): Promise<SourceSyncCounts> {
+    const total = emptyCounts();
+    let lastFailure: Error | undefined;
+    let failedSources = 0;
+
+    for (const source of sources) {
+      try {
+        const counts = await syncSource(source);
+        total.filesProcessed += counts.filesProcessed;
+        total.vectorsUpserted += counts.vectorsUpserted;
+        total.vectorsDeleted += counts.vectorsDeleted;
+        total.changes += counts.changes;
+        total.filesQueued += counts.filesQueued;
+        total.errors += counts.errors;
+        await this.stateManager.updateSourceStats(
+          source.label,
+          counts.filesProcessed,
+          counts.errors
+        );
+      } catch (error) {
+        lastFailure = toError(error);
+        failedSources++;
+        errorCollector.addError(lastFailure, { source: source.label });
+        logError(lastFailure, { source: source.label });
+        await this.stateManager.updateSourceStats(source.label, 0, 1, lastFailure.message);
+        this.abortIfDependencyDown(error);
+      }
+    }
 
-    // 1. Download file content
+    if (lastFailure && failedSources === sources.length) {
+      throw lastFailure;
+    }
+
+    return total;
+  }
+
+  /**
+   * Scan every file of a source and save the source's new start page token
+   */
+  private async fullSyncSource(
+    source: SyncSource,
+    errorCollector: ErrorCollector,
+    claimed?: Set<string>
+  ): Promise<SourceSyncCounts> {
+    const counts = emptyCounts();
+
+    // 1. List all supported files
     this.metricsCollector.recordDriveApiCall();
     this.costTracker.recordDriveQuery();
-    const content = await this.driveClient.downloadFileContent(file.id, file.mimeType);
+    const files = (
+      await this.driveClient.listMarkdownFiles(source.rootFolderId, source.driveId)
+    ).map(file => ({ ...file, source: source.label }));
+    console.log(`Found ${files.length} files in source ${source.label}`);
+    counts.changes = files.length;
+    files.forEach(file => claimed?.add(file.id));
+
+    // 2. Process files with concurrency control
+    for (let i = 0; i < files.length; i += this.batchSize()) {
+      const batch = files.slice(i, i + this.batchSize());
+      await this.processFileBatch(batch, errorCollector, () => counts);
+    }
 
-    if (!content || content.trim().length === 0) {
-      console.log(`Skipping empty file: ${file.name}`);
-      return 0;
+    // 3. Get and save new start page token
+    this.metricsCollector.recordDriveApiCall();
+    this.costTracker.recordDriveQuery();
+    const startPageToken = await this.driveClient.getStartPageToken(source.driveId);
+    await this.stateManager.updateStartPageToken(startPageToken, source.label);
+
+    return counts;
+  }
+
+  /**
+   * Load the checkpoint of an unfinished full sync
+   * A checkpoint taken for other sources, or missing its snapshot, is discarded
+   */
+  private async loadFullSyncRun(
+    sources: SyncSource[]
+  ): Promise<{ cursor: FullSyncCursor; files: DriveFileMetadata[] } | null> {
+    const cursor = await this.stateManager.getFullSyncCursor();
+    if (!cursor) {
+      return null;
     }
 
-    // 2. Chunk text
-    const chunks = chunkText(content, this.config.chunkSize);
-    this.metricsCollector.recordChunksProcessed(chunks.length);
-    console.log(`File chunked into ${chunks.length} parts`);
+    const files = await this.stateManager.getFullSyncFiles();
+    const labels = sources.map(source => source.label).sort();
+    const sameSources =
+      cursor.sourceLabels.length === labels.length &&
+      [...cursor.sourceLabels].sort().every((label, i) => label === labels[i]);
 
-    // 3. Compute hashes for all chunks
-    const chunkHashes = await Promise.all(chunks.map(chunk => computeChunkHash(chunk.text)));
+    if (!files || files.length !== cursor.totalFiles || !sameSources) {
+      console.log('Discarding full sync checkpoint that no longer matches the sync sources');
+      await this.stateManager.clearFullSyncCursor();
+      return null;
+    }
 
-    // 4. Fetch existing vectors for this file (for incremental optimization)
-    let existingVectors: VectorPoint[] = [];
-    try {
-      this.metricsCollector.recordVectorIndexCall();
-      this.costTracker.recordVectorIndexOperation();
-      existingVectors = await this.vectorClient.getVectorsByFileId(file.id);
-      console.log(`Found ${existingVectors.length} existing vectors for file`);
-    } catch (error) {
-      const err = error as Error;
+    return { cursor, files };
+  }
 
-      // Only log as error if it's not a "collection doesn't exist" case
+  /**
+   * Snapshot the files of every source and save the first checkpoint
+   */
+  private async startFullSyncRun(
+    sources: SyncSource[],
+    errorCollector: ErrorCollector,
+    jobId?: string
+  ): Promise<{ cursor: FullSyncCursor; files: DriveFileMetadata[] }> {
+    const startPageTokens: Record<string, string> = {};
+    const files: DriveFileMetadata[] = [];
+
+    await this.syncSources(sources, errorCollector, async source => {
+      // Take the token before listing, so changes made during a long run are picked up later
+      this.metricsCollector.recordDriveApiCall();
+      this.costTracker.recordDriveQuery();
+      const startPageToken = await this.driveClient.getStartPageToken(source.driveId);
+
+      this.metricsCollector.recordDriveApiCall();
+      this.costTracker.recordDriveQuery();
+      const sourceFiles = await this.driveClient.listMarkdownFiles(
+        source.rootFolderId,
+        source.driveId
+      );
+      console.log(`Found ${sourceFiles.length} files in source ${source.label}`);
+
+      startPageTokens[source.label] = startPageToken;
+      files.push(...sourceFiles.map(file => ({ ...file, source: source.label })));
+
+      return { ...emptyCounts(), changes: sourceFiles.length };
+    });
+
+    const now = new Date().toISOString();
+    const cursor: FullSyncCursor = {
+      startedAt: now,
+      updatedAt: now,
+      sourceLabels: sources.map(source => source.label),
+      startPageTokens,
+      totalFiles: files.length,
+      offset: 0,
+      filesProcessed: 0,
+      vectorsUpserted: 0,
+      errors: errorCollector.getSummary().errors.map(e => e.message),
+      elapsedMs: 0,
+      jobId,
+    };
+    await this.stateManager.startFullSync(cursor, files);
+
+    return { cursor, files };
+  }
+
+  /**
+   * Process up to `maxFilesPerRun` files of the snapshot, checkpointing after each batch
+   */
+  private async processFullSyncSlice(
+    cursor: FullSyncCursor,
+    files: DriveFileMetadata[],
+    errorCollector: ErrorCollector
+  ): Promise<{ filesProcessed: number }> {
+    const sliceSize = this.config.maxFilesPerRun || cursor.totalFiles;
+    const end = Math.min(cursor.totalFiles, cursor.offset + sliceSize);
+    const cacheBefore = cursor.embeddingCache || { hits: 0, misses: 0 };
+    const sourceCounts = new Map<string, SourceSyncCounts>();
+    const countsFor = (file: DriveFileMetadata) => {
+      const label = file.source || DEFAULT_SOURCE_LABEL;
+      let counts = sourceCounts.get(label);
+      if (!counts) {
+        counts = emptyCounts();
+        sourceCounts.set(label, counts);
+      }
+      return counts;
+    };
+
+    while (cursor.offset < end) {
+      const batch = files.slice(cursor.offset, Math.min(end, cursor.offset + this.batchSize()));
+      const batchResult = await this.processFileBatch(batch, errorCollector, countsFor);
+
+      cursor.offset += batch.length;
+      cursor.filesProcessed += batchResult.filesProcessed;
+      cursor.vectorsUpserted += batchResult.vectorsUpserted;
+      cursor.filesQueued = (cursor.filesQueued || 0) + batchResult.filesQueued;
+      cursor.errors.push(...batchResult.errors);
+      if (this.services.embeddingCache) {
+        // Lookups of earlier invocations plus this one's so far
+        const cache = this.costTracker.getMetrics().embeddingCache;
+        cursor.embeddingCache = {
+          hits: cacheBefore.hits + cache.hits,
+          misses: cacheBefore.misses + cache.misses,
+        };
+      }
+      await this.stateManager.updateFullSyncCursor(cursor);
+      await this.reportJob(cursor.jobId, jobProgress(cursor));
+    }
+
+    const slice = { filesProcessed: 0 };
+    for (const [label, counts] of sourceCounts) {
+      slice.filesProcessed += counts.filesProcessed;
+      await this.stateManager.updateSourceStats(label, counts.filesProcessed, counts.errors);
+    }
+
+    return slice;
+  }
+
+  /**
+   * Write an update to the background job driving a full sync, if any
+   * Job store failures are only logged so they never fail the sync itself
+   */
+  private async reportJob(jobId: string | undefined, update: SyncJobUpdate): Promise<void> {
+    if (!jobId || !this.services.jobs) {
+      return;
+    }
+
+    await this.services.jobs.update(jobId, update).catch(error => {
+      console.error(`Failed to update sync job ${jobId}:`, error);
+    });
+  }
+
+  /**
+   * Process a batch of files concurrently, adding each outcome to the counts of its source
+   * With a file queue, the batch is enqueued for the consumer instead
+   */
+  private async processFileBatch(
+    batch: DriveFileMetadata[],
+    errorCollector: ErrorCollector,
+    countsFor: (file: DriveFileMetadata) => SourceSyncCounts
+  ): Promise<{
+    filesProcessed: number;
+    vectorsUpserted: number;
+    filesQueued: number;
+    errors: string[];
+  }> {
+    const batchResult = {
+      filesProcessed: 0,
+      vectorsUpserted: 0,
+      filesQueued: 0,
+      errors: [] as string[],
+    };
+
+    if (this.services.fileQueue) {
+      await this.services.fileQueue.sendBatch(
+        batch.map(file => ({ type: 'process', fileId: file.id, file }))
+      );
+      batch.forEach(file => countsFor(file).filesQueued++);
+      batchResult.filesQueued = batch.length;
+      return batchResult;
+    }
+
+    const results = await Promise.allSettled(batch.map(file => this.processTrackedFile(file)));
+
+    results.forEach((result, i) => {
+      const file = batch[i];
+      const counts = countsFor(file);
+
+      if (result.status === 'fulfilled') {
+        counts.filesProcessed++;
+        counts.vectorsUpserted += result.value;
+        batchResult.filesProcessed++;
+        batchResult.vectorsUpserted += result.value;
+        this.metricsCollector.recordFileProcessed('added');
+        this.metricsCollector.recordVectorsUpserted(result.value);
+      } else {
+        const error = toError(result.reason);
+        counts.errors++;
+        batchResult.errors.push(error.message);
+        errorCollector.addError(error, { fileId: file.id, source: file.source });
+        this.metricsCollector.recordError(error);
+        logError(error);
+      }
+    });
+
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        this.abortIfDependencyDown(result.reason);
+      }
+    }
+
+    return batchResult;
+  }
+
+  /**
+   * Apply the changes of a source since its start page token
+   */
+  private async incrementalSyncSource(
+    source: SyncSource,
+    startPageToken: string,
+    unchangedFiles: DriveFileMetadata[],
+    runFiles: IncrementalRunFiles,
+    errorCollector: ErrorCollector
+  ): Promise<SourceSyncCounts> {
+    const counts = emptyCounts();
+
+    // 1. Fetch changes
+    this.metricsCollector.recordDriveApiCall();
+    this.costTracker.recordDriveQuery();
+    const fetched = await this.driveClient.fetchChanges(
+      startPageToken,
+      source.rootFolderId,
+      source.driveId,
+      runFiles.indexed
+    );
+    const newStartPageToken = fetched.newStartPageToken;
+    fetched.changes
+      .filter(change => change.movedOut)
+      .forEach(change => runFiles.movedOut.add(change.fileId));
+    const changes = fetched.changes.filter(
+      change =>
+        !change.movedOut && (change.type !== 'deleted' || !runFiles.claimed.has(change.fileId))
+    );
+
+    console.log(`Found ${changes.length} changes in source ${source.label}`);
+
+    // Files included by new path rules or due for a retry are indexed even if they did not change
+    const changedIds = new Set(changes.map(change => change.fileId));
+    for (const file of unchangedFiles) {
+      if (!changedIds.has(file.id)) {
+        changedIds.add(file.id);
+        changes.push({ fileId: file.id, type: 'modified', file });
+      }
+    }
+    counts.changes = changes.length;
+    changes
+      .filter(change => change.type !== 'deleted')
+      .forEach(change => runFiles.claimed.add(change.fileId));
+
+    // 2. Fan the changes out to the queue consumer, or process them in place
+    if (this.services.fileQueue) {
+      const jobs = changes.flatMap((change): FileJob[] => {
+        if (change.type === 'deleted') {
+          return [{ type: 'delete', fileId: change.fileId }];
+        }
+        return change.file
+          ? [
+              {
+                type: 'process',
+                fileId: change.fileId,
+                file: { ...change.file, source: source.label },
+              },
+            ]
+          : [];
+      });
+      await this.services.fileQueue.sendBatch(jobs);
+      counts.filesQueued = jobs.length;
+    } else {
+      for (const change of changes) {
+        try {
+          if (change.type === 'deleted') {
+            this.metricsCollector.recordVectorIndexCall();
+            this.costTracker.recordVectorIndexOperation();
+            await this.removeFile(change.fileId);
+            this.metricsCollector.recordFileProcessed('deleted');
+            this.metricsCollector.recordVectorsDeleted(1);
+            counts.vectorsDeleted++;
+          } else if (change.type === 'modified' && change.file) {
+            // Process updated file with incremental optimization
+            // (processFile will handle hash comparison and selective re-embedding)
+            const count = await this.processTrackedFile({ ...change.file, source: source.label });
+            this.metricsCollector.recordFileProcessed('modified');
+            this.metricsCollector.recordVectorsUpserted(count);
+            counts.vectorsUpserted += count;
+            counts.filesProcessed++;
+          }
+        } catch (error) {
+          const err = error as Error;
+          counts.errors++;
+          errorCollector.addError(err, {
+            fileId: change.fileId,
+            changeType: change.type,
+            source: source.label,
+          });
+          this.metricsCollector.recordError(err, {
+            fileId: change.fileId,
+            changeType: change.type,
+          });
+          logError(err, { fileId: change.fileId });
+          this.abortIfDependencyDown(error);
+        }
+      }
+    }
+
+    // 3. Save new start page token
+    await this.stateManager.updateStartPageToken(newStartPageToken, source.label);
+
+    return counts;
+  }
+
+  /**
+   * Remove files that left a source's tree and that no source of the run claimed
+   * Skipped when a source failed, since the files it holds are unknown; the stale
+   * vectors are then left for reconciliation (POST /admin/reconcile)
+   */
+  private async removeMovedOutFiles(
+    runFiles: IncrementalRunFiles,
+    sourceCount: number,
+    errorCollector: ErrorCollector
+  ): Promise<{ removed: number; queued: number }> {
+    const fileIds = [...runFiles.movedOut].filter(fileId => !runFiles.claimed.has(fileId));
+    if (fileIds.length === 0) {
+      return { removed: 0, queued: 0 };
+    }
+    if (runFiles.sourcesSynced < sourceCount) {
+      console.warn(`Keeping ${fileIds.length} moved-out file(s) until every source syncs`);
+      return { removed: 0, queued: 0 };
+    }
+
+    if (this.services.fileQueue) {
+      await this.services.fileQueue.sendBatch(
+        fileIds.map((fileId): FileJob => ({ type: 'delete', fileId }))
+      );
+      return { removed: 0, queued: fileIds.length };
+    }
+
+    let removed = 0;
+    for (const fileId of fileIds) {
+      try {
+        this.metricsCollector.recordVectorIndexCall();
+        this.costTracker.recordVectorIndexOperation();
+        await this.removeFile(fileId);
+        this.metricsCollector.recordFileProcessed('deleted');
+        this.metricsCollector.recordVectorsDeleted(1);
+        removed++;
+      } catch (error) {
+        const err = toError(error);
+        errorCollector.addError(err, { fileId, changeType: 'deleted' });
+        this.metricsCollector.recordError(err, { fileId, changeType: 'deleted' });
+        logError(err, { fileId });
+        this.abortIfDependencyDown(error);
+      }
+    }
+    return { removed, queued: 0 };
+  }
+
+  /**
+   * Run one file job delivered by the queue consumer
+   * @returns Number of vectors upserted
+   */
+  async runFileJob(job: FileJob): Promise<number> {
+    if (job.type === 'delete') {
+      await this.removeFile(job.fileId);
+      return 0;
+    }
+    return this.processTrackedFile(job.file);
+  }
+
+  /**
+   * Reprocess a recorded failed file right away (admin replay)
+   * @returns Vectors upserted, or null when no failure is recorded for the file
+   */
+  async retryFailedFile(fileId: string): Promise<number | null> {
+    const failure = await this.services.failureStore?.getFailure(fileId);
+    if (!failure) {
+      return null;
+    }
+
+    console.log(`Retrying failed file ${failure.file.name} (attempt ${failure.attempts + 1})`);
+    return this.processTrackedFile(failure.file);
+  }
+
+  /**
+   * Re-download and re-embed a single file, ignoring reusable chunk embeddings (admin reindex)
+   * @returns Vectors upserted, or null when no source tracks the file
+   */
+  async reindexFile(fileId: string, sources: SyncSource[]): Promise<number | null> {
+    this.metricsCollector.recordDriveApiCall();
+    this.costTracker.recordDriveQuery();
+    const found = await this.driveClient.getFileMetadata(
+      fileId,
+      sources.map(source => source.rootFolderId)
+    );
+    const source = found && sources.find(source => source.rootFolderId === found.rootFolderId);
+    if (!found || !source) {
+      return null;
+    }
+
+    console.log(`Reindexing file ${found.file.name} from source ${source.label}`);
+    return this.processTrackedFile({ ...found.file, source: source.label }, { force: true });
+  }
+
+  /**
+   * Remove a file's vectors and index entries (admin purge)
+   * The file is indexed again if it changes in Drive later
+   */
+  async purgeFile(fileId: string): Promise<void> {
+    this.metricsCollector.recordVectorIndexCall();
+    this.costTracker.recordVectorIndexOperation();
+    await this.removeFile(fileId);
+  }
+
+  /**
+   * Backfill a slice of the embedding migration: write files the target index does not
+   * have yet with the target model, and make the target the active index once it
+   * covers every file. Slices of a new migration first empty the target of what a
+   * previous one left there. Processes at most `maxFilesPerRun` files per call.
+   * @returns Progress, or null when no migration is running
+   */
+  async runMigrationSlice(sources: SyncSource[]): Promise<MigrationSliceResult | null> {
+    const migration = this.services.migration;
+    const state = migration ? await migration.store.getState() : null;
+    if (!migration || !state?.migration) {
+      return null;
+    }
+    await this.checkIndexDimensions(migration);
+
+    if (state.migration.clearing) {
+      const { filesCleared, done } = await this.clearMigrationTarget(migration);
+      if (done) {
+        const updatedAt = new Date().toISOString();
+        await migration.store.saveState({
+          ...state,
+          migration: { ...state.migration, clearing: false, updatedAt },
+        });
+        console.log('Embedding migration target emptied, backfill starts with the next slice');
+      }
+      return {
+        filesTotal: state.migration.filesTotal ?? 0,
+        filesMigrated: 0,
+        errors: 0,
+        switched: false,
+        filesCleared,
+      };
+    }
+
+    const files: DriveFileMetadata[] = [];
+    for (const source of sources) {
+      this.metricsCollector.recordDriveApiCall();
+      this.costTracker.recordDriveQuery();
+      const listed = await this.driveClient.listMarkdownFiles(source.rootFolderId, source.driveId);
+      files.push(...listed.map(file => ({ ...file, source: source.label })));
+    }
+
+    const migrated = new Set(await migration.store.listMigratedFileIds());
+    const pending = files.filter(file => !migrated.has(file.id));
+    const slice = pending.slice(0, this.config.maxFilesPerRun || pending.length);
+    console.log(`Migrating ${slice.length} of ${pending.length} pending file(s)`);
+
+    let errors = 0;
+    for (let i = 0; i < slice.length; i += this.config.maxConcurrency) {
+      const batch = slice.slice(i, i + this.config.maxConcurrency);
+      const results = await Promise.allSettled(batch.map(file => this.migrateFile(file)));
+      results.forEach((result, index) => {
+        if (result.status === 'rejected') {
+          errors++;
+          logError(toError(result.reason), {
+            fileId: batch[index].id,
+            context: 'Embedding migration',
+          });
+        }
+      });
+    }
+
+    const filesMigrated = files.length - pending.length + slice.length - errors;
+    const now = new Date().toISOString();
+    const switched = filesMigrated === files.length;
+
+    // One write flips the active index and ends the migration
+    await migration.store.saveState(
+      switched
+        ? { active: state.migration.target, migration: null, switchedAt: now }
+        : {
+            ...state,
+            migration: {
+              ...state.migration,
+              filesTotal: files.length,
+              filesMigrated,
+              updatedAt: now,
+            },
+          }
+    );
+
+    if (switched) {
+      console.log(`Embedding migration complete, ${state.migration.target} index is now active`);
+    }
+    return { filesTotal: files.length, filesMigrated, errors, switched, filesCleared: 0 };
+  }
+
+  /**
+   * Delete up to `maxFilesPerRun` files from the migration target, then its migrated-file
+   * markers, and zero its vector count once both are gone
+   */
+  private async clearMigrationTarget(
+    migration: MigrationTarget
+  ): Promise<{ filesCleared: number; done: boolean }> {
+    const limit = this.config.maxFilesPerRun || Infinity;
+    const fileIds = (await migration.vectorClient.listIndexedFileIds()).slice(0, limit);
+    for (const fileId of fileIds) {
+      this.metricsCollector.recordVectorIndexCall();
+      await migration.vectorClient.deleteVectorsByFileId(fileId);
+    }
+
+    const done =
+      fileIds.length < limit && (await migration.store.clearMigratedFiles(limit - fileIds.length));
+    if (done) {
+      await migration.vectorClient.setVectorCount(0);
+    }
+    return { filesCleared: fileIds.length, done };
+  }
+
+  /**
+   * Remove a file's vectors (from a migration target too) and its index entries
+   */
+  private async removeFile(fileId: string): Promise<void> {
+    await this.vectorClient.deleteVectorsByFileId(fileId);
+    await this.services.keywordIndex?.removeFile(fileId);
+    await this.services.failureStore?.clearFailure(fileId);
+
+    const migration = this.services.migration;
+    if (migration) {
+      await migration.vectorClient.deleteVectorsByFileId(fileId);
+      await migration.store.unmarkMigrated(fileId);
+    }
+  }
+
+  /**
+   * Write a file to the migration target only (backfill)
+   */
+  private async migrateFile(file: DriveFileMetadata): Promise<void> {
+    const migration = this.services.migration!;
+    const chunks = await this.downloadChunks(file);
+    if (chunks.length > 0) {
+      await this.writeChunks(file, chunks, migration, {});
+    }
+    await migration.store.markMigrated(file.id);
+  }
+
+  /**
+   * Detect and repair drift between Drive and one page of the vector store's file index
+   * (admin reconcile)
+   *
+   * Walks every source's file listing and the page: indexed files missing from Drive are
+   * purged, index entries pointing at vectors the store no longer holds are dropped, and
+   * Drive files in the page's file ID range left without vectors are indexed. The last
+   * page resets the tracked vector count to the index. A failed listing aborts the page
+   * before anything is changed, so a Drive outage never looks like mass deletion.
+   */
+  async reconcile(sources: SyncSource[], options: ReconcileOptions = {}): Promise<ReconcileReport> {
+    const startTime = Date.now();
+    const dryRun = options.dryRun === true;
+    const previous = options.cursor ? decodeReconcileCursor(options.cursor) : null;
+    if (options.cursor && !previous) {
+      throw new Error('Invalid reconcile cursor');
+    }
+
+    // 1. Snapshot Drive and one page of the file index
+    const driveFiles = new Map<string, DriveFileMetadata>();
+    for (const source of sources) {
+      this.metricsCollector.recordDriveApiCall();
+      this.costTracker.recordDriveQuery();
+      const files = await this.driveClient.listMarkdownFiles(source.rootFolderId, source.driveId);
+      files.forEach(file => driveFiles.set(file.id, { ...file, source: source.label }));
+    }
+
+    this.metricsCollector.recordVectorIndexCall();
+    const page = await this.vectorClient.listIndexedFiles({
+      limit: RECONCILE_PAGE_SIZE,
+      cursor: previous?.list,
+    });
+    const indexedFiles = page.files;
+    const trackedCount = previous ? previous.tracked : await this.vectorClient.countVectors();
+
+    // The file index lists in file ID order, so the page covers the IDs after the previous
+    // page's last one, up to its own last one (every remaining ID on the last page)
+    const after = previous?.after ?? '';
+    const pageEnd = page.cursor ? [...indexedFiles.keys()].pop() : undefined;
+
+    // 2. Classify drift
+    const orphanedFiles: string[] = [];
+    const keptVectorIds: string[] = [];
+    for (const [fileId, vectorIds] of indexedFiles) {
+      if (driveFiles.has(fileId)) {
+        keptVectorIds.push(...vectorIds);
+      } else {
+        orphanedFiles.push(fileId);
+      }
+    }
+
+    const danglingIds = await this.findDanglingVectorIds(keptVectorIds);
+    const remainingByFile = new Map<string, number>();
+    const incompleteFiles = new Set<string>(); // Lost some chunks; reindexed with missing files
+    for (const [fileId, vectorIds] of indexedFiles) {
+      if (driveFiles.has(fileId)) {
+        const remaining = vectorIds.filter(id => !danglingIds.has(id)).length;
+        remainingByFile.set(fileId, remaining);
+        if (remaining > 0 && remaining < vectorIds.length) {
+          incompleteFiles.add(fileId);
+        }
+      }
+    }
+
+    const missingFiles = [...driveFiles.keys()].filter(
+      fileId =>
+        fileId > after &&
+        (pageEnd === undefined || fileId <= pageEnd) &&
+        (remainingByFile.get(fileId) || 0) === 0
+    );
+    const actualCount =
+      (previous?.actual ?? 0) +
+      [...remainingByFile.values()].reduce((sum, count) => sum + count, 0);
+
+    const report: ReconcileReport = {
+      dryRun,
+      filesInDrive: driveFiles.size,
+      filesInIndex: indexedFiles.size,
+      orphanedFiles,
+      missingFiles,
+      danglingVectors: danglingIds.size,
+      vectorCount: { tracked: trackedCount, actual: actualCount },
+      nextCursor: null,
+      duration: 0,
+    };
+    const nextCursor = (removed: number, errors: number): string | null =>
+      page.cursor && pageEnd !== undefined
+        ? encodeReconcileCursor({
+            list: page.cursor,
+            after: pageEnd,
+            tracked: trackedCount,
+            actual: actualCount,
+            removed,
+            errors,
+          })
+        : null;
+
+    if (dryRun) {
+      report.nextCursor = nextCursor(0, 0);
+      report.duration = Date.now() - startTime;
+      console.log('Reconcile dry run:', { ...report, orphanedFiles: orphanedFiles.length });
+      return report;
+    }
+
+    // 3. Repair
+    const errorCollector = new ErrorCollector();
+    const counts = emptyCounts();
+    let filesDeleted = 0;
+    let removed = previous?.removed ?? 0;
+
+    for (const fileId of orphanedFiles) {
+      try {
+        await this.purgeFile(fileId);
+        this.metricsCollector.recordFileProcessed('deleted');
+        filesDeleted++;
+        removed += indexedFiles.get(fileId)!.length;
+      } catch (error) {
+        const err = toError(error);
+        counts.errors++;
+        errorCollector.addError(err, { fileId });
+        logError(err, { fileId, context: 'Reconcile orphaned file' });
+      }
+    }
+
+    if (danglingIds.size > 0) {
+      try {
+        this.metricsCollector.recordVectorIndexCall();
+        this.costTracker.recordVectorIndexOperation();
+        await this.vectorClient.deleteVectorsByIds([...danglingIds]);
+        removed += danglingIds.size;
+      } catch (error) {
+        const err = toError(error);
+        counts.errors++;
+        errorCollector.addError(err);
+        logError(err, { context: 'Reconcile dangling vectors' });
+      }
+    }
+
+    // The last page resets the count before reindexing, whose upserts add to it. Repairs
+    // and syncs since the first page already moved the count, so only the drift the
+    // deletions did not explain is taken off. A failed repair leaves vectors the index
+    // no longer accounts for, so the count is left as is.
+    const errors = (previous?.errors ?? 0) + counts.errors;
+    let vectorCountReset = false;
+    if (!page.cursor && errors === 0) {
+      const drift = trackedCount - removed - actualCount;
+      await this.vectorClient.setVectorCount((await this.vectorClient.countVectors()) - drift);
+      vectorCountReset = true;
+    }
+
+    const reindex = [...missingFiles, ...incompleteFiles].map(fileId => driveFiles.get(fileId)!);
+    for (let i = 0; i < reindex.length; i += this.batchSize()) {
+      const batch = reindex.slice(i, i + this.batchSize());
+      await this.processFileBatch(batch, errorCollector, () => counts);
+    }
+
+    report.repairs = {
+      filesDeleted,
+      filesProcessed: counts.filesProcessed,
+      filesQueued: counts.filesQueued,
+      errors: counts.errors,
+      vectorCountReset,
+    };
+    report.nextCursor = nextCursor(removed, errors);
+    report.duration = Date.now() - startTime;
+    console.log('Reconcile completed:', report.repairs);
+    return report;
+  }
+
+  /**
+   * Vector IDs the vector store no longer holds
+   */
+  private async findDanglingVectorIds(vectorIds: string[]): Promise<Set<string>> {
+    const dangling = new Set<string>();
+
+    for (let i = 0; i < vectorIds.length; i += RECONCILE_LOOKUP_BATCH_SIZE) {
+      const batch = vectorIds.slice(i, i + RECONCILE_LOOKUP_BATCH_SIZE);
+      this.metricsCollector.recordVectorIndexCall();
+      const found = new Set((await this.vectorClient.getVectorsByIds(batch)).map(v => v.id));
+      batch.filter(id => !found.has(id)).forEach(id => dangling.add(id));
+    }
+
+    return dangling;
+  }
+
+  /**
+   * Process a file, recording a failure in the failure store or clearing a previous one
+   */
+  private async processTrackedFile(
+    file: DriveFileMetadata,
+    options: ProcessFileOptions = {}
+  ): Promise<number> {
+    const failureStore = this.services.failureStore;
+
+    try {
+      const count = await this.processFile(file, options);
+      await failureStore?.clearFailure(file.id);
+      return count;
+    } catch (error) {
+      // Files refused by an open circuit were not tried, so they are not failures of their own
+      if (!findCause(error, CircuitOpenError)) {
+        await failureStore?.recordFailure(file, toError(error)).catch(storeError => {
+          logError(toError(storeError), { fileId: file.id, context: 'Failed to record failure' });
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Stop the run when a dependency's circuit breaker is open: every remaining file would
+   * fail the same way. Checkpoints and start page tokens are left where they are, so the
+   * next run picks up from there.
+   */
+  private abortIfDependencyDown(error: unknown): void {
+    const outage = findCause(error, CircuitOpenError);
+    if (outage) {
+      console.error(`Aborting sync: ${outage.message}`);
+      throw outage;
+    }
+  }
+
+  /**
+   * Files dispatched per batch: a queue send, or one round of in-place processing
+   */
+  private batchSize(): number {
+    return this.services.fileQueue ? QUEUE_SEND_BATCH_SIZE : this.config.maxConcurrency;
+  }
+
+  /**
+   * Queued job count for a SyncResult (only reported when a file queue is configured)
+   */
+  private queuedCount(filesQueued: number | undefined): number | undefined {
+    return this.services.fileQueue ? filesQueued || 0 : undefined;
+  }
+
+  /**
+   * Reconcile the index with include/exclude rules that changed since the last run
+   * Removes vectors of now-excluded files and returns files the old rules excluded
+   * but the new rules include, so they can be indexed
+   */
+  private async applyPathRuleChanges(
+    sources: SyncSource[],
+    errorCollector: ErrorCollector
+  ): Promise<{ removed: number; included: DriveFileMetadata[] }> {
+    const pathFilter = this.driveClient.getPathFilter();
+    const state = await this.stateManager.getState();
+    const previousFingerprint = state.pathRulesFingerprint || '';
+
+    if (previousFingerprint === pathFilter.fingerprint) {
+      return { removed: 0, included: [] };
+    }
+
+    console.log('Path rules changed, reconciling excluded files');
+
+    const included: DriveFileMetadata[] = [];
+    const excluded: DriveFileMetadata[] = [];
+    for (const source of sources) {
+      this.metricsCollector.recordDriveApiCall();
+      this.costTracker.recordDriveQuery();
+      const files = await this.driveClient.listFilesByPathRules(
+        source.rootFolderId,
+        source.driveId
+      );
+      included.push(...files.included.map(file => ({ ...file, source: source.label })));
+      excluded.push(...files.excluded);
+    }
+
+    let removed = 0;
+
+    for (const file of excluded) {
+      try {
+        this.metricsCollector.recordVectorIndexCall();
+        this.costTracker.recordVectorIndexOperation();
+        await this.removeFile(file.id);
+        this.metricsCollector.recordFileProcessed('deleted');
+        this.metricsCollector.recordVectorsDeleted(1);
+        removed++;
+      } catch (error) {
+        const err = toError(error);
+        errorCollector.addError(err, { fileId: file.id, path: file.path });
+        this.metricsCollector.recordError(err, { fileId: file.id });
+        logError(err, { fileId: file.id });
+      }
+    }
+
+    // Retry on the next run if any removal failed
+    if (removed === excluded.length) {
+      await this.stateManager.updatePathRulesFingerprint(pathFilter.fingerprint);
+    }
+
+    const previousFilter = PathFilter.fromFingerprint(previousFingerprint);
+    return {
+      removed,
+      included: included.filter(file => !previousFilter.isIncluded(file.path)),
+    };
+  }
+
+  /**
+   * Process a single file: download, chunk, embed, upsert
+   * Uses incremental optimization to avoid re-embedding unchanged chunks
+   */
+  private async processFile(
+    file: DriveFileMetadata,
+    options: ProcessFileOptions = {}
+  ): Promise<number> {
+    console.log(`Processing file: ${file.name} (${file.id})`);
+
+    // 1-2. Download and chunk
+    const chunks = await this.downloadChunks(file);
+    if (chunks.length === 0) {
+      // A file emptied or no longer extractable must not stay searchable with old content
+      this.metricsCollector.recordVectorIndexCall();
+      this.costTracker.recordVectorIndexOperation();
+      await this.removeFile(file.id);
+      await this.writeMigrationTarget(file, chunks);
+      return 0;
+    }
+
+    // 3-9. Embed and upsert into the active index
+    const count = await this.writeChunks(file, chunks, this.activeWriter(), options);
+
+    // 10. Keep the keyword index in step with the vectors
+    if (this.services.keywordIndex) {
+      await this.services.keywordIndex.indexFile(
+        file.id,
+        chunks.map(chunk => ({
+          id: generateVectorId(file.id, chunk.index),
+          text: toEmbeddingInput(chunk),
+        }))
+      );
+    }
+
+    // 11. Shadow-write to the index an embedding migration is filling
+    await this.writeMigrationTarget(file, chunks);
+
+    return count;
+  }
+
+  /**
+   * Embedding model and index of the active slot
+   */
+  private activeWriter(): IndexWriter {
+    return { embeddingClient: this.embeddingClient, vectorClient: this.vectorClient };
+  }
+
+  /**
+   * Fail before embedding anything when an index was created for other dimensions
+   * (checked once per index, since the index would reject every vector)
+   */
+  private checkIndexDimensions(writer: IndexWriter): Promise<void> {
+    let check = this.indexChecks.get(writer.vectorClient);
+    if (!check) {
+      check = assertIndexDimensions(writer.embeddingClient, writer.vectorClient);
+      this.indexChecks.set(writer.vectorClient, check);
+    }
+    return check;
+  }
+
+  /**
+   * Download a file and split it into chunks (none for an empty file)
+   */
+  private async downloadChunks(file: DriveFileMetadata): Promise<ChunkResult[]> {
+    // 1. Download file content
+    this.metricsCollector.recordDriveApiCall();
+    this.costTracker.recordDriveQuery();
+    let content: string;
+    try {
+      content = await this.driveClient.downloadFileContent(file.id, file.mimeType, file.name);
+    } catch (error) {
+      const extraction = findCause(error, ExtractionError);
+      if (!extraction) {
+        throw error;
+      }
+      // Retrying cannot help, so the file is skipped instead of recorded as failed
+      console.warn(`Skipping file that cannot be extracted: ${file.name} (${extraction.message})`);
+      return [];
+    }
+
+    if (!content || content.trim().length === 0) {
+      console.log(`Skipping empty file: ${file.name}`);
+      return [];
+    }
+
+    // 2. Chunk text
+    const chunks = this.chunkContent(content, await this.getTokenizer());
+    this.metricsCollector.recordChunksProcessed(chunks.length);
+    console.log(`File chunked into ${chunks.length} parts`);
+    return chunks;
+  }
+
+  /**
+   * Write a processed file to the migration target, if a migration is running
+   * A failure is logged and leaves the file to the backfill; the active index is
+   * already up to date, so the sync itself does not fail
+   */
+  private async writeMigrationTarget(
+    file: DriveFileMetadata,
+    chunks: ChunkResult[]
+  ): Promise<void> {
+    const migration = this.services.migration;
+    if (!migration || migration.clearing) {
+      return;
+    }
+
+    try {
+      if (chunks.length > 0) {
+        await this.writeChunks(file, chunks, migration, {});
+      }
+      await migration.store.markMigrated(file.id);
+    } catch (error) {
+      await migration.store.unmarkMigrated(file.id).catch(() => undefined);
+      logError(toError(error), { fileId: file.id, context: 'Migration shadow write' });
+    }
+  }
+
+  /**
+   * Embed a file's chunks and replace its vectors in one index
+   * Uses incremental optimization to avoid re-embedding unchanged chunks
+   * @returns Number of vectors upserted
+   */
+  private async writeChunks(
+    file: DriveFileMetadata,
+    chunks: ChunkResult[],
+    writer: IndexWriter,
+    options: ProcessFileOptions
+  ): Promise<number> {
+    await this.checkIndexDimensions(writer);
+
+    // 3. Compute hashes for all chunks
+    // Hash what gets embedded, so a renamed parent heading triggers re-embedding
+    const chunkHashes = await Promise.all(
+      chunks.map(chunk => computeChunkHash(toEmbeddingInput(chunk)))
+    );
+
+    // 4. Fetch existing vectors for this file (for incremental optimization)
+    let existingVectors: VectorPoint[] = [];
+    try {
+      this.metricsCollector.recordVectorIndexCall();
+      this.costTracker.recordVectorIndexOperation();
+      existingVectors = await writer.vectorClient.getVectorsByFileId(file.id);
+      console.log(`Found ${existingVectors.length} existing vectors for file`);
+    } catch (error) {
+      const err = error as Error;
+
+      // Only log as error if it's not a "collection doesn't exist" case
       if (err.message?.includes('collection') || err.message?.includes('not found')) {
         console.log(
           'No existing vectors found (collection may not exist yet), will embed all chunks'
@@ -376,9 +1743,9 @@ export class SyncOrchestrator {
       }
     }
 
-    // 5. Build a map of existing chunk hashes to vectors
+    // 5. Build a map of existing chunk hashes to vectors (left empty when forced)
     const existingHashMap = new Map<string, VectorPoint>();
-    for (const vector of existingVectors) {
+    for (const vector of options.force ? [] : existingVectors) {
       const hash = vector.payload.chunk_hash;
       if (hash) {
         existingHashMap.set(hash, vector);
@@ -409,6 +1776,9 @@ export class SyncOrchestrator {
             chunk_index: chunk.index,
             chunk_hash: hash,
             last_modified: file.modifiedTime,
+            mime_type: file.mimeType,
+            source: file.source,
+            heading_path: formatHeadingPath(chunk.headingPath) || undefined,
             text: chunk.text.substring(0, 1000),
           },
         });
@@ -420,18 +1790,9 @@ export class SyncOrchestrator {
 
     console.log(`Need to embed ${chunksToEmbed.length}/${chunks.length} chunks`);
 
-    // 7. Generate embeddings only for changed/new chunks
+    // 7. Generate embeddings only for changed/new chunks (cached ones are reused)
     if (chunksToEmbed.length > 0) {
-      const textsToEmbed = chunksToEmbed.map(item => item.chunk.text);
-      const totalTokens = chunksToEmbed.reduce((sum, item) => sum + item.chunk.tokenCount, 0);
-
-      this.metricsCollector.recordEmbeddingApiCall();
-      this.costTracker.recordEmbeddingUsage(totalTokens);
-
-      const embeddings = await this.embeddingClient.embedWithBatching(
-        textsToEmbed,
-        this.config.maxBatchSize
-      );
+      const embeddings = await this.embedChunks(chunksToEmbed, writer);
 
       // Add newly embedded chunks to upsert list
       for (let i = 0; i < chunksToEmbed.length; i++) {
@@ -446,6 +1807,9 @@ export class SyncOrchestrator {
             chunk_index: chunk.index,
             chunk_hash: hash,
             last_modified: file.modifiedTime,
+            mime_type: file.mimeType,
+            source: file.source,
+            heading_path: formatHeadingPath(chunk.headingPath) || undefined,
             text: chunk.text.substring(0, 1000),
           },
         });
@@ -462,17 +1826,109 @@ export class SyncOrchestrator {
       const idsToDelete = vectorsToDelete.map(v => v.id);
       this.metricsCollector.recordVectorIndexCall();
       this.costTracker.recordVectorIndexOperation();
-      await this.vectorClient.deleteVectorsByIds(idsToDelete);
+      await writer.vectorClient.deleteVectorsByIds(idsToDelete);
     }
 
     // 9. Upsert all vectors (both reused and newly embedded)
     if (vectorsToUpsert.length > 0) {
       this.metricsCollector.recordVectorIndexCall();
       this.costTracker.recordVectorIndexOperation();
-      await this.vectorClient.upsertVectors(vectorsToUpsert);
+      await writer.vectorClient.upsertVectors(vectorsToUpsert);
       console.log(`Upserted ${vectorsToUpsert.length} vectors for file: ${file.name}`);
     }
 
     return vectorsToUpsert.length;
   }
+
+  /**
+   * Embed chunks, taking vectors from the embedding cache where it has them
+   * Each missing text is embedded once, even when it repeats within the file
+   * @returns Vectors in the order of `items`
+   */
+  private async embedChunks(
+    items: Array<{ chunk: ChunkResult; hash: string }>,
+    writer: IndexWriter
+  ): Promise<number[][]> {
+    const cache = this.services.embeddingCache;
+    const tag = embeddingCacheTag(writer.embeddingClient);
+    const vectors = cache
+      ? await cache.getMany(
+          tag,
+          items.map(item => item.hash)
+        )
+      : new Map<string, number[]>();
+
+    const missing = new Map<string, ChunkResult>();
+    for (const { chunk, hash } of items) {
+      if (!vectors.has(hash)) {
+        missing.set(hash, chunk);
+      }
+    }
+
+    if (cache) {
+      const misses = items.filter(item => !vectors.has(item.hash)).length;
+      this.costTracker.recordEmbeddingCacheLookup(items.length - misses, misses);
+      console.log(`Embedding cache: ${items.length - misses}/${items.length} hits`);
+    }
+
+    if (missing.size > 0) {
+      const chunks = [...missing.values()];
+      this.metricsCollector.recordEmbeddingApiCall();
+
+      const { embeddings, totalTokens } = await writer.embeddingClient.embedWithUsage(
+        chunks.map(chunk => toEmbeddingInput(chunk)),
+        this.config.maxBatchSize,
+        chunks.map(chunk => chunk.tokenCount)
+      );
+
+      // Bill what the API reports; fall back to our own count if usage is missing
+      const estimatedTokens = chunks.reduce((sum, chunk) => sum + chunk.tokenCount, 0);
+      this.costTracker.recordEmbeddingUsage(totalTokens > 0 ? totalTokens : estimatedTokens);
+
+      const fresh = new Map([...missing.keys()].map((hash, i) => [hash, embeddings[i]]));
+      fresh.forEach((vector, hash) => vectors.set(hash, vector));
+      await cache?.putMany(tag, fresh);
+    }
+
+    return items.map(item => vectors.get(item.hash)!);
+  }
+
+  /**
+   * Embedding cache lookups for sync history (absent when no cache is configured)
+   */
+  private cacheHistory(stats: EmbeddingCacheStats | undefined): SyncHistoryEntry['embeddingCache'] {
+    if (!this.services.embeddingCache || !stats) {
+      return undefined;
+    }
+    return { ...stats, hitRate: Math.round(embeddingCacheHitRate(stats) * 1000) / 1000 };
+  }
+
+  /**
+   * Split file content with the configured chunking strategy
+   */
+  private chunkContent(content: string, tokenizer: Tokenizer | undefined): ChunkResult[] {
+    if (this.config.chunkingStrategy === 'markdown') {
+      return chunkMarkdown(content, this.config.chunkSize, tokenizer);
+    }
+    return chunkText(content, this.config.chunkSize, 200, tokenizer);
+  }
+
+  /**
+   * Load the tokenizer on first use; a failed load is not kept, so the next file retries
+   */
+  private getTokenizer(): Promise<Tokenizer | undefined> {
+    const loadTokenizer = this.services.loadTokenizer;
+    if (!loadTokenizer) {
+      return Promise.resolve(undefined);
+    }
+
+    if (!this.tokenizer) {
+      this.tokenizer = loadTokenizer().catch(error => {
+        this.tokenizer = null;
+        throw new TokenizerLoadError('cl100k', { cause: error });
+      });
+    }
+
+    return this.tokenizer;
+  }
 }
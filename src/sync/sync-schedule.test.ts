@@ -0,0 +1,118 @@
+/**
+ * Tests for sync schedule configuration
+ *
+ * Trace:
+ *   spec_id: SPEC-scheduling-1
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import {
+  DEFAULT_SYNC_SCHEDULES,
+  getNextScheduledSync,
+  getScheduleRuns,
+  parseSyncSchedules,
+  resolveSyncSchedule,
+} from './sync-schedule';
+
+describe('parseSyncSchedules', () => {
+  it('should fall back to the default schedules', () => {
+    expect(parseSyncSchedules(undefined)).toEqual(DEFAULT_SYNC_SCHEDULES);
+    expect(parseSyncSchedules('  ')).toEqual(DEFAULT_SYNC_SCHEDULES);
+  });
+
+  it('should parse crons with their modes', () => {
+    const schedules = parseSyncSchedules(
+      JSON.stringify([
+        { cron: '0 * * * *', mode: 'incremental' },
+        { cron: ' 0 3 * * SUN ', mode: 'full' },
+      ])
+    );
+
+    expect(schedules).toEqual([
+      { cron: '0 * * * *', mode: 'incremental' },
+      { cron: '0 3 * * SUN', mode: 'full' },
+    ]);
+  });
+
+  it('should reject invalid configuration', () => {
+    expect(() => parseSyncSchedules('{')).toThrow('Invalid SYNC_SCHEDULES JSON');
+    expect(() => parseSyncSchedules('[]')).toThrow('non-empty JSON array');
+    expect(() => parseSyncSchedules('[{"mode":"full"}]')).toThrow('cron must be a string');
+    expect(() => parseSyncSchedules('[{"cron":"0 * * * *","mode":"daily"}]')).toThrow(
+      'mode must be one of'
+    );
+    expect(() => parseSyncSchedules('[{"cron":"0 25 * * *","mode":"full"}]')).toThrow(
+      'Invalid cron schedule'
+    );
+    expect(() =>
+      parseSyncSchedules(
+        '[{"cron":"0 * * * *","mode":"full"},{"cron":"0 * * * *","mode":"incremental"}]'
+      )
+    ).toThrow('duplicate cron');
+  });
+
+  it('should list the same crons as the wrangler.toml triggers', () => {
+    const toml = readFileSync(
+      fileURLToPath(new URL('../../wrangler.toml', import.meta.url).href),
+      'utf8'
+    );
+    const crons = JSON.parse(/^crons = (\[.*\])$/m.exec(toml)![1]) as string[];
+    const schedules = parseSyncSchedules(/^SYNC_SCHEDULES = '(.*)'$/m.exec(toml)![1]);
+
+    expect(schedules.map(schedule => schedule.cron).sort()).toEqual([...crons].sort());
+    expect(schedules).toEqual(DEFAULT_SYNC_SCHEDULES);
+  });
+});
+
+describe('resolveSyncSchedule', () => {
+  it('should find the schedule of the cron that fired', () => {
+    expect(resolveSyncSchedule(DEFAULT_SYNC_SCHEDULES, '*/10 * * * *').mode).toBe('continuation');
+  });
+
+  it('should run an incremental sync for unlisted crons', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(resolveSyncSchedule(DEFAULT_SYNC_SCHEDULES, '0 5 * * *')).toEqual({
+      cron: '0 5 * * *',
+      mode: 'incremental',
+    });
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('getNextScheduledSync', () => {
+  const schedules = parseSyncSchedules(
+    JSON.stringify([
+      { cron: '0 17 * * *', mode: 'incremental' },
+      { cron: '0 3 * * SUN', mode: 'full' },
+      { cron: '*/10 * * * *', mode: 'continuation' },
+    ])
+  );
+
+  it('TEST-scheduling-6: should return the earliest run of a syncing schedule', () => {
+    // Saturday 18:00: the weekly full sync (Sunday 03:00) comes before the next daily run
+    expect(getNextScheduledSync(schedules, new Date('2025-11-15T18:00:00Z'))).toBe(
+      '2025-11-16T03:00:00.000Z'
+    );
+    expect(getNextScheduledSync(schedules, new Date('2025-11-16T04:00:00Z'))).toBe(
+      '2025-11-16T17:00:00.000Z'
+    );
+  });
+
+  it('should ignore continuation ticks', () => {
+    expect(getNextScheduledSync([{ cron: '*/10 * * * *', mode: 'continuation' }])).toBeNull();
+  });
+
+  it('should report the next run of every schedule', () => {
+    const runs = getScheduleRuns(schedules, new Date('2025-11-15T18:00:00Z'));
+
+    expect(runs.map(run => run.nextRun)).toEqual([
+      '2025-11-16T17:00:00.000Z',
+      '2025-11-16T03:00:00.000Z',
+      '2025-11-15T18:10:00.000Z',
+    ]);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Sync schedules: which cron triggers run which kind of sync
+ *
+ * Cron Triggers are declared in wrangler.toml, which the Worker cannot read at
+ * runtime, so SYNC_SCHEDULES lists the same crons with a mode for each. The
+ * scheduled handler looks up the mode of the cron that fired, and the dashboard's
+ * next scheduled sync is computed from the same list.
+ *
+ * Trace:
+ *   spec_id: SPEC-scheduling-1, SPEC-web-dashboard-1
+ */
+
+import { getNextCronExecution, parseCron } from '../utils/cron.js';
+
+/**
+ * - incremental: apply Drive changes (resumes an unfinished full sync first)
+ * - full: clear sync state and rescan every file, like POST /admin/resync
+ * - continuation: resume a checkpointed full sync or a sync owed to push
+ *   notifications; a no-op otherwise
+ */
+export type SyncScheduleMode = 'incremental' | 'full' | 'continuation';
+
+export interface SyncSchedule {
+  cron: string;
+  mode: SyncScheduleMode;
+}
+
+const SYNC_SCHEDULE_MODES: SyncScheduleMode[] = ['incremental', 'full', 'continuation'];
+
+/**
+ * Schedules matching the default `crons` in wrangler.toml: daily at 17:00 UTC
+ * (01:00 KST) plus a 10-minute continuation tick
+ */
+export const DEFAULT_SYNC_SCHEDULES: SyncSchedule[] = [
+  { cron: '0 17 * * *', mode: 'incremental' },
+  { cron: '*/10 * * * *', mode: 'continuation' },
+];
+
+/**
+ * Resolve the configured sync schedules
+ *
+ * SYNC_SCHEDULES is a JSON array of `{ cron, mode }`, e.g.
+ * `[{ "cron": "0 * * * *", "mode": "incremental" }, { "cron": "0 3 * * SUN", "mode": "full" }]`.
+ * Every cron must also be listed in `[triggers] crons` in wrangler.toml.
+ */
+export function parseSyncSchedules(schedulesJson?: string): SyncSchedule[] {
+  if (!schedulesJson || !schedulesJson.trim()) {
+    return DEFAULT_SYNC_SCHEDULES;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(schedulesJson);
+  } catch (error) {
+    throw new Error(`Invalid SYNC_SCHEDULES JSON: ${(error as Error).message}`);
+  }
+
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error('Invalid SYNC_SCHEDULES: must be a non-empty JSON array');
+  }
+
+  const crons = new Set<string>();
+
+  return parsed.map((entry: { cron?: unknown; mode?: unknown }, index) => {
+    if (!entry || typeof entry !== 'object' || typeof entry.cron !== 'string') {
+      throw new Error(`Invalid sync schedule at index ${index}: cron must be a string`);
+    }
+    if (!SYNC_SCHEDULE_MODES.includes(entry.mode as SyncScheduleMode)) {
+      throw new Error(
+        `Invalid sync schedule at index ${index}: mode must be one of ${SYNC_SCHEDULE_MODES.join(', ')}`
+      );
+    }
+
+    const cron = entry.cron.trim();
+    parseCron(cron); // Throws on malformed expressions
+
+    if (crons.has(cron)) {
+      throw new Error(`Invalid SYNC_SCHEDULES: duplicate cron "${cron}"`);
+    }
+    crons.add(cron);
+
+    return { cron, mode: entry.mode as SyncScheduleMode };
+  });
+}
+
+/**
+ * Schedule of the cron that fired; an unlisted cron (trigger added to wrangler.toml
+ * but not to SYNC_SCHEDULES) runs an incremental sync
+ */
+export function resolveSyncSchedule(schedules: SyncSchedule[], cron: string): SyncSchedule {
+  const schedule = schedules.find(candidate => candidate.cron === cron.trim());
+  if (!schedule) {
+    console.warn(`Cron "${cron}" is not listed in SYNC_SCHEDULES, running an incremental sync`);
+    return { cron, mode: 'incremental' };
+  }
+  return schedule;
+}
+
+/**
+ * Next run of each schedule
+ */
+export function getScheduleRuns(
+  schedules: SyncSchedule[],
+  from: Date = new Date()
+): Array<SyncSchedule & { nextRun: string }> {
+  return schedules.map(schedule => ({
+    ...schedule,
+    nextRun: getNextCronExecution(schedule.cron, from),
+  }));
+}
+
+/**
+ * Earliest next run among schedules that always sync (continuation ticks are skipped,
+ * since they are no-ops unless work is pending)
+ */
+export function getNextScheduledSync(
+  schedules: SyncSchedule[],
+  from: Date = new Date()
+): string | null {
+  const runs = getScheduleRuns(
+    schedules.filter(schedule => schedule.mode !== 'continuation'),
+    from
+  ).map(run => run.nextRun);
+
+  return runs.length > 0 ? runs.sort()[0] : null;
+}
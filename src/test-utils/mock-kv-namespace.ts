@@ -0,0 +1,90 @@
+/**
+ * In-memory KVNamespace for unit tests
+ *
+ * Covers the subset of the Workers KV API the stores use: text/JSON reads
+ * (single and bulk), metadata, expirationTtl, and prefix listing paged by
+ * cursor and limit. Tests pass it as `kv as unknown as KVNamespace` and
+ * inspect `store`, `metadata` and `ttls` directly.
+ */
+
+const DEFAULT_LIST_LIMIT = 1000;
+
+export class MockKVNamespace {
+  store = new Map<string, string>();
+  metadata = new Map<string, unknown>();
+  ttls = new Map<string, number | undefined>();
+  private expiresAt = new Map<string, number>();
+
+  get(keys: string[], type?: 'text'): Promise<Map<string, string | null>>;
+  get<T = unknown>(key: string, type: 'json'): Promise<T | null>;
+  get(key: string, type?: 'text'): Promise<string | null>;
+  async get(
+    key: string | string[],
+    type?: 'text' | 'json'
+  ): Promise<Map<string, string | null> | unknown> {
+    if (Array.isArray(key)) {
+      return new Map(key.map(k => [k, this.read(k)]));
+    }
+    const value = this.read(key);
+    if (value === null) return null;
+    return type === 'json' ? this.parseJson(value) : value;
+  }
+
+  async getWithMetadata(
+    key: string,
+    type?: 'text' | 'json'
+  ): Promise<{ value: unknown; metadata: unknown }> {
+    const value = await this.get(key, type as 'text');
+    return { value, metadata: value === null ? null : (this.metadata.get(key) ?? null) };
+  }
+
+  async put(key: string, value: string, options?: KVNamespacePutOptions): Promise<void> {
+    this.store.set(key, value);
+    this.metadata.set(key, options?.metadata);
+    this.ttls.set(key, options?.expirationTtl);
+    if (options?.expirationTtl) {
+      this.expiresAt.set(key, Date.now() + options.expirationTtl * 1000);
+    } else {
+      this.expiresAt.delete(key);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.store.delete(key);
+    this.metadata.delete(key);
+    this.ttls.delete(key);
+    this.expiresAt.delete(key);
+  }
+
+  async list(options: KVNamespaceListOptions = {}): Promise<KVNamespaceListResult<unknown>> {
+    const names = [...this.store.keys()]
+      .filter(name => this.read(name) !== null && name.startsWith(options.prefix ?? ''))
+      .sort();
+    const start = options.cursor ? Number(options.cursor) : 0;
+    const end = start + (options.limit ?? DEFAULT_LIST_LIMIT);
+    const keys = names.slice(start, end).map(name => ({ name, metadata: this.metadata.get(name) }));
+
+    if (end < names.length) {
+      return { keys, list_complete: false, cursor: String(end), cacheStatus: null };
+    }
+    return { keys, list_complete: true, cacheStatus: null };
+  }
+
+  clear(): void {
+    this.store.clear();
+    this.metadata.clear();
+    this.ttls.clear();
+    this.expiresAt.clear();
+  }
+
+  /** Parses a JSON read; throws on malformed values like KV does */
+  protected parseJson(value: string): unknown {
+    return JSON.parse(value);
+  }
+
+  private read(key: string): string | null {
+    const expiresAt = this.expiresAt.get(key);
+    if (expiresAt !== undefined && expiresAt <= Date.now()) return null;
+    return this.store.get(key) ?? null;
+  }
+}
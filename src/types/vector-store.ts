@@ -20,16 +20,82 @@ export interface VectorPoint {
     chunk_index: number;
     chunk_hash: string;
     last_modified: string;
+    mime_type?: string;
+    /**
+     * Heading breadcrumb, e.g. "Projects > Alpha" (markdown chunking only)
+     */
+    heading_path?: string;
+    /**
+     * Label of the sync source (folder or Shared Drive) the file was synced from
+     */
+    source?: string;
     text?: string;
   };
 }
 
+/**
+ * Metadata constraints applied by the vector store before ranking
+ */
+export interface VectorQueryFilter {
+  /**
+   * Only match files whose path starts with this prefix (e.g. "Projects/Alpha/")
+   */
+  pathPrefix?: string;
+  /**
+   * Only match files with one of these MIME types
+   */
+  mimeTypes?: string[];
+  /**
+   * Only match files modified strictly after this ISO timestamp
+   */
+  modifiedAfter?: string;
+}
+
+/**
+ * Options for similarity queries against the vector store
+ */
+export interface VectorQueryOptions {
+  /**
+   * Maximum number of matches to return
+   */
+  topK: number;
+  /**
+   * Optional metadata filter evaluated server-side
+   */
+  filter?: VectorQueryFilter;
+}
+
+/**
+ * Single similarity match with its stored payload
+ */
+export interface VectorQueryMatch {
+  id: string;
+  score: number;
+  payload: VectorPoint['payload'];
+}
+
 /**
  * Common vector store client interface
  *
  * Both Qdrant and Vectorize clients implement this interface
  * to allow for drop-in replacement during migration
  */
+/**
+ * Page request over the store's file index
+ */
+export interface IndexedFilesPageOptions {
+  limit: number;
+  cursor?: string;
+}
+
+/**
+ * One page of the store's file index
+ */
+export interface IndexedFilesPage {
+  files: Map<string, string[]>;
+  cursor: string | null;
+}
+
 export interface VectorStoreClient {
   /**
    * Initialize collection/index with proper schema
@@ -46,6 +112,11 @@ export interface VectorStoreClient {
    */
   getVectorsByFileId(fileId: string): Promise<VectorPoint[]>;
 
+  /**
+   * Get vectors by their IDs (missing IDs are omitted)
+   */
+  getVectorsByIds(vectorIds: string[]): Promise<VectorPoint[]>;
+
   /**
    * Delete specific vectors by their IDs
    */
@@ -56,6 +127,12 @@ export interface VectorStoreClient {
    */
   deleteVectorsByFileId(fileId: string): Promise<void>;
 
+  /**
+   * Find the vectors most similar to the given query vector,
+   * optionally restricted by a metadata filter
+   */
+  queryVectors(vector: number[], options: VectorQueryOptions): Promise<VectorQueryMatch[]>;
+
   /**
    * Get collection/index info
    */
@@ -65,4 +142,26 @@ export interface VectorStoreClient {
    * Count total vectors in collection/index
    */
   countVectors(): Promise<number>;
+
+  /**
+   * Vector dimensions the collection/index was created with (null when unknown)
+   */
+  getDimensions(): Promise<number | null>;
+
+  /**
+   * IDs of every file with vectors, from the store's file index
+   */
+  listIndexedFileIds(): Promise<string[]>;
+
+  /**
+   * Vector IDs recorded for one page of indexed files, keyed by file ID in ascending
+   * order (the index the store keeps itself, which can drift from its actual contents)
+   * The returned cursor continues the listing; null after the last page.
+   */
+  listIndexedFiles(options: IndexedFilesPageOptions): Promise<IndexedFilesPage>;
+
+  /**
+   * Overwrite the tracked vector count (used by reconciliation)
+   */
+  setVectorCount(count: number): Promise<void>;
 }
@@ -16,6 +16,15 @@ export interface VectorizeIndex {
   deleteByIds(ids: string[]): Promise<VectorizeDeleteResult>;
   getByIds(ids: string[]): Promise<VectorizeMatch[]>;
   query(vector: number[], options?: VectorizeQueryOptions): Promise<VectorizeQueryResult>;
+  describe(): Promise<VectorizeIndexInfo>;
+}
+
+/**
+ * Index configuration and size reported by describe()
+ */
+export interface VectorizeIndexInfo {
+  dimensions: number;
+  vectorCount?: number;
 }
 
 /**
@@ -0,0 +1,29 @@
+/**
+ * Cloudflare Workers AI binding types (the subset used for embeddings)
+ *
+ * Trace:
+ *   spec_id: SPEC-embedding-pipeline-1
+ */
+
+/**
+ * Workers AI binding (`[ai] binding = "AI"` in wrangler.toml)
+ * (Provided by Workers runtime binding)
+ */
+export interface WorkersAI {
+  run(model: string, inputs: WorkersAIEmbeddingInput): Promise<WorkersAIEmbeddingOutput>;
+}
+
+/**
+ * Input of text embedding models such as @cf/baai/bge-m3
+ */
+export interface WorkersAIEmbeddingInput {
+  text: string[];
+}
+
+/**
+ * Output of text embedding models: one vector per input text, in input order
+ */
+export interface WorkersAIEmbeddingOutput {
+  shape?: number[];
+  data?: number[][];
+}
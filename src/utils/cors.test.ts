@@ -21,7 +21,7 @@ describe('buildCorsHeaders', () => {
 
     expect(headers['Access-Control-Allow-Origin']).toBe('https://example.com');
     expect(headers['Access-Control-Allow-Credentials']).toBe('true');
-    expect(headers['Access-Control-Allow-Methods']).toBe('GET, POST, OPTIONS');
+    expect(headers['Access-Control-Allow-Methods']).toBe('GET, POST, DELETE, OPTIONS');
     expect(headers['Access-Control-Allow-Headers']).toContain('CF-Authorization');
   });
 
@@ -32,16 +32,12 @@ describe('buildCorsHeaders', () => {
 
     expect(headers['Access-Control-Allow-Origin']).toBeUndefined();
     expect(headers['Access-Control-Allow-Credentials']).toBeUndefined();
-    expect(headers['Access-Control-Allow-Methods']).toBe('GET, POST, OPTIONS');
+    expect(headers['Access-Control-Allow-Methods']).toBe('GET, POST, DELETE, OPTIONS');
     expect(headers['Access-Control-Allow-Headers']).toContain('CF-Authorization');
   });
 
   it('should reflect any origin without validation', () => {
-    const origins = [
-      'https://malicious.com',
-      'http://localhost:3000',
-      'https://app.example.com',
-    ];
+    const origins = ['https://malicious.com', 'http://localhost:3000', 'https://app.example.com'];
 
     origins.forEach(origin => {
       const request = new Request('http://localhost', {
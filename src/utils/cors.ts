@@ -16,7 +16,7 @@ export function buildCorsHeaders(request: Request): Record<string, string> {
   const origin = request.headers.get('Origin');
 
   const headers: Record<string, string> = {
-    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
     'Access-Control-Allow-Headers': 'Content-Type, CF-Authorization, Cf-Authorization',
   };
 
@@ -7,7 +7,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { getNextCronExecution, getCronSchedule } from './cron';
+import { getNextCronExecution, parseCron } from './cron';
 
 describe('cron utilities', () => {
   describe('getNextCronExecution', () => {
@@ -50,6 +50,46 @@ describe('cron utilities', () => {
       expect(() => getNextCronExecution('x y * * *')).toThrow('Invalid cron schedule');
     });
 
+    it('TEST-scheduling-6: should step through minute and hour lists', () => {
+      const from = new Date('2025-11-15T10:07:30Z');
+
+      expect(getNextCronExecution('*/10 * * * *', from)).toBe('2025-11-15T10:10:00.000Z');
+      expect(getNextCronExecution('0 * * * *', from)).toBe('2025-11-15T11:00:00.000Z');
+      expect(getNextCronExecution('15,45 9-11 * * *', from)).toBe('2025-11-15T10:15:00.000Z');
+      expect(getNextCronExecution('0 0-12/6 * * *', from)).toBe('2025-11-15T12:00:00.000Z');
+    });
+
+    it('should find the next matching weekday', () => {
+      // 2025-11-15 is a Saturday
+      const from = new Date('2025-11-15T10:00:00Z');
+
+      expect(getNextCronExecution('0 3 * * SUN', from)).toBe('2025-11-16T03:00:00.000Z');
+      expect(getNextCronExecution('0 3 * * 7', from)).toBe('2025-11-16T03:00:00.000Z');
+      expect(getNextCronExecution('30 8 * * mon-fri', from)).toBe('2025-11-17T08:30:00.000Z');
+    });
+
+    it('should honour days of month and months', () => {
+      const from = new Date('2025-11-15T10:00:00Z');
+
+      expect(getNextCronExecution('0 0 1 * *', from)).toBe('2025-12-01T00:00:00.000Z');
+      expect(getNextCronExecution('0 0 1 JAN *', from)).toBe('2026-01-01T00:00:00.000Z');
+      expect(getNextCronExecution('0 12 29 2 *', from)).toBe('2028-02-29T12:00:00.000Z');
+    });
+
+    it('should match either day field when both are restricted', () => {
+      // The 20th (Thursday) or any Monday, whichever comes first
+      const from = new Date('2025-11-15T10:00:00Z');
+
+      expect(getNextCronExecution('0 0 20 * MON', from)).toBe('2025-11-17T00:00:00.000Z');
+      expect(getNextCronExecution('0 0 16 * MON', from)).toBe('2025-11-16T00:00:00.000Z');
+    });
+
+    it('should roll over the end of the year', () => {
+      const from = new Date('2025-12-31T23:59:00Z');
+
+      expect(getNextCronExecution('* * * * *', from)).toBe('2026-01-01T00:00:00.000Z');
+    });
+
     it('should use current time as default if no from date provided', () => {
       const before = Date.now();
       const next = getNextCronExecution('0 17 * * *');
@@ -65,9 +105,28 @@ describe('cron utilities', () => {
     });
   });
 
-  describe('getCronSchedule', () => {
-    it('should return default cron schedule', () => {
-      expect(getCronSchedule()).toBe('0 17 * * *');
+  describe('parseCron', () => {
+    it('should expand lists, ranges and steps', () => {
+      const cron = parseCron('5/20 1,2 1-3 */6 *');
+
+      expect(cron.minutes).toEqual([5, 25, 45]);
+      expect(cron.hours).toEqual([1, 2]);
+      expect([...cron.daysOfMonth]).toEqual([1, 2, 3]);
+      expect([...cron.months]).toEqual([1, 7]);
+      expect(cron.daysOfWeekRestricted).toBe(false);
+    });
+
+    it('should reject malformed expressions', () => {
+      expect(() => parseCron('0 17 * *')).toThrow('expected 5 fields');
+      expect(() => parseCron('60 * * * *')).toThrow('minute 60 out of range 0-59');
+      expect(() => parseCron('0 5-1 * * *')).toThrow('bad hour range');
+      expect(() => parseCron('*/0 * * * *')).toThrow('bad step');
+      expect(() => parseCron('0 0 L * *')).toThrow('bad day of month');
+      expect(() => parseCron('0 0 * * FUN')).toThrow('bad day of week');
+    });
+
+    it('should reject schedules that never run', () => {
+      expect(() => getNextCronExecution('0 0 31 2 *')).toThrow('never runs');
     });
   });
 });
@@ -2,52 +2,198 @@
  * Cron schedule utilities
  *
  * Trace:
- *   spec_id: SPEC-web-dashboard-1
+ *   spec_id: SPEC-web-dashboard-1, SPEC-scheduling-1
  *   task_id: TASK-028
  */
 
 /**
- * Calculate next execution time for a cron schedule
- * Currently supports simple daily schedule format: "0 17 * * *"
- *
- * @param cronSchedule Cron schedule string (minute hour day month weekday)
- * @param from Starting time (default: now)
- * @returns ISO timestamp of next execution
+ * Parsed 5-field cron expression (all times UTC, like Cloudflare Cron Triggers)
  */
-export function getNextCronExecution(cronSchedule: string, from: Date = new Date()): string {
-  // Parse cron schedule
-  const parts = cronSchedule.trim().split(/\s+/);
+export interface CronExpression {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>; // 0 = Sunday
+  /**
+   * When both day fields are restricted a day matches if either does (standard cron)
+   */
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
 
-  if (parts.length !== 5) {
-    throw new Error(`Invalid cron schedule: ${cronSchedule}`);
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const MONTH_NAMES = [
+  'JAN',
+  'FEB',
+  'MAR',
+  'APR',
+  'MAY',
+  'JUN',
+  'JUL',
+  'AUG',
+  'SEP',
+  'OCT',
+  'NOV',
+  'DEC',
+];
+const WEEKDAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const CRON_FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  { name: 'day of week', min: 0, max: 7, names: WEEKDAY_NAMES }, // 7 is Sunday too
+];
+
+// Search horizon for the next run; covers schedules that only match on Feb 29
+const MAX_SEARCH_DAYS = 366 * 8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function invalid(expression: string, reason: string): Error {
+  return new Error(`Invalid cron schedule: ${expression} (${reason})`);
+}
+
+function parseValue(value: string, field: CronField, expression: string): number {
+  const nameIndex = field.names?.indexOf(value.toUpperCase()) ?? -1;
+  if (nameIndex >= 0) {
+    return field.min === 1 ? nameIndex + 1 : nameIndex;
+  }
+
+  if (!/^\d+$/.test(value)) {
+    throw invalid(expression, `bad ${field.name} "${value}"`);
+  }
+
+  const number = parseInt(value, 10);
+  if (number < field.min || number > field.max) {
+    throw invalid(expression, `${field.name} ${number} out of range ${field.min}-${field.max}`);
   }
+  return number;
+}
+
+/**
+ * Expand one field: lists of "*", "a", "a-b", each optionally stepped with "/n"
+ */
+function parseField(source: string, field: CronField, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of source.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    if (extra !== undefined || !range) {
+      throw invalid(expression, `bad ${field.name} "${part}"`);
+    }
 
-  const [minutePart, hourPart] = parts;
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (stepText !== undefined && (!/^\d+$/.test(stepText) || step < 1)) {
+      throw invalid(expression, `bad step "${stepText}"`);
+    }
 
-  // Parse minute and hour
-  const minute = parseInt(minutePart, 10);
-  const hour = parseInt(hourPart, 10);
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, field, expression);
+      end = parseValue(to, field, expression);
+      if (start > end) {
+        throw invalid(expression, `bad ${field.name} range "${range}"`);
+      }
+    } else {
+      start = parseValue(range, field, expression);
+      // "a/n" steps from a to the end of the field
+      end = stepText === undefined ? start : field.max;
+    }
 
-  if (isNaN(minute) || isNaN(hour)) {
-    throw new Error(`Invalid cron schedule: ${cronSchedule}`);
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
   }
 
-  // Calculate next execution time
-  const next = new Date(from);
-  next.setUTCHours(hour, minute, 0, 0);
+  return values;
+}
+
+/**
+ * Parse a 5-field cron expression: minute hour day-of-month month day-of-week
+ * Fields accept "*", numbers, ranges ("1-5"), steps over "*", a range or a start value
+ * ("0-30/10", "5/15"), lists ("1,15") and month / weekday names ("JAN", "mon-fri");
+ * weekday 0 and 7 are both Sunday
+ */
+export function parseCron(expression: string): CronExpression {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw invalid(expression, 'expected 5 fields');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseField(part, CRON_FIELDS[index], expression)
+  );
+
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: [...minutes].sort((a, b) => a - b),
+    hours: [...hours].sort((a, b) => a - b),
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: !parts[2].startsWith('*'),
+    daysOfWeekRestricted: !parts[4].startsWith('*'),
+  };
+}
 
-  // If the calculated time is in the past, add 1 day
-  if (next.getTime() <= from.getTime()) {
-    next.setUTCDate(next.getUTCDate() + 1);
+function matchesDay(cron: CronExpression, day: Date): boolean {
+  if (!cron.months.has(day.getUTCMonth() + 1)) {
+    return false;
   }
 
-  return next.toISOString();
+  const domMatch = cron.daysOfMonth.has(day.getUTCDate());
+  const dowMatch = cron.daysOfWeek.has(day.getUTCDay());
+  if (cron.daysOfMonthRestricted && cron.daysOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
 }
 
 /**
- * Get the cron schedule from environment
- * Default: "0 17 * * *" (daily at 17:00 UTC / 01:00 KST)
+ * Calculate next execution time for a cron schedule (strictly after `from`)
+ *
+ * @param cronSchedule Cron schedule string (minute hour day month weekday)
+ * @param from Starting time (default: now)
+ * @returns ISO timestamp of next execution
  */
-export function getCronSchedule(): string {
-  return '0 17 * * *';
+export function getNextCronExecution(cronSchedule: string, from: Date = new Date()): string {
+  const cron = parseCron(cronSchedule);
+
+  // First whole minute after `from`
+  const start = new Date(Math.floor(from.getTime() / 60_000) * 60_000 + 60_000);
+  const startDay = Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+
+  for (let offset = 0; offset < MAX_SEARCH_DAYS; offset++) {
+    const day = new Date(startDay + offset * DAY_MS);
+    if (!matchesDay(cron, day)) {
+      continue;
+    }
+
+    for (const hour of cron.hours) {
+      for (const minute of cron.minutes) {
+        const candidate = day.getTime() + hour * 60 * 60_000 + minute * 60_000;
+        if (candidate >= start.getTime()) {
+          return new Date(candidate).toISOString();
+        }
+      }
+    }
+  }
+
+  throw invalid(cronSchedule, 'never runs');
 }
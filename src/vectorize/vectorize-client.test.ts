@@ -7,7 +7,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { VectorizeClient } from './vectorize-client';
+import { VectorizeClient, buildVectorizeFilter } from './vectorize-client';
 import type { VectorPoint } from '../types/vector-store';
 
 describe('VectorizeClient', () => {
@@ -28,6 +28,7 @@ describe('VectorizeClient', () => {
       deleteByIds: vi.fn().mockResolvedValue({ count: 0, ids: [] }),
       getByIds: vi.fn().mockResolvedValue([]),
       query: vi.fn().mockResolvedValue({ matches: [], count: 0 }),
+      describe: vi.fn().mockResolvedValue({ dimensions: 1536, vectorCount: 0 }),
     };
 
     // Mock KV namespace with in-memory store
@@ -41,6 +42,28 @@ describe('VectorizeClient', () => {
       delete: vi.fn().mockImplementation(async (key: string) => {
         kvStore.delete(key);
       }),
+      list: vi
+        .fn()
+        .mockImplementation(
+          async ({
+            prefix,
+            cursor,
+            limit,
+          }: {
+            prefix: string;
+            cursor?: string;
+            limit?: number;
+          }) => {
+            const names = [...kvStore.keys()].filter(name => name.startsWith(prefix)).sort();
+            const start = cursor ? Number(cursor) : 0;
+            const end = limit ? start + limit : names.length;
+            return {
+              keys: names.slice(start, end).map(name => ({ name })),
+              list_complete: end >= names.length,
+              cursor: String(end),
+            };
+          }
+        ),
     };
 
     client = new VectorizeClient({
@@ -293,4 +316,229 @@ describe('VectorizeClient', () => {
       expect(finalCount).toBe(0);
     });
   });
+
+  describe('File index reconciliation', () => {
+    it('should list indexed files with their vector IDs', async () => {
+      kvStore.set('file:file1', JSON.stringify(['file1_0', 'file1_1']));
+      kvStore.set('file:file_2', JSON.stringify(['file_2_0']));
+      kvStore.set('_vector_count', '3');
+
+      expect(await client.listIndexedFileIds()).toEqual(['file1', 'file_2']);
+      const first = await client.listIndexedFiles({ limit: 1 });
+      const second = await client.listIndexedFiles({ limit: 1, cursor: first.cursor! });
+
+      expect(first.files).toEqual(new Map([['file1', ['file1_0', 'file1_1']]]));
+      expect(first.cursor).not.toBeNull();
+      expect(second).toEqual({ files: new Map([['file_2', ['file_2_0']]]), cursor: null });
+    });
+
+    it('should overwrite the tracked vector count', async () => {
+      kvStore.set('_vector_count', '42');
+
+      await client.setVectorCount(7);
+
+      expect(await client.countVectors()).toBe(7);
+    });
+
+    it('should keep a prefixed index apart in a shared namespace', async () => {
+      kvStore.set('file:file1', JSON.stringify(['file1_0']));
+      kvStore.set('_vector_count', '1');
+      const secondary = new VectorizeClient({
+        index: mockIndex,
+        fileIndex: mockKV,
+        collectionName: 'test-index (secondary)',
+        keyPrefix: 'secondary:',
+      });
+
+      await secondary.upsertVectors([
+        {
+          id: 'file2_0',
+          vector: new Array(1536).fill(0.1),
+          payload: {
+            file_id: 'file2',
+            file_name: 'other.txt',
+            file_path: '/other.txt',
+            chunk_index: 0,
+            chunk_hash: 'hash1',
+            last_modified: '2025-01-01T00:00:00Z',
+          },
+        },
+      ]);
+
+      expect(kvStore.get('secondary:file:file2')).toBe(JSON.stringify(['file2_0']));
+      expect(await secondary.listIndexedFileIds()).toEqual(['file2']);
+      expect(await secondary.countVectors()).toBe(1);
+      expect(await client.listIndexedFileIds()).toEqual(['file1']);
+    });
+  });
+
+  describe('Index dimensions', () => {
+    it('should report the dimensions the index was created with', async () => {
+      expect(await client.getDimensions()).toBe(1536);
+    });
+
+    it('should return null when the index cannot be described', async () => {
+      mockIndex.describe.mockRejectedValueOnce(new Error('index not found'));
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(await client.getDimensions()).toBeNull();
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('Similarity queries', () => {
+    it('should request full metadata and map matches to payloads', async () => {
+      mockIndex.query.mockResolvedValue({
+        matches: [
+          {
+            id: 'file1_2',
+            score: 0.83,
+            metadata: {
+              file_id: 'file1',
+              file_name: 'notes.md',
+              file_path: 'team/notes.md',
+              chunk_index: 2,
+              chunk_hash: 'hash',
+              last_modified: '2025-01-01T00:00:00Z',
+              text: 'Meeting notes',
+            },
+          },
+        ],
+        count: 1,
+      });
+
+      const matches = await client.queryVectors([0.1, 0.2], { topK: 7 });
+
+      expect(mockIndex.query).toHaveBeenCalledWith([0.1, 0.2], {
+        topK: 7,
+        returnValues: false,
+        returnMetadata: 'all',
+      });
+      expect(matches).toEqual([
+        {
+          id: 'file1_2',
+          score: 0.83,
+          payload: {
+            file_id: 'file1',
+            file_name: 'notes.md',
+            file_path: 'team/notes.md',
+            chunk_index: 2,
+            chunk_hash: 'hash',
+            last_modified: '2025-01-01T00:00:00Z',
+            text: 'Meeting notes',
+          },
+        },
+      ]);
+    });
+  });
+
+  describe('Binding failures', () => {
+    it('should retry errors raised by the Vectorize binding', async () => {
+      vi.useFakeTimers();
+      mockIndex.query
+        .mockRejectedValueOnce(new Error('VECTOR_QUERY_ERROR (code = 40006): internal error'))
+        .mockResolvedValue({ matches: [], count: 0 });
+
+      const promise = client.queryVectors([0.1], { topK: 1 });
+      await vi.runAllTimersAsync();
+
+      await expect(promise).resolves.toEqual([]);
+      expect(mockIndex.query).toHaveBeenCalledTimes(2);
+      vi.useRealTimers();
+    });
+
+    it('should not retry programming errors', async () => {
+      mockIndex.query.mockRejectedValue(new TypeError('vector.map is not a function'));
+
+      await expect(client.queryVectors([0.1], { topK: 1 })).rejects.toThrow(
+        'vector.map is not a function'
+      );
+      expect(mockIndex.query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Metadata filters', () => {
+    it('should translate a path prefix into a lexicographic range', () => {
+      expect(buildVectorizeFilter({ pathPrefix: 'Projects/Alpha/' })).toEqual({
+        file_path: { $gte: 'Projects/Alpha/', $lt: 'Projects/Alpha/\uffff' },
+      });
+    });
+
+    it('should use $eq for a single MIME type and $in for several', () => {
+      expect(buildVectorizeFilter({ mimeTypes: ['application/pdf'] })).toEqual({
+        mime_type: { $eq: 'application/pdf' },
+      });
+      expect(buildVectorizeFilter({ mimeTypes: ['application/pdf', 'text/markdown'] })).toEqual({
+        mime_type: { $in: ['application/pdf', 'text/markdown'] },
+      });
+    });
+
+    it('should normalize modifiedAfter to a full ISO timestamp', () => {
+      expect(buildVectorizeFilter({ modifiedAfter: '2025-06-01' })).toEqual({
+        last_modified: { $gt: '2025-06-01T00:00:00.000Z' },
+      });
+    });
+
+    it('should return undefined for an empty filter', () => {
+      expect(buildVectorizeFilter(undefined)).toBeUndefined();
+      expect(buildVectorizeFilter({ mimeTypes: [] })).toBeUndefined();
+    });
+
+    it('should pass the translated filter to Vectorize queries', async () => {
+      await client.queryVectors([0.1], {
+        topK: 5,
+        filter: { pathPrefix: 'Notes/', mimeTypes: ['text/markdown'] },
+      });
+
+      expect(mockIndex.query).toHaveBeenCalledWith([0.1], {
+        topK: 5,
+        returnValues: false,
+        returnMetadata: 'all',
+        filter: {
+          file_path: { $gte: 'Notes/', $lt: 'Notes/\uffff' },
+          mime_type: { $eq: 'text/markdown' },
+        },
+      });
+    });
+
+    it('should store mime_type as vector metadata', async () => {
+      await client.upsertVectors([
+        {
+          id: 'file1_0',
+          vector: [0.1],
+          payload: {
+            file_id: 'file1',
+            file_name: 'report.pdf',
+            file_path: 'report.pdf',
+            chunk_index: 0,
+            chunk_hash: 'hash',
+            last_modified: '2025-01-01T00:00:00Z',
+            mime_type: 'application/pdf',
+          },
+        },
+      ]);
+
+      const upserted = mockIndex.upsert.mock.calls[0][0];
+      expect(upserted[0].metadata.mime_type).toBe('application/pdf');
+    });
+
+    it('should round-trip the heading breadcrumb', async () => {
+      mockIndex.query.mockResolvedValue({
+        matches: [
+          {
+            id: 'file1_1',
+            score: 0.5,
+            metadata: { file_id: 'file1', heading_path: 'Ops > Deploy' },
+          },
+          { id: 'file2_0', score: 0.4, metadata: { file_id: 'file2', heading_path: '' } },
+        ],
+        count: 2,
+      });
+
+      const matches = await client.queryVectors([0.1], { topK: 2 });
+
+      expect(matches[0].payload.heading_path).toBe('Ops > Deploy');
+      expect(matches[1].payload.heading_path).toBeUndefined();
+    });
+  });
 });
@@ -12,9 +12,23 @@
  *   task_id: TASK-025
  */
 
-import { withRetry } from '../errors/index.js';
+import {
+  BindingError,
+  CircuitBreaker,
+  DEFAULT_RETRY_CONFIG,
+  VectorizeError,
+  withRetry,
+} from '../errors/index.js';
 import { parseVectorId } from './vector-id.js';
-import { VectorStoreClient, VectorPoint } from '../types/vector-store.js';
+import {
+  IndexedFilesPage,
+  IndexedFilesPageOptions,
+  VectorStoreClient,
+  VectorPoint,
+  VectorQueryFilter,
+  VectorQueryMatch,
+  VectorQueryOptions,
+} from '../types/vector-store.js';
 import type { VectorizeIndex, VectorizeMatch } from '../types/vectorize.js';
 
 /**
@@ -23,6 +37,88 @@ import type { VectorizeIndex, VectorizeMatch } from '../types/vectorize.js';
  */
 const DEFAULT_VECTOR_DIMENSIONS = 1536;
 
+const FILE_INDEX_PREFIX = 'file:';
+const VECTOR_COUNT_KEY = '_vector_count';
+
+/**
+ * Metadata properties that must have a Vectorize metadata index for
+ * server-side filtering. Create each one before deployment:
+ * wrangler vectorize create-metadata-index <index-name> --property-name=<name> --type=<type>
+ *
+ * Note: Vectorize only indexes vectors upserted after the metadata index exists,
+ * and string filters only consider the first 64 bytes of the value.
+ */
+export const INDEXED_METADATA_FIELDS = [
+  { propertyName: 'file_path', type: 'string' },
+  { propertyName: 'mime_type', type: 'string' },
+  { propertyName: 'last_modified', type: 'string' },
+] as const;
+
+/**
+ * Errors thrown by our own code (bad arguments, undefined values) rather than by the binding
+ */
+function isProgrammingError(error: unknown): boolean {
+  return (
+    error instanceof TypeError ||
+    error instanceof RangeError ||
+    error instanceof ReferenceError ||
+    error instanceof SyntaxError
+  );
+}
+
+/**
+ * Convert raw Vectorize metadata into a typed vector payload
+ */
+function toVectorPayload(metadata: Record<string, unknown> | undefined): VectorPoint['payload'] {
+  return {
+    file_id: typeof metadata?.file_id === 'string' ? metadata.file_id : '',
+    file_name: typeof metadata?.file_name === 'string' ? metadata.file_name : '',
+    file_path: typeof metadata?.file_path === 'string' ? metadata.file_path : '',
+    chunk_index: typeof metadata?.chunk_index === 'number' ? metadata.chunk_index : 0,
+    chunk_hash: typeof metadata?.chunk_hash === 'string' ? metadata.chunk_hash : '',
+    last_modified: typeof metadata?.last_modified === 'string' ? metadata.last_modified : '',
+    mime_type: typeof metadata?.mime_type === 'string' ? metadata.mime_type : undefined,
+    heading_path:
+      typeof metadata?.heading_path === 'string' && metadata.heading_path
+        ? metadata.heading_path
+        : undefined,
+    source: typeof metadata?.source === 'string' && metadata.source ? metadata.source : undefined,
+    text: typeof metadata?.text === 'string' ? metadata.text : undefined,
+  };
+}
+
+/**
+ * Translate a store-agnostic query filter into Vectorize filter syntax
+ *
+ * - pathPrefix → lexicographic range on file_path
+ * - mimeTypes → $in on mime_type
+ * - modifiedAfter → $gt on last_modified (ISO strings sort chronologically)
+ */
+export function buildVectorizeFilter(
+  filter: VectorQueryFilter | undefined
+): Record<string, unknown> | undefined {
+  if (!filter) {
+    return undefined;
+  }
+
+  const vectorizeFilter: Record<string, unknown> = {};
+
+  if (filter.pathPrefix) {
+    vectorizeFilter.file_path = { $gte: filter.pathPrefix, $lt: `${filter.pathPrefix}\uffff` };
+  }
+
+  if (filter.mimeTypes && filter.mimeTypes.length > 0) {
+    vectorizeFilter.mime_type =
+      filter.mimeTypes.length === 1 ? { $eq: filter.mimeTypes[0] } : { $in: filter.mimeTypes };
+  }
+
+  if (filter.modifiedAfter) {
+    vectorizeFilter.last_modified = { $gt: new Date(filter.modifiedAfter).toISOString() };
+  }
+
+  return Object.keys(vectorizeFilter).length > 0 ? vectorizeFilter : undefined;
+}
+
 /**
  * Vectorize client configuration
  */
@@ -30,6 +126,11 @@ export interface VectorizeConfig {
   index: VectorizeIndex;
   fileIndex: KVNamespace;
   collectionName: string; // Kept for interface compatibility
+  /**
+   * Prefix for this index's keys in the file index namespace, so a second index
+   * (embedding migration) can share the namespace (default: none)
+   */
+  keyPrefix?: string;
 }
 
 /**
@@ -45,11 +146,33 @@ export class VectorizeClient implements VectorStoreClient {
   private index: VectorizeIndex;
   private fileIndex: KVNamespace;
   private collectionName: string;
+  private fileKeyPrefix: string;
+  private countKey: string;
+  private circuit = new CircuitBreaker('Vectorize');
 
   constructor(config: VectorizeConfig) {
     this.index = config.index;
     this.fileIndex = config.fileIndex;
     this.collectionName = config.collectionName;
+    this.fileKeyPrefix = `${config.keyPrefix || ''}${FILE_INDEX_PREFIX}`;
+    this.countKey = `${config.keyPrefix || ''}${VECTOR_COUNT_KEY}`;
+  }
+
+  /**
+   * Retry a Vectorize call; failures count toward the Vectorize circuit breaker
+   * Errors raised by the binding are marked transient, programming errors stay fatal
+   */
+  private withRetry<T>(fn: () => Promise<T>): Promise<T> {
+    return withRetry(
+      async () => {
+        try {
+          return await fn();
+        } catch (error) {
+          throw isProgrammingError(error) ? error : new BindingError('Vectorize', { cause: error });
+        }
+      },
+      { ...DEFAULT_RETRY_CONFIG, circuit: this.circuit }
+    );
   }
 
   /**
@@ -99,7 +222,7 @@ export class VectorizeClient implements VectorStoreClient {
 
     // 2. Upsert to Vectorize
     try {
-      await withRetry(async () => {
+      await this.withRetry(async () => {
         await this.index.upsert(
           vectors.map(v => ({
             id: v.id,
@@ -111,6 +234,9 @@ export class VectorizeClient implements VectorStoreClient {
               chunk_index: v.payload.chunk_index,
               chunk_hash: v.payload.chunk_hash,
               last_modified: v.payload.last_modified,
+              mime_type: v.payload.mime_type || '',
+              heading_path: v.payload.heading_path || '',
+              source: v.payload.source || '',
               text: v.payload.text || '',
             },
           }))
@@ -119,7 +245,9 @@ export class VectorizeClient implements VectorStoreClient {
 
       console.log(`Upserted ${vectors.length} vectors to Vectorize`);
     } catch (error) {
-      throw new Error(`Failed to upsert vectors: ${(error as Error).message}`);
+      throw new VectorizeError(`Failed to upsert vectors: ${(error as Error).message}`, undefined, {
+        cause: error,
+      });
     }
 
     // 3. Update FILE_VECTOR_INDEX and track newly added IDs
@@ -127,7 +255,7 @@ export class VectorizeClient implements VectorStoreClient {
 
     for (const [fileId, newIds] of vectorsByFile.entries()) {
       try {
-        const key = `file:${fileId}`;
+        const key = `${this.fileKeyPrefix}${fileId}`;
 
         // Merge with existing IDs (in case of partial updates)
         const existingJson = await this.fileIndex.get(key);
@@ -157,7 +285,7 @@ export class VectorizeClient implements VectorStoreClient {
   async getVectorsByFileId(fileId: string): Promise<VectorPoint[]> {
     try {
       // 1. Get vector IDs from KV index
-      const key = `file:${fileId}`;
+      const key = `${this.fileKeyPrefix}${fileId}`;
       const idsJson = await this.fileIndex.get(key);
 
       if (!idsJson) {
@@ -172,33 +300,36 @@ export class VectorizeClient implements VectorStoreClient {
       }
 
       // 2. Fetch vectors from Vectorize
-      const response = await withRetry(async () => {
-        return await this.index.getByIds(ids);
-      });
+      return await this.fetchByIds(ids);
+    } catch (error) {
+      throw new VectorizeError(
+        `Failed to get vectors by file ID: ${(error as Error).message}`,
+        undefined,
+        {
+          cause: error,
+        }
+      );
+    }
+  }
 
-      // 3. Transform to VectorPoint format with type-safe metadata access
-      const vectors: VectorPoint[] = response.map((item: VectorizeMatch) => {
-        const metadata = item.metadata as Record<string, unknown> | undefined;
-
-        return {
-          id: item.id,
-          vector: item.values || [],
-          payload: {
-            file_id: typeof metadata?.file_id === 'string' ? metadata.file_id : '',
-            file_name: typeof metadata?.file_name === 'string' ? metadata.file_name : '',
-            file_path: typeof metadata?.file_path === 'string' ? metadata.file_path : '',
-            chunk_index: typeof metadata?.chunk_index === 'number' ? metadata.chunk_index : 0,
-            chunk_hash: typeof metadata?.chunk_hash === 'string' ? metadata.chunk_hash : '',
-            last_modified:
-              typeof metadata?.last_modified === 'string' ? metadata.last_modified : '',
-            text: typeof metadata?.text === 'string' ? metadata.text : undefined,
-          },
-        };
-      });
+  /**
+   * Get vectors by their IDs directly from Vectorize
+   */
+  async getVectorsByIds(vectorIds: string[]): Promise<VectorPoint[]> {
+    if (vectorIds.length === 0) {
+      return [];
+    }
 
-      return vectors;
+    try {
+      return await this.fetchByIds(vectorIds);
     } catch (error) {
-      throw new Error(`Failed to get vectors by file ID: ${(error as Error).message}`);
+      throw new VectorizeError(
+        `Failed to get vectors by IDs: ${(error as Error).message}`,
+        undefined,
+        {
+          cause: error,
+        }
+      );
     }
   }
 
@@ -212,13 +343,19 @@ export class VectorizeClient implements VectorStoreClient {
 
     try {
       // 1. Delete from Vectorize
-      await withRetry(async () => {
+      await this.withRetry(async () => {
         await this.index.deleteByIds(vectorIds);
       });
 
       console.log(`Deleted ${vectorIds.length} vectors from Vectorize`);
     } catch (error) {
-      throw new Error(`Failed to delete vectors by IDs: ${(error as Error).message}`);
+      throw new VectorizeError(
+        `Failed to delete vectors by IDs: ${(error as Error).message}`,
+        undefined,
+        {
+          cause: error,
+        }
+      );
     }
 
     // 2. Update KV index - remove these IDs from file entries
@@ -236,7 +373,7 @@ export class VectorizeClient implements VectorStoreClient {
     // 3. Update each file's KV index entry
     for (const fileId of fileIds) {
       try {
-        const key = `file:${fileId}`;
+        const key = `${this.fileKeyPrefix}${fileId}`;
         const idsJson = await this.fileIndex.get(key);
 
         if (idsJson) {
@@ -267,7 +404,7 @@ export class VectorizeClient implements VectorStoreClient {
   async deleteVectorsByFileId(fileId: string): Promise<void> {
     try {
       // 1. Get vector IDs from KV
-      const key = `file:${fileId}`;
+      const key = `${this.fileKeyPrefix}${fileId}`;
       const idsJson = await this.fileIndex.get(key);
 
       if (!idsJson) {
@@ -289,7 +426,43 @@ export class VectorizeClient implements VectorStoreClient {
       // Note: KV entry already deleted in deleteVectorsByIds
       console.log(`Deleted ${ids.length} vectors for file: ${fileId}`);
     } catch (error) {
-      throw new Error(`Failed to delete vectors by file ID: ${(error as Error).message}`);
+      throw new VectorizeError(
+        `Failed to delete vectors by file ID: ${(error as Error).message}`,
+        undefined,
+        {
+          cause: error,
+        }
+      );
+    }
+  }
+
+  /**
+   * Query Vectorize for the nearest neighbours of a vector
+   * Metadata is returned in full so callers can render text snippets;
+   * filters are evaluated server-side against INDEXED_METADATA_FIELDS
+   */
+  async queryVectors(vector: number[], options: VectorQueryOptions): Promise<VectorQueryMatch[]> {
+    const filter = buildVectorizeFilter(options.filter);
+
+    try {
+      const response = await this.withRetry(async () => {
+        return await this.index.query(vector, {
+          topK: options.topK,
+          returnValues: false,
+          returnMetadata: 'all',
+          ...(filter ? { filter } : {}),
+        });
+      });
+
+      return response.matches.map(match => ({
+        id: match.id,
+        score: match.score ?? 0,
+        payload: toVectorPayload(match.metadata),
+      }));
+    } catch (error) {
+      throw new VectorizeError(`Failed to query vectors: ${(error as Error).message}`, undefined, {
+        cause: error,
+      });
     }
   }
 
@@ -309,12 +482,27 @@ export class VectorizeClient implements VectorStoreClient {
     };
   }
 
+  /**
+   * Dimensions the index was created with, from the Vectorize binding
+   */
+  async getDimensions(): Promise<number | null> {
+    try {
+      return (await this.index.describe()).dimensions;
+    } catch (error) {
+      console.warn(
+        `Failed to describe Vectorize index '${this.collectionName}':`,
+        (error as Error).message
+      );
+      return null;
+    }
+  }
+
   /**
    * Count vectors - tracked in KV
    */
   async countVectors(): Promise<number> {
     try {
-      const countStr = await this.fileIndex.get('_vector_count');
+      const countStr = await this.fileIndex.get(this.countKey);
       return countStr ? parseInt(countStr, 10) : 0;
     } catch (error) {
       console.error('Failed to get vector count:', error);
@@ -322,6 +510,70 @@ export class VectorizeClient implements VectorStoreClient {
     }
   }
 
+  /**
+   * List file IDs in the KV file index (key names only, no value reads)
+   */
+  async listIndexedFileIds(): Promise<string[]> {
+    const fileIds: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const listResult: KVNamespaceListResult<unknown> = await this.fileIndex.list({
+        prefix: this.fileKeyPrefix,
+        cursor,
+      });
+      fileIds.push(...listResult.keys.map(key => key.name.slice(this.fileKeyPrefix.length)));
+      cursor = listResult.list_complete ? undefined : listResult.cursor;
+    } while (cursor);
+
+    return fileIds;
+  }
+
+  /**
+   * List one page of the KV file index: file:<fileId> → vector IDs
+   * KV lists keys in ascending order, so pages cover consecutive file ID ranges
+   */
+  async listIndexedFiles(options: IndexedFilesPageOptions): Promise<IndexedFilesPage> {
+    const listResult: KVNamespaceListResult<unknown> = await this.fileIndex.list({
+      prefix: this.fileKeyPrefix,
+      cursor: options.cursor,
+      limit: options.limit,
+    });
+    const values = await Promise.all(listResult.keys.map(key => this.fileIndex.get(key.name)));
+
+    const files = new Map<string, string[]>();
+    listResult.keys.forEach((key, i) => {
+      const idsJson = values[i];
+      if (idsJson !== null) {
+        files.set(key.name.slice(this.fileKeyPrefix.length), JSON.parse(idsJson) as string[]);
+      }
+    });
+    return { files, cursor: listResult.list_complete ? null : listResult.cursor };
+  }
+
+  /**
+   * Overwrite the vector count tracked in KV
+   */
+  async setVectorCount(count: number): Promise<void> {
+    await this.fileIndex.put(this.countKey, String(Math.max(0, count)));
+  }
+
+  /**
+   * Fetch vectors from Vectorize and map them to VectorPoint format
+   * @private
+   */
+  private async fetchByIds(ids: string[]): Promise<VectorPoint[]> {
+    const response = await this.withRetry(async () => {
+      return await this.index.getByIds(ids);
+    });
+
+    // Transform to VectorPoint format with type-safe metadata access
+    return response.map((item: VectorizeMatch) => ({
+      id: item.id,
+      vector: item.values || [],
+      payload: toVectorPayload(item.metadata),
+    }));
+  }
+
   /**
    * Update vector count in KV
    * @private
@@ -330,7 +582,7 @@ export class VectorizeClient implements VectorStoreClient {
     try {
       const currentCount = await this.countVectors();
       const newCount = Math.max(0, currentCount + delta);
-      await this.fileIndex.put('_vector_count', String(newCount));
+      await this.fileIndex.put(this.countKey, String(newCount));
     } catch (error) {
       console.error('Failed to update vector count:', error);
       // Non-critical, don't throw